@@ -0,0 +1,147 @@
+import { Metadata } from 'next'
+import { notFound } from 'next/navigation'
+import ActorPageClient from '../../../components/ActorPageClient'
+import { getActorPageData, getActorSlugsForStaticParams, type ActorPageData } from '../../../lib/actors'
+
+// Pre-render people with 2+ films - everyone else is rendered on demand
+export async function generateStaticParams() {
+  return getActorSlugsForStaticParams().map(slug => ({ slug }))
+}
+
+// Generate metadata for SEO
+export async function generateMetadata({
+  params
+}: {
+  params: { slug: string }
+}): Promise<Metadata> {
+  const actorData = getActorPageData(params.slug)
+
+  if (!actorData) {
+    return {
+      title: 'Person Not Found',
+    }
+  }
+
+  const { actor, stats, movies } = actorData
+
+  const title = `${actor.name} Filming Locations - ${stats.totalMovies} Movies | FilmingMap`
+  const description = `Explore ${stats.totalLocations} filming locations across ${stats.totalMovies} movies and TV series with ${actor.name}, in ${Object.keys(stats.countries).length} countries${movies[0] ? ` - from ${movies[0].title} and more` : ''}.`
+
+  return {
+    title,
+    description,
+    keywords: [
+      actor.name,
+      `${actor.name} movies`,
+      `${actor.name} filming locations`,
+      ...movies.slice(0, 5).map(movie => movie.title),
+      'filming locations',
+      'movie tourism',
+    ],
+    openGraph: {
+      title,
+      description,
+      type: 'profile',
+      url: `https://filmingmap.com/actor/${params.slug}`,
+      siteName: 'FilmingMap',
+      ...(actor.profile ? { images: [{ url: actor.profile, alt: actor.name }] } : {}),
+    },
+    twitter: {
+      card: 'summary',
+      title,
+      description,
+    },
+    alternates: {
+      canonical: `https://filmingmap.com/actor/${params.slug}`,
+    },
+  }
+}
+
+// Generate JSON-LD schema for actor page
+function generateActorSchema(actorData: ActorPageData, slug: string) {
+  const { actor, movies } = actorData
+  const baseUrl = process.env.NEXT_PUBLIC_SITE_URL || 'https://filmingmap.com'
+
+  const breadcrumbSchema = {
+    '@context': 'https://schema.org',
+    '@type': 'BreadcrumbList',
+    itemListElement: [
+      {
+        '@type': 'ListItem',
+        position: 1,
+        name: 'Home',
+        item: baseUrl,
+      },
+      {
+        '@type': 'ListItem',
+        position: 2,
+        name: actor.name,
+        item: `${baseUrl}/actor/${slug}`,
+      },
+    ],
+  }
+
+  const personSchema = {
+    '@context': 'https://schema.org',
+    '@type': 'Person',
+    name: actor.name,
+    url: `${baseUrl}/actor/${slug}`,
+    image: actor.profile,
+    birthDate: actor.dob,
+    birthPlace: actor.birth_place?.name,
+    sameAs: actor.imdb_id ? [`https://www.imdb.com/name/${actor.imdb_id}/`] : undefined,
+    jobTitle: actor.roles.includes('director') ? 'Director' : 'Actor',
+  }
+
+  // Top films without aggregateRating to avoid review issues
+  const filmsSchema = {
+    '@context': 'https://schema.org',
+    '@type': 'ItemList',
+    name: `${actor.name} movies`,
+    itemListElement: movies.slice(0, 10).map((movie, index) => ({
+      '@type': 'ListItem',
+      position: index + 1,
+      item: {
+        '@type': 'Movie',
+        name: movie.title,
+        datePublished: movie.year?.toString(),
+      },
+    })),
+  }
+
+  return [breadcrumbSchema, personSchema, filmsSchema]
+}
+
+export default async function ActorPage({
+  params
+}: {
+  params: { slug: string }
+}) {
+  const actorData = getActorPageData(params.slug)
+
+  if (!actorData) {
+    notFound()
+  }
+
+  const schemas = generateActorSchema(actorData, params.slug)
+
+  return (
+    <>
+      {/* JSON-LD for SEO */}
+      {schemas.map((schema, index) => (
+        <script
+          key={index}
+          type="application/ld+json"
+          dangerouslySetInnerHTML={{ __html: JSON.stringify(schema) }}
+        />
+      ))}
+
+      {/* Client Component */}
+      <ActorPageClient
+        actor={actorData.actor}
+        movies={actorData.movies}
+        stats={actorData.stats}
+      />
+    </>
+  )
+}
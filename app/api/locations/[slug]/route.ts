@@ -0,0 +1,51 @@
+import { getLocationPageData } from '../../../../lib/locations'
+import {
+  API_MOVIE_FIELDS,
+  errorResponse,
+  jsonResponse,
+  parseFields,
+  parsePagination,
+  pickFields,
+  toApiLocationMovie,
+  toApiLocationPage,
+  withApiErrors,
+  type ApiMovie,
+} from '../../../../lib/api'
+
+/**
+ * GET /api/locations/[slug]
+ * City location page with stats and its movies (paginated; ?fields= applies to movies)
+ */
+export const GET = withApiErrors((request, { params }) => {
+  const searchParams = new URL(request.url).searchParams
+  const { page, perPage } = parsePagination(searchParams)
+  const fields = parseFields<ApiMovie>(searchParams, API_MOVIE_FIELDS)
+
+  const locationData = getLocationPageData(params.slug)
+  if (!locationData) {
+    return errorResponse(404, `Location "${params.slug}" not found`)
+  }
+
+  const { location, movies, stats } = locationData
+  const start = (page - 1) * perPage
+
+  return jsonResponse(
+    request,
+    {
+      ...toApiLocationPage(location, movies.length),
+      stats: {
+        total_movies: stats.totalMovies,
+        total_locations: stats.totalLocations,
+        genres: stats.genres,
+        decades: stats.decades,
+      },
+      movies: movies
+        .slice(start, start + perPage)
+        .map(movie => {
+          const { city_locations_count, ...apiMovie } = toApiLocationMovie(movie)
+          return { ...pickFields(apiMovie, fields), city_locations_count }
+        }),
+    },
+    { page, perPage, total: movies.length, pages: Math.ceil(movies.length / perPage) }
+  )
+})
@@ -0,0 +1,38 @@
+import { getAllLocationSlugs } from '../../../lib/locations'
+import {
+  jsonResponse,
+  parseFields,
+  parsePagination,
+  pickFields,
+  toApiLocationPage,
+  withApiErrors,
+  type ApiLocationPage,
+} from '../../../lib/api'
+
+const LOCATION_FIELDS: readonly (keyof ApiLocationPage)[] = ['slug', 'city', 'country', 'coordinates', 'movies_count']
+
+/**
+ * GET /api/locations
+ * List city location pages, optionally filtered by ?country=, with pagination and field selection
+ */
+export const GET = withApiErrors((request) => {
+  const params = new URL(request.url).searchParams
+  const { page, perPage } = parsePagination(params)
+  const fields = parseFields<ApiLocationPage>(params, LOCATION_FIELDS)
+  const country = params.get('country')?.toLowerCase()
+
+  const locations = getAllLocationSlugs()
+    .filter(location => !country || location.country.toLowerCase() === country)
+
+  const start = (page - 1) * perPage
+  const data = locations
+    .slice(start, start + perPage)
+    .map(location => pickFields(toApiLocationPage(location, location.movieCount), fields))
+
+  return jsonResponse(request, data, {
+    page,
+    perPage,
+    total: locations.length,
+    pages: Math.ceil(locations.length / perPage),
+  })
+})
@@ -0,0 +1,27 @@
+import { getMovieById, getMovieBySlug } from '../../../../lib/movies'
+import {
+  API_MOVIE_DETAIL_FIELDS,
+  errorResponse,
+  jsonResponse,
+  parseFields,
+  pickFields,
+  toApiMovieDetail,
+  withApiErrors,
+  type ApiMovieDetail,
+} from '../../../../lib/api'
+
+/**
+ * GET /api/movies/[slug]
+ * Single movie with all filming locations; also accepts an IMDb id in place of the slug
+ */
+export const GET = withApiErrors((request, { params }) => {
+  const searchParams = new URL(request.url).searchParams
+  const fields = parseFields<ApiMovieDetail>(searchParams, API_MOVIE_DETAIL_FIELDS)
+
+  const movie = getMovieBySlug(params.slug) || getMovieById(params.slug)
+  if (!movie) {
+    return errorResponse(404, `Movie "${params.slug}" not found`)
+  }
+
+  return jsonResponse(request, pickFields(toApiMovieDetail(movie), fields))
+})
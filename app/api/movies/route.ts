@@ -0,0 +1,91 @@
+import { queryMovies, type BBox, type MovieSortKey } from '../../../lib/movies'
+import {
+  ApiError,
+  API_MOVIE_FIELDS,
+  jsonResponse,
+  parseFields,
+  parseListParam,
+  parseNumberParam,
+  parsePagination,
+  pickFields,
+  toApiMovie,
+  withApiErrors,
+  type ApiMovie,
+} from '../../../lib/api'
+
+const SORT_KEYS: MovieSortKey[] = ['rating', 'year', 'title', 'locations']
+
+/**
+ * Parse ?bbox=minLng,minLat,maxLng,maxLat
+ */
+function parseBBox(params: URLSearchParams): BBox | undefined {
+  const parts = parseListParam(params, 'bbox')
+  if (parts.length === 0) return undefined
+
+  const bbox = parts.map(Number)
+  if (bbox.length !== 4 || bbox.some(n => !Number.isFinite(n))) {
+    throw new ApiError(400, '"bbox" must be minLng,minLat,maxLng,maxLat')
+  }
+  return bbox as BBox
+}
+
+/**
+ * Parse an optional [min, max] range from two query parameters
+ */
+function parseRange(
+  params: URLSearchParams,
+  minName: string,
+  maxName: string,
+  defaults: [number, number]
+): [number, number] | undefined {
+  const min = parseNumberParam(params, minName)
+  const max = parseNumberParam(params, maxName)
+  if (min === undefined && max === undefined) return undefined
+  return [min ?? defaults[0], max ?? defaults[1]]
+}
+
+/**
+ * GET /api/movies
+ * List movies with filters (genres, yearMin/yearMax, ratingMin/ratingMax, type, country, city, bbox),
+ * sorting (sort, order), pagination (page, perPage) and field selection (fields)
+ */
+export const GET = withApiErrors((request) => {
+  const params = new URL(request.url).searchParams
+  const { page, perPage } = parsePagination(params)
+  const fields = parseFields<ApiMovie>(params, API_MOVIE_FIELDS)
+
+  const type = params.get('type') || undefined
+  if (type && type !== 'movie' && type !== 'tv') {
+    throw new ApiError(400, '"type" must be "movie" or "tv"')
+  }
+
+  const sort = params.get('sort') || undefined
+  if (sort && !SORT_KEYS.includes(sort as MovieSortKey)) {
+    throw new ApiError(400, `"sort" must be one of: ${SORT_KEYS.join(', ')}`)
+  }
+
+  const order = params.get('order') || undefined
+  if (order && order !== 'asc' && order !== 'desc') {
+    throw new ApiError(400, '"order" must be "asc" or "desc"')
+  }
+
+  const result = queryMovies({
+    genres: parseListParam(params, 'genres'),
+    yearRange: parseRange(params, 'yearMin', 'yearMax', [0, 9999]),
+    ratingRange: parseRange(params, 'ratingMin', 'ratingMax', [0, 10]),
+    type: type as 'movie' | 'tv' | undefined,
+    country: params.get('country') || undefined,
+    city: params.get('city') || undefined,
+    bbox: parseBBox(params),
+    sort: sort as MovieSortKey | undefined,
+    order: order as 'asc' | 'desc' | undefined,
+    page,
+    perPage,
+  })
+
+  return jsonResponse(
+    request,
+    result.movies.map(movie => pickFields(toApiMovie(movie), fields)),
+    { page, perPage, total: result.total, pages: result.pages }
+  )
+})
@@ -0,0 +1,61 @@
+import { findLocationsWithinRadius, findNearestLocations } from '../../../lib/nearby'
+import {
+  ApiError,
+  API_MOVIE_FIELDS,
+  jsonResponse,
+  parseFields,
+  parseIntParam,
+  parseNumberParam,
+  pickFields,
+  toApiLocation,
+  toApiMovie,
+  withApiErrors,
+  type ApiMovie,
+} from '../../../lib/api'
+
+const DEFAULT_LIMIT = 20
+const MAX_LIMIT = 100
+const MAX_RADIUS_KM = 1000
+
+/**
+ * GET /api/nearby?lat=&lng=
+ * Filming locations sorted by distance from a point.
+ * With ?radius= (km) returns locations within that radius, otherwise the ?limit= nearest ones.
+ * ?fields= applies to the embedded movie
+ */
+export const GET = withApiErrors((request) => {
+  const params = new URL(request.url).searchParams
+  const lat = parseNumberParam(params, 'lat')
+  const lng = parseNumberParam(params, 'lng')
+  const radius = parseNumberParam(params, 'radius')
+  const limit = parseIntParam(params, 'limit') ?? DEFAULT_LIMIT
+  const fields = parseFields<ApiMovie>(params, API_MOVIE_FIELDS)
+
+  if (lat === undefined || lat < -90 || lat > 90) {
+    throw new ApiError(400, '"lat" is required and must be between -90 and 90')
+  }
+  if (lng === undefined || lng < -180 || lng > 180) {
+    throw new ApiError(400, '"lng" is required and must be between -180 and 180')
+  }
+  if (radius !== undefined && (radius <= 0 || radius > MAX_RADIUS_KM)) {
+    throw new ApiError(400, `"radius" must be between 0 and ${MAX_RADIUS_KM} km`)
+  }
+  if (limit < 1 || limit > MAX_LIMIT) {
+    throw new ApiError(400, `"limit" must be between 1 and ${MAX_LIMIT}`)
+  }
+
+  const results = radius !== undefined
+    ? findLocationsWithinRadius(lat, lng, radius, limit)
+    : findNearestLocations(lat, lng, limit)
+
+  return jsonResponse(request, {
+    origin: { lat, lng },
+    radius_km: radius ?? null,
+    results: results.map(result => ({
+      distance_km: Math.round(result.distanceKm * 1000) / 1000,
+      location_index: result.locationIndex,
+      location: toApiLocation(result.location),
+      movie: pickFields(toApiMovie(result.movie), fields),
+    })),
+  })
+})
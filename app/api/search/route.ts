@@ -0,0 +1,50 @@
+import { searchMovies } from '../../../lib/movies'
+import { getAllLocationSlugs } from '../../../lib/locations'
+import {
+  ApiError,
+  API_MOVIE_FIELDS,
+  jsonResponse,
+  parseFields,
+  parseIntParam,
+  pickFields,
+  toApiLocationPage,
+  toApiMovie,
+  withApiErrors,
+  type ApiMovie,
+} from '../../../lib/api'
+
+const DEFAULT_LIMIT = 10
+const MAX_LIMIT = 50
+
+/**
+ * GET /api/search?q=
+ * Title search over movies plus city/country search over location pages
+ */
+export const GET = withApiErrors((request) => {
+  const params = new URL(request.url).searchParams
+  const query = params.get('q')?.trim() || ''
+  const limit = parseIntParam(params, 'limit') ?? DEFAULT_LIMIT
+  const fields = parseFields<ApiMovie>(params, API_MOVIE_FIELDS)
+
+  if (query.length < 2) {
+    throw new ApiError(400, '"q" must be at least 2 characters')
+  }
+  if (limit < 1 || limit > MAX_LIMIT) {
+    throw new ApiError(400, `"limit" must be between 1 and ${MAX_LIMIT}`)
+  }
+
+  const term = query.toLowerCase()
+  const locations = getAllLocationSlugs()
+    .filter(location =>
+      location.city.toLowerCase().includes(term) ||
+      location.country.toLowerCase().includes(term)
+    )
+    .slice(0, limit)
+    .map(location => toApiLocationPage(location, location.movieCount))
+
+  return jsonResponse(request, {
+    query,
+    movies: searchMovies(query, limit).map(movie => pickFields(toApiMovie(movie), fields)),
+    locations,
+  })
+})
@@ -0,0 +1,109 @@
+import { Metadata } from 'next'
+import { notFound } from 'next/navigation'
+import RegionPageClient from '../../../components/RegionPageClient'
+import type { BreadcrumbItem } from '../../../components/Breadcrumbs'
+import { generateBreadcrumbListSchema } from '../../../lib/metadata'
+import { getAllContinentSlugs, getContinentPageData, type ContinentPageData } from '../../../lib/countries'
+
+// Pre-render a page for every continent_*.json
+export async function generateStaticParams() {
+  return getAllContinentSlugs().map(slug => ({ slug }))
+}
+
+// Generate metadata for SEO
+export async function generateMetadata({
+  params
+}: {
+  params: { slug: string }
+}): Promise<Metadata> {
+  const continentData = getContinentPageData(params.slug)
+
+  if (!continentData) {
+    return {
+      title: 'Continent Not Found',
+    }
+  }
+
+  const { continent, stats, countries } = continentData
+
+  const title = `${continent.name} Filming Locations - ${stats.totalMovies} Movies | FilmingMap`
+  const description = `Explore ${stats.totalMovies} movies and TV series filmed across ${countries.length} countries in ${continent.name}${countries.length > 0 ? `, from ${countries.slice(0, 3).map(c => c.name).join(', ')} and more` : ''}.`
+
+  return {
+    title,
+    description,
+    keywords: [
+      `${continent.name} filming locations`,
+      `movies filmed in ${continent.name}`,
+      continent.name,
+      ...countries.slice(0, 5).map(c => c.name),
+      'filming locations',
+      'movie tourism',
+    ],
+    openGraph: {
+      title,
+      description,
+      type: 'website',
+      url: `https://filmingmap.com/continent/${params.slug}`,
+      siteName: 'FilmingMap',
+    },
+    twitter: {
+      card: 'summary',
+      title,
+      description,
+    },
+    alternates: {
+      canonical: `https://filmingmap.com/continent/${params.slug}`,
+    },
+  }
+}
+
+function getBreadcrumbs({ continent }: ContinentPageData): BreadcrumbItem[] {
+  return [
+    { name: 'Home', href: '/' },
+    { name: continent.name, href: `/continent/${continent.slug}` },
+  ]
+}
+
+export default async function ContinentPage({
+  params
+}: {
+  params: { slug: string }
+}) {
+  const continentData = getContinentPageData(params.slug)
+
+  if (!continentData) {
+    notFound()
+  }
+
+  const breadcrumbs = getBreadcrumbs(continentData)
+  const { continent, countries } = continentData
+
+  return (
+    <>
+      {/* JSON-LD for SEO */}
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{ __html: JSON.stringify(generateBreadcrumbListSchema(breadcrumbs)) }}
+      />
+
+      {/* Client Component */}
+      <RegionPageClient
+        name={continent.name}
+        icon="🌍"
+        breadcrumbs={breadcrumbs}
+        places={countries.map(country => ({
+          name: country.name,
+          href: `/country/${country.slug}`,
+          movieCount: country.movieCount,
+          locationCount: country.locationCount,
+        }))}
+        placesTitle="Countries"
+        movies={continentData.movies}
+        stats={continentData.stats}
+        bbox={continent.bbox}
+        points={continentData.points}
+      />
+    </>
+  )
+}
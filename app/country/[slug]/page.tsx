@@ -0,0 +1,146 @@
+import { Metadata } from 'next'
+import { notFound } from 'next/navigation'
+import RegionPageClient from '../../../components/RegionPageClient'
+import type { BreadcrumbItem } from '../../../components/Breadcrumbs'
+import { generateBreadcrumbListSchema } from '../../../lib/metadata'
+import { getAllCountrySlugs, getCountryPageData, type CountryPageData } from '../../../lib/countries'
+
+// Pre-render a page for every country_*.json
+export async function generateStaticParams() {
+  return getAllCountrySlugs().map(slug => ({ slug }))
+}
+
+// Generate metadata for SEO
+export async function generateMetadata({
+  params
+}: {
+  params: { slug: string }
+}): Promise<Metadata> {
+  const countryData = getCountryPageData(params.slug)
+
+  if (!countryData) {
+    return {
+      title: 'Country Not Found',
+    }
+  }
+
+  const { country, stats, cities, movies } = countryData
+
+  const title = `${country.name} Filming Locations - ${stats.totalMovies} Movies | FilmingMap`
+  const description = `Explore ${stats.totalMovies} movies and TV series filmed in ${country.name}, with ${stats.totalLocations} filming locations${cities.length > 0 ? ` in ${cities.slice(0, 3).map(c => c.city).join(', ')} and more` : ''}.${movies[0] ? ` Featuring ${movies.slice(0, 2).map(m => m.title).join(' and ')}.` : ''}`
+
+  return {
+    title,
+    description,
+    keywords: [
+      `${country.name} filming locations`,
+      `movies filmed in ${country.name}`,
+      country.name,
+      country.continent.name,
+      ...cities.slice(0, 5).map(c => c.city),
+      'filming locations',
+      'movie tourism',
+    ],
+    openGraph: {
+      title,
+      description,
+      type: 'website',
+      url: `https://filmingmap.com/country/${params.slug}`,
+      siteName: 'FilmingMap',
+    },
+    twitter: {
+      card: 'summary',
+      title,
+      description,
+    },
+    alternates: {
+      canonical: `https://filmingmap.com/country/${params.slug}`,
+    },
+  }
+}
+
+function getBreadcrumbs({ country }: CountryPageData): BreadcrumbItem[] {
+  return [
+    { name: 'Home', href: '/' },
+    { name: country.continent.name, href: `/continent/${country.continent.slug}` },
+    { name: country.name, href: `/country/${country.slug}` },
+  ]
+}
+
+// Generate JSON-LD schema for country page
+function generateCountrySchema(countryData: CountryPageData) {
+  const { country, stats, movies } = countryData
+  const baseUrl = process.env.NEXT_PUBLIC_SITE_URL || 'https://filmingmap.com'
+
+  const placeSchema = {
+    '@context': 'https://schema.org',
+    '@type': 'Country',
+    name: country.name,
+    description: `Explore ${stats.totalMovies} movies filmed in ${country.name}`,
+    url: `${baseUrl}/country/${country.slug}`,
+    containedInPlace: {
+      '@type': 'Continent',
+      name: country.continent.name,
+    },
+    geo: {
+      '@type': 'GeoCoordinates',
+      latitude: country.coordinates.lat,
+      longitude: country.coordinates.lng,
+    },
+    // List featured movies without aggregateRating to avoid review issues
+    subjectOf: movies.slice(0, 5).map(movie => ({
+      '@type': 'Movie',
+      name: movie.title,
+      datePublished: movie.year?.toString(),
+    })),
+  }
+
+  return [generateBreadcrumbListSchema(getBreadcrumbs(countryData)), placeSchema]
+}
+
+export default async function CountryPage({
+  params
+}: {
+  params: { slug: string }
+}) {
+  const countryData = getCountryPageData(params.slug)
+
+  if (!countryData) {
+    notFound()
+  }
+
+  const schemas = generateCountrySchema(countryData)
+  const { country, cities } = countryData
+
+  return (
+    <>
+      {/* JSON-LD for SEO */}
+      {schemas.map((schema, index) => (
+        <script
+          key={index}
+          type="application/ld+json"
+          dangerouslySetInnerHTML={{ __html: JSON.stringify(schema) }}
+        />
+      ))}
+
+      {/* Client Component */}
+      <RegionPageClient
+        name={country.name}
+        icon="🗺️"
+        subtitle={country.continent.name}
+        breadcrumbs={getBreadcrumbs(countryData)}
+        places={cities.map(city => ({
+          name: city.city,
+          href: `/location/${city.slug}`,
+          movieCount: city.movieCount,
+          locationCount: city.locationCount,
+        }))}
+        placesTitle="Cities"
+        movies={countryData.movies}
+        stats={countryData.stats}
+        bbox={country.bbox}
+        points={countryData.points}
+      />
+    </>
+  )
+}
@@ -1,42 +1,13 @@
 import { Metadata } from 'next'
 import { notFound } from 'next/navigation'
-import * as fs from 'fs'
-import * as path from 'path'
 import LocationPageClient from '../../../components/LocationPageClient'
+import { getAllLocationSlugs, getLocationPageData, type LocationPageData } from '../../../lib/locations'
+import { getCountryByName, type CountrySummary } from '../../../lib/countries'
+import { generateBreadcrumbListSchema } from '../../../lib/metadata'
 
-interface LocationData {
-  location: {
-    city: string
-    country: string
-    slug: string
-    coordinates: { lat: number; lng: number }
-  }
-  movies: Array<{
-    movie_id: string
-    title: string
-    year: number
-    genres: string[]
-    poster?: string
-    banner_1280?: string
-    thumbnail_52?: string
-    imdb_rating?: number
-    londonLocationCount: number
-  }>
-  stats: {
-    totalMovies: number
-    totalLocations: number
-    genres: Record<string, number>
-    decades: Record<string, number>
-  }
-}
-
-// Generate static params for known locations
+// Pre-render a page for every location_*.json city
 export async function generateStaticParams() {
-  // For now, only London is available
-  // In the future, add more cities: paris-france, new-york-usa, etc.
-  return [
-    { slug: 'london-uk' },
-  ]
+  return getAllLocationSlugs().map(location => ({ slug: location.slug }))
 }
 
 // Generate metadata for SEO
@@ -45,7 +16,7 @@ export async function generateMetadata({
 }: {
   params: { slug: string }
 }): Promise<Metadata> {
-  const locationData = await getLocationData(params.slug)
+  const locationData = getLocationPageData(params.slug)
 
   if (!locationData) {
     return {
@@ -53,10 +24,17 @@ export async function generateMetadata({
     }
   }
 
-  const { location, stats } = locationData
+  const { location, stats, movies } = locationData
+
+  // Highest rated titles filmed here ("From Skyfall to Paddington")
+  const highlights = movies
+    .filter(m => m.imdb_rating)
+    .sort((a, b) => (b.imdb_rating || 0) - (a.imdb_rating || 0))
+    .slice(0, 2)
+    .map(m => m.title)
 
   const title = `${location.city} Filming Locations - ${stats.totalMovies} Movies | FilmingMap`
-  const description = `Explore ${stats.totalMovies} movies and TV series filmed in ${location.city}, ${location.country}. Featuring ${stats.totalLocations} unique filming locations across ${Object.keys(stats.genres).length} genres. From ${location.city === 'London' ? 'The Dark Knight to Sherlock' : 'iconic blockbusters to indie films'}.`
+  const description = `Explore ${stats.totalMovies} movies and TV series filmed in ${location.city}, ${location.country}. Featuring ${stats.totalLocations} unique filming locations across ${Object.keys(stats.genres).length} genres. From ${highlights.length === 2 ? `${highlights[0]} to ${highlights[1]}` : 'iconic blockbusters to indie films'}.`
 
   const topGenres = Object.entries(stats.genres)
     .sort(([, a], [, b]) => b - a)
@@ -104,27 +82,24 @@ export async function generateMetadata({
   }
 }
 
-// Load location data from JSON file
-async function getLocationData(slug: string): Promise<LocationData | null> {
-  try {
-    const dataPath = path.join(process.cwd(), 'data', `location_${slug}.json`)
-
-    if (!fs.existsSync(dataPath)) {
-      return null
-    }
-
-    const data = fs.readFileSync(dataPath, 'utf-8')
-    return JSON.parse(data)
-  } catch (error) {
-    console.error(`Error loading location data for ${slug}:`, error)
-    return null
-  }
+// Continent → country → city when the country has a hub page, otherwise Locations → city
+function getBreadcrumbs(locationData: LocationPageData, country: CountrySummary | null) {
+  const { location } = locationData
+  return [
+    { name: 'Home', href: '/' },
+    ...(country
+      ? [
+          { name: country.continent.name, href: `/continent/${country.continent.slug}` },
+          { name: country.name, href: `/country/${country.slug}` },
+        ]
+      : [{ name: 'Locations', href: '/location' }]),
+    { name: country ? location.city : `${location.city}, ${location.country}`, href: `/location/${location.slug}` },
+  ]
 }
 
 // Generate JSON-LD schema for location page
-function generateLocationSchema(locationData: LocationData, slug: string) {
+function generateLocationSchema(locationData: LocationPageData, country: CountrySummary | null) {
   const { location, stats, movies } = locationData
-  const baseUrl = process.env.NEXT_PUBLIC_SITE_URL || 'https://filmingmap.com'
 
   // Get top 5 movies by rating for schema
   const topMovies = movies
@@ -132,31 +107,7 @@ function generateLocationSchema(locationData: LocationData, slug: string) {
     .sort((a, b) => (b.imdb_rating || 0) - (a.imdb_rating || 0))
     .slice(0, 5)
 
-  // Breadcrumb schema
-  const breadcrumbSchema = {
-    '@context': 'https://schema.org',
-    '@type': 'BreadcrumbList',
-    itemListElement: [
-      {
-        '@type': 'ListItem',
-        position: 1,
-        name: 'Home',
-        item: baseUrl,
-      },
-      {
-        '@type': 'ListItem',
-        position: 2,
-        name: 'Locations',
-        item: `${baseUrl}/location`,
-      },
-      {
-        '@type': 'ListItem',
-        position: 3,
-        name: `${location.city}, ${location.country}`,
-        item: `${baseUrl}/location/${slug}`,
-      },
-    ],
-  }
+  const breadcrumbSchema = generateBreadcrumbListSchema(getBreadcrumbs(locationData, country))
 
   // Location schema
   const locationSchema = {
@@ -193,13 +144,14 @@ export default async function LocationPage({
 }: {
   params: { slug: string }
 }) {
-  const locationData = await getLocationData(params.slug)
+  const locationData = getLocationPageData(params.slug)
 
   if (!locationData) {
     notFound()
   }
 
-  const schemas = generateLocationSchema(locationData, params.slug)
+  const country = getCountryByName(locationData.location.country)
+  const schemas = generateLocationSchema(locationData, country)
 
   return (
     <>
@@ -217,6 +169,7 @@ export default async function LocationPage({
         movies={locationData.movies}
         location={locationData.location}
         stats={locationData.stats}
+        breadcrumbs={getBreadcrumbs(locationData, country)}
       />
     </>
   )
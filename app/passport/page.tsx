@@ -0,0 +1,16 @@
+import { Metadata } from 'next'
+import PassportClient from '../../components/PassportClient'
+
+// Built from the visitor's own saved data (localStorage) - nothing to index
+export const metadata: Metadata = {
+  title: 'My Passport - Visited Filming Locations | FilmingMap',
+  description: 'The filming locations you have visited - countries, cities, movie progress and badges.',
+  robots: {
+    index: false,
+    follow: true,
+  },
+}
+
+export default function PassportPage() {
+  return <PassportClient />
+}
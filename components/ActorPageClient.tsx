@@ -0,0 +1,289 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import Breadcrumbs from './Breadcrumbs'
+import { STYLES } from '../lib/constants/theme'
+import type { Actor, Location } from '../lib/types'
+
+interface ActorMovie {
+  movie_id: string
+  slug: string | null
+  title: string
+  year: number
+  poster?: string
+  imdb_rating?: number
+  character?: string
+  locations: readonly Location[]
+}
+
+interface ActorPageClientProps {
+  actor: Actor
+  movies: ActorMovie[]
+  stats: {
+    totalMovies: number
+    totalLocations: number
+    countries: Record<string, number>
+  }
+}
+
+/**
+ * Location title and context from display_name ("Pile Gate", "Dubrovnik, Croatia")
+ */
+function splitLocationName(location: Location): [string, string] {
+  const parts = (location.display_name || location.description || '').split(',').map(part => part.trim())
+  const title = parts[0] || location.city || 'Unknown location'
+  const context = parts.length > 1
+    ? [parts[1], parts[parts.length - 1]].filter((part, i, all) => all.indexOf(part) === i).join(', ')
+    : location.country || ''
+  return [title, context]
+}
+
+export default function ActorPageClient({ actor, movies, stats }: ActorPageClientProps) {
+  const [sortBy, setSortBy] = useState<'rating' | 'year' | 'locations'>('rating')
+  const [selectedCountry, setSelectedCountry] = useState<string>('all')
+
+  const topCountries = Object.entries(stats.countries)
+    .sort(([, a], [, b]) => b - a)
+
+  const matchesCountry = (location: Location) =>
+    selectedCountry === 'all' ||
+    location.country === selectedCountry ||
+    (location.display_name || '').split(',').pop()?.trim() === selectedCountry
+
+  // Filter locations by country (keeping their index for ?loc=) and sort movies
+  const filteredMovies = movies
+    .map(movie => ({
+      ...movie,
+      matches: movie.locations
+        .map((location, index) => ({ location, index }))
+        .filter(({ location }) => matchesCountry(location)),
+    }))
+    .filter(movie => movie.matches.length > 0)
+    .sort((a, b) => {
+      switch (sortBy) {
+        case 'rating':
+          return (b.imdb_rating || 0) - (a.imdb_rating || 0)
+        case 'year':
+          return b.year - a.year
+        case 'locations':
+          return b.matches.length - a.matches.length
+        default:
+          return 0
+      }
+    })
+
+  const roleLabel = actor.roles.includes('director')
+    ? actor.roles.includes('cast') ? 'Actor & Director' : 'Director'
+    : 'Actor'
+
+  return (
+    <div className="min-h-screen text-white pt-20" style={STYLES.spaceBackground} data-actor-page>
+      {/* Header */}
+      <div className="relative overflow-hidden">
+        <div className="relative container mx-auto px-4 py-16">
+          {/* Breadcrumbs */}
+          <Breadcrumbs
+            items={[
+              { name: 'Home', href: '/' },
+              { name: actor.name },
+            ]}
+          />
+
+          {/* Actor Header */}
+          <div className="max-w-4xl">
+            <div className="flex items-center gap-6 mb-4">
+              {actor.profile ? (
+                <img
+                  src={actor.profile}
+                  alt={actor.name}
+                  className="w-28 h-28 md:w-36 md:h-36 rounded-full object-cover border-2 border-white/20"
+                />
+              ) : (
+                <span className="text-6xl">🎭</span>
+              )}
+              <div>
+                <h1 className="text-5xl md:text-7xl font-bold mb-2">
+                  {actor.name}
+                </h1>
+                <p className="text-2xl text-gray-300">{roleLabel}</p>
+              </div>
+            </div>
+
+            {(actor.dob || actor.birth_place?.name) && (
+              <p className="text-lg text-gray-400 mt-4">
+                {actor.dob && <>Born {actor.dob}</>}
+                {actor.birth_place?.name && <> in {actor.birth_place.name}</>}
+              </p>
+            )}
+
+            <p className="text-xl text-gray-300 mt-6 leading-relaxed">
+              Explore <strong className="text-white">{stats.totalLocations} filming locations</strong> across{' '}
+              <strong className="text-white">{stats.totalMovies} movies and TV series</strong> with {actor.name},
+              spanning {topCountries.length} {topCountries.length === 1 ? 'country' : 'countries'}.
+            </p>
+          </div>
+
+          {/* Quick Stats */}
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4 mt-10">
+            <div className="bg-black/40 backdrop-blur-sm rounded-xl p-6 border border-white/10">
+              <div className="text-4xl font-bold text-primary-400 mb-2">{stats.totalMovies}</div>
+              <div className="text-sm text-gray-400">Movies & Series</div>
+            </div>
+            <div className="bg-black/40 backdrop-blur-sm rounded-xl p-6 border border-white/10">
+              <div className="text-4xl font-bold text-accent-400 mb-2">{stats.totalLocations}</div>
+              <div className="text-sm text-gray-400">Filming Locations</div>
+            </div>
+            <div className="bg-black/40 backdrop-blur-sm rounded-xl p-6 border border-white/10">
+              <div className="text-4xl font-bold text-primary-300 mb-2">{topCountries.length}</div>
+              <div className="text-sm text-gray-400">Countries</div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Filters & Films */}
+      <div className="container mx-auto px-4 py-12">
+        {/* Filter Controls */}
+        <div className="bg-black/40 backdrop-blur-sm rounded-xl p-6 border border-white/10 mb-8">
+          <div className="flex flex-col md:flex-row gap-6">
+            {/* Sort By */}
+            <div className="flex-1">
+              <label className="block text-sm font-semibold text-gray-400 mb-2">Sort By</label>
+              <select
+                value={sortBy}
+                onChange={(e) => setSortBy(e.target.value as any)}
+                className="w-full bg-gray-800 border border-gray-700 rounded-lg px-4 py-2 text-white focus:outline-none focus:border-primary-500"
+              >
+                <option value="rating">Highest Rated</option>
+                <option value="year">Newest First</option>
+                <option value="locations">Most Locations</option>
+              </select>
+            </div>
+
+            {/* Filter by Country */}
+            <div className="flex-1">
+              <label className="block text-sm font-semibold text-gray-400 mb-2">Country</label>
+              <select
+                value={selectedCountry}
+                onChange={(e) => setSelectedCountry(e.target.value)}
+                className="w-full bg-gray-800 border border-gray-700 rounded-lg px-4 py-2 text-white focus:outline-none focus:border-primary-500"
+              >
+                <option value="all">All Countries</option>
+                {topCountries.map(([country, count]) => (
+                  <option key={country} value={country}>
+                    {country} ({count})
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {/* Results Count */}
+          <div className="mt-4 text-sm text-gray-400">
+            Showing {filteredMovies.length} of {stats.totalMovies} movies
+          </div>
+        </div>
+
+        {/* Films with their locations */}
+        <div className="space-y-6">
+          {filteredMovies.map((movie) => {
+            const movieHref = `/?movie=${movie.slug || movie.movie_id}`
+
+            return (
+              <section
+                key={movie.movie_id}
+                className="bg-black/40 backdrop-blur-sm rounded-xl p-6 border border-white/10"
+              >
+                <div className="flex gap-5">
+                  <Link href={movieHref} className="flex-shrink-0 group">
+                    {movie.poster ? (
+                      <img
+                        src={movie.poster}
+                        alt={movie.title}
+                        className="w-20 md:w-28 aspect-[2/3] object-cover rounded-lg border border-gray-700 group-hover:border-primary-500 transition-colors"
+                        loading="lazy"
+                      />
+                    ) : (
+                      <div className="w-20 md:w-28 aspect-[2/3] flex items-center justify-center rounded-lg bg-gradient-to-br from-gray-800 to-gray-900">
+                        <span className="text-4xl">🎬</span>
+                      </div>
+                    )}
+                  </Link>
+
+                  <div className="flex-1 min-w-0">
+                    <Link href={movieHref} className="hover:underline">
+                      <h2 className="text-2xl font-bold">{movie.title}</h2>
+                    </Link>
+                    <p className="text-sm text-gray-400 mt-1">
+                      {movie.year}
+                      {movie.character && <> • as {movie.character}</>}
+                      {movie.imdb_rating && (
+                        <span className="ml-2 text-yellow-400">⭐ {movie.imdb_rating.toFixed(1)}</span>
+                      )}
+                    </p>
+
+                    {/* Filming locations - open the movie at that location */}
+                    <ul className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-2">
+                      {movie.matches.map(({ location, index }) => {
+                        const [title, context] = splitLocationName(location)
+
+                        return (
+                          <li key={index}>
+                            <Link
+                              href={`${movieHref}&loc=${index}`}
+                              className="block px-3 py-2 rounded-lg bg-white/5 hover:bg-white/10 transition-colors"
+                            >
+                              <div className="flex items-start gap-2">
+                                <span aria-hidden="true">📍</span>
+                                <div className="min-w-0">
+                                  <p className="text-sm font-semibold truncate">{title}</p>
+                                  {context && <p className="text-xs text-gray-400 truncate">{context}</p>}
+                                  {location.scene_description && (
+                                    <p className="text-xs text-gray-300 mt-1 line-clamp-2">🎬 {location.scene_description}</p>
+                                  )}
+                                </div>
+                              </div>
+                            </Link>
+                          </li>
+                        )
+                      })}
+                    </ul>
+                  </div>
+                </div>
+              </section>
+            )
+          })}
+        </div>
+
+        {/* Empty State */}
+        {filteredMovies.length === 0 && (
+          <div className="text-center py-16">
+            <div className="text-6xl mb-4">🎬</div>
+            <h3 className="text-2xl font-bold mb-2">No filming locations found</h3>
+            <p className="text-gray-400">Try another country</p>
+          </div>
+        )}
+      </div>
+
+      {/* Bottom CTA */}
+      <div className="container mx-auto px-4 py-16">
+        <div className="bg-gradient-to-r from-primary-600 to-primary-700 rounded-2xl p-8 md:p-12 text-center">
+          <h2 className="text-3xl md:text-4xl font-bold mb-4">
+            Explore More Filming Locations
+          </h2>
+          <p className="text-lg text-white/90 mb-8 max-w-2xl mx-auto">
+            Discover thousands of movies and their filming locations on our interactive 3D globe
+          </p>
+          <Link
+            href="/"
+            className="inline-flex items-center gap-2 px-8 py-4 bg-white text-gray-900 rounded-lg font-semibold hover:bg-gray-100 transition-all transform hover:scale-105"
+          >
+            <span>🌍</span>
+            <span>Back to Interactive Globe</span>
+          </Link>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -2,8 +2,13 @@
 
 import { useState, useEffect } from 'react'
 import Link from 'next/link'
-import Breadcrumbs from './Breadcrumbs'
+import Breadcrumbs, { type BreadcrumbItem } from './Breadcrumbs'
+import StatsBarChart from './StatsBarChart'
 import { STYLES } from '../lib/constants/theme'
+import { useTrip } from '../src/hooks/useTrip'
+import { useFavorites } from '../src/hooks/useFavorites'
+import { getSpotId } from '../src/utils/map/coordinateUtils'
+import ExportMenu from '../src/components/ExportMenu'
 
 interface LocationMovie {
   movie_id: string
@@ -31,12 +36,20 @@ interface LocationPageClientProps {
     genres: Record<string, number>
     decades: Record<string, number>
   }
+  breadcrumbs: BreadcrumbItem[]
 }
 
-export default function LocationPageClient({ movies, location, stats }: LocationPageClientProps) {
+export default function LocationPageClient({ movies, location, stats, breadcrumbs }: LocationPageClientProps) {
   const [sortBy, setSortBy] = useState<'rating' | 'year' | 'title'>('rating')
   const [selectedGenre, setSelectedGenre] = useState<string>('all')
+  const [selectedDecade, setSelectedDecade] = useState<string>('all')
   const [slugMap, setSlugMap] = useState<Record<string, string>>({})
+  const { addStop, removeStop, hasStop } = useTrip()
+  const { lat, lng } = location.coordinates
+  const isInTrip = hasStop(lat, lng)
+  const { toggleLocation, isFavoriteLocation, toggleVisited, isVisited } = useFavorites()
+  const isFavorite = isFavoriteLocation(lat, lng)
+  const hasVisited = isVisited(lat, lng)
 
   // Load slug mapping on client side
   useEffect(() => {
@@ -53,6 +66,10 @@ export default function LocationPageClient({ movies, location, stats }: Location
     filteredMovies = filteredMovies.filter(m => m.genres.includes(selectedGenre))
   }
 
+  if (selectedDecade !== 'all') {
+    filteredMovies = filteredMovies.filter(m => `${Math.floor(m.year / 10) * 10}s` === selectedDecade)
+  }
+
   filteredMovies.sort((a, b) => {
     switch (sortBy) {
       case 'rating':
@@ -70,19 +87,17 @@ export default function LocationPageClient({ movies, location, stats }: Location
     .sort(([, a], [, b]) => b - a)
     .slice(0, 10)
 
+  // Chronological ("1990s" sorts before "2000s")
+  const decades = Object.entries(stats.decades)
+    .sort(([a], [b]) => a.localeCompare(b))
+
   return (
     <div className="min-h-screen text-white pt-20" style={STYLES.spaceBackground} data-location-page>
       {/* Header */}
       <div className="relative overflow-hidden">
         <div className="relative container mx-auto px-4 py-16">
           {/* Breadcrumbs */}
-          <Breadcrumbs
-            items={[
-              { name: 'Home', href: '/' },
-              { name: 'Locations', href: '/location' },
-              { name: `${location.city}, ${location.country}` },
-            ]}
-          />
+          <Breadcrumbs items={breadcrumbs} />
 
           {/* Location Header */}
           <div className="max-w-4xl">
@@ -101,6 +116,51 @@ export default function LocationPageClient({ movies, location, stats }: Location
               in {location.city}, featuring <strong className="text-white">{stats.totalLocations} unique filming locations</strong>.
               From iconic landmarks to hidden gems, discover where Hollywood met {location.city}.
             </p>
+
+            <div className="mt-6 flex flex-wrap items-center gap-3">
+              {/* Trip planner - the stop shows up in the planner on the globe */}
+              <button
+                onClick={() => isInTrip
+                  ? removeStop(getSpotId(lat, lng))
+                  : addStop({ name: `${location.city}, ${location.country}`, lat, lng, slug: location.slug })}
+                className={`inline-flex items-center gap-2 px-5 py-2.5 rounded-lg font-semibold transition-colors border ${
+                  isInTrip
+                    ? 'bg-accent-300 text-gray-900 border-accent-400 hover:bg-accent-400'
+                    : 'bg-black/40 backdrop-blur-sm text-white border-white/20 hover:border-primary-500'
+                }`}
+              >
+                {isInTrip ? `✓ ${location.city} is in your trip` : `🧳 Add ${location.city} to your trip`}
+              </button>
+
+              {/* My list */}
+              <button
+                onClick={() => toggleLocation({ name: `${location.city}, ${location.country}`, lat, lng, slug: location.slug })}
+                className="inline-flex items-center gap-2 px-5 py-2.5 rounded-lg font-semibold transition-colors border bg-black/40 backdrop-blur-sm text-white border-white/20 hover:border-primary-500"
+                aria-pressed={isFavorite}
+              >
+                {isFavorite ? '❤️ In my list' : '♡ Save to my list'}
+              </button>
+
+              {/* Passport */}
+              <button
+                onClick={() => toggleVisited({ name: `${location.city}, ${location.country}`, lat, lng, country: location.country, slug: location.slug })}
+                className={`inline-flex items-center gap-2 px-5 py-2.5 rounded-lg font-semibold transition-colors border ${
+                  hasVisited
+                    ? 'bg-amber-400 text-gray-900 border-amber-500 hover:bg-amber-500'
+                    : 'bg-black/40 backdrop-blur-sm text-white border-white/20 hover:border-primary-500'
+                }`}
+                aria-pressed={hasVisited}
+              >
+                {hasVisited ? `🛂 Visited ${location.city}` : '🛂 I\'ve been here'}
+              </button>
+
+              {/* Every filming location in the city - prebuilt by scripts/generateLocationPages.ts */}
+              <ExportMenu
+                label="⬇️ Download locations"
+                className="inline-flex items-center gap-2 px-5 py-2.5 rounded-lg font-semibold transition-colors border bg-black/40 backdrop-blur-sm text-white border-white/20 hover:border-primary-500"
+                getHref={(format) => `/exports/locations/${location.slug}.${format}`}
+              />
+            </div>
           </div>
 
           {/* Quick Stats */}
@@ -118,6 +178,24 @@ export default function LocationPageClient({ movies, location, stats }: Location
               <div className="text-sm text-gray-400">Different Genres</div>
             </div>
           </div>
+
+          {/* Genre & Decade Charts - click a bar to filter the movies below */}
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 mt-4">
+            <StatsBarChart
+              title="Top Genres"
+              data={topGenres}
+              selected={selectedGenre !== 'all' ? selectedGenre : undefined}
+              onSelect={(genre) => setSelectedGenre(genre || 'all')}
+            />
+            <StatsBarChart
+              title="Movies by Decade"
+              data={decades}
+              orientation="vertical"
+              selected={selectedDecade !== 'all' ? selectedDecade : undefined}
+              onSelect={(decade) => setSelectedDecade(decade || 'all')}
+              barClassName="bg-accent-400"
+            />
+          </div>
         </div>
       </div>
 
@@ -156,6 +234,23 @@ export default function LocationPageClient({ movies, location, stats }: Location
                 ))}
               </select>
             </div>
+
+            {/* Filter by Decade */}
+            <div className="flex-1">
+              <label className="block text-sm font-semibold text-gray-400 mb-2">Decade</label>
+              <select
+                value={selectedDecade}
+                onChange={(e) => setSelectedDecade(e.target.value)}
+                className="w-full bg-gray-800 border border-gray-700 rounded-lg px-4 py-2 text-white focus:outline-none focus:border-primary-500"
+              >
+                <option value="all">All Decades</option>
+                {decades.map(([decade, count]) => (
+                  <option key={decade} value={decade}>
+                    {decade} ({count})
+                  </option>
+                ))}
+              </select>
+            </div>
           </div>
 
           {/* Results Count */}
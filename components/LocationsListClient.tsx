@@ -4,6 +4,7 @@ import Link from 'next/link'
 import { useState, useMemo } from 'react'
 import { LocationData } from '../lib/locations'
 import { STYLES } from '../lib/constants/theme'
+import { generateSlug } from '../lib/slugify'
 
 interface LocationsListClientProps {
   locations: LocationData[]
@@ -111,8 +112,9 @@ export default function LocationsListClient({ locations }: LocationsListClientPr
             <div key={country}>
               {/* Country Header */}
               <h2 className="text-2xl font-bold text-white mb-6 flex items-center gap-3">
-
-                {country}
+                <Link href={`/country/${generateSlug(country)}`} className="hover:text-primary-300 transition-colors">
+                  {country}
+                </Link>
                 <span className="text-sm font-normal text-gray-400">
                   ({groupedLocations[country].length} location{groupedLocations[country].length !== 1 ? 's' : ''})
                 </span>
@@ -142,6 +144,11 @@ export default function LocationsListClient({ locations }: LocationsListClientPr
                     <p className="text-sm text-gray-400">
                       {location.country}
                     </p>
+                    {location.movieCount !== undefined && (
+                      <p className="text-xs text-primary-300 mt-2">
+                        🎬 {location.movieCount} movie{location.movieCount !== 1 ? 's' : ''}
+                      </p>
+                    )}
                   </Link>
                 ))}
               </div>
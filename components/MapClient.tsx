@@ -5,17 +5,33 @@
  * Refactored for better modularity and maintainability
  */
 
-import { useState, lazy, Suspense, useEffect, useRef, forwardRef } from 'react'
-import type { Movie, FilterState } from '../lib/types'
+import { useState, lazy, Suspense, useEffect, useMemo, useRef, forwardRef } from 'react'
+import type { Movie, FilterState, Place, DensityLayer, TripStop, FavoriteMovie, FavoriteLocation, VisitedLocation } from '../lib/types'
 import type { MapRef } from '../src/components/Map'
+import { planTrip, type TripDay } from '../src/utils/tripPlanner'
 import { useMovieNavigation } from '../src/hooks/useMovieNavigation'
 import { useRelatedMovies } from '../src/hooks/useRelatedMovies'
 import { useFilterPersistence } from '../src/hooks/useFilterPersistence'
+import { useTrip } from '../src/hooks/useTrip'
+import { useFavorites } from '../src/hooks/useFavorites'
+import { useWatchHistory } from '../src/hooks/useWatchHistory'
+import { getFavoriteMovieIds } from '../src/utils/favorites'
+import { loadMovieDetail } from '../src/utils/movieDetailLoader'
+import { downloadLocations, featuresToExportPoints, type ExportFormat } from '../src/utils/locationExport'
+import { readFocusFromUrl, replaceUrlParams } from '../src/utils/urlState'
+import { pickMapPoint } from '../src/utils/map/mapPick'
 import { STYLES } from '../lib/constants/theme'
 
 // Lazy load components
 const SearchBar = lazy(() => import('../src/components/SearchBarOptimized'))
 const Filters = lazy(() => import('../src/components/Filters'))
+const NearbyPanel = lazy(() => import('../src/components/NearbyPanel'))
+const TripPlanner = lazy(() => import('../src/components/TripPlanner'))
+const MyListPanel = lazy(() => import('../src/components/MyListPanel'))
+const WatchedPanel = lazy(() => import('../src/components/WatchedPanel'))
+const LayerSwitcher = lazy(() => import('../src/components/LayerSwitcher'))
+const TimelinePlayer = lazy(() => import('../src/components/TimelinePlayer'))
+const TimeLapse = lazy(() => import('../src/components/TimeLapse'))
 const MovieModal = lazy(() => import('../src/components/MovieModal'))
 const PartnershipModal = lazy(() => import('./PartnershipModal'))
 const Navigation = lazy(() => import('./Navigation'))
@@ -26,6 +42,14 @@ interface MapProps {
   searchQuery: string
   filters: FilterState
   focusedMovieId?: string | null
+  selectedPlace?: Place | null
+  showBirthplaces?: boolean
+  showRegions?: boolean
+  densityLayer?: DensityLayer
+  normalizeDensityByArea?: boolean
+  tripDays?: TripDay[] | null
+  watchedMovieIds?: string[] | null
+  visitedLocations?: VisitedLocation[] | null
   onClearFocus?: () => void
   convertGeoJSONToMovie?: (feature: any) => Promise<Movie>
 }
@@ -68,20 +92,92 @@ export default function MapClient({
 }: MapClientProps) {
   const mapRef = useRef<MapRef>(null)
   const [focusedMovieId, setFocusedMovieId] = useState<string | null>(null)
+  // Movie whose locations are shown with "Show all locations" (timeline playback)
+  const [timelineMovie, setTimelineMovie] = useState<Movie | null>(null)
+  const [selectedPlace, setSelectedPlace] = useState<Place | null>(null)
   const [searchQuery, setSearchQuery] = useState<string>('')
   const [isLocationViewed, setIsLocationViewed] = useState<boolean>(false)
   const [isPartnershipModalOpen, setIsPartnershipModalOpen] = useState<boolean>(false)
   const [isSearchOpen, setIsSearchOpen] = useState<boolean>(false)
   const [isFiltersOpen, setIsFiltersOpen] = useState<boolean>(false)
+  const [isNearbyOpen, setIsNearbyOpen] = useState<boolean>(false)
+  const [isTripOpen, setIsTripOpen] = useState<boolean>(false)
+  const [isMyListOpen, setIsMyListOpen] = useState<boolean>(false)
+  const [showOnlyFavorites, setShowOnlyFavorites] = useState<boolean>(false)
+  const [isWatchedOpen, setIsWatchedOpen] = useState<boolean>(false)
+  const [showOnlyWatched, setShowOnlyWatched] = useState<boolean>(false)
+  const [showWatchedLayer, setShowWatchedLayer] = useState<boolean>(false)
+  const [showBirthplaces, setShowBirthplaces] = useState<boolean>(false)
+  const [showRegions, setShowRegions] = useState<boolean>(false)
+  const [densityLayer, setDensityLayer] = useState<DensityLayer>('none')
+  const [normalizeDensityByArea, setNormalizeDensityByArea] = useState<boolean>(false)
+  const [isTimeLapseOpen, setIsTimeLapseOpen] = useState<boolean>(false)
+  // Release years shown by the time-lapse (replaces the decade filter while it runs)
+  const [timeLapseYears, setTimeLapseYears] = useState<[number, number] | null>(null)
 
   // Use filter persistence hook (localStorage)
   const { filters, setFilters } = useFilterPersistence()
 
+  // My list (localStorage) - can limit the map to the saved movies
+  const { favorites, removeMovie, removeLocation, importFavorites, clearFavorites } = useFavorites()
+  const favoriteMovieIds = useMemo(() => getFavoriteMovieIds(favorites), [favorites])
+  const isFavoritesFilterActive = showOnlyFavorites && favoriteMovieIds.length > 0
+
+  // Imported watch history (localStorage) - a map filter and layer of its own
+  const { history: watchHistory, importWatchHistory, clearWatchHistory } = useWatchHistory()
+  const isWatchedFilterActive = showOnlyWatched && watchHistory.movieIds.length > 0
+
+  // Saved filters plus the My list / Watched filters (movies on every active list)
+  const listFilters = useMemo(() => {
+    const lists: string[][] = []
+    if (isFavoritesFilterActive) lists.push(favoriteMovieIds)
+    if (isWatchedFilterActive) lists.push(watchHistory.movieIds)
+    if (lists.length === 0) return filters
+
+    const movieIds = lists.reduce((ids, list) => {
+      const listIds = new Set(list)
+      return ids.filter(id => listIds.has(id))
+    })
+    return { ...filters, movieIds }
+  }, [filters, isFavoritesFilterActive, favoriteMovieIds, isWatchedFilterActive, watchHistory.movieIds])
+
+  // Filters the map renders with - with the time-lapse years applied
+  const mapFilters = useMemo(
+    () => timeLapseYears ? { ...listFilters, decades: timeLapseYears } : listFilters,
+    [listFilters, timeLapseYears]
+  )
+
+  // Saved trip (localStorage) and its day-by-day itinerary
+  const { trip, removeStop, setDays, clearTrip } = useTrip()
+  const tripPlan = useMemo(() => planTrip(trip.stops, trip.days), [trip])
+
   // Movie navigation hook
   const { selectedMovie, handleMovieSelect, closeModal, convertGeoJSONToMovie } = useMovieNavigation({
     initialMovie
   })
 
+  // Focused movie is part of the shareable URL (?focus=), including back/forward navigation
+  // The URL is only written once it has been read, so a shared ?focus= isn't cleared on mount
+  const [isFocusHydrated, setIsFocusHydrated] = useState(false)
+  useEffect(() => {
+    const applyUrlFocus = () => setFocusedMovieId(readFocusFromUrl())
+    applyUrlFocus()
+    setIsFocusHydrated(true)
+    window.addEventListener('popstate', applyUrlFocus)
+    return () => window.removeEventListener('popstate', applyUrlFocus)
+  }, [])
+
+  useEffect(() => {
+    if (!isFocusHydrated) return
+    replaceUrlParams(params => {
+      if (focusedMovieId) {
+        params.set('focus', focusedMovieId)
+      } else {
+        params.delete('focus')
+      }
+    })
+  }, [focusedMovieId, isFocusHydrated])
+
   // Related movies hook
   const { relatedMovies, fetchRelatedMovies, clearRelatedMovies } = useRelatedMovies()
 
@@ -112,19 +208,15 @@ export default function MapClient({
   }, [])
 
   const handleResetView = () => {
-    // Reset focused movie (show all markers again)
+    // Reset focused movie and place (show all markers again)
     setFocusedMovieId(null)
+    setSelectedPlace(null)
+    setTimelineMovie(null)
 
     // Reset map view to default
     if (mapRef.current) {
       mapRef.current.resetView()
       setIsLocationViewed(false)
-
-      // Show clickable regions again when clearing focus
-      const mapInstance = mapRef.current.getMapInstance()
-      if (mapInstance && mapInstance.getLayer('region-circles')) {
-        mapInstance.setLayoutProperty('region-circles', 'visibility', 'visible')
-      }
     }
   }
 
@@ -132,6 +224,7 @@ export default function MapClient({
     if (selectedMovie && mapRef.current) {
       mapRef.current.showAllLocationsForMovie(selectedMovie)
       setFocusedMovieId(selectedMovie.movie_id)
+      setTimelineMovie(selectedMovie)
       closeModal()
       setIsLocationViewed(true)
     }
@@ -145,12 +238,6 @@ export default function MapClient({
       // Fly to the specific location
       mapRef.current.flyToLocation(location.lat, location.lng)
       setIsLocationViewed(true)
-
-      // Hide clickable regions when viewing a specific location
-      const mapInstance = mapRef.current.getMapInstance()
-      if (mapInstance && mapInstance.getLayer('region-circles')) {
-        mapInstance.setLayoutProperty('region-circles', 'visibility', 'none')
-      }
     }
 
     setTimeout(() => {
@@ -158,6 +245,81 @@ export default function MapClient({
     }, 100)
   }
 
+  const handlePickOnMap = (onPick: (lat: number, lng: number) => void) => {
+    const mapInstance = mapRef.current?.getMapInstance()
+    if (!mapInstance) return () => {}
+
+    return pickMapPoint(mapInstance, onPick)
+  }
+
+  const handleNearbyResultSelect = (result: { location: { lat: number; lng: number } }) => {
+    if (mapRef.current) {
+      mapRef.current.flyToLocation(result.location.lat, result.location.lng)
+      setIsLocationViewed(true)
+    }
+  }
+
+  // Trip planner - fly to a stop, or fit a whole day on screen
+  const handleTripStopSelect = (stop: TripStop) => {
+    if (mapRef.current) {
+      mapRef.current.flyToLocation(stop.lat, stop.lng)
+      setIsLocationViewed(true)
+    }
+  }
+
+  const handleTripDaySelect = (day: TripDay) => {
+    const mapInstance = mapRef.current?.getMapInstance()
+    if (!mapInstance) return
+
+    const lngs = day.stops.map(stop => stop.lng)
+    const lats = day.stops.map(stop => stop.lat)
+    mapInstance.fitBounds(
+      [[Math.min(...lngs), Math.min(...lats)], [Math.max(...lngs), Math.max(...lats)]],
+      { padding: 100, maxZoom: 14, duration: 1500, essential: true }
+    )
+  }
+
+  // My list - open a saved movie, or fly to a saved location
+  const handleFavoriteMovieSelect = async (favorite: FavoriteMovie) => {
+    const movie = await loadMovieDetail(favorite.movieId)
+    if (movie) {
+      handleMovieSelect(movie)
+    }
+  }
+
+  const handleFavoriteLocationSelect = (location: FavoriteLocation) => {
+    if (mapRef.current) {
+      mapRef.current.flyToLocation(location.lat, location.lng)
+      setIsLocationViewed(true)
+    }
+  }
+
+  // Download the filtered markers currently in view
+  const handleExportView = (format: ExportFormat) => {
+    const features = mapRef.current?.getViewLocations() || []
+    downloadLocations(featuresToExportPoints(features), format, 'FilmingMap - map view', 'filmingmap-map-view')
+  }
+
+  // Place search - fly to the place and show only its markers
+  const handlePlaceSelect = (place: Place) => {
+    setFocusedMovieId(null)
+    setSelectedPlace(place)
+    mapRef.current?.flyToPlace(place)
+    setIsSearchOpen(false) // Close search on mobile after selection
+  }
+
+  // Scene search - open the movie at the scene's location and fly there
+  const handleSceneSelect = async (movie: Movie, locationIndex: number) => {
+    setIsSearchOpen(false) // Close search on mobile after selection
+    await handleMovieSelect({ ...movie, clickedLocationIndex: locationIndex })
+
+    const location = movie.locations[locationIndex]
+    if (location && mapRef.current) {
+      mapRef.current.flyToLocation(location.lat, location.lng)
+      setIsLocationViewed(true)
+    }
+  }
+
   // Handle removing individual filters
   const removeGenreFilter = (genre: string) => {
     setFilters({ ...filters, genres: filters.genres.filter(g => g !== genre) })
@@ -176,6 +338,9 @@ export default function MapClient({
   }
 
   const clearAllFilters = () => {
+    setSelectedPlace(null)
+    setShowOnlyFavorites(false)
+    setShowOnlyWatched(false)
     setFilters({
       genres: [],
       decades: [1980, 2030],
@@ -191,7 +356,10 @@ export default function MapClient({
     filters.streaming.length > 0 ||
     filters.starRating[0] !== 0 ||
     filters.starRating[1] !== 10 ||
-    filters.topIMDB
+    filters.topIMDB ||
+    isFavoritesFilterActive ||
+    isWatchedFilterActive ||
+    !!selectedPlace
 
   return (
     <div className="relative w-full h-full z-10">
@@ -235,7 +403,17 @@ export default function MapClient({
               handleMovieSelect(movie)
               setIsSearchOpen(false) // Close search on mobile after selection
             }}
-            onSearchFocus={() => setIsFiltersOpen(false)}
+            onSearchFocus={() => {
+              setIsFiltersOpen(false)
+              setIsNearbyOpen(false)
+              setIsTripOpen(false)
+              setIsMyListOpen(false)
+              setIsWatchedOpen(false)
+            }}
+            filters={filters}
+            onApplyFilters={setFilters}
+            onPlaceSelect={handlePlaceSelect}
+            onSceneSelect={handleSceneSelect}
           />
         </Suspense>
 
@@ -254,7 +432,126 @@ export default function MapClient({
               filters={filters}
               onFiltersChange={setFilters}
               isOpen={isFiltersOpen}
-              onOpenChange={setIsFiltersOpen}
+              onOpenChange={(isOpen) => {
+                setIsFiltersOpen(isOpen)
+                if (isOpen) {
+                  setIsNearbyOpen(false)
+                  setIsTripOpen(false)
+                  setIsMyListOpen(false)
+                  setIsWatchedOpen(false)
+                }
+              }}
+            />
+          </Suspense>
+        </div>
+
+        {/* Nearby Panel (Hidden on Mobile) */}
+        <div className="hidden lg:block">
+          <Suspense fallback={
+            <div className="bg-white/90 dark:bg-gray-800/90 backdrop-blur-sm rounded-lg shadow-lg p-4">
+              <div className="h-8 bg-gray-200 dark:bg-gray-700 rounded animate-pulse"></div>
+            </div>
+          }>
+            <NearbyPanel
+              onPickOnMap={handlePickOnMap}
+              onResultSelect={handleNearbyResultSelect}
+              isOpen={isNearbyOpen}
+              onOpenChange={(isOpen) => {
+                setIsNearbyOpen(isOpen)
+                if (isOpen) {
+                  setIsFiltersOpen(false)
+                  setIsTripOpen(false)
+                  setIsMyListOpen(false)
+                  setIsWatchedOpen(false)
+                }
+              }}
+            />
+          </Suspense>
+        </div>
+
+        {/* Trip Planner (Hidden on Mobile) */}
+        <div className="hidden lg:block">
+          <Suspense fallback={
+            <div className="bg-white/90 dark:bg-gray-800/90 backdrop-blur-sm rounded-lg shadow-lg p-4">
+              <div className="h-8 bg-gray-200 dark:bg-gray-700 rounded animate-pulse"></div>
+            </div>
+          }>
+            <TripPlanner
+              trip={trip}
+              plan={tripPlan}
+              onDaysChange={setDays}
+              onRemoveStop={removeStop}
+              onClear={clearTrip}
+              onStopSelect={handleTripStopSelect}
+              onDaySelect={handleTripDaySelect}
+              isOpen={isTripOpen}
+              onOpenChange={(isOpen) => {
+                setIsTripOpen(isOpen)
+                if (isOpen) {
+                  setIsFiltersOpen(false)
+                  setIsNearbyOpen(false)
+                  setIsMyListOpen(false)
+                  setIsWatchedOpen(false)
+                }
+              }}
+            />
+          </Suspense>
+        </div>
+
+        {/* My List (Hidden on Mobile) */}
+        <div className="hidden lg:block">
+          <Suspense fallback={
+            <div className="bg-white/90 dark:bg-gray-800/90 backdrop-blur-sm rounded-lg shadow-lg p-4">
+              <div className="h-8 bg-gray-200 dark:bg-gray-700 rounded animate-pulse"></div>
+            </div>
+          }>
+            <MyListPanel
+              favorites={favorites}
+              onMovieSelect={handleFavoriteMovieSelect}
+              onLocationSelect={handleFavoriteLocationSelect}
+              onRemoveMovie={removeMovie}
+              onRemoveLocation={removeLocation}
+              onImport={importFavorites}
+              onClear={clearFavorites}
+              showOnlyFavorites={showOnlyFavorites}
+              onShowOnlyFavoritesChange={setShowOnlyFavorites}
+              isOpen={isMyListOpen}
+              onOpenChange={(isOpen) => {
+                setIsMyListOpen(isOpen)
+                if (isOpen) {
+                  setIsFiltersOpen(false)
+                  setIsNearbyOpen(false)
+                  setIsTripOpen(false)
+                  setIsWatchedOpen(false)
+                }
+              }}
+            />
+          </Suspense>
+        </div>
+
+        {/* Watched (Hidden on Mobile) */}
+        <div className="hidden lg:block">
+          <Suspense fallback={
+            <div className="bg-white/90 dark:bg-gray-800/90 backdrop-blur-sm rounded-lg shadow-lg p-4">
+              <div className="h-8 bg-gray-200 dark:bg-gray-700 rounded animate-pulse"></div>
+            </div>
+          }>
+            <WatchedPanel
+              history={watchHistory}
+              onImport={importWatchHistory}
+              onClear={clearWatchHistory}
+              showOnlyWatched={showOnlyWatched}
+              onShowOnlyWatchedChange={setShowOnlyWatched}
+              isOpen={isWatchedOpen}
+              onOpenChange={(isOpen) => {
+                setIsWatchedOpen(isOpen)
+                if (isOpen) {
+                  setIsFiltersOpen(false)
+                  setIsNearbyOpen(false)
+                  setIsTripOpen(false)
+                  setIsMyListOpen(false)
+                }
+              }}
             />
           </Suspense>
         </div>
@@ -263,7 +560,7 @@ export default function MapClient({
       {/* Active Filters Display - Shows selected filters as removable chips */}
       {hasActiveFilters && (
         <div
-          className="absolute bottom-20 lg:top-36 left-4 right-4 lg:right-4 lg:left-auto z-10 lg:w-80 select-none"
+          className="absolute bottom-20 lg:top-[25rem] left-4 right-4 lg:right-4 lg:left-auto z-10 lg:w-80 select-none"
           onMouseDown={(e) => e.stopPropagation()}
           onTouchStart={(e) => e.stopPropagation()}
           draggable={false}
@@ -281,6 +578,58 @@ export default function MapClient({
               </button>
             </div>
             <div className="flex flex-wrap gap-1.5 lg:gap-2">
+              {/* Place filter (place search) */}
+              {selectedPlace && (
+                <>
+                  <button
+                    onClick={() => setSelectedPlace(null)}
+                    className="inline-flex items-center gap-0.5 lg:gap-1 px-1.5 lg:px-2 py-0.5 lg:py-1 bg-primary-100 dark:bg-primary-900/40 text-primary-800 dark:text-primary-300 text-[10px] lg:text-xs rounded-full hover:bg-primary-200 dark:hover:bg-primary-900/60 transition-colors"
+                    title="Click to remove"
+                  >
+                    <span>📍 {selectedPlace.name}</span>
+                    <svg className="w-2.5 h-2.5 lg:w-3 lg:h-3" fill="none" strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" viewBox="0 0 24 24" stroke="currentColor">
+                      <path d="M6 18L18 6M6 6l12 12"></path>
+                    </svg>
+                  </button>
+                  {selectedPlace.slug && (
+                    <a
+                      href={`/location/${selectedPlace.slug}`}
+                      className="inline-flex items-center px-1.5 lg:px-2 py-0.5 lg:py-1 text-[10px] lg:text-xs text-primary-600 dark:text-primary-400 hover:underline font-medium"
+                    >
+                      Explore {selectedPlace.name} →
+                    </a>
+                  )}
+                </>
+              )}
+
+              {/* My list filter */}
+              {isFavoritesFilterActive && (
+                <button
+                  onClick={() => setShowOnlyFavorites(false)}
+                  className="inline-flex items-center gap-0.5 lg:gap-1 px-1.5 lg:px-2 py-0.5 lg:py-1 bg-primary-100 dark:bg-primary-900/40 text-primary-800 dark:text-primary-300 text-[10px] lg:text-xs rounded-full hover:bg-primary-200 dark:hover:bg-primary-900/60 transition-colors"
+                  title="Click to remove"
+                >
+                  <span>❤️ My list</span>
+                  <svg className="w-2.5 h-2.5 lg:w-3 lg:h-3" fill="none" strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" viewBox="0 0 24 24" stroke="currentColor">
+                    <path d="M6 18L18 6M6 6l12 12"></path>
+                  </svg>
+                </button>
+              )}
+
+              {/* Watched filter */}
+              {isWatchedFilterActive && (
+                <button
+                  onClick={() => setShowOnlyWatched(false)}
+                  className="inline-flex items-center gap-0.5 lg:gap-1 px-1.5 lg:px-2 py-0.5 lg:py-1 bg-primary-100 dark:bg-primary-900/40 text-primary-800 dark:text-primary-300 text-[10px] lg:text-xs rounded-full hover:bg-primary-200 dark:hover:bg-primary-900/60 transition-colors"
+                  title="Click to remove"
+                >
+                  <span>🎞️ Watched</span>
+                  <svg className="w-2.5 h-2.5 lg:w-3 lg:h-3" fill="none" strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" viewBox="0 0 24 24" stroke="currentColor">
+                    <path d="M6 18L18 6M6 6l12 12"></path>
+                  </svg>
+                </button>
+              )}
+
               {/* Genre filters */}
               {filters.genres.map((genre) => (
                 <button
@@ -350,8 +699,16 @@ export default function MapClient({
         selectedMovie={selectedMovie}
         onMovieSelect={handleMovieSelect}
         searchQuery={searchQuery}
-        filters={filters}
+        filters={mapFilters}
         focusedMovieId={focusedMovieId}
+        selectedPlace={selectedPlace}
+        showBirthplaces={showBirthplaces}
+        showRegions={showRegions}
+        densityLayer={densityLayer}
+        normalizeDensityByArea={normalizeDensityByArea}
+        tripDays={isTripOpen ? tripPlan : null}
+        watchedMovieIds={showWatchedLayer ? watchHistory.movieIds : null}
+        visitedLocations={favorites.visited}
         onClearFocus={handleResetView}
         convertGeoJSONToMovie={convertGeoJSONToMovie}
       />
@@ -370,6 +727,28 @@ export default function MapClient({
         </Suspense>
       )}
 
+      {/* Filming Timeline - "Show all locations" for a movie with several locations */}
+      {timelineMovie && focusedMovieId === timelineMovie.movie_id && timelineMovie.locations.length > 1 && (
+        <Suspense fallback={null}>
+          <TimelinePlayer
+            movie={timelineMovie}
+            onStepChange={(step) => mapRef.current?.showTimelineStop(timelineMovie, step)}
+          />
+        </Suspense>
+      )}
+
+      {/* Release-Year Time-Lapse - stays mounted but paused while a movie is focused */}
+      {isTimeLapseOpen && (
+        <Suspense fallback={null}>
+          <TimeLapse
+            filters={listFilters}
+            onYearRangeChange={setTimeLapseYears}
+            onClose={() => setIsTimeLapseOpen(false)}
+            paused={!!focusedMovieId}
+          />
+        </Suspense>
+      )}
+
       {/* Reset View Button - Shows when a movie is focused OR a location is viewed */}
       {(focusedMovieId || isLocationViewed) && (
         <div className="absolute top-24 lg:top-20 left-1/2 transform -translate-x-1/2 z-20 px-4 w-full max-w-xs sm:max-w-none sm:w-auto">
@@ -385,6 +764,26 @@ export default function MapClient({
         </div>
       )}
 
+      {/* Map Layers - density overlays, regions, birthplaces and time-lapse */}
+      <Suspense fallback={null}>
+        <LayerSwitcher
+          densityLayer={densityLayer}
+          onDensityLayerChange={setDensityLayer}
+          normalizeByArea={normalizeDensityByArea}
+          onNormalizeByAreaChange={setNormalizeDensityByArea}
+          showBirthplaces={showBirthplaces}
+          onShowBirthplacesChange={setShowBirthplaces}
+          showRegions={showRegions}
+          onShowRegionsChange={setShowRegions}
+          isTimeLapseOpen={isTimeLapseOpen}
+          onTimeLapseOpenChange={setIsTimeLapseOpen}
+          showWatched={showWatchedLayer}
+          onShowWatchedChange={setShowWatchedLayer}
+          hasWatchHistory={watchHistory.movieIds.length > 0}
+          onExportView={handleExportView}
+        />
+      </Suspense>
+
       {/* Footer - Attribution */}
       <div className="absolute bottom-4 left-4 z-10 text-xs text-gray-600 dark:text-gray-400 bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm px-2 sm:px-3 py-1 rounded max-w-[calc(100vw-2rem)] sm:max-w-none">
         <span className="hidden sm:inline">Created with ❤️ by </span>
@@ -105,6 +105,17 @@ export default function Navigation({ onSearchClick, onPartnershipClick }: Naviga
             >
               📝 Blog
             </Link>
+            <Link
+              href="/passport"
+              onClick={closeMenu}
+              className={`px-4 py-3 rounded-lg text-base font-medium transition-all duration-200 ${
+                isActive('/passport')
+                  ? 'bg-primary-50 dark:bg-primary-900/30 text-primary-700 dark:text-primary-300 border-l-4 border-primary-600 shadow-sm'
+                  : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+              }`}
+            >
+              🛂 Passport
+            </Link>
 
             {onPartnershipClick && (
               <button
@@ -164,6 +175,16 @@ export default function Navigation({ onSearchClick, onPartnershipClick }: Naviga
         >
           Blog
         </Link>
+        <Link
+          href="/passport"
+          className={`px-5 py-2.5 rounded-lg text-base font-medium transition-all duration-200 ${
+            isActive('/passport')
+              ? 'bg-primary-50 dark:bg-primary-900/30 text-primary-700 dark:text-primary-300 shadow-sm ring-2 ring-primary-200 dark:ring-primary-800'
+              : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+          }`}
+        >
+          Passport
+        </Link>
         {onPartnershipClick && (
           <button
             onClick={onPartnershipClick}
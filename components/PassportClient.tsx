@@ -0,0 +1,262 @@
+'use client'
+
+/**
+ * Passport page - the filming locations marked as visited
+ * Locations are marked with 🛂 in a movie's details or on a location page and
+ * stored with "My list" (src/hooks/useFavorites.ts), so everything here is local.
+ */
+
+import { useEffect, useMemo, useState } from 'react'
+import Link from 'next/link'
+import { STYLES } from '../lib/constants/theme'
+import { useFavorites } from '../src/hooks/useFavorites'
+import { createPassportImage, getPassportBadges, getPassportStats, type PassportStats } from '../src/utils/passport'
+import { downloadBlob } from '../src/utils/helpers'
+import { loadAllMovies } from '../src/utils/map/binaryMapData'
+import { loadPlaces } from '../src/utils/placeSearch'
+
+const IMAGE_NAME = 'filmingmap-passport.png'
+
+export default function PassportClient() {
+  const { favorites, removeVisited } = useFavorites()
+  const { visited } = favorites
+  const [stats, setStats] = useState<PassportStats | null>(null)
+  const [isSharing, setIsSharing] = useState(false)
+  const badges = useMemo(() => stats ? getPassportBadges(stats) : [], [stats])
+
+  // Movie progress needs every movie's locations
+  useEffect(() => {
+    if (visited.length === 0) {
+      setStats(null)
+      return
+    }
+
+    let cancelled = false
+    Promise.all([loadAllMovies(), loadPlaces()])
+      .then(([movies, places]) => {
+        if (!cancelled) setStats(getPassportStats(visited, movies, places))
+      })
+      .catch(error => console.error('Failed to load passport stats:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [visited])
+
+  /**
+   * Share the summary image - the share sheet where files can be shared, a download otherwise
+   */
+  const handleShare = async () => {
+    if (!stats) return
+    setIsSharing(true)
+
+    try {
+      const blob = await createPassportImage(stats, badges)
+      const file = new File([blob], IMAGE_NAME, { type: 'image/png' })
+
+      if (navigator.canShare?.({ files: [file] })) {
+        await navigator.share({
+          files: [file],
+          title: 'My FilmingMap passport',
+          text: `I've visited ${stats.locations} filming locations in ${stats.countries.length} countries`,
+        })
+      } else {
+        downloadBlob(blob, IMAGE_NAME)
+      }
+    } catch (error) {
+      // Closing the share sheet isn't an error
+      if ((error as Error).name !== 'AbortError') {
+        console.error('Failed to share passport:', error)
+      }
+    } finally {
+      setIsSharing(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen" style={STYLES.spaceBackground}>
+      {/* Header */}
+      <header className="pt-20">
+        <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <Link href="/" className="inline-flex items-center gap-2 text-white/80 hover:text-white mb-4 transition-colors">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+            </svg>
+            Back to Map
+          </Link>
+
+          <div className="flex flex-wrap items-end justify-between gap-4">
+            <div>
+              <h1 className="text-4xl sm:text-5xl font-bold text-white mb-4">
+                🛂 My Passport
+              </h1>
+              <p className="text-xl text-gray-300 max-w-3xl">
+                The filming locations you&apos;ve been to
+              </p>
+            </div>
+            {stats && (
+              <button
+                onClick={handleShare}
+                disabled={isSharing}
+                className="inline-flex items-center gap-2 px-5 py-2.5 rounded-lg font-semibold transition-colors bg-amber-400 hover:bg-amber-500 text-gray-900 disabled:opacity-50"
+              >
+                {isSharing ? 'Creating image...' : '📤 Share my passport'}
+              </button>
+            )}
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 pb-16">
+        {visited.length === 0 ? (
+          <div className="bg-black/40 backdrop-blur-sm rounded-xl p-8 border border-white/10 text-center text-gray-300">
+            <p className="text-lg mb-2">No visited locations yet.</p>
+            <p>
+              Mark the places you&apos;ve been with 🛂 in a movie&apos;s details on the{' '}
+              <Link href="/" className="text-primary-400 hover:underline">map</Link> or on a{' '}
+              <Link href="/location" className="text-primary-400 hover:underline">location page</Link>.
+            </p>
+          </div>
+        ) : !stats ? (
+          <div className="h-64 bg-white/10 rounded-xl animate-pulse"></div>
+        ) : (
+          <>
+            {/* Stats */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-10">
+              {[
+                { label: 'Locations visited', value: stats.locations },
+                { label: 'Countries', value: stats.countries.length },
+                { label: 'Cities', value: stats.cities.length },
+                { label: 'Continents', value: stats.continents },
+              ].map(({ label, value }) => (
+                <div key={label} className="bg-black/40 backdrop-blur-sm rounded-xl p-6 border border-white/10">
+                  <div className="text-4xl font-bold text-amber-400 mb-2">{value}</div>
+                  <div className="text-gray-300">{label}</div>
+                </div>
+              ))}
+            </div>
+
+            {/* Badges */}
+            <section className="mb-10">
+              <h2 className="text-2xl font-bold text-white mb-4">Badges</h2>
+              <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-3">
+                {badges.map(badge => (
+                  <div
+                    key={badge.id}
+                    className={`rounded-xl p-4 border ${
+                      badge.earned
+                        ? 'bg-amber-400/20 border-amber-400/60'
+                        : 'bg-black/30 border-white/10 opacity-50 grayscale'
+                    }`}
+                  >
+                    <div className="text-3xl mb-1" aria-hidden="true">{badge.emoji}</div>
+                    <div className="font-semibold text-white">{badge.name}</div>
+                    <div className="text-sm text-gray-300">{badge.description}</div>
+                  </div>
+                ))}
+              </div>
+            </section>
+
+            {/* Movie progress */}
+            {stats.movies.length > 0 && (
+              <section className="mb-10">
+                <h2 className="text-2xl font-bold text-white mb-4">Movies</h2>
+                <ul className="space-y-3">
+                  {stats.movies.map(movie => (
+                    <li key={movie.movieId} className="bg-black/40 backdrop-blur-sm rounded-xl p-4 border border-white/10">
+                      <div className="flex justify-between gap-4 mb-2 text-white">
+                        <span className="font-semibold truncate">{movie.title} ({movie.year})</span>
+                        <span className="flex-shrink-0 text-sm text-gray-300">
+                          {movie.visited}/{movie.total} locations
+                        </span>
+                      </div>
+                      <div
+                        className="h-2 rounded-full bg-white/10 overflow-hidden"
+                        role="progressbar"
+                        aria-valuemin={0}
+                        aria-valuemax={movie.total}
+                        aria-valuenow={movie.visited}
+                        aria-label={`${movie.title} locations visited`}
+                      >
+                        <div className="h-full bg-amber-400" style={{ width: `${movie.visited / movie.total * 100}%` }}></div>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+
+            {/* Countries and cities */}
+            <div className="grid md:grid-cols-2 gap-6 mb-10">
+              <section className="bg-black/40 backdrop-blur-sm rounded-xl p-6 border border-white/10">
+                <h2 className="text-2xl font-bold text-white mb-4">Countries</h2>
+                {stats.countries.length === 0 ? (
+                  <p className="text-gray-400">No known countries yet.</p>
+                ) : (
+                  <ul className="space-y-1">
+                    {stats.countries.map(country => (
+                      <li key={country.name} className="flex justify-between text-gray-300">
+                        <span>{country.name}</span>
+                        <span className="text-sm text-gray-400">{country.count} visited</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </section>
+              <section className="bg-black/40 backdrop-blur-sm rounded-xl p-6 border border-white/10">
+                <h2 className="text-2xl font-bold text-white mb-4">Cities</h2>
+                {stats.cities.length === 0 ? (
+                  <p className="text-gray-400">No location page cities yet.</p>
+                ) : (
+                  <ul className="space-y-1">
+                    {stats.cities.map(city => (
+                      <li key={city.slug || city.name} className="flex justify-between text-gray-300">
+                        {city.slug ? (
+                          <Link href={`/location/${city.slug}`} className="text-primary-400 hover:underline">{city.name}</Link>
+                        ) : (
+                          <span>{city.name}</span>
+                        )}
+                        <span className="text-sm text-gray-400">{city.count} visited</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </section>
+            </div>
+          </>
+        )}
+
+        {/* Visited locations */}
+        {visited.length > 0 && (
+          <section>
+            <h2 className="text-2xl font-bold text-white mb-4">Visited locations ({visited.length})</h2>
+            <ul className="divide-y divide-white/10 bg-black/40 backdrop-blur-sm rounded-xl border border-white/10">
+              {visited.map(location => (
+                <li key={location.id} className="flex items-center gap-3 px-4 py-3">
+                  <div className="flex-1 min-w-0">
+                    <div className="text-white truncate">
+                      📍 {location.slug ? (
+                        <Link href={`/location/${location.slug}`} className="hover:underline">{location.name}</Link>
+                      ) : location.name}
+                    </div>
+                    <div className="text-xs text-gray-400 truncate">
+                      {location.movieTitle && `🎬 ${location.movieTitle} · `}
+                      {new Date(location.visitedAt).toLocaleDateString()}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => removeVisited(location.id)}
+                    className="px-2 text-gray-400 hover:text-red-400"
+                    aria-label={`Remove ${location.name} from my passport`}
+                  >
+                    ✕
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+      </main>
+    </div>
+  )
+}
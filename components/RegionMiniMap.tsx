@@ -0,0 +1,79 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import maplibregl from 'maplibre-gl'
+
+/**
+ * RegionMiniMap - Static overview map of a country or continent's filming locations
+ * Fits the region's bbox; "Explore on the globe" opens the main map at the same camera.
+ */
+
+interface RegionMiniMapProps {
+  bbox: [number, number, number, number] // [west, south, east, north]
+  points: [number, number][] // [lng, lat]
+  label: string
+}
+
+export default function RegionMiniMap({ bbox, points, label }: RegionMiniMapProps) {
+  const container = useRef<HTMLDivElement | null>(null)
+  const [globeHref, setGlobeHref] = useState('/')
+
+  useEffect(() => {
+    if (!container.current) return
+
+    const map = new maplibregl.Map({
+      container: container.current,
+      style: 'https://api.maptiler.com/maps/streets-v4/style.json?key=q4aOhsVX264foFexJ7ga',
+      bounds: bbox,
+      fitBoundsOptions: { padding: 24, maxZoom: 9 },
+      interactive: false,
+      attributionControl: { compact: true },
+      renderWorldCopies: false,
+    })
+
+    map.on('load', () => {
+      map.addSource('region-points', {
+        type: 'geojson',
+        data: {
+          type: 'FeatureCollection',
+          features: points.map(coordinates => ({
+            type: 'Feature',
+            geometry: { type: 'Point', coordinates },
+            properties: {},
+          })),
+        },
+      })
+
+      map.addLayer({
+        id: 'region-points',
+        type: 'circle',
+        source: 'region-points',
+        paint: {
+          'circle-color': '#01affe',
+          'circle-radius': 4,
+          'circle-opacity': 0.8,
+          'circle-stroke-width': 1,
+          'circle-stroke-color': '#ffffff',
+        },
+      })
+
+      // Same format as the globe's shareable camera (map=zoom/lat/lng/bearing/pitch)
+      const center = map.getCenter()
+      setGlobeHref(`/?map=${map.getZoom().toFixed(2)}/${center.lat.toFixed(4)}/${center.lng.toFixed(4)}/0/0`)
+    })
+
+    return () => map.remove()
+  }, [bbox, points])
+
+  return (
+    <div className="bg-black/40 backdrop-blur-sm rounded-xl border border-white/10 overflow-hidden">
+      <div ref={container} className="h-72 w-full" aria-label={`Map of filming locations in ${label}`} />
+      <div className="flex items-center justify-between px-6 py-3 text-sm">
+        <span className="text-gray-400">{points.length} filming locations shown</span>
+        <a href={globeHref} className="text-primary-400 hover:text-primary-300 font-semibold">
+          Explore on the globe →
+        </a>
+      </div>
+    </div>
+  )
+}
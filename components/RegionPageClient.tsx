@@ -0,0 +1,244 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import Breadcrumbs, { type BreadcrumbItem } from './Breadcrumbs'
+import StatsBarChart from './StatsBarChart'
+import RegionMiniMap from './RegionMiniMap'
+import { STYLES } from '../lib/constants/theme'
+import type { RegionMovie, RegionStats } from '../lib/countries'
+
+/**
+ * RegionPageClient - Hub page for a country or continent
+ * Lists the places inside it (cities or countries), genre/decade charts,
+ * a mini-map and the movies with the most filming locations there.
+ */
+
+interface RegionPlace {
+  name: string
+  href: string
+  movieCount: number
+  locationCount: number
+}
+
+interface RegionPageClientProps {
+  name: string
+  icon: string
+  subtitle?: string
+  breadcrumbs: BreadcrumbItem[]
+  places: RegionPlace[]
+  placesTitle: string
+  movies: RegionMovie[]
+  stats: RegionStats
+  bbox: [number, number, number, number]
+  points: [number, number][]
+}
+
+export default function RegionPageClient({
+  name,
+  icon,
+  subtitle,
+  breadcrumbs,
+  places,
+  placesTitle,
+  movies,
+  stats,
+  bbox,
+  points,
+}: RegionPageClientProps) {
+  const [sortBy, setSortBy] = useState<'locations' | 'rating' | 'year'>('locations')
+  const [selectedGenre, setSelectedGenre] = useState<string>('all')
+  const [selectedDecade, setSelectedDecade] = useState<string>('all')
+
+  const filteredMovies = movies
+    .filter(m => selectedGenre === 'all' || m.genres.includes(selectedGenre))
+    .filter(m => selectedDecade === 'all' || `${Math.floor(m.year / 10) * 10}s` === selectedDecade)
+    .sort((a, b) => {
+      switch (sortBy) {
+        case 'locations':
+          return b.locationCount - a.locationCount
+        case 'rating':
+          return (b.imdb_rating || 0) - (a.imdb_rating || 0)
+        case 'year':
+          return b.year - a.year
+        default:
+          return 0
+      }
+    })
+
+  const topGenres = Object.entries(stats.genres)
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, 10)
+
+  const decades = Object.entries(stats.decades)
+    .sort(([a], [b]) => a.localeCompare(b))
+
+  return (
+    <div className="min-h-screen text-white pt-20" style={STYLES.spaceBackground} data-region-page>
+      {/* Header */}
+      <div className="relative overflow-hidden">
+        <div className="relative container mx-auto px-4 py-16">
+          <Breadcrumbs items={breadcrumbs} />
+
+          <div className="max-w-4xl">
+            <div className="flex items-center gap-3 mb-4">
+              <span className="text-6xl">{icon}</span>
+              <div>
+                <h1 className="text-5xl md:text-7xl font-bold mb-2">{name}</h1>
+                {subtitle && <p className="text-2xl text-gray-300">{subtitle}</p>}
+              </div>
+            </div>
+
+            <p className="text-xl text-gray-300 mt-6 leading-relaxed">
+              Explore <strong className="text-white">{stats.totalMovies} movies and TV series</strong> filmed
+              in {name}, across <strong className="text-white">{stats.totalLocations} filming locations</strong>.
+            </p>
+          </div>
+
+          {/* Quick Stats */}
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4 mt-10">
+            <div className="bg-black/40 backdrop-blur-sm rounded-xl p-6 border border-white/10">
+              <div className="text-4xl font-bold text-primary-400 mb-2">{stats.totalMovies}</div>
+              <div className="text-sm text-gray-400">Movies & Series</div>
+            </div>
+            <div className="bg-black/40 backdrop-blur-sm rounded-xl p-6 border border-white/10">
+              <div className="text-4xl font-bold text-accent-400 mb-2">{stats.totalLocations}</div>
+              <div className="text-sm text-gray-400">Filming Locations</div>
+            </div>
+            <div className="bg-black/40 backdrop-blur-sm rounded-xl p-6 border border-white/10">
+              <div className="text-4xl font-bold text-primary-300 mb-2">{places.length}</div>
+              <div className="text-sm text-gray-400">{placesTitle}</div>
+            </div>
+          </div>
+
+          {/* Mini-map & Places */}
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 mt-4">
+            <RegionMiniMap bbox={bbox} points={points} label={name} />
+
+            <div className="bg-black/40 backdrop-blur-sm rounded-xl p-6 border border-white/10">
+              <h3 className="text-sm font-semibold text-gray-400 mb-4">Top {placesTitle}</h3>
+              {places.length > 0 ? (
+                <ul className="space-y-2 max-h-72 overflow-y-auto pr-2">
+                  {places.map(place => (
+                    <li key={place.href}>
+                      <Link
+                        href={place.href}
+                        className="flex items-center justify-between px-3 py-2 rounded-lg bg-white/5 hover:bg-white/10 transition-colors"
+                      >
+                        <span className="font-semibold">{place.name}</span>
+                        <span className="text-sm text-gray-400">
+                          {place.movieCount} movies • {place.locationCount} locations
+                        </span>
+                      </Link>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-gray-400">No city pages here yet</p>
+              )}
+            </div>
+          </div>
+
+          {/* Genre & Decade Charts - click a bar to filter the movies below */}
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 mt-4">
+            <StatsBarChart
+              title="Top Genres"
+              data={topGenres}
+              selected={selectedGenre !== 'all' ? selectedGenre : undefined}
+              onSelect={(genre) => setSelectedGenre(genre || 'all')}
+            />
+            <StatsBarChart
+              title="Movies by Decade"
+              data={decades}
+              orientation="vertical"
+              selected={selectedDecade !== 'all' ? selectedDecade : undefined}
+              onSelect={(decade) => setSelectedDecade(decade || 'all')}
+              barClassName="bg-accent-400"
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Top Movies */}
+      <div className="container mx-auto px-4 py-12">
+        <div className="flex flex-col md:flex-row md:items-end justify-between gap-4 mb-8">
+          <div>
+            <h2 className="text-3xl font-bold">Top Movies Filmed in {name}</h2>
+            <p className="mt-2 text-sm text-gray-400">
+              Showing {filteredMovies.length} of the {movies.length} movies with the most filming locations here
+            </p>
+          </div>
+          <select
+            value={sortBy}
+            onChange={(e) => setSortBy(e.target.value as any)}
+            className="bg-gray-800 border border-gray-700 rounded-lg px-4 py-2 text-white focus:outline-none focus:border-primary-500"
+            aria-label="Sort movies"
+          >
+            <option value="locations">Most Locations</option>
+            <option value="rating">Highest Rated</option>
+            <option value="year">Newest First</option>
+          </select>
+        </div>
+
+        <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-6">
+          {filteredMovies.map(movie => (
+            <Link
+              key={movie.movie_id}
+              href={`/?movie=${movie.slug || movie.movie_id}`}
+              className="group cursor-pointer"
+            >
+              <div className="relative aspect-[2/3] rounded-xl overflow-hidden bg-gray-800 border border-gray-700 hover:border-primary-500 transition-all hover:scale-105 hover:shadow-2xl hover:shadow-primary-500/20">
+                {movie.poster ? (
+                  <img
+                    src={movie.poster}
+                    alt={movie.title}
+                    className="w-full h-full object-cover"
+                    loading="lazy"
+                  />
+                ) : (
+                  <div className="w-full h-full flex items-center justify-center bg-gradient-to-br from-gray-800 to-gray-900">
+                    <span className="text-6xl">🎬</span>
+                  </div>
+                )}
+
+                {/* Overlay on Hover */}
+                <div className="absolute inset-0 bg-gradient-to-t from-black via-black/50 to-transparent opacity-0 group-hover:opacity-100 transition-opacity flex flex-col justify-end p-4">
+                  <h3 className="font-bold text-white text-sm line-clamp-2 mb-1">{movie.title}</h3>
+                  <div className="flex items-center gap-2 text-xs text-gray-300">
+                    <span>{movie.year}</span>
+                    {movie.imdb_rating && (
+                      <>
+                        <span>•</span>
+                        <span className="text-yellow-400">⭐ {movie.imdb_rating.toFixed(1)}</span>
+                      </>
+                    )}
+                  </div>
+                </div>
+
+                {/* Location Count Badge */}
+                <div className="absolute top-2 left-2 bg-primary-600/90 backdrop-blur-sm px-2 py-1 rounded-lg text-xs font-bold">
+                  {movie.locationCount} location{movie.locationCount !== 1 ? 's' : ''}
+                </div>
+              </div>
+
+              {/* Title Below (Mobile) */}
+              <div className="mt-2 md:hidden">
+                <h3 className="font-semibold text-sm text-white line-clamp-2">{movie.title}</h3>
+                <p className="text-xs text-gray-400">{movie.year}</p>
+              </div>
+            </Link>
+          ))}
+        </div>
+
+        {/* Empty State */}
+        {filteredMovies.length === 0 && (
+          <div className="text-center py-16">
+            <div className="text-6xl mb-4">🎬</div>
+            <h3 className="text-2xl font-bold mb-2">No movies found</h3>
+            <p className="text-gray-400">Try adjusting your filters</p>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,88 @@
+'use client'
+
+/**
+ * StatsBarChart - Lightweight bar chart for count breakdowns (genres, decades)
+ * Horizontal bars for long labels, vertical columns for ordered series.
+ * Clicking a bar selects it; clicking the selected bar clears the selection.
+ */
+
+interface StatsBarChartProps {
+  title: string
+  data: [string, number][] // [label, count] in display order
+  orientation?: 'horizontal' | 'vertical'
+  selected?: string
+  onSelect?: (label: string | null) => void
+  barClassName?: string
+}
+
+export default function StatsBarChart({
+  title,
+  data,
+  orientation = 'horizontal',
+  selected,
+  onSelect,
+  barClassName = 'bg-primary-500',
+}: StatsBarChartProps) {
+  const max = Math.max(1, ...data.map(([, count]) => count))
+
+  const handleClick = (label: string) => {
+    onSelect?.(label === selected ? null : label)
+  }
+
+  const barOpacity = (label: string) =>
+    selected && selected !== label ? 'opacity-40' : 'opacity-100'
+
+  return (
+    <div className="bg-black/40 backdrop-blur-sm rounded-xl p-6 border border-white/10">
+      <h3 className="text-sm font-semibold text-gray-400 mb-4">{title}</h3>
+
+      {orientation === 'horizontal' ? (
+        <ul className="space-y-2">
+          {data.map(([label, count]) => (
+            <li key={label}>
+              <button
+                onClick={() => handleClick(label)}
+                disabled={!onSelect}
+                className={`w-full flex items-center gap-3 text-left group transition-opacity ${barOpacity(label)}`}
+                aria-pressed={selected === label}
+              >
+                <span className="w-32 flex-shrink-0 text-sm text-gray-300 truncate group-hover:text-white" title={label}>
+                  {label}
+                </span>
+                <span className="flex-1 h-4 bg-white/5 rounded">
+                  <span
+                    className={`block h-full rounded ${barClassName}`}
+                    style={{ width: `${(count / max) * 100}%` }}
+                  />
+                </span>
+                <span className="w-8 text-right text-sm font-semibold text-white">{count}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <div className="flex items-end gap-2 h-40">
+          {data.map(([label, count]) => (
+            <button
+              key={label}
+              onClick={() => handleClick(label)}
+              disabled={!onSelect}
+              className={`flex-1 min-w-0 h-full flex flex-col items-center gap-1 group transition-opacity ${barOpacity(label)}`}
+              aria-pressed={selected === label}
+              title={`${label}: ${count}`}
+            >
+              <span className="text-xs font-semibold text-white">{count}</span>
+              <span className="w-full flex-1 flex items-end">
+                <span
+                  className={`block w-full rounded-t ${barClassName}`}
+                  style={{ height: `${(count / max) * 100}%`, minHeight: '2px' }}
+                />
+              </span>
+              <span className="text-xs text-gray-400 group-hover:text-white">{label}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
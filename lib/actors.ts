@@ -0,0 +1,133 @@
+/**
+ * Actor/crew data utilities for /actor/[slug] pages
+ * Reads data/actors.json (built by scripts/generateActors.ts)
+ */
+
+import fs from 'fs'
+import path from 'path'
+import type { Actor, Location } from './types'
+import { getMovieById, getSlugByMovieId } from './movies'
+
+/**
+ * One of the person's films with every filming location
+ */
+export interface ActorMovie {
+  movie_id: string
+  slug: string | null
+  title: string
+  year: number
+  poster?: string
+  imdb_rating?: number
+  character?: string
+  locations: readonly Location[]
+}
+
+export interface ActorPageData {
+  actor: Actor
+  movies: ActorMovie[]
+  stats: {
+    totalMovies: number
+    totalLocations: number
+    countries: Record<string, number> // Country -> filming locations
+  }
+}
+
+// Singleton cache (prevents re-reading JSON on every request)
+let actorsCache: Actor[] | null = null
+let actorsBySlugCache: Map<string, Actor> | null = null
+
+/**
+ * Load all actors (cached)
+ */
+export function getAllActors(): Actor[] {
+  if (actorsCache) {
+    return actorsCache
+  }
+
+  try {
+    const filePath = path.join(process.cwd(), 'data', 'actors.json')
+    if (!fs.existsSync(filePath)) {
+      console.warn('⚠️ actors.json not found - run "npm run generate:actors"')
+      return []
+    }
+
+    const data: { actors: Actor[] } = JSON.parse(fs.readFileSync(filePath, 'utf-8'))
+    actorsCache = data.actors
+    return actorsCache
+  } catch (error) {
+    console.error('Failed to load actors:', error)
+    return []
+  }
+}
+
+/**
+ * Get an actor by slug
+ */
+export function getActorBySlug(slug: string): Actor | null {
+  if (!actorsBySlugCache) {
+    actorsBySlugCache = new Map(getAllActors().map(actor => [actor.slug, actor]))
+  }
+  return actorsBySlugCache.get(slug) || null
+}
+
+/**
+ * Slugs of actors pre-rendered at build time (the rest render on demand)
+ */
+export function getActorSlugsForStaticParams(minMovies: number = 2): string[] {
+  return getAllActors()
+    .filter(actor => (actor.known_for?.length || 0) >= minMovies)
+    .map(actor => actor.slug)
+}
+
+/**
+ * Country of a location - country field first, then last part of display_name
+ */
+function getLocationCountry(location: Location): string | null {
+  if (location.country) return location.country
+  const parts = (location.display_name || '').split(',')
+  return parts[parts.length - 1].trim() || null
+}
+
+/**
+ * Full actor page data - the person's films (best rated first) with their filming locations
+ */
+export function getActorPageData(slug: string): ActorPageData | null {
+  const actor = getActorBySlug(slug)
+  if (!actor) return null
+
+  const movies: ActorMovie[] = []
+  const countries: Record<string, number> = {}
+  let totalLocations = 0
+
+  for (const movieId of actor.known_for || []) {
+    const movie = getMovieById(movieId)
+    if (!movie) continue
+
+    movies.push({
+      movie_id: movie.movie_id,
+      slug: getSlugByMovieId(movie.movie_id),
+      title: movie.title,
+      year: movie.year,
+      poster: movie.poster,
+      imdb_rating: movie.imdb_rating,
+      character: actor.characters?.[movieId],
+      locations: movie.locations,
+    })
+
+    totalLocations += movie.locations.length
+    movie.locations.forEach(location => {
+      const country = getLocationCountry(location)
+      if (country) countries[country] = (countries[country] || 0) + 1
+    })
+  }
+
+  return {
+    actor,
+    movies,
+    stats: {
+      totalMovies: movies.length,
+      totalLocations,
+      countries,
+    },
+  }
+}
@@ -0,0 +1,346 @@
+/**
+ * Shared helpers for the public read-only REST API (app/api)
+ * Every response uses the same versioned envelope so clients can rely on a stable schema
+ */
+
+import { createHash } from 'crypto'
+import { NextResponse } from 'next/server'
+import type { Movie, Location } from './types'
+import type { LocationData, LocationMovie } from './locations'
+import { getMovieById, getSlugByMovieId } from './movies'
+
+export const API_VERSION = 1
+
+export const DEFAULT_PER_PAGE = 20
+export const MAX_PER_PAGE = 100
+
+// Data only changes on deploy, so let CDNs serve stale copies while revalidating
+const CACHE_CONTROL = 'public, max-age=3600, stale-while-revalidate=86400'
+
+/**
+ * Pagination metadata included with list responses
+ */
+export interface ApiPagination {
+  page: number
+  perPage: number
+  total: number
+  pages: number
+}
+
+/**
+ * Versioned response envelope
+ */
+export interface ApiResponse<T> {
+  version: number
+  data: T
+  pagination?: ApiPagination
+}
+
+export interface ApiErrorResponse {
+  version: number
+  error: {
+    status: number
+    message: string
+  }
+}
+
+/**
+ * Movie as exposed by the API (list shape)
+ */
+export interface ApiMovie {
+  id: string
+  slug: string | null
+  title: string
+  original_title: string | null
+  year: number
+  type: 'movie' | 'tv'
+  genres: string[]
+  imdb_id: string
+  tmdb_id: string
+  imdb_rating: number | null
+  poster: string | null
+  thumbnail: string | null
+  locations_count: number
+}
+
+/**
+ * Filming location as exposed by the API
+ */
+export interface ApiLocation {
+  lat: number
+  lng: number
+  name: string | null
+  city: string | null
+  country: string | null
+  scene_description: string | null
+}
+
+/**
+ * Movie as exposed by the API (detail shape)
+ */
+export interface ApiMovieDetail extends ApiMovie {
+  banner: string | null
+  trailer: string | null
+  streaming: string[]
+  locations: ApiLocation[]
+}
+
+/**
+ * City location page as exposed by the API
+ */
+export interface ApiLocationPage {
+  slug: string
+  city: string
+  country: string
+  coordinates: { lat: number; lng: number } | null
+  movies_count?: number
+}
+
+export const API_MOVIE_FIELDS: readonly (keyof ApiMovie)[] = [
+  'id', 'slug', 'title', 'original_title', 'year', 'type', 'genres',
+  'imdb_id', 'tmdb_id', 'imdb_rating', 'poster', 'thumbnail', 'locations_count',
+]
+
+export const API_MOVIE_DETAIL_FIELDS: readonly (keyof ApiMovieDetail)[] = [
+  ...API_MOVIE_FIELDS, 'banner', 'trailer', 'streaming', 'locations',
+]
+
+/**
+ * Thrown by parsers when a query parameter is invalid; converted to a 400 response
+ */
+export class ApiError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message)
+    this.name = 'ApiError'
+  }
+}
+
+/**
+ * Serialize a filming location
+ */
+export function toApiLocation(location: Location): ApiLocation {
+  return {
+    lat: location.lat,
+    lng: location.lng,
+    name: location.display_name || location.description || null,
+    city: location.city || null,
+    country: location.country || null,
+    scene_description: location.scene_description?.replace(/^\(|\)$/g, '').trim() || null,
+  }
+}
+
+/**
+ * Serialize a movie (list shape)
+ */
+export function toApiMovie(movie: Movie): ApiMovie {
+  return {
+    id: movie.movie_id,
+    slug: getSlugByMovieId(movie.movie_id),
+    title: movie.title,
+    original_title: movie.original_title || null,
+    year: movie.year,
+    type: movie.type || 'movie',
+    genres: [...movie.genres],
+    imdb_id: movie.imdb_id,
+    tmdb_id: String(movie.tmdb_id),
+    imdb_rating: movie.imdb_rating ?? null,
+    poster: movie.poster || null,
+    thumbnail: movie.thumbnail_52 || null,
+    locations_count: movie.locations.length,
+  }
+}
+
+/**
+ * Serialize a movie (detail shape)
+ */
+export function toApiMovieDetail(movie: Movie): ApiMovieDetail {
+  return {
+    ...toApiMovie(movie),
+    banner: movie.banner_1280 || null,
+    trailer: movie.trailer || null,
+    streaming: movie.streaming ? [...movie.streaming] : [],
+    locations: movie.locations.map(toApiLocation),
+  }
+}
+
+/**
+ * Serialize a movie listed on a city location page
+ * Prefers the full movie record; falls back to the summary stored in location_*.json
+ */
+export function toApiLocationMovie(movie: LocationMovie): ApiMovie & { city_locations_count: number } {
+  const fullMovie = getMovieById(movie.movie_id)
+  const base: ApiMovie = fullMovie ? toApiMovie(fullMovie) : {
+    id: movie.movie_id,
+    slug: getSlugByMovieId(movie.movie_id),
+    title: movie.title,
+    original_title: null,
+    year: movie.year,
+    type: 'movie',
+    genres: movie.genres,
+    imdb_id: movie.movie_id,
+    tmdb_id: '',
+    imdb_rating: movie.imdb_rating ?? null,
+    poster: movie.poster || null,
+    thumbnail: movie.thumbnail_52 || null,
+    locations_count: movie.londonLocationCount,
+  }
+
+  return { ...base, city_locations_count: movie.londonLocationCount }
+}
+
+/**
+ * Serialize a city location page summary
+ */
+export function toApiLocationPage(location: LocationData, moviesCount?: number): ApiLocationPage {
+  return {
+    slug: location.slug,
+    city: location.city,
+    country: location.country,
+    coordinates: location.coordinates || null,
+    ...(moviesCount !== undefined && { movies_count: moviesCount }),
+  }
+}
+
+/**
+ * Parse ?page= and ?perPage= (perPage capped at MAX_PER_PAGE)
+ */
+export function parsePagination(params: URLSearchParams): { page: number; perPage: number } {
+  const page = parseIntParam(params, 'page') ?? 1
+  const perPage = parseIntParam(params, 'perPage') ?? DEFAULT_PER_PAGE
+
+  if (page < 1) throw new ApiError(400, '"page" must be 1 or greater')
+  if (perPage < 1 || perPage > MAX_PER_PAGE) {
+    throw new ApiError(400, `"perPage" must be between 1 and ${MAX_PER_PAGE}`)
+  }
+
+  return { page, perPage }
+}
+
+/**
+ * Parse an optional integer query parameter
+ */
+export function parseIntParam(params: URLSearchParams, name: string): number | undefined {
+  const value = params.get(name)
+  if (value === null || value === '') return undefined
+
+  const parsed = Number(value)
+  if (!Number.isInteger(parsed)) throw new ApiError(400, `"${name}" must be an integer`)
+  return parsed
+}
+
+/**
+ * Parse an optional numeric query parameter
+ */
+export function parseNumberParam(params: URLSearchParams, name: string): number | undefined {
+  const value = params.get(name)
+  if (value === null || value === '') return undefined
+
+  const parsed = Number(value)
+  if (!Number.isFinite(parsed)) throw new ApiError(400, `"${name}" must be a number`)
+  return parsed
+}
+
+/**
+ * Parse a comma-separated list query parameter
+ */
+export function parseListParam(params: URLSearchParams, name: string): string[] {
+  const value = params.get(name)
+  if (!value) return []
+  return value.split(',').map(v => v.trim()).filter(Boolean)
+}
+
+/**
+ * Parse ?fields=a,b,c, rejecting names the resource does not have
+ */
+export function parseFields<T extends object>(params: URLSearchParams, allowed: readonly (keyof T)[]): (keyof T)[] | null {
+  const fields = parseListParam(params, 'fields')
+  if (fields.length === 0) return null
+
+  const unknown = fields.filter(f => !allowed.includes(f as keyof T))
+  if (unknown.length > 0) {
+    throw new ApiError(400, `Unknown field(s): ${unknown.join(', ')}`)
+  }
+
+  return fields as (keyof T)[]
+}
+
+/**
+ * Keep only the selected fields of a serialized resource
+ */
+export function pickFields<T extends object>(item: T, fields: (keyof T)[] | null): Partial<T> {
+  if (!fields) return item
+
+  const picked: Partial<T> = {}
+  fields.forEach(field => {
+    picked[field] = item[field]
+  })
+  return picked
+}
+
+/**
+ * Build a JSON response with ETag and Cache-Control headers
+ * Returns 304 when the request's If-None-Match matches the body hash
+ */
+export function jsonResponse<T>(
+  request: Request,
+  data: T,
+  pagination?: ApiPagination
+): NextResponse {
+  const payload: ApiResponse<T> = {
+    version: API_VERSION,
+    data,
+    ...(pagination && { pagination }),
+  }
+  const body = JSON.stringify(payload)
+  const etag = `"${createHash('sha1').update(body).digest('base64url')}"`
+
+  const headers = {
+    'Cache-Control': CACHE_CONTROL,
+    ETag: etag,
+    'Access-Control-Allow-Origin': '*',
+  }
+
+  const ifNoneMatch = request.headers.get('if-none-match')
+  if (ifNoneMatch && ifNoneMatch.split(',').some(tag => tag.trim() === etag)) {
+    return new NextResponse(null, { status: 304, headers })
+  }
+
+  return new NextResponse(body, {
+    status: 200,
+    headers: { ...headers, 'Content-Type': 'application/json; charset=utf-8' },
+  })
+}
+
+/**
+ * Build an error response in the versioned envelope
+ */
+export function errorResponse(status: number, message: string): NextResponse {
+  const payload: ApiErrorResponse = {
+    version: API_VERSION,
+    error: { status, message },
+  }
+
+  return NextResponse.json(payload, {
+    status,
+    headers: { 'Cache-Control': 'no-store', 'Access-Control-Allow-Origin': '*' },
+  })
+}
+
+/**
+ * Wrap a route handler so ApiErrors become 400s and anything else a 500
+ */
+export function withApiErrors(
+  handler: (request: Request, context: { params: Record<string, string> }) => NextResponse | Promise<NextResponse>
+) {
+  return async (request: Request, context: { params: Record<string, string> }): Promise<NextResponse> => {
+    try {
+      return await handler(request, context)
+    } catch (error) {
+      if (error instanceof ApiError) {
+        return errorResponse(error.status, error.message)
+      }
+      console.error('API error:', error)
+      return errorResponse(500, 'Internal server error')
+    }
+  }
+}
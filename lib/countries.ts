@@ -0,0 +1,160 @@
+/**
+ * Country and continent hub data for /country/[slug] and /continent/[slug] pages
+ * Reads data/country_*.json and data/continent_*.json (built by scripts/generateCountryPages.ts)
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import { generateSlug } from './slugify'
+import { getSlugByMovieId } from './movies'
+
+/**
+ * Movie entry inside a country/continent page
+ */
+export interface RegionMovie {
+  movie_id: string
+  slug?: string | null // Attached when the page is loaded
+  title: string
+  year: number
+  genres: string[]
+  poster?: string
+  thumbnail_52?: string
+  imdb_rating?: number
+  locationCount: number // Filming locations inside the region
+}
+
+export interface RegionStats {
+  totalMovies: number
+  totalLocations: number
+  genres: Record<string, number>
+  decades: Record<string, number>
+}
+
+export interface RegionBounds {
+  coordinates: {
+    lat: number
+    lng: number
+  }
+  bbox: [number, number, number, number] // [west, south, east, north]
+}
+
+/**
+ * Country with its continent, enough for breadcrumbs
+ */
+export interface CountrySummary {
+  name: string
+  slug: string
+  continent: {
+    name: string
+    slug: string
+  }
+}
+
+/**
+ * Full contents of a country_*.json page
+ */
+export interface CountryPageData {
+  country: CountrySummary & RegionBounds
+  movies: RegionMovie[]
+  cities: {
+    city: string
+    slug: string
+    movieCount: number
+    locationCount: number
+  }[]
+  points: [number, number][] // Sampled filming locations for the mini-map
+  stats: RegionStats
+}
+
+/**
+ * Full contents of a continent_*.json page
+ */
+export interface ContinentPageData {
+  continent: { name: string; slug: string } & RegionBounds
+  movies: RegionMovie[]
+  countries: {
+    name: string
+    slug: string
+    movieCount: number
+    locationCount: number
+  }[]
+  points: [number, number][]
+  stats: RegionStats
+}
+
+/**
+ * Read a generated region file, or null if it doesn't exist
+ */
+function readRegionFile<T>(prefix: 'country' | 'continent', slug: string): T | null {
+  try {
+    const filePath = path.join(process.cwd(), 'data', `${prefix}_${slug}.json`)
+
+    if (!fs.existsSync(filePath)) {
+      return null
+    }
+
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8'))
+  } catch (error) {
+    console.error(`Error reading ${prefix} ${slug}:`, error)
+    return null
+  }
+}
+
+/**
+ * Slugs of all generated pages with the given prefix
+ */
+function getRegionSlugs(prefix: 'country' | 'continent'): string[] {
+  try {
+    const dataDir = path.join(process.cwd(), 'data')
+    return fs.readdirSync(dataDir)
+      .filter(f => f.startsWith(`${prefix}_`) && f.endsWith('.json'))
+      .map(f => f.slice(prefix.length + 1, -'.json'.length))
+  } catch (error) {
+    console.error(`Error reading ${prefix} files:`, error)
+    return []
+  }
+}
+
+const withMovieSlugs = (movies: RegionMovie[]): RegionMovie[] =>
+  movies.map(movie => ({ ...movie, slug: getSlugByMovieId(movie.movie_id) }))
+
+/**
+ * Get all country slugs from data directory
+ */
+export function getAllCountrySlugs(): string[] {
+  return getRegionSlugs('country')
+}
+
+/**
+ * Get all continent slugs from data directory
+ */
+export function getAllContinentSlugs(): string[] {
+  return getRegionSlugs('continent')
+}
+
+/**
+ * Get full country page data by slug
+ */
+export function getCountryPageData(slug: string): CountryPageData | null {
+  const data = readRegionFile<CountryPageData>('country', slug)
+  return data ? { ...data, movies: withMovieSlugs(data.movies) } : null
+}
+
+/**
+ * Get full continent page data by slug
+ */
+export function getContinentPageData(slug: string): ContinentPageData | null {
+  const data = readRegionFile<ContinentPageData>('continent', slug)
+  return data ? { ...data, movies: withMovieSlugs(data.movies) } : null
+}
+
+/**
+ * Find a country (and its continent) by English name, e.g. a location page's country
+ */
+export function getCountryByName(name: string): CountrySummary | null {
+  const data = readRegionFile<CountryPageData>('country', generateSlug(name))
+  if (!data) return null
+
+  const { slug, continent } = data.country
+  return { name: data.country.name, slug, continent }
+}
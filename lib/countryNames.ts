@@ -0,0 +1,197 @@
+/**
+ * Country name lookup for filming locations
+ * Nominatim returns the country in the local language ("Deutschland", "日本"), so
+ * the last part of display_name is mapped to an English name, ISO 3166-1 alpha-2
+ * code, continent and land area (km², used to normalize the choropleth).
+ * Shared by the build scripts and the map data worker - keep it free of Node APIs.
+ */
+
+export type Continent = 'Africa' | 'Asia' | 'Europe' | 'North America' | 'Oceania' | 'South America'
+
+export interface CountryInfo {
+  english: string
+  iso: string
+  continent: Continent
+  area: number
+}
+
+/**
+ * Country names as they appear in display_name (LOCAL NAME -> country)
+ * English names match the `country` of the location_*.json pages
+ */
+export const COUNTRY_NAMES: Record<string, CountryInfo> = {
+  // Europe
+  'United Kingdom': { english: 'United Kingdom', iso: 'GB', continent: 'Europe', area: 243610 },
+  'France': { english: 'France', iso: 'FR', continent: 'Europe', area: 551695 },
+  'Italia': { english: 'Italy', iso: 'IT', continent: 'Europe', area: 301340 },
+  'España': { english: 'Spain', iso: 'ES', continent: 'Europe', area: 505990 },
+  'Deutschland': { english: 'Germany', iso: 'DE', continent: 'Europe', area: 357022 },
+  'Česko': { english: 'Czech Republic', iso: 'CZ', continent: 'Europe', area: 78871 },
+  'Éire / Ireland': { english: 'Ireland', iso: 'IE', continent: 'Europe', area: 70273 },
+  'Magyarország': { english: 'Hungary', iso: 'HU', continent: 'Europe', area: 93030 },
+  'Türkiye': { english: 'Turkey', iso: 'TR', continent: 'Europe', area: 783562 },
+  'Ísland': { english: 'Iceland', iso: 'IS', continent: 'Europe', area: 103000 },
+  'Österreich': { english: 'Austria', iso: 'AT', continent: 'Europe', area: 83879 },
+  'Hrvatska': { english: 'Croatia', iso: 'HR', continent: 'Europe', area: 56594 },
+  'Sverige': { english: 'Sweden', iso: 'SE', continent: 'Europe', area: 450295 },
+  'Norge': { english: 'Norway', iso: 'NO', continent: 'Europe', area: 323802 },
+  'Schweiz/Suisse/Svizzera/Svizra': { english: 'Switzerland', iso: 'CH', continent: 'Europe', area: 41285 },
+  'Malta': { english: 'Malta', iso: 'MT', continent: 'Europe', area: 316 },
+  'Россия': { english: 'Russia', iso: 'RU', continent: 'Europe', area: 17098246 },
+  'România': { english: 'Romania', iso: 'RO', continent: 'Europe', area: 238397 },
+  'Danmark': { english: 'Denmark', iso: 'DK', continent: 'Europe', area: 42933 },
+  'Polska': { english: 'Poland', iso: 'PL', continent: 'Europe', area: 312696 },
+  'Nederland': { english: 'Netherlands', iso: 'NL', continent: 'Europe', area: 41850 },
+  'België / Belgique / Belgien': { english: 'Belgium', iso: 'BE', continent: 'Europe', area: 30689 },
+  'България': { english: 'Bulgaria', iso: 'BG', continent: 'Europe', area: 110879 },
+  'Ελλάς': { english: 'Greece', iso: 'GR', continent: 'Europe', area: 131957 },
+  'Lietuva': { english: 'Lithuania', iso: 'LT', continent: 'Europe', area: 65300 },
+  'Monaco': { english: 'Monaco', iso: 'MC', continent: 'Europe', area: 2 },
+  'Portugal': { english: 'Portugal', iso: 'PT', continent: 'Europe', area: 92212 },
+  'Србија': { english: 'Serbia', iso: 'RS', continent: 'Europe', area: 77474 },
+  'Slovensko': { english: 'Slovakia', iso: 'SK', continent: 'Europe', area: 49035 },
+  'Eesti': { english: 'Estonia', iso: 'EE', continent: 'Europe', area: 45339 },
+  'Україна': { english: 'Ukraine', iso: 'UA', continent: 'Europe', area: 603550 },
+  'Suomi / Finland': { english: 'Finland', iso: 'FI', continent: 'Europe', area: 338455 },
+  'Civitas Vaticana - Città del Vaticano': { english: 'Vatican City', iso: 'VA', continent: 'Europe', area: 0.49 },
+  'Slovenija': { english: 'Slovenia', iso: 'SI', continent: 'Europe', area: 20271 },
+  'Føroyar': { english: 'Faroe Islands', iso: 'FO', continent: 'Europe', area: 1399 },
+  'Северна Македонија': { english: 'North Macedonia', iso: 'MK', continent: 'Europe', area: 25713 },
+  'Bosna i Hercegovina / Босна и Херцеговина': { english: 'Bosnia and Herzegovina', iso: 'BA', continent: 'Europe', area: 51209 },
+  'Moldova': { english: 'Moldova', iso: 'MD', continent: 'Europe', area: 33846 },
+  'Isle of Man': { english: 'Isle of Man', iso: 'IM', continent: 'Europe', area: 572 },
+  'Jersey': { english: 'Jersey', iso: 'JE', continent: 'Europe', area: 116 },
+  'Κύπρος - Kıbrıs': { english: 'Cyprus', iso: 'CY', continent: 'Europe', area: 9251 },
+  'Latvija': { english: 'Latvia', iso: 'LV', continent: 'Europe', area: 64589 },
+  'Lëtzebuerg': { english: 'Luxembourg', iso: 'LU', continent: 'Europe', area: 2586 },
+
+  // North America (incl. Central America & the Caribbean)
+  'United States of America': { english: 'United States', iso: 'US', continent: 'North America', area: 9833520 },
+  'Canada': { english: 'Canada', iso: 'CA', continent: 'North America', area: 9984670 },
+  'México': { english: 'Mexico', iso: 'MX', continent: 'North America', area: 1964375 },
+  'Jamaica': { english: 'Jamaica', iso: 'JM', continent: 'North America', area: 10991 },
+  'República Dominicana': { english: 'Dominican Republic', iso: 'DO', continent: 'North America', area: 48671 },
+  'The Bahamas': { english: 'Bahamas', iso: 'BS', continent: 'North America', area: 13943 },
+  'Panamá': { english: 'Panama', iso: 'PA', continent: 'North America', area: 75417 },
+  'Costa Rica': { english: 'Costa Rica', iso: 'CR', continent: 'North America', area: 51100 },
+  'Kalaallit Nunaat': { english: 'Greenland', iso: 'GL', continent: 'North America', area: 2166086 },
+  'Saint Vincent and the Grenadines': { english: 'Saint Vincent and the Grenadines', iso: 'VC', continent: 'North America', area: 389 },
+  'Guatemala': { english: 'Guatemala', iso: 'GT', continent: 'North America', area: 108889 },
+  'Dominica': { english: 'Dominica', iso: 'DM', continent: 'North America', area: 751 },
+  'Barbados': { english: 'Barbados', iso: 'BB', continent: 'North America', area: 430 },
+  'Cuba': { english: 'Cuba', iso: 'CU', continent: 'North America', area: 109884 },
+  'Trinidad and Tobago': { english: 'Trinidad and Tobago', iso: 'TT', continent: 'North America', area: 5128 },
+  'Belize': { english: 'Belize', iso: 'BZ', continent: 'North America', area: 22966 },
+  'Cayman Islands': { english: 'Cayman Islands', iso: 'KY', continent: 'North America', area: 264 },
+  'Saint Lucia': { english: 'Saint Lucia', iso: 'LC', continent: 'North America', area: 617 },
+
+  // South America
+  'Brasil': { english: 'Brazil', iso: 'BR', continent: 'South America', area: 8515767 },
+  'Argentina': { english: 'Argentina', iso: 'AR', continent: 'South America', area: 2780400 },
+  'Colombia': { english: 'Colombia', iso: 'CO', continent: 'South America', area: 1141748 },
+  'Venezuela': { english: 'Venezuela', iso: 'VE', continent: 'South America', area: 916445 },
+  'Chile': { english: 'Chile', iso: 'CL', continent: 'South America', area: 756102 },
+  'Perú': { english: 'Peru', iso: 'PE', continent: 'South America', area: 1285216 },
+  'Uruguay': { english: 'Uruguay', iso: 'UY', continent: 'South America', area: 176215 },
+  'Falkland Islands': { english: 'Falkland Islands', iso: 'FK', continent: 'South America', area: 12173 },
+  'Bolivia': { english: 'Bolivia', iso: 'BO', continent: 'South America', area: 1098581 },
+  'Ecuador': { english: 'Ecuador', iso: 'EC', continent: 'South America', area: 283561 },
+
+  // Asia
+  '日本': { english: 'Japan', iso: 'JP', continent: 'Asia', area: 377975 },
+  'India': { english: 'India', iso: 'IN', continent: 'Asia', area: 3287263 },
+  '中国': { english: 'China', iso: 'CN', continent: 'Asia', area: 9596961 },
+  '대한민국': { english: 'South Korea', iso: 'KR', continent: 'Asia', area: 100210 },
+  'ประเทศไทย': { english: 'Thailand', iso: 'TH', continent: 'Asia', area: 513120 },
+  'الأردن': { english: 'Jordan', iso: 'JO', continent: 'Asia', area: 89342 },
+  'الإمارات العربية المتحدة': { english: 'United Arab Emirates', iso: 'AE', continent: 'Asia', area: 83600 },
+  'Philippines': { english: 'Philippines', iso: 'PH', continent: 'Asia', area: 300000 },
+  'Singapore': { english: 'Singapore', iso: 'SG', continent: 'Asia', area: 728 },
+  'Sri Lanka': { english: 'Sri Lanka', iso: 'LK', continent: 'Asia', area: 65610 },
+  'Malaysia': { english: 'Malaysia', iso: 'MY', continent: 'Asia', area: 330803 },
+  'Indonesia': { english: 'Indonesia', iso: 'ID', continent: 'Asia', area: 1904569 },
+  'नेपाल': { english: 'Nepal', iso: 'NP', continent: 'Asia', area: 147516 },
+  'ישראל': { english: 'Israel', iso: 'IL', continent: 'Asia', area: 22072 },
+  'ព្រះរាជាណាចក្រ​កម្ពុជា': { english: 'Cambodia', iso: 'KH', continent: 'Asia', area: 181035 },
+  'لبنان': { english: 'Lebanon', iso: 'LB', continent: 'Asia', area: 10452 },
+  '臺灣': { english: 'Taiwan', iso: 'TW', continent: 'Asia', area: 36197 },
+  'Azərbaycan': { english: 'Azerbaijan', iso: 'AZ', continent: 'Asia', area: 86600 },
+  'ایران': { english: 'Iran', iso: 'IR', continent: 'Asia', area: 1648195 },
+  'বাংলাদেশ': { english: 'Bangladesh', iso: 'BD', continent: 'Asia', area: 147570 },
+  'Монгол улс ᠮᠤᠩᠭᠤᠯ ᠤᠯᠤᠰ': { english: 'Mongolia', iso: 'MN', continent: 'Asia', area: 1564116 },
+  'မြန်မာ': { english: 'Myanmar', iso: 'MM', continent: 'Asia', area: 676578 },
+  'Việt Nam': { english: 'Vietnam', iso: 'VN', continent: 'Asia', area: 331212 },
+  'Қазақстан': { english: 'Kazakhstan', iso: 'KZ', continent: 'Asia', area: 2724900 },
+  'العراق': { english: 'Iraq', iso: 'IQ', continent: 'Asia', area: 438317 },
+  'Oʻzbekiston': { english: 'Uzbekistan', iso: 'UZ', continent: 'Asia', area: 448978 },
+  'پاکستان': { english: 'Pakistan', iso: 'PK', continent: 'Asia', area: 881913 },
+  'ދިވެހިރާއްޖެ': { english: 'Maldives', iso: 'MV', continent: 'Asia', area: 298 },
+  'اليمن': { english: 'Yemen', iso: 'YE', continent: 'Asia', area: 527968 },
+  'السعودية': { english: 'Saudi Arabia', iso: 'SA', continent: 'Asia', area: 2149690 },
+  'افغانستان': { english: 'Afghanistan', iso: 'AF', continent: 'Asia', area: 652230 },
+  'قطر': { english: 'Qatar', iso: 'QA', continent: 'Asia', area: 11586 },
+
+  // Africa
+  'Maroc ⵍⵎⵖⵔⵉⴱ المغرب': { english: 'Morocco', iso: 'MA', continent: 'Africa', area: 446550 },
+  'South Africa': { english: 'South Africa', iso: 'ZA', continent: 'Africa', area: 1221037 },
+  'تونس': { english: 'Tunisia', iso: 'TN', continent: 'Africa', area: 163610 },
+  'مصر': { english: 'Egypt', iso: 'EG', continent: 'Africa', area: 1002450 },
+  'Namibia': { english: 'Namibia', iso: 'NA', continent: 'Africa', area: 825615 },
+  'Kenya': { english: 'Kenya', iso: 'KE', continent: 'Africa', area: 580367 },
+  'ኢትዮጵያ إثيوبيا': { english: 'Ethiopia', iso: 'ET', continent: 'Africa', area: 1104300 },
+  'Algérie ⵍⵣⵣⴰⵢⴻⵔ الجزائر': { english: 'Algeria', iso: 'DZ', continent: 'Africa', area: 2381741 },
+  'Tanzania': { english: 'Tanzania', iso: 'TZ', continent: 'Africa', area: 945087 },
+  'Tchad تشاد': { english: 'Chad', iso: 'TD', continent: 'Africa', area: 1284000 },
+  'Moçambique': { english: 'Mozambique', iso: 'MZ', continent: 'Africa', area: 801590 },
+  'Uganda': { english: 'Uganda', iso: 'UG', continent: 'Africa', area: 241550 },
+  'Zambia': { english: 'Zambia', iso: 'ZM', continent: 'Africa', area: 752612 },
+  'Rwanda': { english: 'Rwanda', iso: 'RW', continent: 'Africa', area: 26338 },
+  'République démocratique du Congo': { english: 'DR Congo', iso: 'CD', continent: 'Africa', area: 2344858 },
+  'Mauritanie موريتانيا': { english: 'Mauritania', iso: 'MR', continent: 'Africa', area: 1030700 },
+  'Gabon': { english: 'Gabon', iso: 'GA', continent: 'Africa', area: 267668 },
+  'Malawi': { english: 'Malawi', iso: 'MW', continent: 'Africa', area: 118484 },
+  'Madagasikara / Madagascar': { english: 'Madagascar', iso: 'MG', continent: 'Africa', area: 587041 },
+  'Guinée': { english: 'Guinea', iso: 'GN', continent: 'Africa', area: 245857 },
+
+  // Oceania
+  'Australia': { english: 'Australia', iso: 'AU', continent: 'Oceania', area: 7692024 },
+  'New Zealand / Aotearoa': { english: 'New Zealand', iso: 'NZ', continent: 'Oceania', area: 268021 },
+  'Viti': { english: 'Fiji', iso: 'FJ', continent: 'Oceania', area: 18274 },
+  'Solomon Islands': { english: 'Solomon Islands', iso: 'SB', continent: 'Oceania', area: 28896 },
+  'Belau': { english: 'Palau', iso: 'PW', continent: 'Oceania', area: 459 },
+  'Niuē': { english: 'Niue', iso: 'NU', continent: 'Oceania', area: 261 },
+  'Tonga': { english: 'Tonga', iso: 'TO', continent: 'Oceania', area: 748 },
+  'Papua Niugini': { english: 'Papua New Guinea', iso: 'PG', continent: 'Oceania', area: 462840 },
+}
+
+// The `country` field may already hold an English name
+const COUNTRIES_BY_ENGLISH: Record<string, CountryInfo> = Object.fromEntries(
+  Object.values(COUNTRY_NAMES).map(country => [country.english, country])
+)
+
+const COUNTRIES_BY_ISO: Record<string, CountryInfo> = Object.fromEntries(
+  Object.values(COUNTRY_NAMES).map(country => [country.iso, country])
+)
+
+/**
+ * Resolve a local or English country name (null for unknown names)
+ */
+export function findCountry(name: string): CountryInfo | null {
+  return COUNTRY_NAMES[name] || COUNTRIES_BY_ENGLISH[name] || null
+}
+
+/**
+ * Country of a location - country field first, then last part of display_name
+ */
+export function findLocationCountry(location: { country?: string; display_name?: string }): CountryInfo | null {
+  const parts = (location.display_name || '').split(',')
+  const name = location.country || parts[parts.length - 1].trim()
+  return name ? findCountry(name) : null
+}
+
+/**
+ * Look up a country by ISO 3166-1 alpha-2 code
+ */
+export function getCountryByIso(iso: string): CountryInfo | null {
+  return COUNTRIES_BY_ISO[iso] || null
+}
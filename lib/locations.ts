@@ -12,12 +12,57 @@ export interface LocationData {
     lat: number
     lng: number
   }
+  movieCount?: number
 }
 
 /**
- * Get all location slugs from data directory
+ * Movie entry inside a location_*.json page
+ */
+export interface LocationMovie {
+  movie_id: string
+  title: string
+  year: number
+  genres: string[]
+  poster?: string
+  banner_1280?: string
+  thumbnail_52?: string
+  imdb_rating?: number
+  londonLocationCount: number
+}
+
+/**
+ * Full contents of a location_*.json page
+ */
+export interface LocationPageData {
+  location: {
+    city: string
+    country: string
+    slug: string
+    coordinates: {
+      lat: number
+      lng: number
+    }
+  }
+  movies: LocationMovie[]
+  stats: {
+    totalMovies: number
+    totalLocations: number
+    genres: Record<string, number>
+    decades: Record<string, number>
+  }
+}
+
+// Singleton cache for the location list (prevents re-reading every location file per request)
+let locationsCache: LocationData[] | null = null
+
+/**
+ * Get all location slugs from data directory (cached)
  */
 export function getAllLocationSlugs(): LocationData[] {
+  if (locationsCache) {
+    return locationsCache
+  }
+
   try {
     const dataDir = path.join(process.cwd(), 'data')
     const files = fs.readdirSync(dataDir)
@@ -40,6 +85,7 @@ export function getAllLocationSlugs(): LocationData[] {
             country: data.location.country,
             slug: data.location.slug,
             coordinates: data.location.coordinates,
+            movieCount: data.movies ? data.movies.length : 0,
           })
         }
       } catch (error) {
@@ -55,7 +101,8 @@ export function getAllLocationSlugs(): LocationData[] {
       return a.city.localeCompare(b.city)
     })
 
-    return locations
+    locationsCache = locations
+    return locationsCache
   } catch (error) {
     console.error('Error reading location files:', error)
     return []
@@ -94,23 +141,21 @@ export function getLocationBySlug(slug: string): LocationData | null {
 }
 
 /**
- * Count movies for a location
+ * Get full location page data (movies and stats) by slug
  */
-export function getLocationMovieCount(slug: string): number {
+export function getLocationPageData(slug: string): LocationPageData | null {
   try {
     const dataDir = path.join(process.cwd(), 'data')
     const filePath = path.join(dataDir, `location_${slug}.json`)
 
     if (!fs.existsSync(filePath)) {
-      return 0
+      return null
     }
 
     const content = fs.readFileSync(filePath, 'utf-8')
-    const data = JSON.parse(content)
-
-    return data.movies ? data.movies.length : 0
+    return JSON.parse(content)
   } catch (error) {
     console.error(`Error reading location ${slug}:`, error)
-    return 0
+    return null
   }
 }
@@ -222,3 +222,20 @@ export function generateMovieSchema(movie: Movie, slug: string) {
     ].filter(Boolean),
   }
 }
+
+/**
+ * Generate JSON-LD breadcrumb list from relative links
+ * Server-side counterpart of generateBreadcrumbSchema in components/Breadcrumbs.tsx (a client module)
+ */
+export function generateBreadcrumbListSchema(items: { name: string; href?: string }[]) {
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'BreadcrumbList',
+    itemListElement: items.map((item, index) => ({
+      '@type': 'ListItem',
+      position: index + 1,
+      name: item.name,
+      item: item.href ? `${SITE_URL}${item.href === '/' ? '' : item.href}` : undefined,
+    })),
+  }
+}
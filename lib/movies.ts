@@ -5,12 +5,58 @@
 
 import fs from 'fs'
 import path from 'path'
-import type { Movie } from './types'
+import type { Movie, Location } from './types'
+
+/**
+ * Bounding box as [minLng, minLat, maxLng, maxLat]
+ */
+export type BBox = [number, number, number, number]
+
+export type MovieSortKey = 'rating' | 'year' | 'title' | 'locations'
+
+/**
+ * Compound query accepted by queryMovies()
+ * All criteria are optional and combined with AND (genres match ANY of the list)
+ */
+export interface MovieQuery {
+  genres?: string[]
+  yearRange?: [number, number]
+  ratingRange?: [number, number]
+  type?: 'movie' | 'tv'
+  country?: string
+  city?: string
+  bbox?: BBox
+  sort?: MovieSortKey
+  order?: 'asc' | 'desc'
+  page?: number
+  perPage?: number
+}
+
+export interface MovieQueryResult {
+  movies: Movie[]
+  total: number
+  pages: number
+  currentPage: number
+}
+
+/**
+ * Lookup indexes built once over getAllMovies()
+ * Index keys for genre, country and city are lowercased
+ */
+interface MovieIndex {
+  byId: Map<string, Movie>
+  position: Map<string, number>
+  byGenre: Map<string, Movie[]>
+  byYear: Map<number, Movie[]>
+  byCountry: Map<string, Movie[]>
+  byCity: Map<string, Movie[]>
+}
 
 // Singleton cache for movie data (prevents re-reading JSON on every request)
 let moviesCache: Movie[] | null = null
 let slugMapCache: Record<string, string> | null = null
 let reverseSlugMapCache: Record<string, string> | null = null
+let indexCache: MovieIndex | null = null
 
 /**
  * Get the absolute path to data files
@@ -38,6 +84,94 @@ export function getAllMovies(): Movie[] {
   }
 }
 
+/**
+ * Normalize a value for use as an index key
+ */
+function toIndexKey(value: string): string {
+  return value.trim().toLowerCase()
+}
+
+/**
+ * Country of a location - country field first, then last part of display_name
+ */
+function getLocationCountry(location: Location): string | null {
+  if (location.country) return location.country
+
+  if (location.display_name) {
+    const parts = location.display_name.split(',')
+    return parts[parts.length - 1].trim() || null
+  }
+
+  return null
+}
+
+/**
+ * City candidates of a location - city field, or every address part of display_name
+ * except the country (mirrors how generateLocationPages matches major cities)
+ */
+function getLocationCities(location: Location): string[] {
+  if (location.city) return [location.city]
+
+  if (location.display_name) {
+    const parts = location.display_name.split(',').map(p => p.trim()).filter(Boolean)
+    return parts.slice(0, -1)
+  }
+
+  return []
+}
+
+/**
+ * Append a movie to an index bucket, skipping duplicates from multi-location movies
+ */
+function addToIndex<K>(index: Map<K, Movie[]>, key: K, movie: Movie): void {
+  const bucket = index.get(key)
+  if (!bucket) {
+    index.set(key, [movie])
+  } else if (bucket[bucket.length - 1] !== movie) {
+    bucket.push(movie)
+  }
+}
+
+/**
+ * Build id, genre, year, country and city indexes (cached)
+ */
+function getMovieIndex(): MovieIndex {
+  if (indexCache) {
+    return indexCache
+  }
+
+  const index: MovieIndex = {
+    byId: new Map(),
+    position: new Map(),
+    byGenre: new Map(),
+    byYear: new Map(),
+    byCountry: new Map(),
+    byCity: new Map(),
+  }
+
+  getAllMovies().forEach((movie, position) => {
+    index.byId.set(movie.movie_id, movie)
+    if (movie.imdb_id && movie.imdb_id !== movie.movie_id) {
+      index.byId.set(movie.imdb_id, movie)
+    }
+    index.position.set(movie.movie_id, position)
+
+    movie.genres?.forEach(genre => addToIndex(index.byGenre, toIndexKey(genre), movie))
+    addToIndex(index.byYear, movie.year, movie)
+
+    movie.locations.forEach(location => {
+      const country = getLocationCountry(location)
+      if (country) {
+        addToIndex(index.byCountry, toIndexKey(country), movie)
+      }
+      getLocationCities(location).forEach(city => addToIndex(index.byCity, toIndexKey(city), movie))
+    })
+  })
+
+  indexCache = index
+  return index
+}
+
 /**
  * Load slug mapping (cached)
  */
@@ -95,16 +229,14 @@ export function getMovieBySlug(slug: string): Movie | null {
     return null
   }
 
-  const movies = getAllMovies()
-  return movies.find(m => m.movie_id === movieId) || null
+  return getMovieById(movieId)
 }
 
 /**
  * Get movie by ID
  */
 export function getMovieById(movieId: string): Movie | null {
-  const movies = getAllMovies()
-  return movies.find(m => m.movie_id === movieId) || null
+  return getMovieIndex().byId.get(movieId) || null
 }
 
 /**
@@ -127,22 +259,138 @@ export function getAllMovieSlugs(): string[] {
  * Get paginated movies (for large datasets)
  * Useful for building sitemaps in chunks
  */
-export function getMoviesPaginated(page: number = 1, perPage: number = 100): {
-  movies: Movie[]
-  total: number
-  pages: number
-  currentPage: number
-} {
-  const allMovies = getAllMovies()
-  const total = allMovies.length
-  const pages = Math.ceil(total / perPage)
+export function getMoviesPaginated(page: number = 1, perPage: number = 100): MovieQueryResult {
+  return queryMovies({ page, perPage })
+}
+
+/**
+ * Union of indexed buckets, or null when no key was requested
+ */
+function collectCandidates(index: Map<string, Movie[]>, keys: string[]): Set<Movie> | null {
+  if (keys.length === 0) return null
+
+  const candidates = new Set<Movie>()
+  keys.forEach(key => {
+    index.get(toIndexKey(key))?.forEach(movie => candidates.add(movie))
+  })
+  return candidates
+}
+
+/**
+ * Movies released within an inclusive year range, read from the year index
+ */
+function collectYearCandidates(index: Map<number, Movie[]>, [startYear, endYear]: [number, number]): Set<Movie> {
+  const candidates = new Set<Movie>()
+  index.forEach((movies, year) => {
+    if (year >= startYear && year <= endYear) {
+      movies.forEach(movie => candidates.add(movie))
+    }
+  })
+  return candidates
+}
+
+/**
+ * Convert a candidate set back to an array in original dataset order
+ */
+function inDatasetOrder(index: MovieIndex, movies: Iterable<Movie>): Movie[] {
+  return Array.from(movies)
+    .sort((a, b) => (index.position.get(a.movie_id) || 0) - (index.position.get(b.movie_id) || 0))
+}
+
+/**
+ * Check if any of the movie's locations falls inside the bounding box
+ */
+function isMovieInBBox(movie: Movie, [minLng, minLat, maxLng, maxLat]: BBox): boolean {
+  return movie.locations.some(loc =>
+    loc.lng >= minLng && loc.lng <= maxLng && loc.lat >= minLat && loc.lat <= maxLat
+  )
+}
+
+/**
+ * Compare two movies by sort key (ascending)
+ */
+function compareMovies(a: Movie, b: Movie, sort: MovieSortKey): number {
+  switch (sort) {
+    case 'rating':
+      return (a.imdb_rating || 0) - (b.imdb_rating || 0)
+    case 'year':
+      return a.year - b.year
+    case 'title':
+      return a.title.localeCompare(b.title)
+    case 'locations':
+      return a.locations.length - b.locations.length
+    default:
+      return 0
+  }
+}
+
+/**
+ * Query movies with compound criteria, sorting and pagination
+ * Narrows candidates through the smallest matching index before applying the remaining predicates
+ */
+export function queryMovies(query: MovieQuery = {}): MovieQueryResult {
+  const index = getMovieIndex()
+  const {
+    genres = [],
+    yearRange,
+    ratingRange,
+    type,
+    country,
+    city,
+    bbox,
+    sort,
+    order = sort === 'title' ? 'asc' : 'desc',
+    page = 1,
+    perPage = 100,
+  } = query
+
+  // Pick the smallest indexed candidate set to start from
+  const candidateSets = [
+    collectCandidates(index.byGenre, genres),
+    collectCandidates(index.byCountry, country ? [country] : []),
+    collectCandidates(index.byCity, city ? [city] : []),
+    yearRange ? collectYearCandidates(index.byYear, yearRange) : null,
+  ].filter((set): set is Set<Movie> => set !== null)
+
+  let movies: Movie[]
+  if (candidateSets.length > 0) {
+    candidateSets.sort((a, b) => a.size - b.size)
+    const [smallest, ...others] = candidateSets
+    // Keep dataset order so unsorted queries are stable
+    movies = inDatasetOrder(index, smallest)
+      .filter(movie => others.every(set => set.has(movie)))
+  } else {
+    movies = getAllMovies()
+  }
+
+  movies = movies.filter(movie => {
+    if (type && (movie.type || 'movie') !== type) return false
+
+    if (ratingRange) {
+      if (movie.imdb_rating === undefined) {
+        if (ratingRange[0] > 0) return false
+      } else if (movie.imdb_rating < ratingRange[0] || movie.imdb_rating > ratingRange[1]) {
+        return false
+      }
+    }
+
+    if (bbox && !isMovieInBBox(movie, bbox)) return false
+
+    return true
+  })
+
+  if (sort) {
+    const direction = order === 'asc' ? 1 : -1
+    movies = [...movies].sort((a, b) => compareMovies(a, b, sort) * direction)
+  }
+
+  const total = movies.length
   const start = (page - 1) * perPage
-  const end = start + perPage
 
   return {
-    movies: allMovies.slice(start, end),
+    movies: movies.slice(start, start + perPage),
     total,
-    pages,
+    pages: Math.ceil(total / perPage),
     currentPage: page
   }
 }
@@ -170,10 +418,8 @@ export function searchMovies(query: string, limit: number = 20): Movie[] {
  * Get movies by genre
  */
 export function getMoviesByGenre(genre: string, limit?: number): Movie[] {
-  const movies = getAllMovies()
-  const filtered = movies.filter(movie =>
-    movie.genres && movie.genres.includes(genre)
-  )
+  const filtered = (getMovieIndex().byGenre.get(toIndexKey(genre)) || [])
+    .filter(movie => movie.genres.includes(genre))
 
   return limit ? filtered.slice(0, limit) : filtered
 }
@@ -182,10 +428,8 @@ export function getMoviesByGenre(genre: string, limit?: number): Movie[] {
  * Get movies by year range
  */
 export function getMoviesByYearRange(startYear: number, endYear: number): Movie[] {
-  const movies = getAllMovies()
-  return movies.filter(movie =>
-    movie.year >= startYear && movie.year <= endYear
-  )
+  const index = getMovieIndex()
+  return inDatasetOrder(index, collectYearCandidates(index.byYear, [startYear, endYear]))
 }
 
 /**
@@ -276,4 +520,5 @@ export function clearCache(): void {
   moviesCache = null
   slugMapCache = null
   reverseSlugMapCache = null
+  indexCache = null
 }
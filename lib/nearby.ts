@@ -0,0 +1,156 @@
+/**
+ * Geographic "near point" queries over every filming location
+ * Uses a fixed lat/lng grid so radius and k-nearest lookups only scan nearby cells
+ */
+
+import type { Movie, Location } from './types'
+import { getAllMovies } from './movies'
+import { haversineDistance, EARTH_RADIUS_KM } from '../src/utils/map/coordinateUtils'
+
+// Grid cell size in degrees (~55 km at the equator)
+const CELL_SIZE = 0.5
+const GRID_COLUMNS = Math.round(360 / CELL_SIZE)
+const KM_PER_DEGREE = (Math.PI * EARTH_RADIUS_KM) / 180
+// Half the Earth's circumference - no point is further away than this
+const MAX_DISTANCE_KM = Math.PI * EARTH_RADIUS_KM
+const INITIAL_KNN_RADIUS_KM = 5
+
+/**
+ * A single filming location of a movie
+ */
+export interface NearbyPoint {
+  movie: Movie
+  location: Location
+  locationIndex: number
+}
+
+/**
+ * A point returned by a query, with its distance from the query origin
+ */
+export interface NearbyResult extends NearbyPoint {
+  distanceKm: number
+}
+
+interface SpatialGrid {
+  cells: Map<string, NearbyPoint[]>
+  size: number
+}
+
+// Singleton cache (built once from getAllMovies())
+let gridCache: SpatialGrid | null = null
+
+function getRow(lat: number): number {
+  return Math.floor((Math.max(-90, Math.min(90, lat)) + 90) / CELL_SIZE)
+}
+
+function getColumn(lng: number): number {
+  const column = Math.floor((lng + 180) / CELL_SIZE)
+  return ((column % GRID_COLUMNS) + GRID_COLUMNS) % GRID_COLUMNS
+}
+
+/**
+ * Build the spatial grid over all movie locations (cached)
+ */
+function getSpatialGrid(): SpatialGrid {
+  if (gridCache) {
+    return gridCache
+  }
+
+  const grid: SpatialGrid = { cells: new Map(), size: 0 }
+
+  getAllMovies().forEach(movie => {
+    movie.locations.forEach((location, locationIndex) => {
+      if (!Number.isFinite(location.lat) || !Number.isFinite(location.lng)) return
+
+      const key = `${getRow(location.lat)}:${getColumn(location.lng)}`
+      const cell = grid.cells.get(key)
+      const point = { movie, location, locationIndex }
+
+      if (cell) {
+        cell.push(point)
+      } else {
+        grid.cells.set(key, [point])
+      }
+      grid.size++
+    })
+  })
+
+  gridCache = grid
+  return grid
+}
+
+/**
+ * Find all filming locations within radiusKm of a point, nearest first
+ */
+export function findLocationsWithinRadius(
+  lat: number,
+  lng: number,
+  radiusKm: number,
+  limit?: number
+): NearbyResult[] {
+  const grid = getSpatialGrid()
+  const latSpan = radiusKm / KM_PER_DEGREE
+  const minRow = getRow(lat - latSpan)
+  const maxRow = getRow(lat + latSpan)
+
+  // Longitude span widens with latitude; scan every column near the poles or for huge radii
+  const maxAbsLat = Math.min(90, Math.abs(lat) + latSpan)
+  const cosLat = Math.cos((maxAbsLat * Math.PI) / 180)
+  const lngSpan = cosLat > 1e-6 ? latSpan / cosLat : 360
+  const columns: number[] = []
+
+  if (lngSpan >= 180) {
+    for (let column = 0; column < GRID_COLUMNS; column++) columns.push(column)
+  } else {
+    const firstColumn = Math.floor((lng - lngSpan + 180) / CELL_SIZE)
+    const lastColumn = Math.floor((lng + lngSpan + 180) / CELL_SIZE)
+    for (let column = firstColumn; column <= lastColumn; column++) {
+      columns.push(((column % GRID_COLUMNS) + GRID_COLUMNS) % GRID_COLUMNS)
+    }
+  }
+
+  const results: NearbyResult[] = []
+
+  for (let row = minRow; row <= maxRow; row++) {
+    for (const column of columns) {
+      const cell = grid.cells.get(`${row}:${column}`)
+      if (!cell) continue
+
+      for (const point of cell) {
+        const distanceKm = haversineDistance(lat, lng, point.location.lat, point.location.lng)
+        if (distanceKm <= radiusKm) {
+          results.push({ ...point, distanceKm })
+        }
+      }
+    }
+  }
+
+  results.sort((a, b) => a.distanceKm - b.distanceKm)
+  return limit !== undefined ? results.slice(0, limit) : results
+}
+
+/**
+ * Find the k nearest filming locations to a point
+ * Repeats the radius query with a doubling radius until k points are found
+ */
+export function findNearestLocations(lat: number, lng: number, k: number): NearbyResult[] {
+  const total = getSpatialGrid().size
+  if (total === 0 || k <= 0) return []
+
+  let radiusKm = INITIAL_KNN_RADIUS_KM
+
+  while (true) {
+    const results = findLocationsWithinRadius(lat, lng, radiusKm)
+    if (results.length >= Math.min(k, total) || radiusKm >= MAX_DISTANCE_KM) {
+      return results.slice(0, k)
+    }
+    radiusKm = Math.min(radiusKm * 2, MAX_DISTANCE_KM)
+  }
+}
+
+/**
+ * Clear cache (useful for development/testing)
+ */
+export function clearNearbyCache(): void {
+  gridCache = null
+}
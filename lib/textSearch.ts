@@ -0,0 +1,100 @@
+/**
+ * Text analysis for the scene-description full-text index
+ * Shared by the index builder (scripts/optimizeSearchData.ts) and the client
+ * search (src/utils/sceneSearch.ts) - both sides must produce identical terms
+ */
+
+/**
+ * Common English words left out of the index (positions still count them,
+ * so phrases like "across the bridge" keep their spacing)
+ */
+export const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'into',
+  'is', 'it', 'its', 'of', 'on', 'or', 'the', 'to', 'was', 'were', 'with',
+])
+
+export interface AnalyzedTerm {
+  term: string
+  position: number // Word position in the original text (stop words included)
+}
+
+/**
+ * Remove accents: "Café Münster" -> "Cafe Munster"
+ */
+export function foldDiacritics(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+}
+
+/**
+ * Split text into lowercase, accent-free words
+ * Possessives are dropped ("Rick's" -> "rick")
+ */
+export function tokenize(text: string): string[] {
+  return foldDiacritics(text.toLowerCase())
+    .replace(/['’]s\b/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+}
+
+/**
+ * Light English stemmer - strips plural, -ing, -ed and -ly endings
+ * Examples:
+ *   "chases", "chasing", "chased" -> "chas"
+ *   "running" -> "run", "diving" -> "dive", "cities" -> "city"
+ */
+export function stem(word: string): string {
+  if (word.length <= 3 || /\d/.test(word)) return word
+
+  let result = word
+
+  // Plurals
+  if (result.endsWith('sses')) {
+    result = result.slice(0, -2)
+  } else if (result.endsWith('ies') && result.length > 4) {
+    result = `${result.slice(0, -3)}y`
+  } else if (result.endsWith('s') && !/(ss|us|is)$/.test(result)) {
+    result = result.slice(0, -1)
+  }
+
+  // Verb endings (keep at least three letters with a vowel; "speed" is not speed-ed)
+  for (const suffix of ['ing', 'ed']) {
+    if (!result.endsWith(suffix) || result.endsWith('eed')) continue
+    const base = result.slice(0, -suffix.length)
+    if (base.length >= 3 && /[aeiouy]/.test(base)) {
+      if (/([^aeiouylsz])\1$/.test(base)) {
+        // Double consonants: "running" -> "runn" -> "run" (but "falling" -> "fall")
+        result = base.slice(0, -1)
+      } else if (/(at|bl|iz)$/.test(base) || (base.length <= 4 && /[^aeiou][aeiouy][^aeiouwxy]$/.test(base))) {
+        // Restore the e: "diving" -> "dive", "creating" -> "create"
+        result = `${base}e`
+      } else {
+        result = base
+      }
+    }
+    break
+  }
+
+  if (result.endsWith('ly') && result.length > 5) {
+    result = result.slice(0, -2)
+  }
+
+  // Silent e: "chase" and "chasing" meet at "chas"
+  if (result.endsWith('e') && result.length > 4) {
+    result = result.slice(0, -1)
+  }
+
+  return result
+}
+
+/**
+ * Tokenize, drop stop words and stem, keeping word positions for phrase matching
+ */
+export function analyze(text: string): AnalyzedTerm[] {
+  const terms: AnalyzedTerm[] = []
+  tokenize(text).forEach((word, position) => {
+    if (!STOP_WORDS.has(word)) {
+      terms.push({ term: stem(word), position })
+    }
+  })
+  return terms
+}
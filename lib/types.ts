@@ -8,5 +8,13 @@ export type {
   Location,
   GeoPoint,
   Actor,
+  ActorSummary,
+  Credit,
   FilterState,
+  Place,
+  DensityLayer,
+  TripStop,
+  FavoriteMovie,
+  FavoriteLocation,
+  VisitedLocation,
 } from '../src/types'
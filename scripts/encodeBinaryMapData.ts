@@ -0,0 +1,321 @@
+/**
+ * Encode movies.geojson into the compact binary map data format
+ * Writes public/geo/movies.bin (with locations) and public/geo/movies_catalog.bin
+ * (catalogue only). GeoJSON / JSON files stay in place as fallbacks.
+ *
+ * Layout (little-endian) - keep in sync with src/utils/map/binaryMapData.ts:
+ *   magic "FMB1" | u16 format version | u32 header length | header JSON (schema)
+ *   string table: varint byte length + UTF-8 bytes, per string
+ *   movie records, sorted by numeric IMDb id:
+ *     varint id delta | u8 id width (0 = raw id string follows as varint index) | u8 flags
+ *     zigzag tmdb_id delta | varint title | varint year | [u16 rating * rating_scale]
+ *     varint poster, thumbnail_52, banner_1280, trailer refs (0 null, 1 template, n + 2 string n)
+ *     varint genre count + string indexes
+ *     [varint location count + per location: zigzag dLng, zigzag dLat (quantized,
+ *      delta from the previous location), varint name + 1, varint scene + 1]
+ */
+
+import fs from 'fs'
+import path from 'path'
+
+interface MovieFeature {
+  geometry: {
+    type: 'Point' | 'MultiPoint'
+    coordinates: number[] | number[][]
+  }
+  properties: {
+    movie_id: string
+    tmdb_id: number
+    title: string
+    year: number
+    type?: 'movie' | 'tv'
+    poster: string | null
+    thumbnail_52?: string | null
+    banner_1280?: string | null
+    trailer: string | null
+    genres?: string[]
+    imdb_rating: number | null
+    location_names: string[]
+    scene_descriptions?: (string | null)[]
+  }
+}
+
+const CONFIG = {
+  inputPath: path.join(process.cwd(), 'public/geo/movies.geojson'),
+  outputPath: path.join(process.cwd(), 'public/geo/movies.bin'),
+  catalogOutputPath: path.join(process.cwd(), 'public/geo/movies_catalog.bin'),
+  magic: 'FMB1',
+  formatVersion: 1,
+  coordScale: 1e5, // ~1 m precision
+  ratingScale: 1000, // Ratings have up to three decimals
+  idPrefix: 'tt',
+  // Paths that can be rebuilt from the movie id are stored as a template reference
+  templates: {
+    poster: '/images/posters/{id}.webp',
+    thumbnail_52: '/images/thumbnails/{id}.webp',
+  },
+}
+
+const FLAG_TV = 1
+const FLAG_HAS_RATING = 2
+
+/**
+ * Growable byte buffer with varint helpers
+ */
+class ByteWriter {
+  private buffer = Buffer.alloc(1 << 16)
+  private offset = 0
+
+  private ensure(bytes: number) {
+    if (this.offset + bytes <= this.buffer.length) return
+    let size = this.buffer.length * 2
+    while (size < this.offset + bytes) size *= 2
+    const next = Buffer.alloc(size)
+    this.buffer.copy(next, 0, 0, this.offset)
+    this.buffer = next
+  }
+
+  u8(value: number) {
+    this.ensure(1)
+    this.buffer.writeUInt8(value, this.offset)
+    this.offset += 1
+  }
+
+  u16(value: number) {
+    this.ensure(2)
+    this.buffer.writeUInt16LE(value, this.offset)
+    this.offset += 2
+  }
+
+  u32(value: number) {
+    this.ensure(4)
+    this.buffer.writeUInt32LE(value, this.offset)
+    this.offset += 4
+  }
+
+  bytes(data: Uint8Array) {
+    this.ensure(data.length)
+    this.buffer.set(data, this.offset)
+    this.offset += data.length
+  }
+
+  varint(value: number) {
+    if (!Number.isInteger(value) || value < 0) {
+      throw new Error(`varint out of range: ${value}`)
+    }
+    while (value >= 0x80) {
+      this.u8((value % 0x80) | 0x80)
+      value = Math.floor(value / 0x80)
+    }
+    this.u8(value)
+  }
+
+  zigzag(value: number) {
+    this.varint(value >= 0 ? value * 2 : -value * 2 - 1)
+  }
+
+  toBuffer(): Buffer {
+    return this.buffer.subarray(0, this.offset)
+  }
+}
+
+/**
+ * Deduplicating string table (most frequent strings get the smallest indexes)
+ */
+class StringTable {
+  private counts = new Map<string, number>()
+  private indexes = new Map<string, number>()
+  strings: string[] = []
+
+  add(value: string | null | undefined) {
+    if (value === null || value === undefined) return
+    this.counts.set(value, (this.counts.get(value) || 0) + 1)
+  }
+
+  freeze() {
+    this.strings = Array.from(this.counts.entries())
+      .sort((a, b) => b[1] - a[1])
+      .map(([value]) => value)
+    this.strings.forEach((value, i) => this.indexes.set(value, i))
+  }
+
+  index(value: string): number {
+    const index = this.indexes.get(value)
+    if (index === undefined) throw new Error(`String not in table: ${value}`)
+    return index
+  }
+}
+
+/**
+ * Split an IMDb id into its numeric part and digit width (width 0 = not an IMDb id)
+ */
+function parseMovieId(movieId: string): { numeric: number; width: number } {
+  const match = movieId.match(new RegExp(`^${CONFIG.idPrefix}(\\d+)$`))
+  return match ? { numeric: Number(match[1]), width: match[1].length } : { numeric: 0, width: 0 }
+}
+
+function getCoordinates(feature: MovieFeature): number[][] {
+  return feature.geometry.type === 'Point'
+    ? [feature.geometry.coordinates as number[]]
+    : feature.geometry.coordinates as number[][]
+}
+
+function fillTemplate(template: string, movieId: string): string {
+  return template.replace('{id}', movieId)
+}
+
+/**
+ * Encode movies into the binary format
+ */
+function encodeMovies(features: MovieFeature[], includeLocations: boolean): Buffer {
+  // Numeric id order keeps id deltas small; non-IMDb ids go last
+  const sorted = [...features].sort((a, b) => {
+    const idA = parseMovieId(a.properties.movie_id)
+    const idB = parseMovieId(b.properties.movie_id)
+    if (!idA.width || !idB.width) return idB.width - idA.width
+    return idA.numeric - idB.numeric
+  })
+
+  // Build the string table
+  const table = new StringTable()
+  for (const { properties: p } of sorted) {
+    if (!parseMovieId(p.movie_id).width) table.add(p.movie_id)
+    table.add(p.title)
+    if (p.poster !== fillTemplate(CONFIG.templates.poster, p.movie_id)) table.add(p.poster)
+    if (p.thumbnail_52 !== fillTemplate(CONFIG.templates.thumbnail_52, p.movie_id)) table.add(p.thumbnail_52)
+    table.add(p.banner_1280)
+    table.add(p.trailer)
+    ;(p.genres || []).forEach(genre => table.add(genre))
+    if (includeLocations) {
+      p.location_names.forEach(name => table.add(name))
+      ;(p.scene_descriptions || []).forEach(scene => table.add(scene))
+    }
+  }
+  table.freeze()
+
+  const writer = new ByteWriter()
+
+  // Header
+  const header = JSON.stringify({
+    version: CONFIG.formatVersion,
+    movie_count: sorted.length,
+    string_count: table.strings.length,
+    has_locations: includeLocations,
+    coord_scale: CONFIG.coordScale,
+    rating_scale: CONFIG.ratingScale,
+    id_prefix: CONFIG.idPrefix,
+    templates: CONFIG.templates,
+    generated_at: new Date().toISOString(),
+  })
+  writer.bytes(Buffer.from(CONFIG.magic, 'ascii'))
+  writer.u16(CONFIG.formatVersion)
+  const headerBytes = Buffer.from(header, 'utf-8')
+  writer.u32(headerBytes.length)
+  writer.bytes(headerBytes)
+
+  // String table
+  for (const value of table.strings) {
+    const bytes = Buffer.from(value, 'utf-8')
+    writer.varint(bytes.length)
+    writer.bytes(bytes)
+  }
+
+  const writeRef = (value: string | null | undefined, template?: string) => {
+    if (value === null || value === undefined) {
+      writer.varint(0)
+    } else if (template !== undefined && value === template) {
+      writer.varint(1)
+    } else {
+      writer.varint(table.index(value) + 2)
+    }
+  }
+
+  // Movie records
+  let previousId = 0
+  let previousTmdbId = 0
+  for (const feature of sorted) {
+    const p = feature.properties
+    const { numeric, width } = parseMovieId(p.movie_id)
+    const hasRating = p.imdb_rating !== null && p.imdb_rating !== undefined
+
+    writer.varint(width ? numeric - previousId : 0)
+    writer.u8(width)
+    if (width) {
+      previousId = numeric
+    } else {
+      writer.varint(table.index(p.movie_id))
+    }
+
+    writer.u8((p.type === 'tv' ? FLAG_TV : 0) | (hasRating ? FLAG_HAS_RATING : 0))
+    writer.zigzag(p.tmdb_id - previousTmdbId)
+    previousTmdbId = p.tmdb_id
+    writer.varint(table.index(p.title))
+    writer.varint(p.year || 0)
+    if (hasRating) {
+      writer.u16(Math.round(p.imdb_rating! * CONFIG.ratingScale))
+    }
+
+    writeRef(p.poster, fillTemplate(CONFIG.templates.poster, p.movie_id))
+    writeRef(p.thumbnail_52, fillTemplate(CONFIG.templates.thumbnail_52, p.movie_id))
+    writeRef(p.banner_1280)
+    writeRef(p.trailer)
+
+    const genres = p.genres || []
+    writer.varint(genres.length)
+    genres.forEach(genre => writer.varint(table.index(genre)))
+
+    if (includeLocations) {
+      const coordinates = getCoordinates(feature)
+      writer.varint(coordinates.length)
+
+      let previousLng = 0
+      let previousLat = 0
+      coordinates.forEach(([lng, lat], i) => {
+        const qLng = Math.round(lng * CONFIG.coordScale)
+        const qLat = Math.round(lat * CONFIG.coordScale)
+        writer.zigzag(qLng - previousLng)
+        writer.zigzag(qLat - previousLat)
+        previousLng = qLng
+        previousLat = qLat
+
+        const name = p.location_names[i]
+        const scene = p.scene_descriptions?.[i]
+        writer.varint(name ? table.index(name) + 1 : 0)
+        writer.varint(scene ? table.index(scene) + 1 : 0)
+      })
+    }
+  }
+
+  return writer.toBuffer()
+}
+
+/**
+ * Main execution
+ */
+async function main() {
+  console.log('📦 Encoding binary map data...\n')
+
+  try {
+    const geojson = JSON.parse(fs.readFileSync(CONFIG.inputPath, 'utf-8'))
+    const features: MovieFeature[] = geojson.features
+    console.log(`📊 Loaded ${features.length} movie features`)
+
+    fs.writeFileSync(CONFIG.outputPath, encodeMovies(features, true))
+    fs.writeFileSync(CONFIG.catalogOutputPath, encodeMovies(features, false))
+
+    const geojsonSize = fs.statSync(CONFIG.inputPath).size
+    const binarySize = fs.statSync(CONFIG.outputPath).size
+    const catalogSize = fs.statSync(CONFIG.catalogOutputPath).size
+
+    console.log(`\n📊 Size comparison:`)
+    console.log(`   GeoJSON: ${(geojsonSize / 1024 / 1024).toFixed(2)} MB`)
+    console.log(`   Binary: ${(binarySize / 1024 / 1024).toFixed(2)} MB (${((binarySize / geojsonSize) * 100).toFixed(1)}%)`)
+    console.log(`   Binary catalogue: ${(catalogSize / 1024).toFixed(2)} KB`)
+    console.log('\n✅ Binary map data saved!')
+  } catch (error) {
+    console.error('❌ Error encoding binary map data:', error)
+    process.exit(1)
+  }
+}
+
+main()
@@ -7,6 +7,12 @@
  * 3. Geocodes all locations using Nominatim
  * 4. Caches everything to avoid re-fetching
  * 5. Only saves movies with actual IMDb filming locations
+ * 6. Stores top-billed cast and directors, with their birthplaces in data/people.json
+ *
+ * Options:
+ *   --credits-only   Only add cast/directors to movies already in the database
+ *   TMDB_OFFLINE=1   Read credits and people from data/fixtures/tmdb_offline.json
+ *                    instead of the TMDb API (cached responses are still used)
  */
 
 import 'dotenv/config'
@@ -45,6 +51,35 @@ interface Movie {
   trailer: string
   imdb_rating: number
   locations: Location[]
+  cast?: Credit[]
+  directors?: Credit[]
+}
+
+interface Credit {
+  person_id: number
+  name: string
+  character?: string
+}
+
+interface Person {
+  person_id: number
+  name: string
+  imdb_id?: string
+  dob?: string
+  profile?: string
+  birth_place?: {
+    name: string
+    city?: string
+    country?: string
+    lat?: number
+    lng?: number
+  }
+}
+
+interface TmdbFixture {
+  credits: Record<string, any> // "movie_155" -> /movie/155/credits response
+  people: Record<string, any> // "3894" -> /person/3894 response
+  geocode: Record<string, { lat: number; lng: number; city: string; country: string }>
 }
 
 interface InputMovie {
@@ -69,6 +104,11 @@ const CONFIG = {
   CACHE_DIR: 'data/cache',
   INPUT_FILE: process.env.INPUT_FILE || 'data/movies_input.json',
   OUTPUT_FILE: 'data/movies_enriched.json',
+  PEOPLE_FILE: 'data/people.json',
+  FIXTURE_FILE: 'data/fixtures/tmdb_offline.json',
+  OFFLINE: process.env.TMDB_OFFLINE === '1',
+  TOP_CAST: 8, // Top-billed cast members kept per movie
+  MAX_DIRECTORS: 2,
   RATE_LIMIT_DELAY: 1100, // 1.1 seconds for Nominatim
   PUPPETEER_TIMEOUT: 15000,
   MAX_RETRIES: 3,
@@ -194,6 +234,146 @@ function extractTrailerId(videos: any): string | undefined {
   return trailer?.key
 }
 
+let fixtureCache: TmdbFixture | null = null
+
+/**
+ * Offline fixture with TMDb credits/person responses and birthplace geocodes
+ */
+async function loadTmdbFixture(): Promise<TmdbFixture> {
+  if (fixtureCache) return fixtureCache
+
+  try {
+    const data = await fs.readFile(path.join(__dirname, `../${CONFIG.FIXTURE_FILE}`), 'utf-8')
+    fixtureCache = { credits: {}, people: {}, geocode: {}, ...JSON.parse(data) }
+  } catch (error: any) {
+    console.error(`  ⚠️  Could not read ${CONFIG.FIXTURE_FILE}: ${error.message}`)
+    fixtureCache = { credits: {}, people: {}, geocode: {} }
+  }
+  return fixtureCache!
+}
+
+/**
+ * Fetch cast and crew (TV shows use credits aggregated over every season)
+ */
+async function fetchTmdbCredits(tmdbId: number, type: 'movie' | 'tv' = 'movie'): Promise<any> {
+  const cacheKey = `tmdb_credits_${type}_${tmdbId}`
+  const cached = await getCached<any>(cacheKey)
+  if (cached) return cached
+
+  if (CONFIG.OFFLINE) {
+    const fixture = await loadTmdbFixture()
+    return fixture.credits[`${type}_${tmdbId}`] || null
+  }
+
+  try {
+    const endpoint = type === 'tv' ? `tv/${tmdbId}/aggregate_credits` : `movie/${tmdbId}/credits`
+    const response = await axios.get(`${CONFIG.TMDB_BASE_URL}/${endpoint}`, {
+      params: { api_key: CONFIG.TMDB_API_KEY },
+    })
+
+    await setCache(cacheKey, response.data)
+    await sleep(250) // Rate limiting for TMDb
+    return response.data
+  } catch (error: any) {
+    console.error(`  ❌ TMDb credits fetch failed: ${error.message}`)
+    return null
+  }
+}
+
+async function fetchTmdbPerson(personId: number): Promise<any> {
+  const cacheKey = `tmdb_person_${personId}`
+  const cached = await getCached<any>(cacheKey)
+  if (cached) return cached
+
+  if (CONFIG.OFFLINE) {
+    const fixture = await loadTmdbFixture()
+    return fixture.people[String(personId)] || null
+  }
+
+  try {
+    const response = await axios.get(`${CONFIG.TMDB_BASE_URL}/person/${personId}`, {
+      params: { api_key: CONFIG.TMDB_API_KEY },
+    })
+
+    await setCache(cacheKey, response.data)
+    await sleep(250) // Rate limiting for TMDb
+    return response.data
+  } catch (error: any) {
+    console.error(`  ❌ TMDb person fetch failed: ${error.message}`)
+    return null
+  }
+}
+
+/**
+ * Top-billed cast (in billing order) and directors from a credits response
+ */
+function extractCredits(credits: any): { cast: Credit[]; directors: Credit[] } {
+  const cast: Credit[] = (credits?.cast || [])
+    .slice()
+    .sort((a: any, b: any) => (a.order ?? 0) - (b.order ?? 0))
+    .slice(0, CONFIG.TOP_CAST)
+    .map((member: any) => ({
+      person_id: member.id,
+      name: member.name,
+      // Aggregate (TV) credits list every role
+      character: member.character || member.roles?.[0]?.character || undefined,
+    }))
+
+  const directors: Credit[] = (credits?.crew || [])
+    .filter((member: any) =>
+      member.job === 'Director' || member.jobs?.some((job: any) => job.job === 'Director')
+    )
+    // TV: the directors of the most episodes
+    .sort((a: any, b: any) => (b.total_episode_count || 0) - (a.total_episode_count || 0))
+    .slice(0, CONFIG.MAX_DIRECTORS)
+    .map((member: any) => ({ person_id: member.id, name: member.name }))
+
+  return { cast, directors }
+}
+
+/**
+ * Birthplace coordinates - from the fixture when offline, otherwise Nominatim
+ */
+async function geocodeBirthPlace(place: string): Promise<{ lat: number; lng: number; city: string; country: string } | null> {
+  if (CONFIG.OFFLINE) {
+    const fixture = await loadTmdbFixture()
+    return fixture.geocode[place] || null
+  }
+  return geocodeLocation(place)
+}
+
+/**
+ * Add the movie's cast and directors that are not yet in the people database
+ */
+async function enrichPeople(movie: Movie, people: Record<string, Person>): Promise<void> {
+  const credits = [...(movie.cast || []), ...(movie.directors || [])]
+  const missing = credits.filter(credit => !people[credit.person_id])
+  if (missing.length === 0) return
+
+  console.log(`  👤 Fetching ${missing.length} people...`)
+
+  for (const credit of missing) {
+    const details = await fetchTmdbPerson(credit.person_id)
+    const person: Person = {
+      person_id: credit.person_id,
+      name: details?.name || credit.name,
+      imdb_id: details?.imdb_id || undefined,
+      dob: details?.birthday || undefined,
+      profile: details?.profile_path ? `https://image.tmdb.org/t/p/w185${details.profile_path}` : undefined,
+    }
+
+    if (details?.place_of_birth) {
+      const geocoded = await geocodeBirthPlace(details.place_of_birth)
+      person.birth_place = {
+        name: details.place_of_birth,
+        ...(geocoded ? geocoded : {}),
+      }
+    }
+
+    people[credit.person_id] = person
+  }
+}
+
 // ============================================================================
 // IMDb Scraping with Puppeteer
 // ============================================================================
@@ -628,6 +808,12 @@ async function processMovie(input: InputMovie, index: number, total: number): Pr
     console.log(`\n  🎬 ${title} (${year})`)
     console.log(`  📍 IMDb: ${movieId}`)
 
+    // Top-billed cast and directors
+    const { cast, directors } = extractCredits(await fetchTmdbCredits(tmdbId, contentType))
+    if (cast.length > 0 || directors.length > 0) {
+      console.log(`  👥 Cast: ${cast.slice(0, 3).map(c => c.name).join(', ')}${cast.length > 3 ? '...' : ''}`)
+    }
+
     // Scrape IMDb locations (ONLY - no fallbacks)
     const scrapedLocations = await scrapeIMDbLocations(movieId)
 
@@ -695,7 +881,9 @@ async function processMovie(input: InputMovie, index: number, total: number): Pr
       poster: tmdbData.poster_path ? `https://image.tmdb.org/t/p/w500${tmdbData.poster_path}` : '',
       trailer: extractTrailerId(tmdbData.videos) || '',
       imdb_rating: tmdbData.vote_average || 0,
-      locations: deduplicatedLocations
+      locations: deduplicatedLocations,
+      cast,
+      directors
     }
 
   } catch (error: any) {
@@ -720,11 +908,26 @@ async function main() {
   console.log('    Progress is saved after each movie to prevent data loss\n')
 
   // Validate API key
-  if (!CONFIG.TMDB_API_KEY) {
-    console.error('❌ TMDB_API_KEY environment variable is required!')
+  if (!CONFIG.TMDB_API_KEY && !CONFIG.OFFLINE) {
+    console.error('❌ TMDB_API_KEY environment variable is required! (or TMDB_OFFLINE=1 to use the fixture)')
     process.exit(1)
   }
 
+  // Load people database (cast and directors)
+  const peoplePath = path.join(__dirname, `../${CONFIG.PEOPLE_FILE}`)
+  let people: Record<string, Person> = {}
+  try {
+    people = JSON.parse(await fs.readFile(peoplePath, 'utf-8'))
+    console.log(`👤 Found ${Object.keys(people).length} people in database`)
+  } catch {
+    console.log(`📝 No people database found - starting fresh`)
+  }
+
+  if (process.argv.includes('--credits-only')) {
+    await addCreditsToExistingMovies(people, peoplePath)
+    return
+  }
+
   // Load input file
   const inputPath = path.join(__dirname, `../${CONFIG.INPUT_FILE}`)
   console.log(`📂 Reading: ${CONFIG.INPUT_FILE}`)
@@ -782,6 +985,8 @@ async function main() {
     const movie = await processMovie(inputMovie, i, inputMovies.length)
 
     if (movie) {
+      await enrichPeople(movie, people)
+
       if (movie.imdb_id) {
         if (processedIds.has(movie.imdb_id)) {
           // Update existing movie (replace old entry that had no locations)
@@ -803,10 +1008,12 @@ async function main() {
 
     // Save progress after each movie (directly to main file)
     await fs.writeFile(outputPath, JSON.stringify(movies, null, 2))
+    await fs.writeFile(peoplePath, JSON.stringify(people, null, 2))
   }
 
   // Final save (already saved in loop, but do it one more time for consistency)
   await fs.writeFile(outputPath, JSON.stringify(movies, null, 2))
+  await fs.writeFile(peoplePath, JSON.stringify(people, null, 2))
 
   console.log('\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━')
   console.log('\n✅ Processing Complete!')
@@ -824,6 +1031,44 @@ async function main() {
   console.log(`   3. Restart your dev server\n`)
 }
 
+/**
+ * Add cast and directors to movies already in the database (no IMDb scraping)
+ */
+async function addCreditsToExistingMovies(people: Record<string, Person>, peoplePath: string) {
+  const outputPath = path.join(__dirname, `../${CONFIG.OUTPUT_FILE}`)
+  const movies: Movie[] = JSON.parse(await fs.readFile(outputPath, 'utf-8'))
+  const pending = movies.filter(movie => !movie.cast && movie.tmdb_id)
+
+  console.log(`👥 Adding credits to ${pending.length}/${movies.length} movies${CONFIG.OFFLINE ? ' (offline fixture)' : ''}\n`)
+
+  let updated = 0
+  for (let i = 0; i < pending.length; i++) {
+    const movie = pending[i]
+    const credits = await fetchTmdbCredits(Number(movie.tmdb_id), movie.type || 'movie')
+    if (!credits) continue
+
+    const { cast, directors } = extractCredits(credits)
+    movie.cast = cast
+    movie.directors = directors
+    console.log(`[${i + 1}/${pending.length}] ${movie.title}: ${cast.length} cast, ${directors.length} director(s)`)
+
+    await enrichPeople(movie, people)
+    updated++
+
+    // Save progress every 25 movies
+    if (updated % 25 === 0) {
+      await fs.writeFile(outputPath, JSON.stringify(movies, null, 2))
+      await fs.writeFile(peoplePath, JSON.stringify(people, null, 2))
+    }
+  }
+
+  await fs.writeFile(outputPath, JSON.stringify(movies, null, 2))
+  await fs.writeFile(peoplePath, JSON.stringify(people, null, 2))
+
+  console.log(`\n✅ Added credits to ${updated} movies (${Object.keys(people).length} people)`)
+  console.log(`\n📌 Next step: npm run generate:actors\n`)
+}
+
 // Run the script
 main().catch(error => {
   console.error('\n💥 Fatal error:', error)
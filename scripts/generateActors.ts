@@ -0,0 +1,198 @@
+/**
+ * Generate the actor/crew dataset from movie credits
+ * Reads cast and directors from movies_enriched.json and birthplaces from
+ * people.json (both written by fetchMoviesAuto.ts) and creates:
+ *   data/actors.json                  - full records for /actor/[slug] pages
+ *   public/geo/search/actors.json     - compact index for search and the birthplace layer
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import { generateSlug } from '../lib/slugify.js'
+
+interface Credit {
+  person_id: number
+  name: string
+  character?: string
+}
+
+interface Movie {
+  movie_id: string
+  title: string
+  imdb_rating?: number
+  locations: unknown[]
+  cast?: Credit[]
+  directors?: Credit[]
+}
+
+interface Person {
+  person_id: number
+  name: string
+  imdb_id?: string
+  dob?: string
+  profile?: string
+  birth_place?: {
+    name: string
+    city?: string
+    country?: string
+    lat?: number
+    lng?: number
+  }
+}
+
+type Role = 'cast' | 'director'
+
+// Keep in sync with Actor in src/types.ts
+interface ActorRecord {
+  actor_id: string
+  name: string
+  slug: string
+  imdb_id?: string
+  dob?: string
+  profile?: string
+  birth_place?: Person['birth_place']
+  roles: Role[]
+  known_for: string[]
+  characters: Record<string, string>
+}
+
+// Keep in sync with ActorSummary in src/types.ts
+interface ActorSummary {
+  id: string
+  name: string
+  slug: string
+  roles: Role[]
+  movieCount: number
+  birthPlace?: string
+  birth?: [number, number]
+}
+
+interface ActorAccumulator {
+  personId: number
+  name: string
+  roles: Set<Role>
+  movies: Movie[]
+  characters: Record<string, string>
+}
+
+const CONFIG = {
+  moviesPath: path.join(process.cwd(), 'data', 'movies_enriched.json'),
+  peoplePath: path.join(process.cwd(), 'data', 'people.json'),
+  outputPath: path.join(process.cwd(), 'data', 'actors.json'),
+  searchPath: path.join(process.cwd(), 'public', 'geo', 'search', 'actors.json'),
+}
+
+const round = (value: number) => Math.round(value * 1e4) / 1e4
+
+function loadPeople(): Record<string, Person> {
+  if (!fs.existsSync(CONFIG.peoplePath)) {
+    console.warn('⚠️  No people.json found - actors will have no birthplaces')
+    return {}
+  }
+  return JSON.parse(fs.readFileSync(CONFIG.peoplePath, 'utf-8'))
+}
+
+async function generateActors() {
+  console.log('🎭 Generating actor dataset...\n')
+
+  const movies: Movie[] = JSON.parse(fs.readFileSync(CONFIG.moviesPath, 'utf-8'))
+  const people = loadPeople()
+  console.log(`📊 Total movies: ${movies.length}`)
+  console.log(`👤 People with details: ${Object.keys(people).length}`)
+
+  const accumulators = new Map<number, ActorAccumulator>()
+
+  const addCredit = (credit: Credit, movie: Movie, role: Role) => {
+    let actor = accumulators.get(credit.person_id)
+    if (!actor) {
+      actor = { personId: credit.person_id, name: credit.name, roles: new Set(), movies: [], characters: {} }
+      accumulators.set(credit.person_id, actor)
+    }
+
+    actor.roles.add(role)
+    if (!actor.movies.includes(movie)) actor.movies.push(movie)
+    if (credit.character) actor.characters[movie.movie_id] = credit.character
+  }
+
+  let moviesWithCredits = 0
+  for (const movie of movies) {
+    if (!movie.locations?.length || (!movie.cast && !movie.directors)) continue
+    moviesWithCredits++
+
+    movie.cast?.forEach(credit => addCredit(credit, movie, 'cast'))
+    movie.directors?.forEach(credit => addCredit(credit, movie, 'director'))
+  }
+
+  console.log(`🎬 Movies with credits: ${moviesWithCredits}`)
+  if (moviesWithCredits === 0) {
+    console.warn('⚠️  No credits found - run "tsx scripts/fetchMoviesAuto.ts --credits-only" first')
+  }
+
+  // People with more movies get the plain slug when names collide
+  const sorted = Array.from(accumulators.values())
+    .sort((a, b) => b.movies.length - a.movies.length || a.personId - b.personId)
+
+  const usedSlugs = new Set<string>()
+  const actors: ActorRecord[] = sorted.map(actor => {
+    const person = people[actor.personId]
+    const baseSlug = generateSlug(actor.name) || `person-${actor.personId}`
+    const slug = usedSlugs.has(baseSlug) ? `${baseSlug}-${actor.personId}` : baseSlug
+    usedSlugs.add(slug)
+
+    return {
+      actor_id: String(actor.personId),
+      name: person?.name || actor.name,
+      slug,
+      imdb_id: person?.imdb_id,
+      dob: person?.dob,
+      profile: person?.profile,
+      birth_place: person?.birth_place,
+      roles: Array.from(actor.roles),
+      known_for: actor.movies
+        .slice()
+        .sort((a, b) => (b.imdb_rating || 0) - (a.imdb_rating || 0))
+        .map(movie => movie.movie_id),
+      characters: actor.characters,
+    }
+  })
+
+  const summaries: ActorSummary[] = actors.map(actor => {
+    const { birth_place: birthPlace } = actor
+    const hasCoordinates = birthPlace?.lat !== undefined && birthPlace?.lng !== undefined
+    return {
+      id: actor.actor_id,
+      name: actor.name,
+      slug: actor.slug,
+      roles: actor.roles,
+      movieCount: actor.known_for.length,
+      ...(birthPlace ? { birthPlace: birthPlace.name } : {}),
+      ...(hasCoordinates ? { birth: [round(birthPlace!.lng!), round(birthPlace!.lat!)] as [number, number] } : {}),
+    }
+  })
+
+  const generatedAt = new Date().toISOString()
+
+  fs.writeFileSync(CONFIG.outputPath, JSON.stringify({ version: 1, generatedAt, actors }, null, 2))
+  console.log(`\n✅ Saved ${actors.length} actors: ${CONFIG.outputPath}`)
+
+  fs.mkdirSync(path.dirname(CONFIG.searchPath), { recursive: true })
+  fs.writeFileSync(CONFIG.searchPath, JSON.stringify({ version: 1, generatedAt, actors: summaries }))
+
+  const size = fs.statSync(CONFIG.searchPath).size
+  const withBirthplace = summaries.filter(summary => summary.birth).length
+  console.log(`✅ Saved search index (${(size / 1024).toFixed(2)} KB, ${withBirthplace} birthplaces): ${CONFIG.searchPath}`)
+}
+
+/**
+ * Main execution
+ */
+async function main() {
+  try {
+    await generateActors()
+  } catch (error) {
+    console.error('❌ Error generating actors:', error)
+    process.exit(1)
+  }
+}
+
+main()
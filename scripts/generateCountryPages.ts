@@ -0,0 +1,304 @@
+/**
+ * Generate country and continent hub pages
+ * Every filming location is assigned to a country (its `country` field, or the last
+ * part of the reverse-geocoded display_name - see lib/countryNames.ts) and from
+ * there to a continent.
+ * Creates country_[slug].json and continent_[slug].json files in data/.
+ * City links come from the location_*.json pages, so run generate:locations first.
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import { generateSlug } from '../lib/slugify.js'
+import { findLocationCountry, type Continent } from '../lib/countryNames.js'
+
+interface Location {
+  lat: number
+  lng: number
+  display_name?: string
+  country?: string
+}
+
+interface Movie {
+  movie_id: string
+  title: string
+  year: number
+  genres: string[]
+  poster?: string
+  thumbnail_52?: string
+  imdb_rating?: number
+  locations: Location[]
+}
+
+interface LocationPage {
+  location: { city: string; country: string; slug: string }
+  stats: { totalMovies: number; totalLocations: number }
+}
+
+// Keep in sync with RegionMovie in lib/countries.ts
+interface RegionMovie {
+  movie_id: string
+  title: string
+  year: number
+  genres: string[]
+  poster?: string
+  thumbnail_52?: string
+  imdb_rating?: number
+  locationCount: number
+}
+
+interface RegionAccumulator {
+  name: string
+  movies: Map<string, { movie: Movie; locationCount: number }>
+  points: [number, number][]
+}
+
+const CONFIG = {
+  moviesPath: path.join(process.cwd(), 'data', 'movies_enriched.json'),
+  dataDir: path.join(process.cwd(), 'data'),
+  minMovies: 3, // Same threshold as the city pages
+  topMovies: 48,
+  maxPoints: 400, // Mini-map markers per page
+}
+
+const round = (value: number) => Math.round(value * 1e3) / 1e3
+
+/**
+ * Value at a percentile of a sorted array
+ */
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))]
+}
+
+/**
+ * Center and bounding box of a region's locations
+ * Uses the 2nd-98th percentile so overseas territories don't stretch the map
+ */
+function getBounds(points: [number, number][]) {
+  const lngs = points.map(([lng]) => lng).sort((a, b) => a - b)
+  const lats = points.map(([, lat]) => lat).sort((a, b) => a - b)
+  const bbox: [number, number, number, number] = [
+    round(percentile(lngs, 0.02)),
+    round(percentile(lats, 0.02)),
+    round(percentile(lngs, 0.98)),
+    round(percentile(lats, 0.98)),
+  ]
+  return {
+    coordinates: { lat: round((bbox[1] + bbox[3]) / 2), lng: round((bbox[0] + bbox[2]) / 2) },
+    bbox,
+  }
+}
+
+/**
+ * Evenly spaced, de-duplicated sample of points for the mini-map
+ */
+function samplePoints(points: [number, number][]): [number, number][] {
+  const unique = Array.from(
+    new Map(points.map(([lng, lat]) => [`${round(lng)},${round(lat)}`, [round(lng), round(lat)] as [number, number]])).values()
+  )
+  if (unique.length <= CONFIG.maxPoints) return unique
+
+  const step = unique.length / CONFIG.maxPoints
+  return Array.from({ length: CONFIG.maxPoints }, (_, i) => unique[Math.floor(i * step)])
+}
+
+/**
+ * Top movies (most filming locations in the region, then rating) and genre/decade stats
+ */
+function summarize(region: RegionAccumulator) {
+  const entries = Array.from(region.movies.values())
+  const genres: Record<string, number> = {}
+  const decades: Record<string, number> = {}
+
+  entries.forEach(({ movie }) => {
+    movie.genres.forEach(genre => {
+      genres[genre] = (genres[genre] || 0) + 1
+    })
+    const decade = `${Math.floor(movie.year / 10) * 10}s`
+    decades[decade] = (decades[decade] || 0) + 1
+  })
+
+  const movies: RegionMovie[] = entries
+    .sort((a, b) => b.locationCount - a.locationCount || (b.movie.imdb_rating || 0) - (a.movie.imdb_rating || 0))
+    .slice(0, CONFIG.topMovies)
+    .map(({ movie, locationCount }) => ({
+      movie_id: movie.movie_id,
+      title: movie.title,
+      year: movie.year,
+      genres: movie.genres,
+      poster: movie.poster,
+      thumbnail_52: movie.thumbnail_52,
+      imdb_rating: movie.imdb_rating,
+      locationCount,
+    }))
+
+  return {
+    movies,
+    points: samplePoints(region.points),
+    stats: {
+      totalMovies: entries.length,
+      totalLocations: region.points.length,
+      genres,
+      decades,
+    },
+  }
+}
+
+function addLocation(regions: Map<string, RegionAccumulator>, name: string, movie: Movie, location: Location) {
+  let region = regions.get(name)
+  if (!region) {
+    region = { name, movies: new Map(), points: [] }
+    regions.set(name, region)
+  }
+
+  const entry = region.movies.get(movie.movie_id)
+  if (entry) {
+    entry.locationCount++
+  } else {
+    region.movies.set(movie.movie_id, { movie, locationCount: 1 })
+  }
+  region.points.push([location.lng, location.lat])
+}
+
+/**
+ * Read generated location pages (data/location_*.json)
+ */
+function loadLocationPages(): LocationPage[] {
+  return fs.readdirSync(CONFIG.dataDir)
+    .filter(file => file.startsWith('location_') && file.endsWith('.json'))
+    .map(file => JSON.parse(fs.readFileSync(path.join(CONFIG.dataDir, file), 'utf-8')))
+}
+
+async function generateCountryPages() {
+  console.log('🌍 Generating country and continent pages...\n')
+
+  // Clean up old files first
+  const oldFiles = fs.readdirSync(CONFIG.dataDir)
+    .filter(f => (f.startsWith('country_') || f.startsWith('continent_')) && f.endsWith('.json'))
+  if (oldFiles.length > 0) {
+    console.log(`🧹 Cleaning up ${oldFiles.length} old country/continent files...`)
+    oldFiles.forEach(file => fs.unlinkSync(path.join(CONFIG.dataDir, file)))
+  }
+
+  const movies: Movie[] = JSON.parse(fs.readFileSync(CONFIG.moviesPath, 'utf-8'))
+  console.log(`📊 Total movies: ${movies.length}`)
+
+  const countries = new Map<string, RegionAccumulator>()
+  const continents = new Map<string, RegionAccumulator>()
+  const continentOf = new Map<string, Continent>()
+  const unknown: Record<string, number> = {}
+  let matched = 0
+
+  for (const movie of movies) {
+    for (const location of movie.locations || []) {
+      if (!Number.isFinite(location.lat) || !Number.isFinite(location.lng)) continue
+
+      const country = findLocationCountry(location)
+      if (!country) {
+        const name = location.country || (location.display_name || '').split(',').pop()?.trim() || '(none)'
+        unknown[name] = (unknown[name] || 0) + 1
+        continue
+      }
+
+      matched++
+      continentOf.set(country.english, country.continent)
+      addLocation(countries, country.english, movie, location)
+      addLocation(continents, country.continent, movie, location)
+    }
+  }
+
+  console.log(`✅ Matched ${matched} locations to ${countries.size} countries`)
+  if (Object.keys(unknown).length > 0) {
+    console.log(`⏭️  Skipped unknown countries: ${Object.entries(unknown).map(([name, count]) => `${name} (${count})`).join(', ')}`)
+  }
+
+  // City pages grouped by country
+  const citiesByCountry = new Map<string, { city: string; slug: string; movieCount: number; locationCount: number }[]>()
+  for (const page of loadLocationPages()) {
+    const cities = citiesByCountry.get(page.location.country) || []
+    cities.push({
+      city: page.location.city,
+      slug: page.location.slug,
+      movieCount: page.stats.totalMovies,
+      locationCount: page.stats.totalLocations,
+    })
+    citiesByCountry.set(page.location.country, cities)
+  }
+
+  // Country pages
+  const qualified = Array.from(countries.values())
+    .filter(country => country.movies.size >= CONFIG.minMovies)
+    .sort((a, b) => b.movies.size - a.movies.size)
+
+  const countriesByContinent = new Map<string, { name: string; slug: string; movieCount: number; locationCount: number }[]>()
+
+  for (const country of qualified) {
+    const slug = generateSlug(country.name)
+    const continent = continentOf.get(country.name)!
+    const summary = summarize(country)
+
+    const countryData = {
+      country: {
+        name: country.name,
+        slug,
+        continent: { name: continent, slug: generateSlug(continent) },
+        ...getBounds(country.points),
+      },
+      movies: summary.movies,
+      cities: (citiesByCountry.get(country.name) || []).sort((a, b) => b.movieCount - a.movieCount),
+      points: summary.points,
+      stats: summary.stats,
+    }
+
+    fs.writeFileSync(path.join(CONFIG.dataDir, `country_${slug}.json`), JSON.stringify(countryData, null, 2))
+
+    const siblings = countriesByContinent.get(continent) || []
+    siblings.push({
+      name: country.name,
+      slug,
+      movieCount: summary.stats.totalMovies,
+      locationCount: summary.stats.totalLocations,
+    })
+    countriesByContinent.set(continent, siblings)
+
+    console.log(`📍 ${country.name} (${continent}): ${summary.stats.totalMovies} movies, ${countryData.cities.length} city pages`)
+  }
+
+  // Continent pages
+  for (const continent of continents.values()) {
+    const slug = generateSlug(continent.name)
+    const summary = summarize(continent)
+
+    const continentData = {
+      continent: {
+        name: continent.name,
+        slug,
+        ...getBounds(continent.points),
+      },
+      movies: summary.movies,
+      countries: countriesByContinent.get(continent.name) || [],
+      points: summary.points,
+      stats: summary.stats,
+    }
+
+    fs.writeFileSync(path.join(CONFIG.dataDir, `continent_${slug}.json`), JSON.stringify(continentData, null, 2))
+    console.log(`🌐 ${continent.name}: ${summary.stats.totalMovies} movies, ${continentData.countries.length} countries`)
+  }
+
+  console.log(`\n✅ Generated ${qualified.length} country pages and ${continents.size} continent pages`)
+  console.log(`Saved to: data/country_*.json, data/continent_*.json`)
+}
+
+/**
+ * Main execution
+ */
+async function main() {
+  try {
+    await generateCountryPages()
+  } catch (error) {
+    console.error('❌ Error generating country pages:', error)
+    process.exit(1)
+  }
+}
+
+main()
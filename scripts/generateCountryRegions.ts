@@ -0,0 +1,328 @@
+/**
+ * Generate clickable regions for the globe
+ * Filming locations are grouped by country (see lib/countryNames.ts) and clustered
+ * into regions of nearby locations. Each region gets a name, centroid, radius,
+ * movie count and its top titles.
+ * Locations the geocoder could only place at a country or state center are left out.
+ * Regions containing a city page link to it, so run generate:locations first.
+ * Creates public/geo/clickable-regions.geojson (read by src/hooks/useClickableRegions.ts).
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import { findLocationCountry } from '../lib/countryNames.js'
+import { haversineDistance } from '../src/utils/map/coordinateUtils.js'
+
+interface Location {
+  lat: number
+  lng: number
+  display_name?: string
+  country?: string
+}
+
+interface Movie {
+  movie_id: string
+  title: string
+  year: number
+  imdb_rating?: number
+  locations: Location[]
+}
+
+interface LocationPage {
+  location: { city: string; country: string; slug: string }
+}
+
+interface RegionPoint {
+  lat: number
+  lng: number
+  movie: Movie
+  names: string[] // Address parts, most specific first (without the country)
+}
+
+// Keep in sync with RegionProperties in src/hooks/useClickableRegions.ts
+interface RegionProperties {
+  name: string
+  country: string
+  slug?: string // Location page inside the region
+  movieCount: number
+  locationCount: number
+  radiusKm: number
+  topTitles: string[]
+}
+
+const CONFIG = {
+  moviesPath: path.join(process.cwd(), 'data', 'movies_enriched.json'),
+  dataDir: path.join(process.cwd(), 'data'),
+  outputPath: path.join(process.cwd(), 'public', 'geo', 'clickable-regions.geojson'),
+  clusterRadiusKm: 50, // Locations within this distance of a region's center join it
+  minRadiusKm: 5,
+  minMovies: 3, // Same threshold as the city pages
+  topTitles: 5,
+  cellSize: 0.5, // Grid cell size in degrees for picking dense seeds
+  fallbackMinMovies: 20, // Exact coordinate shared by this many movies...
+  fallbackNeighbourKm: 25, // ...with few other locations within this distance
+}
+
+const round = (value: number) => Math.round(value * 1e4) / 1e4
+
+/**
+ * Address parts that can name a region - drops the country, house numbers and postcodes
+ */
+function getNameParts(displayName: string): string[] {
+  return displayName
+    .split(',')
+    .map(part => part.trim())
+    .slice(1, -1)
+    .filter(part => part && !/\d/.test(part))
+}
+
+function getCentroid(points: RegionPoint[]): { lat: number; lng: number } {
+  return {
+    lat: points.reduce((sum, p) => sum + p.lat, 0) / points.length,
+    lng: points.reduce((sum, p) => sum + p.lng, 0) / points.length,
+  }
+}
+
+interface NameCandidate {
+  name: string
+  count: number // Locations whose address contains it
+  depth: number // Average distance from the country part - higher is more specific
+}
+
+/**
+ * Address parts of a region's locations below state level, most common first.
+ * States and nations ("England") are only returned when nothing more specific is there.
+ */
+function getNameCandidates(points: RegionPoint[]): NameCandidate[] {
+  const coverage = new Map<string, { count: number; depth: number }>()
+
+  points.forEach(point => {
+    new Set(point.names).forEach(name => {
+      const entry = coverage.get(name) || { count: 0, depth: 0 }
+      entry.count++
+      entry.depth += point.names.length - point.names.indexOf(name)
+      coverage.set(name, entry)
+    })
+  })
+
+  const all = Array.from(coverage.entries())
+    .map(([name, { count, depth }]) => ({ name, count, depth: depth / count }))
+    .sort((a, b) => b.count - a.count)
+  const local = all.filter(c => c.depth > 1.5)
+  return local.length > 0 ? local : all
+}
+
+/**
+ * Most specific address part shared by at least half of the region's locations,
+ * e.g. "Los Angeles" rather than "Los Angeles County"
+ */
+function getRegionName(points: RegionPoint[], candidates: NameCandidate[], country: string): string {
+  const shared = candidates.filter(c => c.count >= points.length / 2)
+  if (shared.length > 0) {
+    return shared.sort((a, b) => b.depth - a.depth || b.count - a.count)[0].name
+  }
+
+  return candidates[0]?.name || country
+}
+
+/**
+ * City page named in a good share of the region's addresses
+ * (page centers can be skewed by stray matches, so distance isn't reliable)
+ */
+function findCityPage(
+  points: RegionPoint[],
+  candidates: NameCandidate[],
+  country: string,
+  pages: LocationPage[]
+): LocationPage | undefined {
+  const common = new Set(candidates.filter(c => c.count >= points.length / 4).map(c => c.name))
+  return pages.find(p => p.location.country === country && common.has(p.location.city))
+}
+
+/**
+ * Coordinates the geocoder fell back to for a whole country or state
+ * (e.g. "Decatur County, Kansas" for "USA") - many movies at one exact point
+ * with hardly any other filming locations around it
+ */
+function findFallbackCoordinates(points: RegionPoint[]): Set<string> {
+  const movieIds = new Map<string, Set<string>>()
+  points.forEach(p => {
+    const key = `${p.lat},${p.lng}`
+    movieIds.set(key, (movieIds.get(key) || new Set()).add(p.movie.movie_id))
+  })
+
+  const fallbacks = new Set<string>()
+  for (const [key, ids] of movieIds) {
+    if (ids.size < CONFIG.fallbackMinMovies) continue
+
+    const [lat, lng] = key.split(',').map(Number)
+    const neighbours = points.filter(p =>
+      `${p.lat},${p.lng}` !== key && haversineDistance(lat, lng, p.lat, p.lng) <= CONFIG.fallbackNeighbourKm
+    ).length
+
+    if (neighbours < ids.size / 4) {
+      fallbacks.add(key)
+    }
+  }
+
+  return fallbacks
+}
+
+/**
+ * Greedy clustering - seed a region at the densest unassigned location,
+ * take everything within the cluster radius, then re-center and take again
+ */
+function clusterPoints(points: RegionPoint[]): RegionPoint[][] {
+  const cellOf = (p: RegionPoint) => `${Math.floor(p.lat / CONFIG.cellSize)},${Math.floor(p.lng / CONFIG.cellSize)}`
+  const density = new Map<string, number>()
+  points.forEach(p => density.set(cellOf(p), (density.get(cellOf(p)) || 0) + 1))
+
+  const unassigned = new Set(points)
+  const seeds = [...points].sort((a, b) => density.get(cellOf(b))! - density.get(cellOf(a))!)
+  const clusters: RegionPoint[][] = []
+
+  const within = (center: { lat: number; lng: number }) =>
+    Array.from(unassigned).filter(p => haversineDistance(center.lat, center.lng, p.lat, p.lng) <= CONFIG.clusterRadiusKm)
+
+  for (const seed of seeds) {
+    if (!unassigned.has(seed)) continue
+
+    const members = within(getCentroid(within(seed)))
+    const cluster = members.length > 0 ? members : [seed]
+    cluster.forEach(p => unassigned.delete(p))
+    clusters.push(cluster)
+  }
+
+  return clusters
+}
+
+/**
+ * Read generated location pages (data/location_*.json)
+ */
+function loadLocationPages(): LocationPage[] {
+  return fs.readdirSync(CONFIG.dataDir)
+    .filter(file => file.startsWith('location_') && file.endsWith('.json'))
+    .map(file => JSON.parse(fs.readFileSync(path.join(CONFIG.dataDir, file), 'utf-8')))
+}
+
+async function generateCountryRegions() {
+  console.log('🗺️  Generating clickable regions...\n')
+
+  const movies: Movie[] = JSON.parse(fs.readFileSync(CONFIG.moviesPath, 'utf-8'))
+  console.log(`📊 Total movies: ${movies.length}`)
+
+  // Locations grouped by country
+  const countries = new Map<string, RegionPoint[]>()
+  let skipped = 0
+
+  for (const movie of movies) {
+    for (const location of movie.locations || []) {
+      if (!Number.isFinite(location.lat) || !Number.isFinite(location.lng)) continue
+
+      const country = findLocationCountry(location)
+      if (!country) {
+        skipped++
+        continue
+      }
+
+      const points = countries.get(country.english) || []
+      points.push({ lat: location.lat, lng: location.lng, movie, names: getNameParts(location.display_name || '') })
+      countries.set(country.english, points)
+    }
+  }
+
+  console.log(`✅ Grouped locations into ${countries.size} countries (${skipped} without a known country)`)
+
+  const fallbacks = findFallbackCoordinates(Array.from(countries.values()).flat())
+  let fallbackCount = 0
+  for (const [country, points] of countries) {
+    const precise = points.filter(p => !fallbacks.has(`${p.lat},${p.lng}`))
+    fallbackCount += points.length - precise.length
+    countries.set(country, precise)
+  }
+  console.log(`⏭️  Skipped ${fallbackCount} locations at ${fallbacks.size} country/state fallback coordinates`)
+
+  const locationPages = loadLocationPages()
+  const features: GeoJSON.Feature<GeoJSON.Point, RegionProperties>[] = []
+
+  for (const [country, points] of countries) {
+    for (const cluster of clusterPoints(points)) {
+      const movieLocations = new Map<string, { movie: Movie; count: number }>()
+      cluster.forEach(({ movie }) => {
+        const entry = movieLocations.get(movie.movie_id)
+        if (entry) {
+          entry.count++
+        } else {
+          movieLocations.set(movie.movie_id, { movie, count: 1 })
+        }
+      })
+
+      if (movieLocations.size < CONFIG.minMovies) continue
+
+      const center = getCentroid(cluster)
+      const distances = cluster
+        .map(p => haversineDistance(center.lat, center.lng, p.lat, p.lng))
+        .sort((a, b) => a - b)
+      // 90th percentile so a few stray locations don't inflate the circle
+      const radiusKm = Math.max(CONFIG.minRadiusKm, distances[Math.floor(distances.length * 0.9)] || 0)
+
+      const candidates = getNameCandidates(cluster)
+      const page = findCityPage(cluster, candidates, country, locationPages)
+
+      const topTitles = Array.from(movieLocations.values())
+        .sort((a, b) => b.count - a.count || (b.movie.imdb_rating || 0) - (a.movie.imdb_rating || 0))
+        .slice(0, CONFIG.topTitles)
+        .map(({ movie }) => `${movie.title} (${movie.year})`)
+
+      features.push({
+        type: 'Feature',
+        id: features.length + 1,
+        properties: {
+          name: page?.location.city || getRegionName(cluster, candidates, country),
+          country,
+          ...(page && { slug: page.location.slug }),
+          movieCount: movieLocations.size,
+          locationCount: cluster.length,
+          radiusKm: Math.round(radiusKm * 10) / 10,
+          topTitles,
+        },
+        geometry: {
+          type: 'Point',
+          coordinates: [round(center.lng), round(center.lat)],
+        },
+      })
+    }
+  }
+
+  // Biggest regions first, so they draw underneath the smaller ones
+  features
+    .sort((a, b) => b.properties.radiusKm - a.properties.radiusKm)
+    .forEach((feature, index) => {
+      feature.id = index + 1
+    })
+
+  fs.mkdirSync(path.dirname(CONFIG.outputPath), { recursive: true })
+  fs.writeFileSync(CONFIG.outputPath, JSON.stringify({ type: 'FeatureCollection', features }))
+
+  const top = [...features].sort((a, b) => b.properties.movieCount - a.properties.movieCount).slice(0, 10)
+  top.forEach(({ properties }) => {
+    console.log(`📍 ${properties.name}, ${properties.country}: ${properties.movieCount} movies within ${properties.radiusKm} km`)
+  })
+
+  console.log(`\n✅ Generated ${features.length} regions (${features.filter(f => f.properties.slug).length} with a city page)`)
+  console.log(`Saved to: public/geo/clickable-regions.geojson`)
+}
+
+/**
+ * Main execution
+ */
+async function main() {
+  try {
+    await generateCountryRegions()
+  } catch (error) {
+    console.error('❌ Error generating regions:', error)
+    process.exit(1)
+  }
+}
+
+main()
@@ -1,10 +1,12 @@
 /**
  * Generate location pages for MAJOR CITIES ONLY with 3+ movies
- * Creates location_[slug].json files and clickable-regions.geojson
+ * Creates location_[slug].json files, plus KML/GPX/GeoJSON/CSV downloads of each
+ * city's filming locations in public/exports/locations/
  */
 
 import * as fs from 'fs'
 import * as path from 'path'
+import { EXPORT_FORMATS, exportLocations, locationToExportPoint, type ExportPoint } from '../src/utils/locationExport.js'
 
 interface Location {
   lat: number
@@ -228,6 +230,11 @@ async function generateLocationPages() {
     })
   }
 
+  // Exports are rebuilt from scratch too
+  const exportsDir = path.join(process.cwd(), 'public', 'exports', 'locations')
+  fs.rmSync(exportsDir, { recursive: true, force: true })
+  fs.mkdirSync(exportsDir, { recursive: true })
+
   // Read movies data
   const moviesPath = path.join(process.cwd(), 'data', 'movies_enriched.json')
   const movies: Movie[] = JSON.parse(fs.readFileSync(moviesPath, 'utf-8'))
@@ -238,6 +245,7 @@ async function generateLocationPages() {
   const cityMovies: Record<string, {
     movies: Movie[]
     locations: Location[]
+    points: ExportPoint[] // Same locations, for the downloads
     city: string
     country: string
   }> = {}
@@ -262,6 +270,7 @@ async function generateLocationPages() {
         cityMovies[cityKey] = {
           movies: [],
           locations: [],
+          points: [],
           city: majorCity.city,
           country: majorCity.country
         }
@@ -274,6 +283,7 @@ async function generateLocationPages() {
 
       // Add location
       cityMovies[cityKey].locations.push(location)
+      cityMovies[cityKey].points.push(locationToExportPoint(location, movie))
     })
   })
 
@@ -287,7 +297,6 @@ async function generateLocationPages() {
 
   console.log(`\n✅ Found ${qualifiedCities.length} major cities with 3+ movies\n`)
 
-  const regionFeatures: any[] = []
   let generatedCount = 0
 
   // Generate location page for each city
@@ -365,39 +374,18 @@ async function generateLocationPages() {
     // Write location data file
     const outputPath = path.join(process.cwd(), 'data', `location_${slug}.json`)
     fs.writeFileSync(outputPath, JSON.stringify(locationData, null, 2))
-    generatedCount++
 
-    // Add to clickable regions GeoJSON
-    regionFeatures.push({
-      type: 'Feature',
-      id: generatedCount,
-      properties: {
-        name: `${city}, ${country}`,
-        slug,
-        movieCount: data.movies.length,
-        locationCount: totalLocations
-      },
-      geometry: {
-        type: 'Point',
-        coordinates: [center.lng, center.lat]
-      }
+    // Downloadable location lists
+    EXPORT_FORMATS.forEach(({ format }) => {
+      const title = `${city}, ${country} - filming locations`
+      fs.writeFileSync(path.join(exportsDir, `${slug}.${format}`), exportLocations(data.points, format, title))
     })
+    generatedCount++
   }
 
-  // Create GeoJSON file
-  const geoJSON = {
-    type: 'FeatureCollection',
-    features: regionFeatures
-  }
-
-  const geoPath = path.join(process.cwd(), 'public', 'geo', 'clickable-regions.geojson')
-  fs.mkdirSync(path.dirname(geoPath), { recursive: true })
-  fs.writeFileSync(geoPath, JSON.stringify(geoJSON, null, 2))
-
   console.log(`\n✅ Generated ${generatedCount} location pages`)
-  console.log(`✅ Created clickable-regions.geojson with ${regionFeatures.length} regions`)
   console.log(`\nLocation pages saved to: data/location_*.json`)
-  console.log(`GeoJSON saved to: public/geo/clickable-regions.geojson`)
+  console.log(`Location downloads saved to: public/exports/locations/`)
 }
 
 generateLocationPages().catch(console.error)
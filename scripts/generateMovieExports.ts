@@ -0,0 +1,87 @@
+/**
+ * Generate downloadable location files for the top movies
+ * The 250 best rated titles (same list as the IMDB TOP 250 filter) get their filming
+ * locations as KML, GPX, GeoJSON and CSV (/exports/movies/[slug].kml and so on).
+ * File names follow the movie page slugs, so run build:slugs first.
+ * Creates public/exports/movies/
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import { EXPORT_FORMATS, exportLocations, movieToExportPoints } from '../src/utils/locationExport.js'
+
+interface Location {
+  lat: number
+  lng: number
+  display_name?: string
+  city?: string
+  country?: string
+  description?: string
+  scene_description?: string
+}
+
+interface Movie {
+  movie_id: string
+  title: string
+  year: number
+  imdb_rating?: number
+  locations: Location[]
+}
+
+const CONFIG = {
+  moviesPath: path.join(process.cwd(), 'data', 'movies_enriched.json'),
+  slugsPath: path.join(process.cwd(), 'data', 'movies_slugs_reverse.json'),
+  outputDir: path.join(process.cwd(), 'public', 'exports', 'movies'),
+  topMovies: 250,
+}
+
+async function generateMovieExports() {
+  console.log('⬇️  Generating location downloads for the top movies...\n')
+
+  const movies: Movie[] = JSON.parse(fs.readFileSync(CONFIG.moviesPath, 'utf-8'))
+  const slugs: Record<string, string> = JSON.parse(fs.readFileSync(CONFIG.slugsPath, 'utf-8'))
+  console.log(`📊 Total movies: ${movies.length}`)
+
+  const topMovies = movies
+    .filter(movie => movie.imdb_rating !== undefined && movie.locations?.length > 0)
+    .sort((a, b) => (b.imdb_rating || 0) - (a.imdb_rating || 0))
+    .slice(0, CONFIG.topMovies)
+
+  fs.rmSync(CONFIG.outputDir, { recursive: true, force: true })
+  fs.mkdirSync(CONFIG.outputDir, { recursive: true })
+
+  let generated = 0
+  let skipped = 0
+
+  for (const movie of topMovies) {
+    const slug = slugs[movie.movie_id]
+    const points = movieToExportPoints(movie)
+    if (!slug || points.length === 0) {
+      skipped++
+      continue
+    }
+
+    const title = `${movie.title} (${movie.year}) - filming locations`
+    EXPORT_FORMATS.forEach(({ format }) => {
+      fs.writeFileSync(path.join(CONFIG.outputDir, `${slug}.${format}`), exportLocations(points, format, title))
+    })
+    generated++
+  }
+
+  console.log(`✅ Generated downloads for ${generated} movies (${skipped} skipped without a slug or locations)`)
+  console.log(`Saved to: public/exports/movies/`)
+}
+
+/**
+ * Main execution
+ */
+async function main() {
+  try {
+    await generateMovieExports()
+  } catch (error) {
+    console.error('❌ Error generating movie exports:', error)
+    process.exit(1)
+  }
+}
+
+main()
@@ -0,0 +1,235 @@
+/**
+ * Generate the place index for search (cities, landmarks, regions, countries)
+ * Every filming location's display_name is a place hierarchy
+ * ("Pile Gate, Dubrovnik, Grad Dubrovnik, Dubrovnik-Neretva County, Croatia"),
+ * so each level becomes a place keyed by its full path - this keeps
+ * "High Street, Oxford" and "High Street, Edinburgh" apart.
+ * Places with a location_*.json page get their slug attached.
+ * Each place stores its parent's index instead of the full context to keep the file small.
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+
+interface Location {
+  lat: number
+  lng: number
+  display_name?: string
+  city?: string
+  country?: string
+}
+
+interface Movie {
+  movie_id: string
+  locations: Location[]
+}
+
+interface LocationPage {
+  location: {
+    city: string
+    country: string
+    slug: string
+    coordinates: { lat: number; lng: number }
+  }
+  stats: { totalMovies: number }
+}
+
+// Keep in sync with PlaceRecord in src/utils/placeSearch.ts
+interface Place {
+  name: string
+  parent?: number // Index of the enclosing place
+  context?: string // Only for location pages without a matching place
+  kind: 'country' | 'city' | 'place'
+  center: [number, number]
+  bbox: [number, number, number, number]
+  movieCount: number
+  slug?: string
+}
+
+interface PlaceAccumulator {
+  name: string
+  parentKey: string | null
+  isCountry: boolean
+  movies: Set<string>
+  lngSum: number
+  latSum: number
+  count: number
+  bbox: [number, number, number, number]
+}
+
+const CONFIG = {
+  moviesPath: path.join(process.cwd(), 'data', 'movies_enriched.json'),
+  dataDir: path.join(process.cwd(), 'data'),
+  outputPath: path.join(process.cwd(), 'public', 'geo', 'search', 'places.json'),
+  minMovies: 3, // Countries and location pages are always kept
+}
+
+/**
+ * Split a location into its place hierarchy (most specific first)
+ * House numbers and postcodes are dropped; names like "Route 66" are kept
+ */
+function getPlacePath(location: Location): string[] {
+  const parts = location.display_name
+    ? location.display_name.split(',')
+    : [location.city || '', location.country || '']
+
+  return parts
+    .map(part => part.trim())
+    .filter(part => part && (!/\d/.test(part) || /[a-zA-ZÀ-ɏ]{4,}/.test(part)))
+}
+
+const round = (value: number) => Math.round(value * 1e4) / 1e4
+
+/**
+ * Read generated location pages (data/location_*.json)
+ */
+function loadLocationPages(): LocationPage[] {
+  return fs.readdirSync(CONFIG.dataDir)
+    .filter(file => file.startsWith('location_') && file.endsWith('.json'))
+    .map(file => JSON.parse(fs.readFileSync(path.join(CONFIG.dataDir, file), 'utf-8')))
+}
+
+async function generatePlaceIndex() {
+  console.log('🗺️  Generating place index...\n')
+
+  const movies: Movie[] = JSON.parse(fs.readFileSync(CONFIG.moviesPath, 'utf-8'))
+  console.log(`📊 Total movies: ${movies.length}`)
+
+  // Aggregate every level of every location's hierarchy
+  const accumulators = new Map<string, PlaceAccumulator>()
+
+  for (const movie of movies) {
+    for (const location of movie.locations || []) {
+      if (!Number.isFinite(location.lat) || !Number.isFinite(location.lng)) continue
+
+      const placePath = getPlacePath(location)
+      for (let i = 0; i < placePath.length; i++) {
+        const key = placePath.slice(i).join('|').toLowerCase()
+        let place = accumulators.get(key)
+        if (!place) {
+          place = {
+            name: placePath[i],
+            parentKey: i < placePath.length - 1 ? placePath.slice(i + 1).join('|').toLowerCase() : null,
+            isCountry: i === placePath.length - 1,
+            movies: new Set(),
+            lngSum: 0,
+            latSum: 0,
+            count: 0,
+            bbox: [location.lng, location.lat, location.lng, location.lat],
+          }
+          accumulators.set(key, place)
+        }
+
+        place.movies.add(movie.movie_id)
+        place.lngSum += location.lng
+        place.latSum += location.lat
+        place.count++
+        place.bbox = [
+          Math.min(place.bbox[0], location.lng),
+          Math.min(place.bbox[1], location.lat),
+          Math.max(place.bbox[2], location.lng),
+          Math.max(place.bbox[3], location.lat),
+        ]
+      }
+    }
+  }
+
+  console.log(`✅ Found ${accumulators.size} distinct places`)
+
+  // Parents always have at least as many movies as their children, so they are kept too
+  const kept = Array.from(accumulators.entries())
+    .filter(([, place]) => place.isCountry || place.movies.size >= CONFIG.minMovies)
+    .sort((a, b) => b[1].movies.size - a[1].movies.size)
+  const indexByKey = new Map(kept.map(([key], index) => [key, index]))
+
+  const places: Place[] = kept.map(([, place]) => {
+    const parent = place.parentKey !== null ? indexByKey.get(place.parentKey) : undefined
+    return {
+      name: place.name,
+      ...(parent !== undefined ? { parent } : {}),
+      kind: place.isCountry ? 'country' : 'place',
+      center: [round(place.lngSum / place.count), round(place.latSum / place.count)],
+      bbox: place.bbox.map(round) as [number, number, number, number],
+      movieCount: place.movies.size,
+    }
+  })
+
+  const countryOf = (place: Place): string => {
+    let current = place
+    while (current.parent !== undefined) current = places[current.parent]
+    return current.name.toLowerCase()
+  }
+
+  // Attach location pages to a place with the same name in the same country
+  // (falling back to names containing it, e.g. "Greater London"), preferring the one whose movie count
+  // is closest to the page's - page centers are unreliable (they average every
+  // location named after the city, e.g. Paris, France and Paris, California)
+  const pages = loadLocationPages()
+  let linked = 0
+
+  for (const page of pages) {
+    const { city, country, slug, coordinates } = page.location
+    const cityPattern = new RegExp(`\\b${city.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i')
+    const pageCountry = country.toLowerCase()
+
+    const candidates = places.filter(place => {
+      if (place.kind === 'country' || place.slug || !cityPattern.test(place.name)) return false
+      const placeCountry = countryOf(place)
+      return placeCountry.includes(pageCountry) || pageCountry.includes(placeCountry)
+    })
+    const exact = candidates.filter(place => place.name.toLowerCase() === city.toLowerCase())
+    const match = (exact.length > 0 ? exact : candidates)
+      .sort((a, b) =>
+        Math.abs(a.movieCount - page.stats.totalMovies) - Math.abs(b.movieCount - page.stats.totalMovies)
+      )[0]
+
+    if (match) {
+      match.kind = 'city'
+      match.slug = slug
+      linked++
+    } else {
+      places.push({
+        name: city,
+        context: country,
+        kind: 'city',
+        center: [round(coordinates.lng), round(coordinates.lat)],
+        bbox: [
+          round(coordinates.lng - 0.1),
+          round(coordinates.lat - 0.1),
+          round(coordinates.lng + 0.1),
+          round(coordinates.lat + 0.1),
+        ],
+        movieCount: page.stats.totalMovies,
+        slug,
+      })
+    }
+  }
+
+  console.log(`🔗 Linked ${linked}/${pages.length} location pages to places`)
+
+  const output = {
+    version: 1,
+    generatedAt: new Date().toISOString(),
+    places,
+  }
+
+  fs.mkdirSync(path.dirname(CONFIG.outputPath), { recursive: true })
+  fs.writeFileSync(CONFIG.outputPath, JSON.stringify(output))
+
+  const size = fs.statSync(CONFIG.outputPath).size
+  console.log(`\n✅ Saved ${places.length} places (${(size / 1024).toFixed(2)} KB): ${CONFIG.outputPath}`)
+}
+
+/**
+ * Main execution
+ */
+async function main() {
+  try {
+    await generatePlaceIndex()
+  } catch (error) {
+    console.error('❌ Error generating place index:', error)
+    process.exit(1)
+  }
+}
+
+main()
@@ -32,9 +32,9 @@ function getAllMovieSlugs(): string[] {
 }
 
 /**
- * Get all location slugs from data directory
+ * Get all page slugs for a data file prefix (location_*.json, country_*.json, ...)
  */
-function getAllLocationSlugs(): string[] {
+function getPageSlugs(prefix: 'location' | 'country' | 'continent'): string[] {
   try {
     const dataDir = path.join(process.cwd(), 'data')
 
@@ -44,11 +44,11 @@ function getAllLocationSlugs(): string[] {
     }
 
     const files = fs.readdirSync(dataDir)
-    const locationFiles = files.filter(f => f.startsWith('location_') && f.endsWith('.json'))
+    const pageFiles = files.filter(f => f.startsWith(`${prefix}_`) && f.endsWith('.json'))
 
-    return locationFiles.map(f => f.replace('location_', '').replace('.json', ''))
+    return pageFiles.map(f => f.replace(`${prefix}_`, '').replace('.json', ''))
   } catch (error) {
-    console.error('Error reading location files:', error)
+    console.error(`Error reading ${prefix} files:`, error)
     return []
   }
 }
@@ -106,8 +106,22 @@ function generateSitemapXML(): string {
   xml += '    <priority>0.95</priority>\n'
   xml += '  </url>\n'
 
+  // Continent & country hubs
+  const continentSlugs = getPageSlugs('continent')
+  const countrySlugs = getPageSlugs('country')
+  console.log(`🌍 Adding ${continentSlugs.length} continent and ${countrySlugs.length} country pages...`)
+
+  for (const pagePath of [...continentSlugs.map(slug => `/continent/${slug}`), ...countrySlugs.map(slug => `/country/${slug}`)]) {
+    xml += '  <url>\n'
+    xml += `    <loc>${escapeXml(`${BASE_URL}${pagePath}`)}</loc>\n`
+    xml += `    <lastmod>${now}</lastmod>\n`
+    xml += '    <changefreq>weekly</changefreq>\n'
+    xml += '    <priority>0.9</priority>\n'
+    xml += '  </url>\n'
+  }
+
   // Location pages
-  const locationSlugs = getAllLocationSlugs()
+  const locationSlugs = getPageSlugs('location')
   console.log(`📍 Adding ${locationSlugs.length} location pages...`)
 
   for (const slug of locationSlugs) {
@@ -135,7 +149,7 @@ function generateSitemapXML(): string {
   // Close XML
   xml += '</urlset>\n'
 
-  const totalEntries = 3 + locationSlugs.length + movieSlugs.length
+  const totalEntries = 3 + continentSlugs.length + countrySlugs.length + locationSlugs.length + movieSlugs.length
   console.log(`📊 Total sitemap entries: ${totalEntries}`)
 
   return xml
@@ -1,10 +1,12 @@
 /**
  * Optimize search data by creating indexed chunks
  * This splits the large movies.geojson into smaller searchable chunks
+ * and builds the scene-description full-text index (scenes.json)
  */
 
 import fs from 'fs'
 import path from 'path'
+import { analyze } from '../lib/textSearch.js'
 
 interface MovieFeature {
   type: string
@@ -12,6 +14,7 @@ interface MovieFeature {
     movie_id: string
     title: string
     year: number
+    type?: 'movie' | 'tv'
     genres?: string[]
     top_genre?: string
     imdb_rating?: number
@@ -19,6 +22,7 @@ interface MovieFeature {
     thumbnail_52?: string
     locations_count: number
     location_names: string[]
+    scene_descriptions?: (string | null)[]
   }
   geometry: any
 }
@@ -29,6 +33,8 @@ interface SearchIndexEntry {
   year: number
   genres: string[]
   locations: string[]
+  countries: string[] // Last segment of each location name (for country: queries)
+  type?: 'tv' // Omitted for movies to keep the index small
   rating?: number
   poster?: string
   chunk: number // Which chunk file contains full data
@@ -38,9 +44,71 @@ const CONFIG = {
   inputPath: path.join(process.cwd(), 'public/geo/movies.geojson'),
   outputDir: path.join(process.cwd(), 'public/geo/search'),
   indexPath: path.join(process.cwd(), 'public/geo/search/index.json'),
+  scenesPath: path.join(process.cwd(), 'public/geo/search/scenes.json'),
   chunkSize: 200, // Movies per chunk
 }
 
+/**
+ * Build the scene-level inverted index over scene_description
+ * One document per (movie, location index); postings keep word positions
+ * for phrase matching. Format (read by src/utils/sceneSearch.ts):
+ *   movies: movie ids
+ *   scenes: [movie ref, location index, scene text]
+ *   terms:  stemmed term -> flat [scene id delta, position, ...] pairs
+ *           (scene ids ascending, each stored as the difference to the previous pair's)
+ */
+function buildSceneIndex(movies: MovieFeature[]) {
+  const movieIds: string[] = []
+  const scenes: [number, number, string][] = []
+  const postings = new Map<string, [number, number][]>()
+
+  for (const feature of movies) {
+    const descriptions = feature.properties.scene_descriptions || []
+    let movieRef = -1
+
+    descriptions.forEach((description, locationIndex) => {
+      // Scene descriptions come wrapped in parentheses: "(car chase)"
+      const text = (description || '').replace(/^\(|\)$/g, '').trim()
+      if (!text) return
+
+      if (movieRef === -1) {
+        movieRef = movieIds.length
+        movieIds.push(feature.properties.movie_id)
+      }
+
+      const sceneId = scenes.length
+      scenes.push([movieRef, locationIndex, text])
+
+      for (const { term, position } of analyze(text)) {
+        let list = postings.get(term)
+        if (!list) {
+          list = []
+          postings.set(term, list)
+        }
+        list.push([sceneId, position])
+      }
+    })
+  }
+
+  const terms: Record<string, number[]> = {}
+  for (const [term, list] of postings) {
+    let previous = 0
+    terms[term] = list.flatMap(([sceneId, position]) => {
+      const delta = sceneId - previous
+      previous = sceneId
+      return [delta, position]
+    })
+  }
+
+  return {
+    version: 1,
+    generatedAt: new Date().toISOString(),
+    movies: movieIds,
+    scenes,
+    terms,
+  }
+}
+
 /**
  * Create search index and data chunks
  */
@@ -106,12 +174,20 @@ async function optimizeSearchData() {
         })
       ))
 
+      const countries = Array.from(new Set(
+        props.location_names
+          .map((loc: string) => loc.split(',').pop()?.trim() || '')
+          .filter(Boolean)
+      ))
+
       searchIndex.push({
         id: props.movie_id,
         title: props.title,
         year: props.year,
         genres: props.genres || (props.top_genre ? [props.top_genre] : []),
         locations,
+        countries,
+        ...(props.type === 'tv' ? { type: 'tv' as const } : {}),
         rating: props.imdb_rating,
         poster: props.thumbnail_52 || props.poster,
         chunk: i,
@@ -123,7 +199,7 @@ async function optimizeSearchData() {
 
   // Save search index
   const indexData = {
-    version: 1,
+    version: 2,
     totalMovies: uniqueMovies.length,
     totalChunks,
     generatedAt: new Date().toISOString(),
@@ -133,6 +209,11 @@ async function optimizeSearchData() {
   fs.writeFileSync(CONFIG.indexPath, JSON.stringify(indexData))
   console.log(`\n✅ Search index saved: ${CONFIG.indexPath}`)
 
+  // Scene-description full-text index
+  const sceneIndex = buildSceneIndex(uniqueMovies)
+  fs.writeFileSync(CONFIG.scenesPath, JSON.stringify(sceneIndex))
+  console.log(`✅ Scene index saved: ${sceneIndex.scenes.length} scenes, ${Object.keys(sceneIndex.terms).length} terms`)
+
   // Calculate size savings
   const originalSize = fs.statSync(CONFIG.inputPath).size
   const indexSize = fs.statSync(CONFIG.indexPath).size
@@ -141,6 +222,7 @@ async function optimizeSearchData() {
   console.log(`\n📊 Size comparison:`)
   console.log(`   Original GeoJSON: ${(originalSize / 1024 / 1024).toFixed(2)} MB`)
   console.log(`   Search index: ${(indexSize / 1024).toFixed(2)} KB`)
+  console.log(`   Scene index: ${(fs.statSync(CONFIG.scenesPath).size / 1024).toFixed(2)} KB`)
   console.log(`   Avg chunk size: ${(avgChunkSize / 1024).toFixed(2)} KB`)
   console.log(`   Initial load reduction: ${(((originalSize - indexSize) / originalSize) * 100).toFixed(1)}%`)
 }
@@ -1,7 +1,8 @@
 /**
  * Transform to GeoJSON Script
  * Converts enriched movie data to GeoJSON format with multi-location support,
- * chunking for performance, and tile indexing for LOD (Level of Detail).
+ * a z/x/y quadtree of location tiles for viewport loading (LOD by importance),
+ * and one small detail file per movie for the client to load on demand.
  */
 
 import 'dotenv/config'
@@ -84,21 +85,64 @@ interface GeoJSONFeatureCollection {
   features: GeoJSONFeature[]
 }
 
-interface TileIndex {
-  zoom_levels: {
-    [zoom: string]: {
-      chunk_size: number
-      chunks: Array<{
-        id: string
-        file: string
-        bounds: [number, number, number, number] // [minLng, minLat, maxLng, maxLat]
-        feature_count: number
-      }>
-    }
+interface MovieDetail {
+  movie_id: string
+  title: string
+  original_title?: string
+  year: number
+  imdb_id: string
+  tmdb_id: string
+  type: 'movie' | 'tv'
+  genres: string[]
+  poster?: string
+  thumbnail_52?: string
+  banner_1280?: string
+  trailer?: string
+  imdb_rating?: number
+  locations: EnrichedMovie['locations']
+}
+
+interface MovieCatalogEntry {
+  movie_id: string
+  tmdb_id: number
+  title: string
+  year: number
+  type: 'movie' | 'tv'
+  genres: string[]
+  imdb_rating: number | null
+}
+
+/**
+ * Single filming location as a Point feature (one per movie location)
+ * Keeps the movie feature's property names, narrowed to this location
+ */
+interface TilePointFeature {
+  type: 'Feature'
+  id: string
+  geometry: {
+    type: 'Point'
+    coordinates: number[]
   }
+  properties: Pick<
+    GeoJSONFeature['properties'],
+    'movie_id' | 'tmdb_id' | 'title' | 'year' | 'type' | 'poster' | 'thumbnail_52' | 'trailer' |
+    'top_genre' | 'genres' | 'imdb_rating' | 'locations_count' | 'location_names' | 'scene_descriptions'
+  > & {
+    location_index: number
+    importance: number
+  }
+}
+
+interface TileIndex {
+  version: number
+  min_zoom: number
+  max_zoom: number
+  max_features_per_tile: number
+  // "z/x/y" -> feature count (only non-empty tiles are listed)
+  tiles: Record<string, number>
   metadata: {
     total_features: number
-    total_chunks: number
+    total_tiles: number
     generated_at: string
   }
 }
@@ -111,9 +155,13 @@ const CONFIG = {
   INPUT_FILE: 'data/movies_enriched.json',
   OUTPUT_GEOJSON: 'public/geo/movies.geojson',
   OUTPUT_DIR: 'public/geo',
-  CHUNK_SIZE: 200,
   TILE_INDEX_FILE: 'public/geo/tile_index.json',
+  TILES_DIR: 'public/geo/tiles',
+  TILE_MAX_ZOOM: 10,
+  TILE_MAX_FEATURES: 100, // Per tile below TILE_MAX_ZOOM; the rest go to child tiles
+  CATALOG_FILE: 'public/geo/movies_catalog.json',
   PATHS_FILE: 'public/geo/movie_paths.geojson',
+  DETAILS_DIR: 'public/geo/details',
 }
 
 // ============================================================================
@@ -131,25 +179,6 @@ function calculateCentroid(coordinates: number[][]): [number, number] {
   return [sum[0] / coordinates.length, sum[1] / coordinates.length]
 }
 
-/**
- * Calculate bounding box for coordinates
- */
-function calculateBounds(coordinates: number[][]): [number, number, number, number] {
-  let minLng = Infinity
-  let minLat = Infinity
-  let maxLng = -Infinity
-  let maxLat = -Infinity
-
-  for (const [lng, lat] of coordinates) {
-    if (lng < minLng) minLng = lng
-    if (lat < minLat) minLat = lat
-    if (lng > maxLng) maxLng = lng
-    if (lat > maxLat) maxLat = lat
-  }
-
-  return [minLng, minLat, maxLng, maxLat]
-}
-
 /**
  * Sort locations by filming date (chronological order)
  */
@@ -256,6 +285,29 @@ function transformMovieToFeature(movie: EnrichedMovie): GeoJSONFeature | null {
   return feature
 }
 
+/**
+ * Build the per-movie detail record loaded by the client when a movie is opened
+ * (same shape as the app's Movie type, including every location's scene_description)
+ */
+function buildMovieDetail(movie: EnrichedMovie): MovieDetail {
+  return {
+    movie_id: movie.imdb_id,
+    title: movie.title,
+    original_title: movie.original_title && movie.original_title !== movie.title ? movie.original_title : undefined,
+    year: movie.year,
+    imdb_id: movie.imdb_id,
+    tmdb_id: String(movie.tmdb_id),
+    type: (movie as any).type || 'movie',
+    genres: movie.genres || [],
+    poster: movie.poster || getTmdbImageUrl(movie.poster_path) || undefined,
+    thumbnail_52: (movie as any).thumbnail_52 || undefined,
+    banner_1280: (movie as any).banner_1280 || undefined,
+    trailer: movie.trailer || movie.trailer_url || undefined,
+    imdb_rating: movie.imdb_rating || movie.vote_average || undefined,
+    locations: movie.locations,
+  }
+}
+
 /**
  * Generate movie paths (LineString) for movies with timeline data
  */
@@ -323,91 +375,170 @@ function transformToGeoJSON(movies: EnrichedMovie[]): GeoJSONFeatureCollection {
 }
 
 // ============================================================================
-// Chunking & Tiling
+// Quadtree Tiling
 // ============================================================================
 
+// Web Mercator latitude limit
+const MAX_MERCATOR_LAT = 85.0511287798
+
 /**
- * Split features into chunks
+ * Convert a coordinate to slippy-map tile x/y at a zoom level
  */
-function chunkFeatures(
-  features: GeoJSONFeature[],
-  chunkSize: number
-): GeoJSONFeatureCollection[] {
-  const chunks: GeoJSONFeatureCollection[] = []
-
-  for (let i = 0; i < features.length; i += chunkSize) {
-    const chunkFeatures = features.slice(i, i + chunkSize)
-    chunks.push({
-      type: 'FeatureCollection',
-      features: chunkFeatures,
-    })
-  }
+function lngLatToTile(lng: number, lat: number, zoom: number): [number, number] {
+  const tileCount = 2 ** zoom
+  const clampedLat = Math.max(-MAX_MERCATOR_LAT, Math.min(MAX_MERCATOR_LAT, lat))
+  const latRad = (clampedLat * Math.PI) / 180
 
-  return chunks
+  const x = Math.floor(((lng + 180) / 360) * tileCount)
+  const y = Math.floor(((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2) * tileCount)
+
+  return [
+    Math.max(0, Math.min(tileCount - 1, x)),
+    Math.max(0, Math.min(tileCount - 1, y)),
+  ]
 }
 
 /**
- * Generate tile index for LOD (Level of Detail)
+ * Importance score used to rank locations within a tile
+ * Higher-rated movies with many filming locations surface first at low zoom
  */
-function generateTileIndex(
-  chunks: GeoJSONFeatureCollection[],
-  chunkSize: number
-): TileIndex {
-  const tileIndex: TileIndex = {
-    zoom_levels: {},
-    metadata: {
-      total_features: chunks.reduce((sum, chunk) => sum + chunk.features.length, 0),
-      total_chunks: chunks.length,
-      generated_at: new Date().toISOString(),
-    },
+function getFeatureImportance(properties: GeoJSONFeature['properties']): number {
+  const rating = properties.imdb_rating || 0
+  return Math.round((rating + Math.log2(1 + properties.locations_count)) * 1000) / 1000
+}
+
+/**
+ * Split movie features into one Point feature per filming location
+ */
+function flattenToTilePoints(features: GeoJSONFeature[]): TilePointFeature[] {
+  const points: TilePointFeature[] = []
+
+  for (const feature of features) {
+    const { properties } = feature
+    const coordinates = feature.geometry.type === 'Point'
+      ? [feature.geometry.coordinates as number[]]
+      : (feature.geometry.coordinates as number[][])
+    const importance = getFeatureImportance(properties)
+
+    coordinates.forEach((coord, index) => {
+      points.push({
+        type: 'Feature',
+        id: coordinates.length > 1 ? `${feature.id}-loc-${index}` : feature.id,
+        geometry: { type: 'Point', coordinates: coord },
+        properties: {
+          movie_id: properties.movie_id,
+          tmdb_id: properties.tmdb_id,
+          title: properties.title,
+          year: properties.year,
+          type: properties.type,
+          poster: properties.poster,
+          thumbnail_52: properties.thumbnail_52,
+          trailer: properties.trailer,
+          top_genre: properties.top_genre,
+          genres: properties.genres,
+          imdb_rating: properties.imdb_rating,
+          locations_count: properties.locations_count,
+          location_names: [properties.location_names[index] || 'Unknown'],
+          scene_descriptions: [properties.scene_descriptions?.[index] || null],
+          location_index: index,
+          importance,
+        },
+      })
+    })
   }
 
-  // Define zoom level strategies
-  // Zoom 0-3: Load first chunk only (overview)
-  // Zoom 4-6: Load 25% of chunks
-  // Zoom 7-9: Load 50% of chunks
-  // Zoom 10+: Load all chunks
-
-  const zoomStrategies = [
-    { zooms: [0, 1, 2, 3], percentage: 0.05, label: 'overview' },
-    { zooms: [4, 5, 6], percentage: 0.25, label: 'medium' },
-    { zooms: [7, 8, 9], percentage: 0.5, label: 'detailed' },
-    { zooms: [10, 11, 12, 13, 14, 15, 16, 17, 18], percentage: 1.0, label: 'full' },
-  ]
+  return points
+}
 
-  for (const strategy of zoomStrategies) {
-    const chunksToLoad = Math.max(1, Math.ceil(chunks.length * strategy.percentage))
-
-    for (const zoom of strategy.zooms) {
-      tileIndex.zoom_levels[zoom] = {
-        chunk_size: chunkSize,
-        chunks: chunks.slice(0, chunksToLoad).map((chunk, index) => {
-          // Calculate bounds for each chunk
-          const allCoordinates: number[][] = []
-          for (const feature of chunk.features) {
-            if (feature.geometry.type === 'Point') {
-              allCoordinates.push(feature.geometry.coordinates as number[])
-            } else if (feature.geometry.type === 'MultiPoint') {
-              allCoordinates.push(...(feature.geometry.coordinates as number[][]))
-            }
-          }
-
-          const bounds = allCoordinates.length > 0
-            ? calculateBounds(allCoordinates)
-            : [0, 0, 0, 0]
-
-          return {
-            id: `chunk-${index + 1}`,
-            file: `movies_page_${index + 1}.json`,
-            bounds: bounds as [number, number, number, number],
-            feature_count: chunk.features.length,
-          }
-        }),
+/**
+ * Assign every location to exactly one quadtree tile
+ * Walking down from zoom 0, each tile keeps its TILE_MAX_FEATURES most important
+ * locations and passes the rest to its children. The client loads a tile and all
+ * of its ancestors, so every zoom level shows the most important locations first.
+ */
+function buildTiles(
+  points: TilePointFeature[],
+  maxZoom: number,
+  maxFeaturesPerTile: number
+): Map<string, TilePointFeature[]> {
+  const tiles = new Map<string, TilePointFeature[]>()
+  let remaining = points
+
+  for (let zoom = 0; zoom <= maxZoom && remaining.length > 0; zoom++) {
+    const groups = new Map<string, TilePointFeature[]>()
+
+    for (const point of remaining) {
+      const [lng, lat] = point.geometry.coordinates
+      const [x, y] = lngLatToTile(lng, lat, zoom)
+      const key = `${zoom}/${x}/${y}`
+      const group = groups.get(key)
+      if (group) {
+        group.push(point)
+      } else {
+        groups.set(key, [point])
       }
     }
+
+    const deferred: TilePointFeature[] = []
+
+    for (const [key, group] of groups) {
+      group.sort((a, b) =>
+        b.properties.importance - a.properties.importance ||
+        a.properties.movie_id.localeCompare(b.properties.movie_id) ||
+        a.properties.location_index - b.properties.location_index
+      )
+
+      const keep = zoom === maxZoom ? group.length : maxFeaturesPerTile
+      tiles.set(key, group.slice(0, keep))
+      deferred.push(...group.slice(keep))
+    }
+
+    remaining = deferred
   }
 
-  return tileIndex
+  return tiles
+}
+
+/**
+ * Generate tile index listing every non-empty tile
+ */
+function generateTileIndex(tiles: Map<string, TilePointFeature[]>): TileIndex {
+  const tileCounts: Record<string, number> = {}
+  let totalFeatures = 0
+
+  for (const [key, features] of tiles) {
+    tileCounts[key] = features.length
+    totalFeatures += features.length
+  }
+
+  return {
+    version: 1,
+    min_zoom: 0,
+    max_zoom: CONFIG.TILE_MAX_ZOOM,
+    max_features_per_tile: CONFIG.TILE_MAX_FEATURES,
+    tiles: tileCounts,
+    metadata: {
+      total_features: totalFeatures,
+      total_tiles: tiles.size,
+      generated_at: new Date().toISOString(),
+    },
+  }
+}
+
+/**
+ * Build the lightweight movie catalogue used for client-side filtering
+ * (filters need every movie, even those whose tiles are not loaded yet)
+ */
+function buildMovieCatalog(features: GeoJSONFeature[]): MovieCatalogEntry[] {
+  return features.map((feature) => ({
+    movie_id: feature.properties.movie_id,
+    tmdb_id: feature.properties.tmdb_id,
+    title: feature.properties.title,
+    year: feature.properties.year,
+    type: feature.properties.type || 'movie',
+    genres: feature.properties.genres,
+    imdb_rating: feature.properties.imdb_rating,
+  }))
 }
 
 // ============================================================================
@@ -426,16 +557,48 @@ async function saveGeoJSON(
 }
 
 /**
- * Save chunks to individual files
+ * Save tiles to public/geo/tiles/{z}/{x}/{y}.json
+ * Stale tiles from previous runs are cleared first
+ */
+async function saveTiles(tiles: Map<string, TilePointFeature[]>): Promise<void> {
+  await fs.rm(CONFIG.TILES_DIR, { recursive: true, force: true })
+
+  for (const [key, features] of tiles) {
+    const filePath = path.join(CONFIG.TILES_DIR, `${key}.json`)
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    await fs.writeFile(filePath, JSON.stringify({ type: 'FeatureCollection', features }))
+  }
+}
+
+/**
+ * Save one detail file per movie (public/geo/details/{imdb_id}.json)
+ * Stale files from removed movies are cleared first
  */
-async function saveChunks(chunks: GeoJSONFeatureCollection[]): Promise<void> {
-  await fs.mkdir(CONFIG.OUTPUT_DIR, { recursive: true })
+async function saveMovieDetails(movies: EnrichedMovie[]): Promise<{ count: number; totalBytes: number }> {
+  await fs.rm(CONFIG.DETAILS_DIR, { recursive: true, force: true })
+  await fs.mkdir(CONFIG.DETAILS_DIR, { recursive: true })
+
+  let count = 0
+  let totalBytes = 0
 
-  for (let i = 0; i < chunks.length; i++) {
-    const filePath = path.join(CONFIG.OUTPUT_DIR, `movies_page_${i + 1}.json`)
-    await fs.writeFile(filePath, JSON.stringify(chunks[i], null, 2))
-    console.log(`  ✓ Saved chunk ${i + 1}/${chunks.length} (${chunks[i].features.length} features)`)
+  for (const movie of movies) {
+    if (!movie.imdb_id || !movie.locations || movie.locations.length === 0) continue
+
+    const json = JSON.stringify(buildMovieDetail(movie))
+    await fs.writeFile(path.join(CONFIG.DETAILS_DIR, `${movie.imdb_id}.json`), json)
+    count++
+    totalBytes += Buffer.byteLength(json)
   }
+
+  return { count, totalBytes }
+}
+
+/**
+ * Save movie catalogue
+ */
+async function saveMovieCatalog(catalog: MovieCatalogEntry[]): Promise<void> {
+  await fs.mkdir(path.dirname(CONFIG.CATALOG_FILE), { recursive: true })
+  await fs.writeFile(CONFIG.CATALOG_FILE, JSON.stringify(catalog))
 }
 
 /**
@@ -510,22 +673,29 @@ async function main() {
     console.log(`  ✓ Saved to ${CONFIG.PATHS_FILE}`)
   }
 
-  // Step 6: Chunk features
-  console.log(`\nStep 6: Chunking features (${CONFIG.CHUNK_SIZE} per chunk)...`)
-  const chunks = chunkFeatures(geojson.features, CONFIG.CHUNK_SIZE)
-  console.log(`  ✓ Created ${chunks.length} chunks`)
+  // Step 6: Build quadtree tiles
+  console.log(`\nStep 6: Building quadtree tiles (z0-${CONFIG.TILE_MAX_ZOOM}, ${CONFIG.TILE_MAX_FEATURES} per tile)...`)
+  const tiles = buildTiles(flattenToTilePoints(geojson.features), CONFIG.TILE_MAX_ZOOM, CONFIG.TILE_MAX_FEATURES)
+  console.log(`  ✓ Created ${tiles.size} tiles`)
 
-  // Step 7: Save chunks
-  console.log('\nStep 7: Saving chunks...')
-  await saveChunks(chunks)
+  // Step 7: Save tiles
+  console.log('\nStep 7: Saving tiles...')
+  await saveTiles(tiles)
+  console.log(`  ✓ Saved to ${CONFIG.TILES_DIR}`)
 
-  // Step 8: Generate tile index
-  console.log('\nStep 8: Generating tile index...')
-  const tileIndex = generateTileIndex(chunks, CONFIG.CHUNK_SIZE)
-  await saveTileIndex(tileIndex)
+  // Step 8: Generate tile index and movie catalogue
+  console.log('\nStep 8: Generating tile index and movie catalogue...')
+  await saveTileIndex(generateTileIndex(tiles))
   console.log(`  ✓ Saved to ${CONFIG.TILE_INDEX_FILE}`)
+  await saveMovieCatalog(buildMovieCatalog(geojson.features))
+  console.log(`  ✓ Saved to ${CONFIG.CATALOG_FILE}`)
+
+  // Step 9: Save per-movie detail files
+  console.log('\nStep 9: Saving per-movie detail files...')
+  const details = await saveMovieDetails(movies)
+  console.log(`  ✓ Saved ${details.count} files to ${CONFIG.DETAILS_DIR} (avg ${(details.totalBytes / Math.max(1, details.count) / 1024).toFixed(1)} KB)`)
 
-  // Step 9: Generate statistics
+  // Step 10: Generate statistics
   generateStats(movies, geojson.features, paths.features)
 
   console.log('\n🎉 Done!')
@@ -537,4 +707,4 @@ main().catch((error) => {
   process.exit(1)
 })
 
-export { transformMovieToFeature, generateMoviePaths, chunkFeatures, generateTileIndex }
+export { transformMovieToFeature, buildMovieDetail, generateMoviePaths, flattenToTilePoints, buildTiles, generateTileIndex }
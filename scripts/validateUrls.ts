@@ -160,17 +160,9 @@ async function validateUrls() {
       )
 
       for (const feature of geoJSON.features || []) {
+        // Only regions containing a city page link to one
         const slug = feature.properties?.slug
-
-        if (!slug) {
-          results.push({
-            url: '/location/unknown',
-            type: 'location',
-            status: 'broken',
-            reason: 'GeoJSON feature missing slug property'
-          })
-          continue
-        }
+        if (!slug) continue
 
         if (!locationSlugs.has(slug)) {
           results.push({
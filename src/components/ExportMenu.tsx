@@ -0,0 +1,66 @@
+/**
+ * ExportMenu Component - Download filming locations as KML, GPX, GeoJSON or CSV
+ * Either builds the file on click (onExport) or links to a prebuilt one (getHref).
+ */
+
+import { EXPORT_FORMATS, type ExportFormat } from '../utils/locationExport'
+
+interface ExportMenuProps {
+  label?: string
+  onExport?: (format: ExportFormat) => void
+  getHref?: (format: ExportFormat) => string
+  className?: string
+  menuClassName?: string
+}
+
+const FORMAT_HINTS: Record<ExportFormat, string> = {
+  kml: 'Google My Maps, Google Earth',
+  gpx: 'GPS units, Organic Maps',
+  geojson: 'GIS tools',
+  csv: 'Spreadsheets',
+}
+
+export default function ExportMenu({
+  label = '⬇️ Export',
+  onExport,
+  getHref,
+  className = 'px-3 py-2 text-sm rounded-lg font-semibold bg-white dark:bg-gray-800 text-gray-900 dark:text-white border border-gray-300 dark:border-gray-600 hover:border-primary-500',
+  menuClassName = 'left-0',
+}: ExportMenuProps) {
+  const itemClassName = 'w-full px-3 py-2 flex items-center justify-between gap-3 text-left text-sm text-gray-900 dark:text-white hover:bg-gray-100 dark:hover:bg-gray-700'
+
+  return (
+    <details className="relative inline-block">
+      <summary className={`list-none cursor-pointer select-none ${className}`}>
+        {label}
+      </summary>
+      <div className={`absolute z-50 mt-1 w-64 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-2xl overflow-hidden ${menuClassName}`}>
+        {EXPORT_FORMATS.map(({ format, label: formatLabel }) => {
+          const content = (
+            <>
+              <span className="font-semibold">{formatLabel}</span>
+              <span className="text-xs text-gray-500 dark:text-gray-400">{FORMAT_HINTS[format]}</span>
+            </>
+          )
+
+          return getHref ? (
+            <a key={format} href={getHref(format)} download className={itemClassName}>
+              {content}
+            </a>
+          ) : (
+            <button
+              key={format}
+              onClick={(e) => {
+                onExport?.(format)
+                e.currentTarget.closest('details')?.removeAttribute('open')
+              }}
+              className={itemClassName}
+            >
+              {content}
+            </button>
+          )
+        })}
+      </div>
+    </details>
+  )
+}
@@ -3,8 +3,9 @@
  */
 
 import { useState, useEffect } from 'react'
-import type { FilterState, Movie } from '../types'
+import type { FilterState } from '../types'
 import { getUniqueGenres, getUniqueStreamingPlatforms } from '../utils/helpers'
+import { loadMovieCatalog } from '../utils/map/tileLoader'
 
 interface FiltersProps {
   filters: FilterState
@@ -32,20 +33,8 @@ export default function Filters({ filters, onFiltersChange, isOpen: controlledIs
   useEffect(() => {
     const loadFilterOptions = async () => {
       try {
-        const response = await fetch('/geo/movies.geojson')
-        const geojsonData = await response.json()
-
-        // Convert GeoJSON features to Movie objects for filter extraction
-        const movies: Movie[] = geojsonData.features.map((feature: any) => ({
-          movie_id: feature.properties.movie_id,
-          title: feature.properties.title,
-          year: feature.properties.year,
-          imdb_id: feature.properties.movie_id,
-          tmdb_id: String(feature.properties.tmdb_id),
-          genres: feature.properties.genres || (feature.properties.top_genre ? [feature.properties.top_genre] : []),
-          streaming: [], // Not available in GeoJSON
-          locations: [],
-        }))
+        // Lightweight movie catalogue (same data the map filters against)
+        const movies = await loadMovieCatalog()
 
         setAvailableGenres(getUniqueGenres(movies))
         setAvailableStreaming(getUniqueStreamingPlatforms(movies))
@@ -0,0 +1,157 @@
+/**
+ * LayerSwitcher Component - Optional map overlays (heatmap, country choropleth, regions, birthplaces,
+ * watched movies),
+ * the release-year time-lapse and the map view export
+ */
+
+import type { DensityLayer } from '../types'
+import type { ExportFormat } from '../utils/locationExport'
+import ExportMenu from './ExportMenu'
+
+const DENSITY_OPTIONS: { value: DensityLayer; label: string; title: string }[] = [
+  { value: 'none', label: 'Markers', title: 'Only show movie markers' },
+  { value: 'heatmap', label: '🔥 Heatmap', title: 'Density of filming locations' },
+  { value: 'choropleth', label: '🗺️ Countries', title: 'Movies filmed in each country' },
+]
+
+interface LayerSwitcherProps {
+  densityLayer: DensityLayer
+  onDensityLayerChange: (layer: DensityLayer) => void
+  normalizeByArea: boolean
+  onNormalizeByAreaChange: (normalize: boolean) => void
+  showBirthplaces: boolean
+  onShowBirthplacesChange: (show: boolean) => void
+  showRegions: boolean
+  onShowRegionsChange: (show: boolean) => void
+  isTimeLapseOpen: boolean
+  onTimeLapseOpenChange: (open: boolean) => void
+  showWatched: boolean
+  onShowWatchedChange: (show: boolean) => void
+  hasWatchHistory: boolean
+  onExportView: (format: ExportFormat) => void
+}
+
+export default function LayerSwitcher({
+  densityLayer,
+  onDensityLayerChange,
+  normalizeByArea,
+  onNormalizeByAreaChange,
+  showBirthplaces,
+  onShowBirthplacesChange,
+  showRegions,
+  onShowRegionsChange,
+  isTimeLapseOpen,
+  onTimeLapseOpenChange,
+  showWatched,
+  onShowWatchedChange,
+  hasWatchHistory,
+  onExportView,
+}: LayerSwitcherProps) {
+  return (
+    <div className="absolute bottom-12 left-4 z-10 flex flex-col items-start gap-2 select-none">
+      {densityLayer === 'choropleth' && (
+        <label className="flex items-center gap-2 px-3 py-1.5 rounded-lg shadow-lg text-xs bg-white/80 dark:bg-gray-800/80 text-gray-700 dark:text-gray-300 backdrop-blur-sm border border-gray-200 dark:border-gray-700 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={normalizeByArea}
+            onChange={(e) => onNormalizeByAreaChange(e.target.checked)}
+            className="accent-primary-500"
+          />
+          Per 100,000 km²
+        </label>
+      )}
+
+      <div className="flex items-center gap-2">
+        {/* Density overlay */}
+        <div
+          role="radiogroup"
+          aria-label="Map layer"
+          className="flex rounded-lg shadow-lg overflow-hidden backdrop-blur-sm border border-gray-200 dark:border-gray-700 text-xs font-semibold"
+        >
+          {DENSITY_OPTIONS.map(option => (
+            <button
+              key={option.value}
+              role="radio"
+              aria-checked={densityLayer === option.value}
+              onClick={() => onDensityLayerChange(option.value)}
+              title={option.title}
+              className={`px-3 py-2 transition-colors ${
+                densityLayer === option.value
+                  ? 'bg-primary-500/90 text-white'
+                  : 'bg-white/80 dark:bg-gray-800/80 text-gray-700 dark:text-gray-300 hover:bg-white dark:hover:bg-gray-800'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        {/* Clickable Regions Toggle */}
+        <button
+          onClick={() => onShowRegionsChange(!showRegions)}
+          className={`px-3 py-2 rounded-lg shadow-lg text-xs font-semibold backdrop-blur-sm border transition-colors ${
+            showRegions
+              ? 'bg-gray-500/90 text-white border-gray-300'
+              : 'bg-white/80 dark:bg-gray-800/80 text-gray-700 dark:text-gray-300 border-gray-200 dark:border-gray-700 hover:bg-white dark:hover:bg-gray-800'
+          }`}
+          aria-pressed={showRegions}
+          title="Show filming hotspots - click one to zoom in"
+        >
+          📍 Regions
+        </button>
+
+        {/* Birthplace Layer Toggle */}
+        <button
+          onClick={() => onShowBirthplacesChange(!showBirthplaces)}
+          className={`px-3 py-2 rounded-lg shadow-lg text-xs font-semibold backdrop-blur-sm border transition-colors ${
+            showBirthplaces
+              ? 'bg-pink-500/90 text-white border-pink-300'
+              : 'bg-white/80 dark:bg-gray-800/80 text-gray-700 dark:text-gray-300 border-gray-200 dark:border-gray-700 hover:bg-white dark:hover:bg-gray-800'
+          }`}
+          aria-pressed={showBirthplaces}
+          title="Show where actors and directors were born"
+        >
+          🎭 Birthplaces
+        </button>
+
+        {/* Watched Layer Toggle (needs an imported watch history) */}
+        {hasWatchHistory && (
+          <button
+            onClick={() => onShowWatchedChange(!showWatched)}
+            className={`px-3 py-2 rounded-lg shadow-lg text-xs font-semibold backdrop-blur-sm border transition-colors ${
+              showWatched
+                ? 'bg-green-600/90 text-white border-green-300'
+                : 'bg-white/80 dark:bg-gray-800/80 text-gray-700 dark:text-gray-300 border-gray-200 dark:border-gray-700 hover:bg-white dark:hover:bg-gray-800'
+            }`}
+            aria-pressed={showWatched}
+            title="Highlight filming locations of movies you've watched"
+          >
+            🎞️ Watched
+          </button>
+        )}
+
+        {/* Release-Year Time-Lapse Toggle */}
+        <button
+          onClick={() => onTimeLapseOpenChange(!isTimeLapseOpen)}
+          className={`px-3 py-2 rounded-lg shadow-lg text-xs font-semibold backdrop-blur-sm border transition-colors ${
+            isTimeLapseOpen
+              ? 'bg-accent-400/90 text-gray-900 border-accent-200'
+              : 'bg-white/80 dark:bg-gray-800/80 text-gray-700 dark:text-gray-300 border-gray-200 dark:border-gray-700 hover:bg-white dark:hover:bg-gray-800'
+          }`}
+          aria-pressed={isTimeLapseOpen}
+          title="Play the map through release years"
+        >
+          ⏳ Time-lapse
+        </button>
+
+        {/* Export the filtered markers in view */}
+        <ExportMenu
+          label="⬇️ Export view"
+          className="px-3 py-2 rounded-lg shadow-lg text-xs font-semibold backdrop-blur-sm border transition-colors bg-white/80 dark:bg-gray-800/80 text-gray-700 dark:text-gray-300 border-gray-200 dark:border-gray-700 hover:bg-white dark:hover:bg-gray-800"
+          menuClassName="left-0 bottom-full mb-1"
+          onExport={onExportView}
+        />
+      </div>
+    </div>
+  )
+}
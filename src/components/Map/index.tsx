@@ -5,11 +5,21 @@
  * Refactored for better modularity and maintainability
  */
 
-import { useEffect, useRef, useImperativeHandle, forwardRef } from 'react'
+import { useEffect, useMemo, useRef, useImperativeHandle, forwardRef } from 'react'
 import maplibregl from 'maplibre-gl'
-import type { Movie, FilterState } from '../../types'
+import type { Movie, FilterState, Place, DensityLayer, VisitedLocation } from '../../types'
 import { useMapInitialization } from '../../hooks/useMapInitialization'
 import { useMapMarkers } from '../../hooks/useMapMarkers'
+import { useBirthplaceLayer } from '../../hooks/useBirthplaceLayer'
+import { useClickableRegions } from '../../hooks/useClickableRegions'
+import { useDensityLayers } from '../../hooks/useDensityLayers'
+import { useTripRoute } from '../../hooks/useTripRoute'
+import { useWatchedLayer } from '../../hooks/useWatchedLayer'
+import { useVisitedLayer } from '../../hooks/useVisitedLayer'
+import { getPlaceArea } from '../../utils/placeSearch'
+import { getTimelineStops } from '../../utils/filmingTimeline'
+import type { TripDay } from '../../utils/tripPlanner'
+import { setTimelineHighlight, removeTimelineHighlight } from '../../utils/map/timelineLayers'
 import { STYLES } from '../../../lib/constants/theme'
 
 interface MapProps {
@@ -18,14 +28,25 @@ interface MapProps {
   searchQuery: string
   filters: FilterState
   focusedMovieId?: string | null
+  selectedPlace?: Place | null
+  showBirthplaces?: boolean
+  showRegions?: boolean
+  densityLayer?: DensityLayer
+  normalizeDensityByArea?: boolean
+  tripDays?: TripDay[] | null
+  watchedMovieIds?: string[] | null
+  visitedLocations?: VisitedLocation[] | null
   onClearFocus?: () => void
   convertGeoJSONToMovie?: (feature: any) => Promise<Movie>
 }
 
 export interface MapRef {
   showAllLocationsForMovie: (movie: Movie) => void
+  showTimelineStop: (movie: Movie, step: number) => void
   flyToLocation: (lat: number, lng: number) => void
+  flyToPlace: (place: Place) => void
   resetView: () => void
+  getViewLocations: () => GeoJSON.Feature[]
   getMapInstance: () => maplibregl.Map | null
 }
 
@@ -35,6 +56,14 @@ const Map = forwardRef<MapRef, MapProps>(({
   searchQuery: _searchQuery,
   filters,
   focusedMovieId,
+  selectedPlace,
+  showBirthplaces = false,
+  showRegions = false,
+  densityLayer = 'none',
+  normalizeDensityByArea = false,
+  tripDays = null,
+  watchedMovieIds = null,
+  visitedLocations = null,
   onClearFocus,
   convertGeoJSONToMovie,
 }, ref) => {
@@ -43,27 +72,55 @@ const Map = forwardRef<MapRef, MapProps>(({
   // Initialize map with globe projection
   const { map } = useMapInitialization({ mapContainer })
 
+  // Markers are limited to the chosen place (place search)
+  const placeArea = useMemo(() => selectedPlace ? getPlaceArea(selectedPlace) : null, [selectedPlace])
+
   // Manage markers, loading, and interactions
-  const { geojsonFeatures, loadingState, initializedRef } = useMapMarkers({
+  const { loadingState, initializedRef, collectionRef, densityRef, countryCountsRef, densityVersion } = useMapMarkers({
     map,
     onMovieSelect,
     filters,
     focusedMovieId,
+    placeArea,
+    withDensity: densityLayer !== 'none',
     onClearFocus,
     convertGeoJSONToMovie
   })
 
+  // Optional actor/director birthplace layer
+  useBirthplaceLayer({ map, visible: showBirthplaces })
+
+  // Optional clickable regions, hidden while focused on a movie
+  useClickableRegions({ map, visible: showRegions && !focusedMovieId })
+
+  // Optional heatmap / country choropleth, following the same filters as the markers
+  useDensityLayers({
+    map,
+    layer: densityLayer,
+    normalizeByArea: normalizeDensityByArea,
+    densityRef,
+    countryCountsRef,
+    densityVersion
+  })
+
+  // Planned trip route (trip planner)
+  useTripRoute({ map, days: tripDays })
+
+  // Watched layer (imported watch history)
+  useWatchedLayer({ map, movieIds: watchedMovieIds })
+
+  // Visited locations (passport)
+  useVisitedLayer({ map, locations: visitedLocations })
+
   // Expose methods to parent component
   useImperativeHandle(ref, () => ({
     showAllLocationsForMovie: (movie: Movie) => {
       if (!map.current) return
 
-      const feature = geojsonFeatures.find(f => f.properties.movie_id === movie.movie_id)
-      if (!feature) return
-
-      const coordinates = feature.geometry.type === 'MultiPoint'
-        ? feature.geometry.coordinates as number[][]
-        : [feature.geometry.coordinates as number[]]
+      // Use the movie's own locations - map tiles may only hold some of them
+      // Shooting order, so the connecting line follows the filming schedule
+      const coordinates = getTimelineStops(movie).map(({ location }) => [location.lng, location.lat])
+      if (coordinates.length === 0) return
 
       // Calculate bounds
       const bounds = new maplibregl.LngLatBounds()
@@ -77,6 +134,7 @@ const Map = forwardRef<MapRef, MapProps>(({
       })
 
       // Remove existing connecting line
+      removeTimelineHighlight(map.current)
       if (map.current.getLayer('connecting-line')) {
         map.current.removeLayer('connecting-line')
       }
@@ -110,11 +168,27 @@ const Map = forwardRef<MapRef, MapProps>(({
           }
         })
       }
+    },
+    showTimelineStop: (movie: Movie, step: number) => {
+      if (!map.current) return
 
-      // Hide clickable regions when focused on a movie
-      if (map.current.getLayer('region-circles')) {
-        map.current.setLayoutProperty('region-circles', 'visibility', 'none')
-      }
+      const stops = getTimelineStops(movie)
+      const stop = stops[step]
+      if (!stop) return
+
+      const previous = stops[step - 1]
+      setTimelineHighlight(
+        map.current,
+        [stop.location.lng, stop.location.lat],
+        previous ? [previous.location.lng, previous.location.lat] : null
+      )
+
+      map.current.flyTo({
+        center: [stop.location.lng, stop.location.lat],
+        zoom: Math.max(map.current.getZoom(), 9),
+        duration: 1800,
+        essential: true
+      })
     },
     flyToLocation: (lat: number, lng: number) => {
       if (!map.current) return
@@ -148,10 +222,28 @@ const Map = forwardRef<MapRef, MapProps>(({
         })
       }, 1300)
     },
+    flyToPlace: (place: Place) => {
+      if (!map.current) return
+
+      const [west, south, east, north] = place.bbox
+      if (west === east && south === north) {
+        // Single filming location
+        map.current.flyTo({ center: place.center, zoom: 14, duration: 1500, essential: true })
+        return
+      }
+
+      map.current.fitBounds([[west, south], [east, north]], {
+        padding: 80,
+        maxZoom: 14,
+        duration: 1500,
+        essential: true
+      })
+    },
     resetView: () => {
       if (!map.current) return
 
       // Remove connecting line if exists
+      removeTimelineHighlight(map.current)
       if (map.current.getLayer('connecting-line')) {
         map.current.removeLayer('connecting-line')
       }
@@ -159,11 +251,6 @@ const Map = forwardRef<MapRef, MapProps>(({
         map.current.removeSource('connecting-line')
       }
 
-      // Show clickable regions again
-      if (map.current.getLayer('region-circles')) {
-        map.current.setLayoutProperty('region-circles', 'visibility', 'visible')
-      }
-
       map.current.flyTo({
         center: [0.35, 43],
         zoom: 3,
@@ -171,16 +258,28 @@ const Map = forwardRef<MapRef, MapProps>(({
         essential: true
       })
     },
+    getViewLocations: () => {
+      if (!map.current || !collectionRef.current) return []
+
+      // Filtered markers inside the viewport
+      const bounds = map.current.getBounds()
+      return collectionRef.current.features.filter(feature =>
+        feature.geometry.type === 'Point' && bounds.contains(feature.geometry.coordinates as [number, number])
+      )
+    },
     getMapInstance: () => {
       return map.current
     }
-  }), [map, geojsonFeatures])
+  }), [map, collectionRef])
 
   /**
    * Handle selected movie - fit bounds to show all locations
+   * Skipped when a specific location was picked (marker click or scene search),
+   * so the map stays on / flies to that spot
    */
   useEffect(() => {
     if (!map.current || !selectedMovie) return
+    if (selectedMovie.clickedLocationIndex !== undefined) return
 
     const bounds = new maplibregl.LngLatBounds()
     selectedMovie.locations.forEach((location) => {
@@ -7,7 +7,8 @@
 import { forwardRef } from 'react'
 import Map from './Map/index'
 import type { MapRef } from './Map/index'
-import type { Movie, FilterState } from '../types'
+import type { Movie, FilterState, Place, DensityLayer, VisitedLocation } from '../types'
+import type { TripDay } from '../utils/tripPlanner'
 
 interface MapProps {
   selectedMovie: Movie | null
@@ -15,6 +16,14 @@ interface MapProps {
   searchQuery: string
   filters: FilterState
   focusedMovieId?: string | null
+  selectedPlace?: Place | null
+  showBirthplaces?: boolean
+  showRegions?: boolean
+  densityLayer?: DensityLayer
+  normalizeDensityByArea?: boolean
+  tripDays?: TripDay[] | null
+  watchedMovieIds?: string[] | null
+  visitedLocations?: VisitedLocation[] | null
   onClearFocus?: () => void
   convertGeoJSONToMovie?: (feature: any) => Promise<Movie>
 }
@@ -5,6 +5,14 @@
 import { useEffect } from 'react'
 import type { Movie } from '../types'
 import { formatRating, getYouTubeEmbedUrl } from '../utils/helpers'
+import { getLocationName } from '../utils/filmingTimeline'
+import { getSpotId } from '../utils/map/coordinateUtils'
+import { useTrip } from '../hooks/useTrip'
+import { useFavorites } from '../hooks/useFavorites'
+import { downloadLocations, movieToExportPoints } from '../utils/locationExport'
+import { generateSlug } from '../../lib/slugify'
+import { findLocationCountry } from '../../lib/countryNames'
+import ExportMenu from './ExportMenu'
 
 interface MovieModalProps {
   movie: Movie
@@ -23,6 +31,10 @@ export default function MovieModal({
   relatedMovies = [],
   onRelatedMovieClick
 }: MovieModalProps) {
+  const { addStop, removeStop, hasStop } = useTrip()
+  const { toggleMovie, toggleLocation, toggleVisited, isFavoriteMovie, isFavoriteLocation, isVisited } = useFavorites()
+  const isFavorite = isFavoriteMovie(movie.movie_id)
+
   /**
    * Handle ESC key to close modal
    */
@@ -116,6 +128,15 @@ export default function MovieModal({
                   </span>
                 ))}
               </div>
+              {/* My list */}
+              <button
+                onClick={() => toggleMovie(movie)}
+                className="px-3 py-1 bg-white/20 hover:bg-white/30 backdrop-blur-sm rounded text-sm font-semibold transition-colors"
+                aria-pressed={isFavorite}
+                title={isFavorite ? 'Remove from my list' : 'Save to my list'}
+              >
+                {isFavorite ? '❤️ In my list' : '♡ Save'}
+              </button>
             </div>
           </div>
         </div>
@@ -147,15 +168,28 @@ export default function MovieModal({
               <h3 className="text-xl font-semibold text-gray-900 dark:text-white">
                 Filming Locations ({movie.locations.length})
               </h3>
-              {movie.locations.length > 1 && onShowAllLocations && (
-                <button
-                  onClick={onShowAllLocations}
-                  className="items-center gap-2 px-4 py-2 bg-white text-gray-900 rounded-lg font-semibold hover:bg-primary-100 transition-all transform hover:scale-105"
-                >
+              <div className="flex items-center gap-2">
+                {movie.locations.length > 1 && onShowAllLocations && (
+                  <button
+                    onClick={onShowAllLocations}
+                    className="items-center gap-2 px-4 py-2 bg-white text-gray-900 rounded-lg font-semibold hover:bg-primary-100 transition-all transform hover:scale-105"
+                  >
 
-                  <span>🌏 View All Locations</span>
-                </button>
-              )}
+                    <span>🌏 View All Locations</span>
+                  </button>
+                )}
+                {movie.locations.length > 0 && (
+                  <ExportMenu
+                    menuClassName="right-0"
+                    onExport={(format) => downloadLocations(
+                      movieToExportPoints(movie),
+                      format,
+                      `${movie.title} (${movie.year}) - filming locations`,
+                      generateSlug(movie.title, movie.year)
+                    )}
+                  />
+                )}
+              </div>
             </div>
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
               {(() => {
@@ -201,18 +235,83 @@ export default function MovieModal({
                           </div>
                         )}
                       </div>
-                      <button
-                        onClick={() => {
-                          if (onViewLocation) {
-                            onViewLocation({ lat: location.lat, lng: location.lng })
-                            onClose() // Close modal after flying to location
-                          }
-                        }}
-                        className="w-full px-3 py-1 text-sm bg-primary-50 hover:bg-primary-200 text-gray-900 rounded font-semibold transition-colors"
-                        aria-label={`View ${location.display_name || location.city || 'location'} on map`}
-                      >
-                        View on Map
-                      </button>
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => {
+                            if (onViewLocation) {
+                              onViewLocation({ lat: location.lat, lng: location.lng })
+                              onClose() // Close modal after flying to location
+                            }
+                          }}
+                          className="flex-1 px-3 py-1 text-sm bg-primary-50 hover:bg-primary-200 text-gray-900 rounded font-semibold transition-colors"
+                          aria-label={`View ${location.display_name || location.city || 'location'} on map`}
+                        >
+                          View on Map
+                        </button>
+                        {/* Trip planner */}
+                        {hasStop(location.lat, location.lng) ? (
+                          <button
+                            onClick={() => removeStop(getSpotId(location.lat, location.lng))}
+                            className="px-3 py-1 text-sm bg-accent-300 hover:bg-accent-400 text-gray-900 rounded font-semibold transition-colors"
+                            aria-label={`Remove ${getLocationName(location)} from trip`}
+                            title="Remove from trip"
+                          >
+                            ✓ In trip
+                          </button>
+                        ) : (
+                          <button
+                            onClick={() => addStop({
+                              name: getLocationName(location),
+                              lat: location.lat,
+                              lng: location.lng,
+                              movieId: movie.movie_id,
+                              movieTitle: `${movie.title} (${movie.year})`,
+                            })}
+                            className="px-3 py-1 text-sm bg-white dark:bg-gray-800 hover:bg-accent-100 dark:hover:bg-gray-900 text-gray-900 dark:text-white border border-gray-300 dark:border-gray-600 rounded font-semibold transition-colors"
+                            aria-label={`Add ${getLocationName(location)} to trip`}
+                            title="Add to trip planner"
+                          >
+                            🧳 Add to trip
+                          </button>
+                        )}
+                        {/* My list */}
+                        <button
+                          onClick={() => toggleLocation({
+                            name: getLocationName(location),
+                            lat: location.lat,
+                            lng: location.lng,
+                            movieId: movie.movie_id,
+                            movieTitle: `${movie.title} (${movie.year})`,
+                          })}
+                          className="px-2 py-1 text-sm bg-white dark:bg-gray-800 hover:bg-accent-100 dark:hover:bg-gray-900 text-gray-900 dark:text-white border border-gray-300 dark:border-gray-600 rounded transition-colors"
+                          aria-pressed={isFavoriteLocation(location.lat, location.lng)}
+                          aria-label={`Save ${getLocationName(location)} to my list`}
+                          title={isFavoriteLocation(location.lat, location.lng) ? 'Remove from my list' : 'Save to my list'}
+                        >
+                          {isFavoriteLocation(location.lat, location.lng) ? '❤️' : '♡'}
+                        </button>
+                        {/* Passport */}
+                        <button
+                          onClick={() => toggleVisited({
+                            name: getLocationName(location),
+                            lat: location.lat,
+                            lng: location.lng,
+                            country: findLocationCountry(location)?.english,
+                            movieId: movie.movie_id,
+                            movieTitle: `${movie.title} (${movie.year})`,
+                          })}
+                          className={`px-2 py-1 text-sm rounded border transition-colors ${
+                            isVisited(location.lat, location.lng)
+                              ? 'bg-amber-400 hover:bg-amber-500 text-gray-900 border-amber-500'
+                              : 'bg-white dark:bg-gray-800 hover:bg-accent-100 dark:hover:bg-gray-900 text-gray-900 dark:text-white border-gray-300 dark:border-gray-600'
+                          }`}
+                          aria-pressed={isVisited(location.lat, location.lng)}
+                          aria-label={`Mark ${getLocationName(location)} as visited`}
+                          title={isVisited(location.lat, location.lng) ? 'Visited - remove from passport' : 'I\'ve been here'}
+                        >
+                          🛂
+                        </button>
+                      </div>
                     </div>
                   </div>
                 )
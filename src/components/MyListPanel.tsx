@@ -0,0 +1,265 @@
+/**
+ * MyListPanel Component - Favorite movies and filming locations
+ * Items are saved from the movie modal or location pages (see src/hooks/useFavorites.ts).
+ * The list can be shown alone on the map, and exported / imported as JSON
+ * (together with the visited locations of the passport).
+ */
+
+import { useRef, useState } from 'react'
+import type { FavoriteMovie, FavoriteLocation } from '../types'
+import { downloadFavorites, type Favorites } from '../utils/favorites'
+
+interface MyListPanelProps {
+  favorites: Favorites
+  onMovieSelect: (movie: FavoriteMovie) => void
+  onLocationSelect: (location: FavoriteLocation) => void
+  onRemoveMovie: (movieId: string) => void
+  onRemoveLocation: (id: string) => void
+  onImport: (json: string) => { movies: number; locations: number; visited: number }
+  onClear: () => void
+  showOnlyFavorites: boolean
+  onShowOnlyFavoritesChange: (show: boolean) => void
+  isOpen?: boolean
+  onOpenChange?: (isOpen: boolean) => void
+}
+
+export default function MyListPanel({
+  favorites,
+  onMovieSelect,
+  onLocationSelect,
+  onRemoveMovie,
+  onRemoveLocation,
+  onImport,
+  onClear,
+  showOnlyFavorites,
+  onShowOnlyFavoritesChange,
+  isOpen: controlledIsOpen,
+  onOpenChange
+}: MyListPanelProps) {
+  const [internalIsOpen, setInternalIsOpen] = useState(false)
+  const [importMessage, setImportMessage] = useState<{ text: string; isError: boolean } | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  // Use controlled or uncontrolled state
+  const isOpen = controlledIsOpen !== undefined ? controlledIsOpen : internalIsOpen
+  const setIsOpen = (value: boolean) => {
+    if (controlledIsOpen === undefined) {
+      setInternalIsOpen(value)
+    }
+    onOpenChange?.(value)
+  }
+
+  const itemCount = favorites.movies.length + favorites.locations.length
+  const visitedCount = favorites.visited.length
+  // The map filter needs movies - a location saved from a location page has none
+  const canFilterMap = favorites.movies.length > 0 || favorites.locations.some(location => location.movieId)
+
+  const handleImport = async (file: File) => {
+    try {
+      const added = onImport(await file.text())
+      setImportMessage({
+        text: `Imported ${added.movies} movie${added.movies === 1 ? '' : 's'}, ${added.locations} location${added.locations === 1 ? '' : 's'} and ${added.visited} visited`,
+        isError: false,
+      })
+    } catch (error) {
+      setImportMessage({
+        text: error instanceof SyntaxError ? 'That file isn\'t valid JSON' : (error as Error).message,
+        isError: true,
+      })
+    }
+  }
+
+  return (
+    <div className="relative">
+      {/* My List Toggle Button */}
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full px-4 py-3 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg shadow-lg hover:shadow-xl transition-shadow flex items-center justify-between text-gray-900 dark:text-white"
+        aria-label="Toggle my list"
+        aria-expanded={isOpen}
+      >
+        <span className="flex items-center gap-2">
+          <span aria-hidden="true">❤️</span>
+          <span className="font-semibold">My List</span>
+          {itemCount > 0 && (
+            <span className="px-2 py-0.5 text-xs bg-primary-500 text-white rounded-full">
+              {itemCount}
+            </span>
+          )}
+        </span>
+        <svg
+          className={`w-5 h-5 transition-transform ${isOpen ? 'rotate-180' : ''}`}
+          fill="none"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth="2"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+          aria-hidden="true"
+        >
+          <path d="M19 9l-7 7-7-7"></path>
+        </svg>
+      </button>
+
+      {/* My List Panel */}
+      {isOpen && (
+        <div className="absolute z-50 w-full mt-2 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-2xl p-4 max-h-[600px] overflow-y-auto custom-scrollbar">
+          {itemCount === 0 ? (
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Your list is empty. Save movies and filming locations with ♡ in a movie&apos;s details or on a location page.
+            </p>
+          ) : (
+            <>
+              {/* Map filter */}
+              <label className={`flex items-center gap-2 mb-4 text-sm ${canFilterMap ? 'cursor-pointer text-gray-900 dark:text-white' : 'text-gray-400 dark:text-gray-500'}`}>
+                <input
+                  type="checkbox"
+                  checked={showOnlyFavorites && canFilterMap}
+                  disabled={!canFilterMap}
+                  onChange={(e) => onShowOnlyFavoritesChange(e.target.checked)}
+                  className="w-4 h-4 rounded accent-primary-500"
+                />
+                <span className="font-medium">Show only my list on the map</span>
+              </label>
+
+              {/* Movies */}
+              {favorites.movies.length > 0 && (
+                <div className="mb-4">
+                  <h3 className="font-semibold text-gray-900 dark:text-white text-sm mb-1">
+                    Movies ({favorites.movies.length})
+                  </h3>
+                  <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                    {favorites.movies.map((movie) => (
+                      <li key={movie.movieId} className="flex items-center gap-2">
+                        <button
+                          onClick={() => onMovieSelect(movie)}
+                          className="flex-1 min-w-0 py-2 flex items-center gap-3 text-left hover:bg-gray-50 dark:hover:bg-gray-700/50 rounded transition-colors"
+                        >
+                          {movie.poster ? (
+                            <img
+                              src={movie.poster}
+                              alt=""
+                              className="w-8 h-12 object-cover rounded flex-shrink-0"
+                              loading="lazy"
+                            />
+                          ) : (
+                            <span className="w-8 h-12 flex items-center justify-center bg-gray-100 dark:bg-gray-700 rounded flex-shrink-0" aria-hidden="true">
+                              🎬
+                            </span>
+                          )}
+                          <span className="min-w-0">
+                            <span className="block text-sm font-medium text-gray-900 dark:text-white truncate">
+                              {movie.title}
+                            </span>
+                            <span className="block text-xs text-gray-600 dark:text-gray-400">
+                              {movie.year}
+                            </span>
+                          </span>
+                        </button>
+                        <button
+                          onClick={() => onRemoveMovie(movie.movieId)}
+                          className="px-2 text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                          aria-label={`Remove ${movie.title} from my list`}
+                        >
+                          ✕
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {/* Locations */}
+              {favorites.locations.length > 0 && (
+                <div className="mb-4">
+                  <h3 className="font-semibold text-gray-900 dark:text-white text-sm mb-1">
+                    Locations ({favorites.locations.length})
+                  </h3>
+                  <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                    {favorites.locations.map((location) => (
+                      <li key={location.id} className="flex items-center gap-2">
+                        <button
+                          onClick={() => onLocationSelect(location)}
+                          className="flex-1 min-w-0 py-2 text-left hover:bg-gray-50 dark:hover:bg-gray-700/50 rounded transition-colors"
+                        >
+                          <span className="block text-sm font-medium text-gray-900 dark:text-white truncate">
+                            📍 {location.name}
+                          </span>
+                          {location.movieTitle && (
+                            <span className="block text-xs text-gray-600 dark:text-gray-400 truncate">
+                              🎬 {location.movieTitle}
+                            </span>
+                          )}
+                        </button>
+                        <button
+                          onClick={() => onRemoveLocation(location.id)}
+                          className="px-2 text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                          aria-label={`Remove ${location.name} from my list`}
+                        >
+                          ✕
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+
+          {/* Passport */}
+          <a
+            href="/passport"
+            className="flex items-center justify-between mt-3 px-3 py-2 rounded-lg bg-gray-50 dark:bg-gray-700/50 hover:bg-gray-100 dark:hover:bg-gray-700 text-sm text-gray-900 dark:text-white transition-colors"
+          >
+            <span>🛂 Passport · {visitedCount} visited</span>
+            <span aria-hidden="true">→</span>
+          </a>
+
+          {/* Import / export */}
+          {importMessage && (
+            <p className={`mt-3 text-xs ${importMessage.isError ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+              {importMessage.text}
+            </p>
+          )}
+          <div className="flex items-center justify-between mt-3 pt-3 border-t border-gray-200 dark:border-gray-700 text-xs">
+            <div className="flex items-center gap-3">
+              {itemCount + visitedCount > 0 && (
+                <button
+                  onClick={() => downloadFavorites(favorites)}
+                  className="text-primary-600 dark:text-primary-400 hover:underline font-medium"
+                >
+                  ⬇️ Export
+                </button>
+              )}
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="text-primary-600 dark:text-primary-400 hover:underline font-medium"
+              >
+                ⬆️ Import
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0]
+                  if (file) handleImport(file)
+                  e.target.value = '' // Allow importing the same file again
+                }}
+              />
+            </div>
+            {itemCount > 0 && (
+              <button
+                onClick={onClear}
+                className="text-red-600 dark:text-red-400 hover:underline font-medium"
+              >
+                Clear list
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,307 @@
+/**
+ * NearbyPanel Component - "Near me" / "near point" filming location search
+ */
+
+import { useEffect, useRef, useState } from 'react'
+import { formatDistance } from '../utils/map/coordinateUtils'
+
+const RADIUS_OPTIONS = [1, 5, 25, 100]
+const RESULT_LIMIT = 50
+// "Nearest" has no radius - the API returns the closest locations however far away
+const NEAREST_LIMIT = 10
+
+export interface NearbyLocationResult {
+  distance_km: number
+  location_index: number
+  location: {
+    lat: number
+    lng: number
+    name: string | null
+    city: string | null
+    country: string | null
+  }
+  movie: {
+    id: string
+    slug: string
+    title: string
+    year: number
+    thumbnail: string | null
+  }
+}
+
+interface NearbyPanelProps {
+  /** Returns a function that cancels the pick */
+  onPickOnMap: (onPick: (lat: number, lng: number) => void) => () => void
+  onResultSelect: (result: NearbyLocationResult) => void
+  isOpen?: boolean
+  onOpenChange?: (isOpen: boolean) => void
+}
+
+export default function NearbyPanel({ onPickOnMap, onResultSelect, isOpen: controlledIsOpen, onOpenChange }: NearbyPanelProps) {
+  const [internalIsOpen, setInternalIsOpen] = useState(false)
+  // null searches the nearest locations instead of a radius
+  const [radiusKm, setRadiusKm] = useState<number | null>(5)
+  const [origin, setOrigin] = useState<{ lat: number; lng: number } | null>(null)
+  const [results, setResults] = useState<NearbyLocationResult[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [isPicking, setIsPicking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  // Request in flight - aborted when a newer search starts, so results can't arrive out of order
+  const requestRef = useRef<AbortController | null>(null)
+  // Map pick in progress - cancelled when the panel closes, so a later click isn't taken as the origin
+  const cancelPickRef = useRef<(() => void) | null>(null)
+
+  useEffect(() => () => {
+    requestRef.current?.abort()
+    cancelPickRef.current?.()
+  }, [])
+
+  // Use controlled or uncontrolled state
+  const isOpen = controlledIsOpen !== undefined ? controlledIsOpen : internalIsOpen
+
+  useEffect(() => {
+    if (!isOpen && cancelPickRef.current) {
+      cancelPickRef.current()
+      cancelPickRef.current = null
+      setIsPicking(false)
+    }
+  }, [isOpen])
+  const setIsOpen = (value: boolean) => {
+    if (controlledIsOpen === undefined) {
+      setInternalIsOpen(value)
+    }
+    onOpenChange?.(value)
+  }
+
+  /**
+   * Fetch filming locations around a point
+   */
+  const searchNearby = async (lat: number, lng: number, radius: number | null) => {
+    requestRef.current?.abort()
+    const controller = new AbortController()
+    requestRef.current = controller
+
+    setOrigin({ lat, lng })
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const params = new URLSearchParams({
+        lat: lat.toFixed(5),
+        lng: lng.toFixed(5),
+        limit: String(radius === null ? NEAREST_LIMIT : RESULT_LIMIT),
+        fields: 'id,slug,title,year,thumbnail',
+      })
+      if (radius !== null) {
+        params.set('radius', String(radius))
+      }
+      const response = await fetch(`/api/nearby?${params}`, { signal: controller.signal })
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`)
+      }
+      const body = await response.json()
+      setResults(body.data.results)
+    } catch (err) {
+      if (controller.signal.aborted) return
+      console.error('Failed to load nearby locations:', err)
+      setError('Could not load nearby locations')
+      setResults([])
+    } finally {
+      if (requestRef.current === controller) {
+        requestRef.current = null
+        setIsLoading(false)
+      }
+    }
+  }
+
+  /**
+   * Use the browser's geolocation as the search origin
+   */
+  const handleNearMe = () => {
+    if (!navigator.geolocation) {
+      setError('Geolocation is not supported by your browser')
+      return
+    }
+
+    setIsLoading(true)
+    setError(null)
+    navigator.geolocation.getCurrentPosition(
+      (position) => searchNearby(position.coords.latitude, position.coords.longitude, radiusKm),
+      (err) => {
+        console.error('Geolocation failed:', err)
+        setError('Could not get your location')
+        setIsLoading(false)
+      },
+      { enableHighAccuracy: false, timeout: 10000, maximumAge: 60000 }
+    )
+  }
+
+  /**
+   * Let the user click the map to choose the search origin
+   */
+  const handlePickOnMap = () => {
+    setIsPicking(true)
+    setError(null)
+    cancelPickRef.current = onPickOnMap((lat, lng) => {
+      cancelPickRef.current = null
+      setIsPicking(false)
+      searchNearby(lat, lng, radiusKm)
+    })
+  }
+
+  const handleRadiusChange = (radius: number | null) => {
+    setRadiusKm(radius)
+    if (origin) {
+      searchNearby(origin.lat, origin.lng, radius)
+    }
+  }
+
+  return (
+    <div className="relative">
+      {/* Nearby Toggle Button */}
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full px-4 py-3 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg shadow-lg hover:shadow-xl transition-shadow flex items-center justify-between text-gray-900 dark:text-white"
+        aria-label="Toggle nearby search"
+        aria-expanded={isOpen}
+      >
+        <span className="flex items-center gap-2">
+          <svg
+            className="w-5 h-5"
+            fill="none"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth="2"
+            viewBox="0 0 24 24"
+            stroke="currentColor"
+            aria-hidden="true"
+          >
+            <path d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z"></path>
+            <path d="M15 11a3 3 0 11-6 0 3 3 0 016 0z"></path>
+          </svg>
+          <span className="font-semibold">Nearby</span>
+          {results.length > 0 && (
+            <span className="px-2 py-0.5 text-xs bg-primary-500 text-white rounded-full">
+              {results.length}
+            </span>
+          )}
+        </span>
+        <svg
+          className={`w-5 h-5 transition-transform ${isOpen ? 'rotate-180' : ''}`}
+          fill="none"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth="2"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+          aria-hidden="true"
+        >
+          <path d="M19 9l-7 7-7-7"></path>
+        </svg>
+      </button>
+
+      {/* Nearby Panel */}
+      {isOpen && (
+        <div className="absolute z-50 w-full mt-2 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-2xl p-4 max-h-[600px] overflow-y-auto custom-scrollbar">
+          <div className="flex gap-2 mb-4">
+            <button
+              onClick={handleNearMe}
+              disabled={isLoading}
+              className="flex-1 px-3 py-2 text-sm font-medium bg-primary-500 hover:bg-primary-600 text-white rounded-lg transition-colors disabled:opacity-50"
+            >
+              📍 Near me
+            </button>
+            <button
+              onClick={handlePickOnMap}
+              disabled={isLoading || isPicking}
+              className="flex-1 px-3 py-2 text-sm font-medium bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600 rounded-lg hover:border-primary-500 dark:hover:border-primary-400 transition-colors disabled:opacity-50"
+            >
+              {isPicking ? 'Click the map…' : '🗺️ Pick on map'}
+            </button>
+          </div>
+
+          {/* Radius */}
+          <div className="mb-4">
+            <h3 className="font-semibold text-gray-900 dark:text-white mb-2 text-sm">Radius</h3>
+            <div className="flex gap-2">
+              {RADIUS_OPTIONS.map((radius) => (
+                <button
+                  key={radius}
+                  onClick={() => handleRadiusChange(radius)}
+                  className={`flex-1 px-2 py-1 text-sm rounded-full border transition-colors ${
+                    radiusKm === radius
+                      ? 'bg-primary-500 text-white border-primary-500'
+                      : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 border-gray-300 dark:border-gray-600 hover:border-primary-500 dark:hover:border-primary-400'
+                  }`}
+                  aria-pressed={radiusKm === radius}
+                >
+                  {radius} km
+                </button>
+              ))}
+              <button
+                onClick={() => handleRadiusChange(null)}
+                className={`flex-1 px-2 py-1 text-sm rounded-full border transition-colors ${
+                  radiusKm === null
+                    ? 'bg-primary-500 text-white border-primary-500'
+                    : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 border-gray-300 dark:border-gray-600 hover:border-primary-500 dark:hover:border-primary-400'
+                }`}
+                aria-pressed={radiusKm === null}
+                title={`The ${NEAREST_LIMIT} nearest locations, however far away`}
+              >
+                Nearest
+              </button>
+            </div>
+          </div>
+
+          {/* Results */}
+          {error && (
+            <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+          )}
+          {isLoading && (
+            <div className="space-y-2">
+              <div className="h-10 bg-gray-200 dark:bg-gray-700 rounded animate-pulse"></div>
+              <div className="h-10 bg-gray-200 dark:bg-gray-700 rounded animate-pulse"></div>
+            </div>
+          )}
+          {!isLoading && !error && origin && results.length === 0 && (
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {radiusKm === null ? 'No filming locations found' : `No filming locations within ${radiusKm} km`}
+            </p>
+          )}
+          {!isLoading && results.length > 0 && (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {results.map((result) => (
+                <li key={`${result.movie.id}-${result.location_index}`}>
+                  <button
+                    onClick={() => onResultSelect(result)}
+                    className="w-full py-2 flex items-center gap-3 text-left hover:bg-gray-50 dark:hover:bg-gray-700/50 rounded transition-colors"
+                  >
+                    {result.movie.thumbnail && (
+                      <img
+                        src={result.movie.thumbnail}
+                        alt=""
+                        className="w-8 h-12 object-cover rounded flex-shrink-0"
+                        loading="lazy"
+                      />
+                    )}
+                    <span className="flex-1 min-w-0">
+                      <span className="block text-sm font-medium text-gray-900 dark:text-white truncate">
+                        {result.movie.title} {result.movie.year ? `(${result.movie.year})` : ''}
+                      </span>
+                      <span className="block text-xs text-gray-600 dark:text-gray-400 truncate">
+                        {result.location.name || result.location.city}
+                      </span>
+                    </span>
+                    <span className="text-xs font-semibold text-primary-600 dark:text-primary-400 flex-shrink-0">
+                      {formatDistance(result.distance_km)}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,17 +1,40 @@
 /**
  * SearchBar Component - OPTIMIZED with indexed search
  * Uses lightweight search index instead of loading full GeoJSON
+ * Supports structured tokens (genre:, year:, rating:, country:, city:, type:, top250)
+ * shown as chips, with autocomplete from the index
+ * Also searches places (cities, landmarks, countries), actors/directors and scene
+ * descriptions in separate "Places", "People" and "Scenes" sections
  */
 
-import { useState, useEffect, useCallback, useRef } from 'react'
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
 import Fuse from 'fuse.js'
-import type { Movie } from '../types'
+import type { ActorSummary, FilterState, Movie, Place } from '../types'
 import { debounce } from '../utils/helpers'
+import { loadMovieDetail, prefetchMovieDetail } from '../utils/movieDetailLoader'
+import { loadAllMovies } from '../utils/map/binaryMapData'
+import { loadPlaces } from '../utils/placeSearch'
+import { loadActors } from '../utils/actorSearch'
+import { highlightScene, loadSceneIndex, type SceneHit, type SceneIndex } from '../utils/sceneSearch'
+import {
+  TOKEN_KEYS,
+  applySearchQueryToFilters,
+  formatSearchToken,
+  formatTokenText,
+  getPartialToken,
+  matchesSearchQuery,
+  parseSearchQuery,
+  type ParsedSearchQuery,
+} from '../utils/searchQuery'
 
 interface SearchBarProps {
   onSearch: (query: string) => void
   onMovieSelect: (movie: Movie | null) => void
   onSearchFocus?: () => void
+  filters?: FilterState
+  onApplyFilters?: (filters: FilterState) => void
+  onPlaceSelect?: (place: Place) => void
+  onSceneSelect?: (movie: Movie, locationIndex: number) => void
 }
 
 interface SearchIndexEntry {
@@ -20,11 +43,90 @@ interface SearchIndexEntry {
   year: number
   genres: string[]
   locations: string[]
+  countries?: string[]
+  type?: 'movie' | 'tv'
   rating?: number
   poster?: string
   chunk: number
 }
 
+interface Suggestion {
+  label: string
+  text: string // Replaces the token being typed
+  complete: boolean // Add a trailing space (false for bare keys like "genre:")
+}
+
+interface Vocabulary {
+  genres: string[]
+  countries: string[]
+  cities: string[]
+}
+
+const FUSE_OPTIONS = {
+  keys: [
+    { name: 'title', weight: 2 },
+    { name: 'genres', weight: 1 },
+    { name: 'locations', weight: 1.5 },
+  ],
+  threshold: 0.3,
+  includeScore: true,
+}
+
+const VALUE_HINTS: Record<string, string[]> = {
+  year: ['1990s', '1970..1979', '>2010', '<1960'],
+  rating: ['>7', '>=8', '>8.5', '6..7'],
+  type: ['movie', 'tv'],
+}
+
+const PLACE_FUSE_OPTIONS = {
+  keys: [
+    { name: 'name', weight: 3 },
+    { name: 'context', weight: 1 },
+  ],
+  threshold: 0.3,
+  ignoreLocation: true, // "london" should match "Greater London"
+  includeScore: true,
+}
+
+const PEOPLE_FUSE_OPTIONS = {
+  keys: ['name'],
+  threshold: 0.3,
+  ignoreLocation: true,
+  includeScore: true,
+}
+
+const MAX_RESULTS = 8
+const MAX_PLACE_RESULTS = 5
+const MAX_PEOPLE_RESULTS = 3
+const MAX_SCENE_RESULTS = 5
+const MIN_SCENE_QUERY_LENGTH = 3
+const MAX_SUGGESTIONS = 6
+
+/**
+ * Distinct values sorted by how many movies use them
+ */
+function rankValues(lists: (string[] | undefined)[]): string[] {
+  const counts = new Map<string, number>()
+  for (const list of lists) {
+    list?.forEach(value => counts.set(value, (counts.get(value) || 0) + 1))
+  }
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([value]) => value)
+}
+
+/**
+ * Values starting with the typed text first, then values containing it
+ */
+function matchValues(values: string[], typed: string): string[] {
+  const needle = typed.toLowerCase()
+  const starts = values.filter(value => value.toLowerCase().startsWith(needle))
+  const contains = needle
+    ? values.filter(value => !value.toLowerCase().startsWith(needle) && value.toLowerCase().includes(needle))
+    : []
+  return [...starts, ...contains]
+}
+
 interface SearchIndex {
   version: number
   totalMovies: number
@@ -33,14 +135,62 @@ interface SearchIndex {
   index: SearchIndexEntry[]
 }
 
-export default function SearchBar({ onSearch, onMovieSelect, onSearchFocus }: SearchBarProps) {
+export default function SearchBar({
+  onSearch,
+  onMovieSelect,
+  onSearchFocus,
+  filters,
+  onApplyFilters,
+  onPlaceSelect,
+  onSceneSelect,
+}: SearchBarProps) {
   const [query, setQuery] = useState('')
   const [results, setResults] = useState<SearchIndexEntry[]>([])
+  const [parsedQuery, setParsedQuery] = useState<ParsedSearchQuery | null>(null)
   const [isOpen, setIsOpen] = useState(false)
   const [fuse, setFuse] = useState<Fuse<SearchIndexEntry> | null>(null)
+  const [vocabulary, setVocabulary] = useState<Vocabulary>({ genres: [], countries: [], cities: [] })
+  const [placeNames, setPlaceNames] = useState<Map<string, string> | null>(null)
+  const [placeFuse, setPlaceFuse] = useState<Fuse<Place> | null>(null)
+  const [placeResults, setPlaceResults] = useState<Place[]>([])
+  const [actorFuse, setActorFuse] = useState<Fuse<ActorSummary> | null>(null)
+  const [peopleResults, setPeopleResults] = useState<ActorSummary[]>([])
+  const [sceneIndex, setSceneIndex] = useState<SceneIndex | null>(null)
+  const [sceneResults, setSceneResults] = useState<SceneHit[]>([])
   const [loadingChunks, setLoadingChunks] = useState(false)
   const searchRef = useRef<HTMLDivElement>(null)
+  const inputRef = useRef<HTMLInputElement>(null)
   const chunkCacheRef = useRef<Map<number, any>>(new Map())
+  const legacyMoviesRef = useRef<Map<string, Movie>>(new Map())
+  const entriesRef = useRef<SearchIndexEntry[]>([])
+  const entriesByIdRef = useRef<Map<string, SearchIndexEntry>>(new Map())
+  const top250Ref = useRef<Set<string>>(new Set())
+  const loadingPlacesRef = useRef(false)
+  const loadingPlaceIndexRef = useRef(false)
+  const loadingActorIndexRef = useRef(false)
+  const loadingSceneIndexRef = useRef(false)
+
+  /**
+   * Keep the index entries for token-only queries, TOP 250 and autocomplete
+   */
+  const initializeIndex = (entries: SearchIndexEntry[]) => {
+    entriesRef.current = entries
+    entriesByIdRef.current = new Map(entries.map(entry => [entry.id, entry]))
+    top250Ref.current = new Set(
+      entries
+        .filter(entry => entry.rating !== undefined)
+        .sort((a, b) => (b.rating || 0) - (a.rating || 0))
+        .slice(0, 250)
+        .map(entry => entry.id)
+    )
+    setVocabulary({
+      genres: rankValues(entries.map(entry => entry.genres)),
+      countries: rankValues(entries.map(entry => entry.countries)),
+      // Skip house numbers and postcodes
+      cities: rankValues(entries.map(entry => entry.locations)).filter(value => !/\d/.test(value)),
+    })
+    setFuse(new Fuse(entries, FUSE_OPTIONS))
+  }
 
   /**
    * Load search index (lightweight) instead of full GeoJSON
@@ -55,16 +205,7 @@ export default function SearchBar({ onSearch, onMovieSelect, onSearchFocus }: Se
           const searchIndex: SearchIndex = await response.json()
 
           // Initialize Fuse.js with lightweight index
-          const fuseInstance = new Fuse(searchIndex.index, {
-            keys: [
-              { name: 'title', weight: 2 },
-              { name: 'genres', weight: 1 },
-              { name: 'locations', weight: 1.5 },
-            ],
-            threshold: 0.3,
-            includeScore: true,
-          })
-          setFuse(fuseInstance)
+          initializeIndex(searchIndex.index)
         } else {
           // Fallback to full GeoJSON if index not available
           console.warn('⚠️ Search index not found, falling back to full GeoJSON')
@@ -81,51 +222,49 @@ export default function SearchBar({ onSearch, onMovieSelect, onSearchFocus }: Se
 
   /**
    * Legacy search loading (fallback)
+   * Builds the index from the full movie list (binary map data, or GeoJSON if missing)
    */
   const loadLegacySearch = async () => {
     try {
-      const response = await fetch('/geo/movies.geojson')
-      const geojsonData = await response.json()
+      const movies = await loadAllMovies()
 
       // Convert to search index format
       const searchIndex: SearchIndexEntry[] = []
       const seenIds = new Set<string>()
 
-      for (const feature of geojsonData.features) {
-        const movieId = feature.properties.movie_id
-
-        if (seenIds.has(movieId)) continue
-        seenIds.add(movieId)
+      for (const movie of movies) {
+        if (seenIds.has(movie.movie_id)) continue
+        seenIds.add(movie.movie_id)
+        legacyMoviesRef.current.set(movie.movie_id, movie)
 
         const locations = Array.from(new Set(
-          feature.properties.location_names.map((loc: string) => {
-            const parts = loc.split(',')
+          movie.locations.map(loc => {
+            const parts = (loc.display_name || '').split(',')
             return parts.length > 1 ? parts[1].trim() : parts[0].trim()
           })
-        )) as string[]
+        ))
+
+        const countries = Array.from(new Set(
+          movie.locations
+            .map(loc => (loc.display_name || '').split(',').pop()?.trim() || '')
+            .filter(Boolean)
+        ))
 
         searchIndex.push({
-          id: movieId,
-          title: feature.properties.title,
-          year: feature.properties.year,
-          genres: feature.properties.genres || (feature.properties.top_genre ? [feature.properties.top_genre] : []),
+          id: movie.movie_id,
+          title: movie.title,
+          year: movie.year,
+          genres: [...movie.genres],
           locations,
-          rating: feature.properties.imdb_rating,
-          poster: feature.properties.thumbnail_52 || feature.properties.poster,
+          countries,
+          type: movie.type,
+          rating: movie.imdb_rating,
+          poster: movie.thumbnail_52 || movie.poster,
           chunk: -1, // No chunk in legacy mode
         })
       }
 
-      const fuseInstance = new Fuse(searchIndex, {
-        keys: [
-          { name: 'title', weight: 2 },
-          { name: 'genres', weight: 1 },
-          { name: 'locations', weight: 1.5 },
-        ],
-        threshold: 0.3,
-        includeScore: true,
-      })
-      setFuse(fuseInstance)
+      initializeIndex(searchIndex)
     } catch (error) {
       console.error('Failed to load legacy search:', error)
     }
@@ -135,6 +274,11 @@ export default function SearchBar({ onSearch, onMovieSelect, onSearchFocus }: Se
    * Load full movie data from chunk when needed
    */
   const loadMovieDetails = useCallback(async (entry: SearchIndexEntry): Promise<Movie | null> => {
+    // Legacy mode already holds every movie
+    if (entry.chunk === -1) {
+      return legacyMoviesRef.current.get(entry.id) || null
+    }
+
     // Check cache first
     if (chunkCacheRef.current.has(entry.chunk)) {
       const chunk = chunkCacheRef.current.get(entry.chunk)
@@ -205,26 +349,212 @@ export default function SearchBar({ onSearch, onMovieSelect, onSearchFocus }: Se
     }
   }
 
+  /**
+   * Load full location names for city: tokens (the index only keeps one part per location)
+   */
+  const loadPlaceNames = useCallback(async () => {
+    if (loadingPlacesRef.current) return
+    loadingPlacesRef.current = true
+
+    try {
+      const movies = await loadAllMovies()
+      const names = new Map<string, string>()
+      for (const movie of movies) {
+        names.set(movie.movie_id, movie.locations.map(loc => loc.display_name || '').join(' | ').toLowerCase())
+      }
+      setPlaceNames(names)
+    } catch (error) {
+      console.error('Failed to load place names for city search:', error)
+      loadingPlacesRef.current = false
+    }
+  }, [])
+
+  /**
+   * Load the place index on the first search
+   */
+  const loadPlaceIndex = useCallback(async () => {
+    if (loadingPlaceIndexRef.current) return
+    loadingPlaceIndexRef.current = true
+
+    try {
+      const places = await loadPlaces()
+      setPlaceFuse(new Fuse(places, PLACE_FUSE_OPTIONS))
+    } catch (error) {
+      console.warn('⚠️ Place index not available:', error)
+      loadingPlaceIndexRef.current = false
+    }
+  }, [])
+
+  /**
+   * Load the actor index on the first search
+   */
+  const loadActorIndex = useCallback(async () => {
+    if (loadingActorIndexRef.current) return
+    loadingActorIndexRef.current = true
+
+    try {
+      const actors = await loadActors()
+      setActorFuse(new Fuse(actors, PEOPLE_FUSE_OPTIONS))
+    } catch (error) {
+      console.warn('⚠️ Actor index not available:', error)
+      loadingActorIndexRef.current = false
+    }
+  }, [])
+
+  /**
+   * Load the scene-description index on the first search
+   */
+  const loadScenes = useCallback(async () => {
+    if (loadingSceneIndexRef.current) return
+    loadingSceneIndexRef.current = true
+
+    try {
+      setSceneIndex(await loadSceneIndex())
+    } catch (error) {
+      console.warn('⚠️ Scene index not available:', error)
+      loadingSceneIndexRef.current = false
+    }
+  }, [])
+
   /**
    * Handle search with debouncing
+   * Free text goes through Fuse, tokens filter the results
    */
   const handleSearch = useCallback(
     debounce((searchQuery: string) => {
+      const parsed = parseSearchQuery(searchQuery)
+      setParsedQuery(parsed)
+
       if (!fuse || !searchQuery.trim()) {
         setResults([])
+        setPlaceResults([])
+        setPeopleResults([])
+        setSceneResults([])
         setIsOpen(false)
         return
       }
 
-      const searchResults = fuse.search(searchQuery)
-      const entries = searchResults.slice(0, 8).map((result) => result.item)
+      // Places - equally good matches are ordered by how many movies were filmed there
+      if (onPlaceSelect && parsed.text) {
+        if (placeFuse) {
+          const places = placeFuse.search(parsed.text, { limit: 20 })
+            .sort((a, b) =>
+              Math.round((a.score || 0) * 50) - Math.round((b.score || 0) * 50) ||
+              b.item.movieCount - a.item.movieCount
+            )
+            .slice(0, MAX_PLACE_RESULTS)
+            .map((result) => result.item)
+          setPlaceResults(places)
+        } else {
+          loadPlaceIndex()
+        }
+      } else {
+        setPlaceResults([])
+      }
+
+      // People - equally good matches are ordered by how many movies they are in
+      if (parsed.text) {
+        if (actorFuse) {
+          const people = actorFuse.search(parsed.text, { limit: 20 })
+            .sort((a, b) =>
+              Math.round((a.score || 0) * 50) - Math.round((b.score || 0) * 50) ||
+              b.item.movieCount - a.item.movieCount
+            )
+            .slice(0, MAX_PEOPLE_RESULTS)
+            .map((result) => result.item)
+          setPeopleResults(people)
+        } else {
+          loadActorIndex()
+        }
+      } else {
+        setPeopleResults([])
+      }
+
+      // Scenes - full-text search over scene descriptions
+      if (parsed.text.trim().length >= MIN_SCENE_QUERY_LENGTH) {
+        if (sceneIndex) {
+          setSceneResults(sceneIndex.search(parsed.text, MAX_SCENE_RESULTS))
+        } else {
+          loadScenes()
+        }
+      } else {
+        setSceneResults([])
+      }
+
+      if (parsed.cities.length > 0 && !placeNames) {
+        loadPlaceNames()
+      }
+
+      // Token-only queries list the best rated matches
+      const candidates = parsed.text
+        ? fuse.search(parsed.text).map((result) => result.item)
+        : parsed.tokens.length > 0
+          ? [...entriesRef.current].sort((a, b) => (b.rating || 0) - (a.rating || 0))
+          : []
+
+      const entries: SearchIndexEntry[] = []
+      for (const entry of candidates) {
+        if (parsed.top250 && !top250Ref.current.has(entry.id)) continue
+        if (!matchesSearchQuery(entry, parsed, placeNames?.get(entry.id))) continue
+        entries.push(entry)
+        if (entries.length >= MAX_RESULTS) break
+      }
+
       setResults(entries)
-      setIsOpen(entries.length > 0)
+      setIsOpen(true)
       onSearch(searchQuery)
     }, 300),
-    [fuse, onSearch]
+    [fuse, onSearch, placeNames, loadPlaceNames, placeFuse, onPlaceSelect, loadPlaceIndex, actorFuse, loadActorIndex, sceneIndex, loadScenes]
   )
 
+  // Re-run the search once lazily loaded place / people / scene data is available
+  useEffect(() => {
+    if (query) handleSearch(query)
+  }, [placeNames, placeFuse, actorFuse, sceneIndex])
+
+  /**
+   * Autocomplete for the token being typed
+   */
+  const suggestions = useMemo((): Suggestion[] => {
+    const partial = getPartialToken(query)
+    if (!partial) return []
+
+    if (partial.key === null) {
+      // Typing a key name
+      if (!partial.value) return []
+      return TOKEN_KEYS
+        .filter(key => key.startsWith(partial.value.toLowerCase()) && key !== partial.value.toLowerCase())
+        .map(key => key === 'top250'
+          ? { label: 'top250 — IMDb TOP 250 only', text: 'top250', complete: true }
+          : { label: `${key}:`, text: `${key}:`, complete: false })
+    }
+
+    const values = partial.key === 'genre' ? vocabulary.genres
+      : partial.key === 'country' ? vocabulary.countries
+      : partial.key === 'city' ? vocabulary.cities
+      : VALUE_HINTS[partial.key]
+    if (!values) return []
+
+    const matches = VALUE_HINTS[partial.key] ? values : matchValues(values, partial.value)
+    return matches
+      .filter(value => value.toLowerCase() !== partial.value.toLowerCase())
+      .slice(0, MAX_SUGGESTIONS)
+      .map(value => ({
+        label: formatTokenText(partial.key!, value),
+        text: formatTokenText(partial.key!, value),
+        complete: true,
+      }))
+  }, [query, vocabulary])
+
+  /**
+   * Replace the query and search right away
+   */
+  const updateQuery = (value: string) => {
+    setQuery(value)
+    handleSearch(value)
+    inputRef.current?.focus()
+  }
+
   /**
    * Handle input change
    */
@@ -232,8 +562,40 @@ export default function SearchBar({ onSearch, onMovieSelect, onSearchFocus }: Se
     const value = e.target.value
     setQuery(value)
     handleSearch(value)
+    setIsOpen(true)
+  }
+
+  /**
+   * Replace the token being typed with an autocomplete suggestion
+   */
+  const applySuggestion = (suggestion: Suggestion) => {
+    const partial = getPartialToken(query)
+    if (!partial) return
+    updateQuery(query.slice(0, partial.start) + suggestion.text + (suggestion.complete ? ' ' : ''))
+  }
+
+  /**
+   * Remove a token chip from the query
+   */
+  const removeToken = (raw: string) => {
+    const index = query.indexOf(raw)
+    if (index === -1) return
+    updateQuery((query.slice(0, index) + query.slice(index + raw.length)).replace(/\s+/g, ' ').trimStart())
+  }
+
+  /**
+   * Apply genre/year/rating/TOP 250 tokens as map filters
+   */
+  const applyTokensAsFilters = () => {
+    if (!parsedQuery || !filters || !onApplyFilters) return
+    onApplyFilters(applySearchQueryToFilters(parsedQuery, filters, vocabulary.genres))
+    setIsOpen(false)
   }
 
+  const tokens = parsedQuery?.tokens ?? []
+  const canApplyFilters = !!filters && !!onApplyFilters &&
+    tokens.some(token => token.key === 'genre' || token.key === 'year' || token.key === 'rating' || token.key === 'top250')
+
   /**
    * Handle movie selection - load full details
    */
@@ -248,6 +610,40 @@ export default function SearchBar({ onSearch, onMovieSelect, onSearchFocus }: Se
     }
   }
 
+  /**
+   * Handle place selection - fly there and show its markers
+   */
+  const handlePlaceSelect = (place: Place) => {
+    setQuery(place.name)
+    setIsOpen(false)
+    onPlaceSelect?.(place)
+  }
+
+  /**
+   * Handle person selection - open their page with every filming location
+   */
+  const handleActorSelect = (actor: ActorSummary) => {
+    setIsOpen(false)
+    window.location.href = `/actor/${actor.slug}`
+  }
+
+  /**
+   * Handle scene selection - open the movie at that location
+   */
+  const handleSceneSelect = async (hit: SceneHit) => {
+    setIsOpen(false)
+
+    const entry = entriesByIdRef.current.get(hit.movieId)
+    const movie = await loadMovieDetail(hit.movieId) || (entry ? await loadMovieDetails(entry) : null)
+    if (!movie) return
+
+    if (onSceneSelect) {
+      onSceneSelect(movie, hit.locationIndex)
+    } else {
+      onMovieSelect({ ...movie, clickedLocationIndex: hit.locationIndex })
+    }
+  }
+
   /**
    * Close dropdown when clicking outside
    */
@@ -268,6 +664,10 @@ export default function SearchBar({ onSearch, onMovieSelect, onSearchFocus }: Se
   const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
     if (e.key === 'Escape') {
       setIsOpen(false)
+    } else if (e.key === 'Tab' && suggestions.length > 0) {
+      // Accept the first autocomplete suggestion
+      e.preventDefault()
+      applySuggestion(suggestions[0])
     }
   }
 
@@ -275,15 +675,16 @@ export default function SearchBar({ onSearch, onMovieSelect, onSearchFocus }: Se
     <div ref={searchRef} className="relative">
       <div className="relative">
         <input
+          ref={inputRef}
           type="text"
           value={query}
           onChange={handleInputChange}
           onKeyDown={handleKeyDown}
           onFocus={() => {
-            if (query && results.length > 0) setIsOpen(true)
+            if (query) setIsOpen(true)
             onSearchFocus?.()
           }}
-          placeholder="Search movies..."
+          placeholder="Search movies, places or people... (try genre:horror year:1970s)"
           aria-label="Search movies"
           className="w-full px-4 py-3 pl-12 pr-12 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg shadow-lg focus:outline-none focus:ring-2 focus:ring-primary-500 text-gray-900 dark:text-white"
           disabled={loadingChunks}
@@ -311,6 +712,10 @@ export default function SearchBar({ onSearch, onMovieSelect, onSearchFocus }: Se
             onClick={() => {
               setQuery('')
               setResults([])
+              setPlaceResults([])
+              setPeopleResults([])
+              setSceneResults([])
+              setParsedQuery(null)
               setIsOpen(false)
               onMovieSelect(null)
             }}
@@ -334,14 +739,147 @@ export default function SearchBar({ onSearch, onMovieSelect, onSearchFocus }: Se
       </div>
 
       {/* Search Results Dropdown */}
-      {isOpen && results.length > 0 && (
+      {isOpen && (results.length > 0 || placeResults.length > 0 || peopleResults.length > 0 || sceneResults.length > 0 || tokens.length > 0 || suggestions.length > 0) && (
         <div className="absolute z-50 w-full mt-2 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-2xl max-h-96 overflow-y-auto custom-scrollbar">
+          {/* Token chips */}
+          {tokens.length > 0 && (
+            <div className="flex flex-wrap items-center gap-1.5 px-4 py-2 border-b border-gray-100 dark:border-gray-700">
+              {tokens.map((token) => (
+                <button
+                  key={token.raw}
+                  onClick={() => removeToken(token.raw)}
+                  className="inline-flex items-center gap-1 px-2 py-1 bg-primary-100 dark:bg-primary-900/40 text-primary-800 dark:text-primary-300 text-xs rounded-full hover:bg-primary-200 dark:hover:bg-primary-900/60 transition-colors"
+                  title="Click to remove"
+                >
+                  <span>{formatSearchToken(token)}</span>
+                  <svg className="w-3 h-3" fill="none" strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" viewBox="0 0 24 24" stroke="currentColor" aria-hidden="true">
+                    <path d="M6 18L18 6M6 6l12 12"></path>
+                  </svg>
+                </button>
+              ))}
+              {canApplyFilters && (
+                <button
+                  onClick={applyTokensAsFilters}
+                  className="ml-auto text-xs text-primary-600 dark:text-primary-400 hover:underline font-medium"
+                >
+                  Apply as map filters
+                </button>
+              )}
+            </div>
+          )}
+
+          {/* Autocomplete suggestions */}
+          {suggestions.length > 0 && (
+            <ul aria-label="Search suggestions" className="border-b border-gray-100 dark:border-gray-700">
+              {suggestions.map((suggestion) => (
+                <li
+                  key={suggestion.text}
+                  onClick={() => applySuggestion(suggestion)}
+                  className="px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 cursor-pointer font-mono"
+                >
+                  {suggestion.label}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {/* Places */}
+          {placeResults.length > 0 && (
+            <>
+              <h3 className="px-4 pt-3 pb-1 text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">
+                Places
+              </h3>
+              <ul aria-label="Place results" className="border-b border-gray-100 dark:border-gray-700">
+                {placeResults.map((place, index) => (
+                  <li
+                    key={`${place.name}-${place.context}-${index}`}
+                    onClick={() => handlePlaceSelect(place)}
+                    className="px-4 py-2 hover:bg-gray-100 dark:hover:bg-gray-700 cursor-pointer transition-colors"
+                  >
+                    <div className="flex items-start gap-3">
+                      <span className="text-lg" aria-hidden="true">
+                        {place.kind === 'country' ? '🌍' : place.kind === 'city' ? '🏙️' : '📍'}
+                      </span>
+                      <div className="flex-1 min-w-0">
+                        <h4 className="font-semibold text-gray-900 dark:text-white truncate">{place.name}</h4>
+                        {place.context && (
+                          <p className="text-xs text-gray-600 dark:text-gray-400 truncate">{place.context}</p>
+                        )}
+                        <p className="text-xs mt-0.5">
+                          <span className="text-yellow-500 dark:text-yellow-400 font-semibold">
+                            {place.movieCount} movie{place.movieCount !== 1 ? 's' : ''}
+                          </span>
+                          {place.slug && (
+                            <a
+                              href={`/location/${place.slug}`}
+                              onClick={(e) => e.stopPropagation()}
+                              className="ml-2 text-primary-600 dark:text-primary-400 hover:underline font-medium"
+                            >
+                              Location page →
+                            </a>
+                          )}
+                        </p>
+                      </div>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+
+          {/* People */}
+          {peopleResults.length > 0 && (
+            <>
+              <h3 className="px-4 pt-3 pb-1 text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">
+                People
+              </h3>
+              <ul aria-label="People results" className="border-b border-gray-100 dark:border-gray-700">
+                {peopleResults.map((actor) => (
+                  <li
+                    key={actor.id}
+                    onClick={() => handleActorSelect(actor)}
+                    className="px-4 py-2 hover:bg-gray-100 dark:hover:bg-gray-700 cursor-pointer transition-colors"
+                  >
+                    <div className="flex items-start gap-3">
+                      <span className="text-lg" aria-hidden="true">
+                        {actor.roles.includes('cast') ? '🎭' : '🎬'}
+                      </span>
+                      <div className="flex-1 min-w-0">
+                        <h4 className="font-semibold text-gray-900 dark:text-white truncate">{actor.name}</h4>
+                        <p className="text-xs text-gray-600 dark:text-gray-400 truncate">
+                          {actor.roles.includes('director') ? (actor.roles.includes('cast') ? 'Actor & Director' : 'Director') : 'Actor'}
+                          {actor.birthPlace && <> • Born in {actor.birthPlace}</>}
+                        </p>
+                        <p className="text-xs mt-0.5">
+                          <span className="text-yellow-500 dark:text-yellow-400 font-semibold">
+                            {actor.movieCount} movie{actor.movieCount !== 1 ? 's' : ''}
+                          </span>
+                        </p>
+                      </div>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+
+          {results.length > 0 && (placeResults.length > 0 || peopleResults.length > 0 || sceneResults.length > 0) && (
+            <h3 className="px-4 pt-3 pb-1 text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">
+              Movies
+            </h3>
+          )}
+
+          {results.length === 0 && tokens.length > 0 && (
+            <p className="px-4 py-3 text-sm text-gray-500 dark:text-gray-400">No movies match these filters</p>
+          )}
+
           <ul role="listbox" aria-label="Search results">
             {results.map((entry) => (
               <li
                 key={entry.id}
                 role="option"
                 onClick={() => handleMovieSelect(entry)}
+                onMouseEnter={() => prefetchMovieDetail(entry.id)}
                 className="px-4 py-3 hover:bg-gray-100 dark:hover:bg-gray-700 cursor-pointer border-b border-gray-100 dark:border-gray-700 last:border-b-0 transition-colors"
               >
                 <div className="flex items-start gap-3">
@@ -375,6 +913,46 @@ export default function SearchBar({ onSearch, onMovieSelect, onSearchFocus }: Se
               </li>
             ))}
           </ul>
+
+          {/* Scenes */}
+          {sceneResults.length > 0 && (
+            <>
+              <h3 className="px-4 pt-3 pb-1 text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400 border-t border-gray-100 dark:border-gray-700">
+                Scenes
+              </h3>
+              <ul aria-label="Scene results">
+                {sceneResults.map((hit) => {
+                  const entry = entriesByIdRef.current.get(hit.movieId)
+                  return (
+                    <li
+                      key={`${hit.movieId}-${hit.locationIndex}`}
+                      onClick={() => handleSceneSelect(hit)}
+                      onMouseEnter={() => prefetchMovieDetail(hit.movieId)}
+                      className="px-4 py-2 hover:bg-gray-100 dark:hover:bg-gray-700 cursor-pointer border-b border-gray-100 dark:border-gray-700 last:border-b-0 transition-colors"
+                    >
+                      <div className="flex items-start gap-3">
+                        <span className="text-lg" aria-hidden="true">🎬</span>
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm text-gray-800 dark:text-gray-200 line-clamp-2">
+                            {highlightScene(hit.text, parsedQuery?.text || query).map(([part, isMatch], i) =>
+                              isMatch
+                                ? <mark key={i} className="bg-yellow-200 dark:bg-yellow-700/60 text-inherit rounded px-0.5">{part}</mark>
+                                : <span key={i}>{part}</span>
+                            )}
+                          </p>
+                          {entry && (
+                            <p className="text-xs text-gray-600 dark:text-gray-400 truncate">
+                              {entry.title} ({entry.year})
+                            </p>
+                          )}
+                        </div>
+                      </div>
+                    </li>
+                  )
+                })}
+              </ul>
+            </>
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,202 @@
+/**
+ * TimeLapse Component - Plays the globe through release years
+ * Reports a year range that replaces the decade filter while it runs, so the
+ * genre, streaming and rating filters still apply. Markers either accumulate
+ * (everything released up to the year) or show one year at a time.
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react'
+import type { Movie, FilterState } from '../types'
+import { filterMovies } from '../utils/helpers'
+import { loadMovieCatalog } from '../utils/map/tileLoader'
+
+type TimeLapseMode = 'accumulate' | 'single'
+
+// Milliseconds per year
+const SPEED_OPTIONS = [
+  { label: '0.5×', interval: 1600 },
+  { label: '1×', interval: 800 },
+  { label: '2×', interval: 400 },
+]
+
+interface TimeLapseProps {
+  filters: FilterState
+  onYearRangeChange: (range: [number, number] | null) => void
+  onClose: () => void
+  paused?: boolean // Hidden and stopped (e.g. while a movie is focused) - resumes where it was
+}
+
+export default function TimeLapse({ filters, onYearRangeChange, onClose, paused = false }: TimeLapseProps) {
+  const [catalog, setCatalog] = useState<Movie[]>([])
+  const [year, setYear] = useState<number | null>(null)
+  const [isPlaying, setIsPlaying] = useState(false)
+  const [mode, setMode] = useState<TimeLapseMode>('accumulate')
+  const [stepInterval, setStepInterval] = useState(SPEED_OPTIONS[1].interval)
+  const [loop, setLoop] = useState(false)
+
+  const onYearRangeChangeRef = useRef(onYearRangeChange)
+  onYearRangeChangeRef.current = onYearRangeChange
+
+  /**
+   * Load the catalogue for the year range and per-year counts
+   */
+  useEffect(() => {
+    loadMovieCatalog()
+      .then(setCatalog)
+      .catch(error => console.error('Failed to load movie catalogue for time-lapse:', error))
+  }, [])
+
+  const [firstYear, lastYear] = useMemo(() => {
+    const years = catalog.map(movie => movie.year).filter(Number.isFinite)
+    return years.length > 0 ? [Math.min(...years), Math.max(...years)] : [0, 0]
+  }, [catalog])
+
+  // Start at the first year once the catalogue is in
+  useEffect(() => {
+    if (catalog.length > 0 && year === null) setYear(firstYear)
+  }, [catalog, firstYear, year])
+
+  /**
+   * Tell the map which release years to show; clear it when the time-lapse closes
+   */
+  useEffect(() => {
+    if (year === null) return
+    onYearRangeChangeRef.current(mode === 'accumulate' ? [firstYear, year] : [year, year])
+  }, [year, mode, firstYear])
+
+  useEffect(() => () => onYearRangeChangeRef.current(null), [])
+
+  /**
+   * Advance one year per tick; wrap around or stop at the last year
+   */
+  useEffect(() => {
+    if (!isPlaying || paused || year === null) return
+
+    const timeout = setTimeout(() => {
+      if (year < lastYear) {
+        setYear(year + 1)
+      } else if (loop) {
+        setYear(firstYear)
+      } else {
+        setIsPlaying(false)
+      }
+    }, stepInterval)
+
+    return () => clearTimeout(timeout)
+  }, [isPlaying, paused, year, stepInterval, loop, firstYear, lastYear])
+
+  // Titles matching the other filters - released this year / shown so far
+  const counts = useMemo(() => {
+    if (year === null) return { year: 0, shown: 0 }
+    return {
+      year: filterMovies(catalog, { ...filters, decades: [year, year] }).length,
+      shown: filterMovies(catalog, { ...filters, decades: mode === 'accumulate' ? [firstYear, year] : [year, year] }).length,
+    }
+  }, [catalog, filters, year, mode, firstYear])
+
+  const togglePlay = () => {
+    if (!isPlaying && year === lastYear) {
+      setYear(firstYear)
+    }
+    setIsPlaying(!isPlaying)
+  }
+
+  if (year === null || paused) return null
+
+  return (
+    <>
+      {/* Year Counter */}
+      <div className="absolute top-24 lg:top-20 left-1/2 transform -translate-x-1/2 z-10 pointer-events-none select-none text-center">
+        <div className="text-5xl sm:text-7xl font-bold text-white drop-shadow-lg tabular-nums">{year}</div>
+        <div className="text-xs sm:text-sm text-gray-200 drop-shadow">
+          {counts.year} title{counts.year === 1 ? '' : 's'} released
+          {mode === 'accumulate' && ` · ${counts.shown} so far`}
+        </div>
+      </div>
+
+      {/* Controls */}
+      <div
+        className="absolute bottom-28 lg:bottom-8 left-1/2 transform -translate-x-1/2 z-20 w-[calc(100%-2rem)] sm:w-[28rem] select-none"
+        onMouseDown={(e) => e.stopPropagation()}
+        onTouchStart={(e) => e.stopPropagation()}
+      >
+        <div className="bg-white/95 dark:bg-gray-800/95 backdrop-blur-sm rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 p-3">
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-sm font-bold text-gray-900 dark:text-white">⏳ Release-year time-lapse</h3>
+            <button
+              onClick={onClose}
+              className="text-xs text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+              aria-label="Close time-lapse"
+            >
+              ✕
+            </button>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <button
+              onClick={togglePlay}
+              className="px-3 py-1 rounded bg-primary-500 hover:bg-primary-600 text-white text-sm font-semibold"
+              aria-label={isPlaying ? 'Pause' : 'Play'}
+            >
+              {isPlaying ? '⏸' : '▶'}
+            </button>
+            <span className="text-xs text-gray-500 dark:text-gray-400 tabular-nums">{firstYear}</span>
+            <input
+              type="range"
+              min={firstYear}
+              max={lastYear}
+              value={year}
+              onChange={(e) => setYear(Number(e.target.value))}
+              className="flex-1 accent-primary-500"
+              aria-label="Release year"
+            />
+            <span className="text-xs text-gray-500 dark:text-gray-400 tabular-nums">{lastYear}</span>
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-2 mt-2 text-xs text-gray-700 dark:text-gray-300">
+            {/* Mode */}
+            <div className="flex rounded overflow-hidden border border-gray-200 dark:border-gray-700" role="radiogroup" aria-label="Time-lapse mode">
+              {(['accumulate', 'single'] as TimeLapseMode[]).map(option => (
+                <button
+                  key={option}
+                  role="radio"
+                  aria-checked={mode === option}
+                  onClick={() => setMode(option)}
+                  className={`px-2 py-1 ${mode === option ? 'bg-primary-500 text-white' : 'hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+                >
+                  {option === 'accumulate' ? 'Accumulate' : 'Single year'}
+                </button>
+              ))}
+            </div>
+
+            {/* Speed */}
+            <div className="flex rounded overflow-hidden border border-gray-200 dark:border-gray-700" role="radiogroup" aria-label="Speed">
+              {SPEED_OPTIONS.map(option => (
+                <button
+                  key={option.label}
+                  role="radio"
+                  aria-checked={stepInterval === option.interval}
+                  onClick={() => setStepInterval(option.interval)}
+                  className={`px-2 py-1 ${stepInterval === option.interval ? 'bg-primary-500 text-white' : 'hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+
+            {/* Loop */}
+            <label className="flex items-center gap-1 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={loop}
+                onChange={(e) => setLoop(e.target.checked)}
+                className="accent-primary-500"
+              />
+              Loop
+            </label>
+          </div>
+        </div>
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,155 @@
+/**
+ * TimelinePlayer Component - Steps through a movie's filming locations in shooting order
+ * Shown in "Show all locations" mode; the map flies to each stop and highlights
+ * the segment of the connecting line leading to it.
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import type { Movie } from '../types'
+import { getTimelineStops, hasFilmingDates, formatStopDates, getStopName } from '../utils/filmingTimeline'
+
+// Time spent at each stop while playing (the camera flight takes ~1.8s)
+const STEP_INTERVAL_MS = 3500
+
+interface TimelinePlayerProps {
+  movie: Movie
+  onStepChange: (step: number) => void
+}
+
+export default function TimelinePlayer({ movie, onStepChange }: TimelinePlayerProps) {
+  const stops = useMemo(() => getTimelineStops(movie), [movie])
+  const hasDates = useMemo(() => hasFilmingDates(movie), [movie])
+  // null until the user starts playback, so the overview of all locations stays put
+  const [step, setStep] = useState<number | null>(null)
+  const [isPlaying, setIsPlaying] = useState(false)
+
+  const onStepChangeRef = useRef(onStepChange)
+  onStepChangeRef.current = onStepChange
+
+  const lastStep = stops.length - 1
+  const lastDated = [...stops].reverse().find(stop => stop.startDate)
+
+  const goTo = useCallback((next: number) => {
+    const clamped = Math.max(0, Math.min(lastStep, next))
+    setStep(clamped)
+    onStepChangeRef.current(clamped)
+  }, [lastStep])
+
+  // Reset when another movie is shown
+  useEffect(() => {
+    setStep(null)
+    setIsPlaying(false)
+  }, [movie])
+
+  /**
+   * Advance while playing, stop at the last location
+   */
+  useEffect(() => {
+    if (!isPlaying) return
+    if (step !== null && step >= lastStep) {
+      setIsPlaying(false)
+      return
+    }
+
+    const timeout = setTimeout(() => goTo(step === null ? 0 : step + 1), step === null ? 0 : STEP_INTERVAL_MS)
+    return () => clearTimeout(timeout)
+  }, [isPlaying, step, lastStep, goTo])
+
+  const togglePlay = () => {
+    if (!isPlaying && step !== null && step >= lastStep) {
+      // Replay from the start
+      setStep(null)
+    }
+    setIsPlaying(!isPlaying)
+  }
+
+  const current = step !== null ? stops[step] : null
+  const dates = current ? formatStopDates(current) : null
+
+  return (
+    <div
+      className="absolute bottom-28 lg:bottom-8 left-1/2 transform -translate-x-1/2 z-20 w-[calc(100%-2rem)] sm:w-[28rem] select-none"
+      onMouseDown={(e) => e.stopPropagation()}
+      onTouchStart={(e) => e.stopPropagation()}
+    >
+      <div className="bg-white/95 dark:bg-gray-800/95 backdrop-blur-sm rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 p-3">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-sm font-bold text-gray-900 dark:text-white truncate">
+            🎞️ Filming timeline · {movie.title}
+          </h3>
+          <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap ml-2">
+            {step !== null ? `${step + 1} / ${stops.length}` : `${stops.length} stops`}
+          </span>
+        </div>
+
+        {/* Current stop */}
+        <div className="min-h-[2.5rem] mb-2">
+          {current ? (
+            <>
+              <p className="text-sm font-semibold text-primary-600 dark:text-primary-400 truncate">
+                📍 {getStopName(current)}
+              </p>
+              <p className="text-xs text-gray-600 dark:text-gray-300 truncate">
+                {dates || 'Date unknown'}
+                {current.location.scene_description && ` · ${current.location.scene_description}`}
+              </p>
+            </>
+          ) : (
+            <p className="text-xs text-gray-600 dark:text-gray-300">
+              {hasDates
+                ? 'Press play to follow the shoot from location to location.'
+                : 'No filming dates for this title - locations play in the order they are listed.'}
+            </p>
+          )}
+        </div>
+
+        {/* Controls & scrubber */}
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => goTo((step ?? 0) - 1)}
+            disabled={step === null || step === 0}
+            className="px-2 py-1 rounded text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-40"
+            aria-label="Previous location"
+          >
+            ⏮
+          </button>
+          <button
+            onClick={togglePlay}
+            className="px-3 py-1 rounded bg-primary-500 hover:bg-primary-600 text-white text-sm font-semibold"
+            aria-label={isPlaying ? 'Pause' : 'Play'}
+          >
+            {isPlaying ? '⏸' : '▶'}
+          </button>
+          <button
+            onClick={() => goTo(step === null ? 0 : step + 1)}
+            disabled={step === lastStep}
+            className="px-2 py-1 rounded text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-40"
+            aria-label="Next location"
+          >
+            ⏭
+          </button>
+          <input
+            type="range"
+            min={0}
+            max={lastStep}
+            value={step ?? 0}
+            onChange={(e) => {
+              setIsPlaying(false)
+              goTo(Number(e.target.value))
+            }}
+            className="flex-1 accent-primary-500"
+            aria-label="Filming timeline position"
+          />
+        </div>
+
+        {/* First and last dates under the scrubber */}
+        {hasDates && (
+          <div className="flex justify-between mt-1 text-[10px] text-gray-500 dark:text-gray-400">
+            <span>{formatStopDates(stops[0])}</span>
+            <span>{lastDated && formatStopDates(lastDated)}</span>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,207 @@
+/**
+ * TripPlanner Component - Saved filming locations as a day-by-day itinerary
+ * Stops are added from the movie modal or location pages; the planner splits them
+ * into days and orders each day's route (see src/utils/tripPlanner.ts).
+ */
+
+import { useState } from 'react'
+import type { TripStop } from '../types'
+import { MAX_TRIP_DAYS, type Trip } from '../hooks/useTrip'
+import { TRIP_DAY_COLORS, type TripDay } from '../utils/tripPlanner'
+import { formatDistance } from '../utils/map/coordinateUtils'
+import { downloadLocations, tripToExportPoints } from '../utils/locationExport'
+import ExportMenu from './ExportMenu'
+
+interface TripPlannerProps {
+  trip: Trip
+  plan: TripDay[]
+  onDaysChange: (days: number) => void
+  onRemoveStop: (id: string) => void
+  onClear: () => void
+  onStopSelect: (stop: TripStop) => void
+  onDaySelect: (day: TripDay) => void
+  isOpen?: boolean
+  onOpenChange?: (isOpen: boolean) => void
+}
+
+export default function TripPlanner({
+  trip,
+  plan,
+  onDaysChange,
+  onRemoveStop,
+  onClear,
+  onStopSelect,
+  onDaySelect,
+  isOpen: controlledIsOpen,
+  onOpenChange
+}: TripPlannerProps) {
+  const [internalIsOpen, setInternalIsOpen] = useState(false)
+
+  // Use controlled or uncontrolled state
+  const isOpen = controlledIsOpen !== undefined ? controlledIsOpen : internalIsOpen
+  const setIsOpen = (value: boolean) => {
+    if (controlledIsOpen === undefined) {
+      setInternalIsOpen(value)
+    }
+    onOpenChange?.(value)
+  }
+
+  // Never more days than stops
+  const maxDays = Math.max(1, Math.min(MAX_TRIP_DAYS, trip.stops.length))
+  const dayCount = Math.min(trip.days, maxDays)
+  const totalDistance = plan.reduce((sum, day) => sum + day.distanceKm, 0)
+
+  return (
+    <div className="relative">
+      {/* Trip Toggle Button */}
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full px-4 py-3 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg shadow-lg hover:shadow-xl transition-shadow flex items-center justify-between text-gray-900 dark:text-white"
+        aria-label="Toggle trip planner"
+        aria-expanded={isOpen}
+      >
+        <span className="flex items-center gap-2">
+          <span aria-hidden="true">🧳</span>
+          <span className="font-semibold">Trip Planner</span>
+          {trip.stops.length > 0 && (
+            <span className="px-2 py-0.5 text-xs bg-primary-500 text-white rounded-full">
+              {trip.stops.length}
+            </span>
+          )}
+        </span>
+        <svg
+          className={`w-5 h-5 transition-transform ${isOpen ? 'rotate-180' : ''}`}
+          fill="none"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth="2"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+          aria-hidden="true"
+        >
+          <path d="M19 9l-7 7-7-7"></path>
+        </svg>
+      </button>
+
+      {/* Trip Panel */}
+      {isOpen && (
+        <div className="absolute z-50 w-full mt-2 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-2xl p-4 max-h-[600px] overflow-y-auto custom-scrollbar">
+          {trip.stops.length === 0 ? (
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Your trip is empty. Add filming locations from a movie&apos;s details or from a location page.
+            </p>
+          ) : (
+            <>
+              {/* Days */}
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="font-semibold text-gray-900 dark:text-white text-sm">Days</h3>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => onDaysChange(dayCount - 1)}
+                    disabled={dayCount <= 1}
+                    className="w-7 h-7 rounded-full border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:border-primary-500 disabled:opacity-40"
+                    aria-label="Fewer days"
+                  >
+                    −
+                  </button>
+                  <span className="w-6 text-center text-sm font-semibold text-gray-900 dark:text-white">
+                    {dayCount}
+                  </span>
+                  <button
+                    onClick={() => onDaysChange(dayCount + 1)}
+                    disabled={dayCount >= maxDays}
+                    className="w-7 h-7 rounded-full border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:border-primary-500 disabled:opacity-40"
+                    aria-label="More days"
+                  >
+                    +
+                  </button>
+                </div>
+              </div>
+
+              {/* Itinerary */}
+              <ol className="space-y-4">
+                {plan.map((day, dayIndex) => (
+                  <li key={day.stops[0].id}>
+                    <button
+                      onClick={() => onDaySelect(day)}
+                      className="w-full flex items-center justify-between mb-1 text-left"
+                      title="Show this day on the map"
+                    >
+                      <span className="flex items-center gap-2 text-sm font-semibold text-gray-900 dark:text-white">
+                        <span
+                          className="w-3 h-3 rounded-full"
+                          style={{ backgroundColor: TRIP_DAY_COLORS[dayIndex % TRIP_DAY_COLORS.length] }}
+                        />
+                        Day {dayIndex + 1}
+                      </span>
+                      <span className="text-xs font-semibold text-primary-600 dark:text-primary-400">
+                        {day.stops.length} stop{day.stops.length === 1 ? '' : 's'} · {formatDistance(day.distanceKm)}
+                      </span>
+                    </button>
+                    <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                      {day.stops.map((stop, stopIndex) => (
+                        <li key={stop.id} className="flex items-center gap-2">
+                          <button
+                            onClick={() => onStopSelect(stop)}
+                            className="flex-1 min-w-0 py-2 flex items-center gap-2 text-left hover:bg-gray-50 dark:hover:bg-gray-700/50 rounded transition-colors"
+                          >
+                            <span className="w-5 text-xs text-gray-500 dark:text-gray-400 text-right flex-shrink-0">
+                              {stopIndex + 1}.
+                            </span>
+                            <span className="min-w-0">
+                              <span className="block text-sm font-medium text-gray-900 dark:text-white truncate">
+                                {stop.name}
+                              </span>
+                              {stop.movieTitle && (
+                                <span className="block text-xs text-gray-600 dark:text-gray-400 truncate">
+                                  🎬 {stop.movieTitle}
+                                </span>
+                              )}
+                            </span>
+                          </button>
+                          <button
+                            onClick={() => onRemoveStop(stop.id)}
+                            className="px-2 text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                            aria-label={`Remove ${stop.name} from trip`}
+                          >
+                            ✕
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  </li>
+                ))}
+              </ol>
+
+              {/* Total */}
+              <div className="flex items-center justify-between mt-4 pt-3 border-t border-gray-200 dark:border-gray-700 text-xs">
+                <span className="text-gray-600 dark:text-gray-400">
+                  Total {formatDistance(totalDistance)} (straight-line)
+                </span>
+                <div className="flex items-center gap-3">
+                  <ExportMenu
+                    label="⬇️ Export"
+                    className="text-primary-600 dark:text-primary-400 hover:underline font-medium"
+                    menuClassName="right-0 bottom-full mb-1"
+                    onExport={(format) => downloadLocations(
+                      tripToExportPoints(plan.flatMap(day => day.stops)),
+                      format,
+                      'FilmingMap trip',
+                      'filmingmap-trip'
+                    )}
+                  />
+                  <button
+                    onClick={onClear}
+                    className="text-red-600 dark:text-red-400 hover:underline font-medium"
+                  >
+                    Clear trip
+                  </button>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
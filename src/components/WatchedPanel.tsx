@@ -0,0 +1,268 @@
+/**
+ * WatchedPanel Component - Import a Letterboxd / IMDb history and see where it was filmed
+ * Matching happens in the browser (see src/utils/watchHistory.ts); rows that
+ * couldn't be matched are listed after each import.
+ */
+
+import { useEffect, useRef, useState } from 'react'
+import type { WatchHistoryImport } from '../hooks/useWatchHistory'
+import { getWatchedStats, type WatchHistory, type WatchedStats } from '../utils/watchHistory'
+import { loadAllMovies } from '../utils/map/binaryMapData'
+import { loadPlaces } from '../utils/placeSearch'
+
+interface WatchedPanelProps {
+  history: WatchHistory
+  onImport: (csv: string) => Promise<WatchHistoryImport>
+  onClear: () => void
+  showOnlyWatched: boolean
+  onShowOnlyWatchedChange: (show: boolean) => void
+  isOpen?: boolean
+  onOpenChange?: (isOpen: boolean) => void
+}
+
+const SOURCE_NAMES = {
+  imdb: 'IMDb',
+  letterboxd: 'Letterboxd',
+}
+
+const TOP_COUNTRIES = 5
+
+export default function WatchedPanel({
+  history,
+  onImport,
+  onClear,
+  showOnlyWatched,
+  onShowOnlyWatchedChange,
+  isOpen: controlledIsOpen,
+  onOpenChange
+}: WatchedPanelProps) {
+  const [internalIsOpen, setInternalIsOpen] = useState(false)
+  const [isImporting, setIsImporting] = useState(false)
+  const [lastImport, setLastImport] = useState<WatchHistoryImport | null>(null)
+  const [importError, setImportError] = useState<string | null>(null)
+  const [stats, setStats] = useState<WatchedStats | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  // Use controlled or uncontrolled state
+  const isOpen = controlledIsOpen !== undefined ? controlledIsOpen : internalIsOpen
+  const setIsOpen = (value: boolean) => {
+    if (controlledIsOpen === undefined) {
+      setInternalIsOpen(value)
+    }
+    onOpenChange?.(value)
+  }
+
+  const watchedCount = history.movieIds.length
+
+  /**
+   * Stats need every movie's locations - only worked out while the panel is open
+   */
+  useEffect(() => {
+    if (!isOpen || watchedCount === 0) {
+      setStats(null)
+      return
+    }
+
+    let cancelled = false
+    Promise.all([loadAllMovies(), loadPlaces()])
+      .then(([movies, places]) => {
+        if (!cancelled) setStats(getWatchedStats(movies, history.movieIds, places))
+      })
+      .catch(error => console.error('Failed to load watched stats:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [isOpen, watchedCount, history.movieIds])
+
+  const handleImport = async (file: File) => {
+    setIsImporting(true)
+    setImportError(null)
+    setLastImport(null)
+
+    try {
+      setLastImport(await onImport(await file.text()))
+    } catch (error) {
+      setImportError((error as Error).message)
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  return (
+    <div className="relative">
+      {/* Watched Toggle Button */}
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full px-4 py-3 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg shadow-lg hover:shadow-xl transition-shadow flex items-center justify-between text-gray-900 dark:text-white"
+        aria-label="Toggle watched movies"
+        aria-expanded={isOpen}
+      >
+        <span className="flex items-center gap-2">
+          <span aria-hidden="true">🎞️</span>
+          <span className="font-semibold">Watched</span>
+          {watchedCount > 0 && (
+            <span className="px-2 py-0.5 text-xs bg-green-600 text-white rounded-full">
+              {watchedCount}
+            </span>
+          )}
+        </span>
+        <svg
+          className={`w-5 h-5 transition-transform ${isOpen ? 'rotate-180' : ''}`}
+          fill="none"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth="2"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+          aria-hidden="true"
+        >
+          <path d="M19 9l-7 7-7-7"></path>
+        </svg>
+      </button>
+
+      {/* Watched Panel */}
+      {isOpen && (
+        <div className="absolute z-50 w-full mt-2 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-2xl p-4 max-h-[600px] overflow-y-auto custom-scrollbar">
+          {watchedCount === 0 ? (
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+              Import the movies you&apos;ve seen to map where they were filmed. Use the CSV export from
+              Letterboxd (Settings → Import &amp; Export) or IMDb (Your ratings → Export).
+            </p>
+          ) : (
+            <>
+              {/* Map filter */}
+              <label className="flex items-center gap-2 mb-4 text-sm cursor-pointer text-gray-900 dark:text-white">
+                <input
+                  type="checkbox"
+                  checked={showOnlyWatched}
+                  onChange={(e) => onShowOnlyWatchedChange(e.target.checked)}
+                  className="w-4 h-4 rounded accent-primary-500"
+                />
+                <span className="font-medium">Show only watched movies on the map</span>
+              </label>
+
+              {/* Stats */}
+              {stats ? (
+                <div className="mb-4">
+                  <div className="grid grid-cols-2 gap-2 mb-3">
+                    {[
+                      { label: 'Movies on the map', value: stats.movies },
+                      { label: 'Filming locations', value: stats.locations },
+                      { label: `Countries · ${stats.continents} continent${stats.continents === 1 ? '' : 's'}`, value: stats.countries.length },
+                      { label: 'Cities', value: stats.cities.length },
+                    ].map(({ label, value }) => (
+                      <div key={label} className="p-2 rounded-lg bg-gray-50 dark:bg-gray-700/50">
+                        <div className="text-lg font-bold text-primary-600 dark:text-primary-400">{value}</div>
+                        <div className="text-xs text-gray-600 dark:text-gray-400">{label}</div>
+                      </div>
+                    ))}
+                  </div>
+
+                  {stats.countries.length > 0 && (
+                    <>
+                      <h3 className="font-semibold text-gray-900 dark:text-white text-sm mb-1">Most visited countries</h3>
+                      <ul className="mb-3 space-y-0.5 text-sm">
+                        {stats.countries.slice(0, TOP_COUNTRIES).map(country => (
+                          <li key={country.name} className="flex justify-between text-gray-700 dark:text-gray-300">
+                            <span>{country.name}</span>
+                            <span className="text-xs text-gray-500 dark:text-gray-400">
+                              {country.count} location{country.count === 1 ? '' : 's'}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    </>
+                  )}
+
+                  {stats.cities.length > 0 && (
+                    <>
+                      <h3 className="font-semibold text-gray-900 dark:text-white text-sm mb-1">Cities</h3>
+                      <div className="flex flex-wrap gap-1.5">
+                        {stats.cities.map(city => city.slug ? (
+                          <a
+                            key={city.slug}
+                            href={`/location/${city.slug}`}
+                            className="px-2 py-0.5 text-xs rounded-full bg-primary-100 dark:bg-primary-900/40 text-primary-800 dark:text-primary-300 hover:bg-primary-200 dark:hover:bg-primary-900/60"
+                          >
+                            {city.name}
+                          </a>
+                        ) : (
+                          <span
+                            key={city.name}
+                            className="px-2 py-0.5 text-xs rounded-full bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300"
+                          >
+                            {city.name}
+                          </span>
+                        ))}
+                      </div>
+                    </>
+                  )}
+                </div>
+              ) : (
+                <div className="mb-4 h-16 bg-gray-200 dark:bg-gray-700 rounded animate-pulse"></div>
+              )}
+            </>
+          )}
+
+          {/* Import report */}
+          {importError && (
+            <p className="mb-3 text-xs text-red-600 dark:text-red-400">{importError}</p>
+          )}
+          {lastImport && (
+            <div className="mb-3 text-xs">
+              <p className="text-green-600 dark:text-green-400">
+                {SOURCE_NAMES[lastImport.source]}: matched {lastImport.matched} of {lastImport.rows} rows
+                ({lastImport.added} new)
+              </p>
+              {lastImport.unmatched.length > 0 && (
+                <details className="mt-1">
+                  <summary className="cursor-pointer text-gray-600 dark:text-gray-400">
+                    {lastImport.unmatched.length} not on the map
+                  </summary>
+                  <ul className="mt-1 max-h-40 overflow-y-auto custom-scrollbar text-gray-600 dark:text-gray-400">
+                    {lastImport.unmatched.map(row => (
+                      <li key={row.line}>
+                        Line {row.line}: {row.title}{row.year ? ` (${row.year})` : ''}
+                      </li>
+                    ))}
+                  </ul>
+                </details>
+              )}
+            </div>
+          )}
+
+          {/* Import / clear */}
+          <div className="flex items-center justify-between pt-3 border-t border-gray-200 dark:border-gray-700 text-xs">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isImporting}
+              className="text-primary-600 dark:text-primary-400 hover:underline font-medium disabled:opacity-50"
+            >
+              {isImporting ? 'Importing...' : '⬆️ Import Letterboxd / IMDb CSV'}
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="text/csv,.csv"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                if (file) handleImport(file)
+                e.target.value = '' // Allow importing the same file again
+              }}
+            />
+            {watchedCount > 0 && (
+              <button
+                onClick={onClear}
+                className="text-red-600 dark:text-red-400 hover:underline font-medium"
+              >
+                Clear history
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,203 @@
+/**
+ * Hook for the optional actor/director birthplace layer
+ * The actor index is loaded the first time the layer is shown;
+ * afterwards toggling only changes layer visibility
+ */
+
+import { useEffect, useRef } from 'react'
+import maplibregl from 'maplibre-gl'
+import { loadActors, toBirthplaceGeoJSON } from '../utils/actorSearch'
+import { whenMapReady } from '../utils/map/mapReady'
+import { isMapPicking } from '../utils/map/mapPick'
+
+const SOURCE_ID = 'birthplaces'
+const LAYER_IDS = ['birthplace-clusters', 'birthplace-count', 'birthplace-points']
+const BIRTHPLACE_COLOR = '#f472b6'
+
+interface UseBirthplaceLayerProps {
+  map: React.MutableRefObject<maplibregl.Map | null>
+  visible: boolean
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`)
+
+/**
+ * Add the clustered birthplace source and layers (under the movie markers)
+ */
+function addBirthplaceLayers(map: maplibregl.Map, data: GeoJSON.FeatureCollection) {
+  map.addSource(SOURCE_ID, {
+    type: 'geojson',
+    data,
+    cluster: true,
+    clusterRadius: 40,
+    clusterMaxZoom: 10,
+  })
+
+  const beforeId = map.getLayer('movie-markers') ? 'movie-markers' : undefined
+
+  map.addLayer({
+    id: 'birthplace-clusters',
+    type: 'circle',
+    source: SOURCE_ID,
+    filter: ['has', 'point_count'],
+    paint: {
+      'circle-color': BIRTHPLACE_COLOR,
+      'circle-opacity': 0.75,
+      'circle-radius': ['step', ['get', 'point_count'], 12, 10, 16, 50, 22],
+      'circle-stroke-width': 2,
+      'circle-stroke-color': '#ffffff',
+    },
+  }, beforeId)
+
+  map.addLayer({
+    id: 'birthplace-count',
+    type: 'symbol',
+    source: SOURCE_ID,
+    filter: ['has', 'point_count'],
+    layout: {
+      'text-field': ['get', 'point_count_abbreviated'],
+      'text-font': ['Arial Unicode MS Bold', 'Arial Unicode MS Regular'],
+      'text-size': 12,
+      'text-allow-overlap': true,
+    },
+    paint: {
+      'text-color': '#ffffff',
+    },
+  }, beforeId)
+
+  map.addLayer({
+    id: 'birthplace-points',
+    type: 'circle',
+    source: SOURCE_ID,
+    filter: ['!', ['has', 'point_count']],
+    paint: {
+      'circle-color': BIRTHPLACE_COLOR,
+      'circle-radius': 7,
+      'circle-stroke-width': 2,
+      'circle-stroke-color': '#ffffff',
+    },
+  }, beforeId)
+}
+
+/**
+ * Hover popup, click to open the actor page, click a cluster to zoom in
+ */
+function setupBirthplaceInteractions(map: maplibregl.Map) {
+  const popup = new maplibregl.Popup({
+    closeButton: false,
+    closeOnClick: false,
+    className: 'region-popup',
+    maxWidth: '260px',
+  })
+
+  map.on('mouseenter', 'birthplace-points', (e) => {
+    const feature = e.features?.[0]
+    if (!feature) return
+
+    map.getCanvas().style.cursor = 'pointer'
+    const { name, birthPlace, movieCount } = feature.properties as Record<string, any>
+    popup
+      .setLngLat((feature.geometry as GeoJSON.Point).coordinates as [number, number])
+      .setHTML(`
+        <div style="padding: 12px 16px; background: linear-gradient(135deg, #1f2937 0%, #111827 100%); border-radius: 12px;">
+          <h3 style="margin: 0 0 4px 0; font-size: 16px; font-weight: bold; color: #fff;">🎭 ${escapeHtml(name)}</h3>
+          ${birthPlace ? `<p style="margin: 0; color: #d1d5db; font-size: 12px;">Born in ${escapeHtml(birthPlace)}</p>` : ''}
+          <p style="margin: 6px 0 0 0; color: #FFD700; font-size: 11px; font-weight: bold;">
+            ${movieCount} movie${movieCount === 1 ? '' : 's'} on the map · Click to see locations
+          </p>
+        </div>
+      `)
+      .addTo(map)
+  })
+
+  map.on('mouseleave', 'birthplace-points', () => {
+    map.getCanvas().style.cursor = ''
+    popup.remove()
+  })
+
+  map.on('click', 'birthplace-points', (e) => {
+    if (isMapPicking(map)) return
+
+    // Movie markers take priority
+    if (map.getLayer('movie-markers') && map.queryRenderedFeatures(e.point, { layers: ['movie-markers'] }).length > 0) {
+      return
+    }
+
+    const slug = e.features?.[0]?.properties?.slug
+    if (slug) {
+      window.location.href = `/actor/${slug}`
+    }
+  })
+
+  map.on('click', 'birthplace-clusters', async (e) => {
+    if (isMapPicking(map)) return
+    const feature = e.features?.[0]
+    if (!feature) return
+
+    try {
+      const source = map.getSource(SOURCE_ID) as maplibregl.GeoJSONSource
+      const zoom = await source.getClusterExpansionZoom(feature.properties.cluster_id)
+      map.easeTo({
+        center: (feature.geometry as GeoJSON.Point).coordinates as [number, number],
+        zoom: Math.min(zoom, map.getMaxZoom()),
+        duration: 600,
+      })
+    } catch (error) {
+      console.error('Failed to expand birthplace cluster:', error)
+    }
+  })
+
+  map.on('mouseenter', 'birthplace-clusters', () => {
+    map.getCanvas().style.cursor = 'pointer'
+  })
+  map.on('mouseleave', 'birthplace-clusters', () => {
+    map.getCanvas().style.cursor = ''
+  })
+}
+
+export function useBirthplaceLayer({ map, visible }: UseBirthplaceLayerProps) {
+  const loadingRef = useRef(false)
+  const visibleRef = useRef(visible)
+  visibleRef.current = visible
+
+  useEffect(() => {
+    const mapInstance = map.current
+    if (!mapInstance) return
+
+    const applyVisibility = () => {
+      LAYER_IDS.forEach(id => {
+        if (mapInstance.getLayer(id)) {
+          mapInstance.setLayoutProperty(id, 'visibility', visibleRef.current ? 'visible' : 'none')
+        }
+      })
+    }
+
+    if (mapInstance.getSource(SOURCE_ID)) {
+      applyVisibility()
+      return
+    }
+
+    if (!visible || loadingRef.current) return
+    loadingRef.current = true
+
+    loadActors()
+      .then(actors => {
+        const addLayers = () => {
+          if (mapInstance.getSource(SOURCE_ID)) return
+          addBirthplaceLayers(mapInstance, toBirthplaceGeoJSON(actors))
+          setupBirthplaceInteractions(mapInstance)
+          // May have been switched off while loading
+          applyVisibility()
+        }
+
+        whenMapReady(mapInstance, addLayers)
+      })
+      .catch(error => {
+        console.error('Failed to load birthplaces:', error)
+      })
+      .finally(() => {
+        loadingRef.current = false
+      })
+  }, [map, visible])
+}
@@ -1,192 +1,256 @@
 /**
- * Hook for managing clickable region circles on the map
- * Handles region hover, popups, and navigation
+ * Hook for the optional clickable regions layer
+ * Regions (clusters of nearby filming locations, built by scripts/generateCountryRegions.ts)
+ * are loaded the first time the layer is shown; afterwards toggling only changes visibility.
+ * Hover shows the region's top titles, click zooms to it - and opens its city page
+ * when already zoomed in.
  */
 
-import { useRef, useCallback } from 'react'
+import { useEffect, useRef } from 'react'
 import maplibregl from 'maplibre-gl'
+import { whenMapReady } from '../utils/map/mapReady'
+import { isMapPicking } from '../utils/map/mapPick'
 
-export function useClickableRegions() {
-  const hoveredRegionIdRef = useRef<string | number | null>(null)
-  const currentPopupRef = useRef<maplibregl.Popup | null>(null)
-
-  /**
-   * Add clickable regions layer to the map
-   */
-  const addClickableRegions = useCallback(async (map: maplibregl.Map) => {
-    try {
-      const regionsResponse = await fetch('/geo/clickable-regions.geojson')
-      const regionsData = await regionsResponse.json()
-
-      map.addSource('clickable-regions', {
-        type: 'geojson',
-        data: regionsData,
-        tolerance: 0
-      })
+const SOURCE_ID = 'clickable-regions'
+const LAYER_ID = 'region-circles'
+const REGIONS_URL = '/geo/clickable-regions.geojson'
+// Meters per pixel at zoom 0 on the equator (512px tiles)
+const METERS_PER_PIXEL_Z0 = 78271.517
+const MIN_RADIUS_PX = 6
 
-      // Add circle layer (grey glow that appears when zoomed in)
-      map.addLayer({
-        id: 'region-circles',
-        type: 'circle',
-        source: 'clickable-regions',
-        paint: {
-          'circle-radius': [
-            'interpolate',
-            ['linear'],
-            ['zoom'],
-            2, 8,
-            3, 16,
-            4, 40,
-            6, 80,
-            10, 200
-          ],
-          'circle-color': '#9ca3af9c',
-          'circle-opacity': [
-            'interpolate',
-            ['linear'],
-            ['zoom'],
-            2, 0.2,
-            3, 0.25,
-            4, 0.3,
-            6, ['case', ['boolean', ['feature-state', 'hover'], false], 0.5, 0.35]
-          ]
-        }
-      }, 'movie-markers') // Insert BEFORE movie-markers so it's underneath
+// Keep in sync with RegionProperties in scripts/generateCountryRegions.ts
+interface RegionProperties {
+  name: string
+  country: string
+  slug?: string
+  movieCount: number
+  locationCount: number
+  radiusKm: number
+  topTitles: string[]
+}
 
-      return true
-    } catch (error) {
-      console.error('Failed to load clickable regions:', error)
-      return false
-    }
-  }, [])
-
-  /**
-   * Setup region hover handlers
-   */
-  const setupRegionHover = useCallback((map: maplibregl.Map) => {
-    map.on('mousemove', 'region-circles', (e: any) => {
-      // Check if there's a movie marker at this position (higher priority)
-      const movieFeatures = map.queryRenderedFeatures(e.point, { layers: ['movie-markers'] })
-      if (movieFeatures && movieFeatures.length > 0) {
-        // There's a movie marker here, don't show region popup
-        if (currentPopupRef.current) {
-          currentPopupRef.current.remove()
-          currentPopupRef.current = null
-        }
-        if (hoveredRegionIdRef.current !== null) {
-          map.setFeatureState(
-            { source: 'clickable-regions', id: hoveredRegionIdRef.current },
-            { hover: false }
-          )
-          hoveredRegionIdRef.current = null
-        }
-        return
-      }
+interface UseClickableRegionsProps {
+  map: React.MutableRefObject<maplibregl.Map | null>
+  visible: boolean
+}
 
-      if (e.features && e.features.length > 0) {
-        map.getCanvas().style.cursor = 'pointer'
-
-        const feature = e.features[0]
-        const name = feature.properties.name
-        const movieCount = feature.properties.movieCount
-
-        // Update hover state
-        if (hoveredRegionIdRef.current !== e.features[0].id) {
-          if (hoveredRegionIdRef.current !== null) {
-            map.setFeatureState(
-              { source: 'clickable-regions', id: hoveredRegionIdRef.current as string | number },
-              { hover: false }
-            )
-          }
-          hoveredRegionIdRef.current = e.features[0].id
-          map.setFeatureState(
-            { source: 'clickable-regions', id: hoveredRegionIdRef.current as string | number },
-            { hover: true }
-          )
-        }
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`)
 
-        // Show popup on hover
-        if (!currentPopupRef.current || currentPopupRef.current.getLngLat().lng !== e.lngLat.lng) {
-          if (currentPopupRef.current) {
-            currentPopupRef.current.remove()
-          }
-
-          currentPopupRef.current = new (maplibregl as any).Popup({
-            closeButton: false,
-            closeOnClick: false,
-            className: 'region-popup',
-            maxWidth: '300px'
-          })
-            .setLngLat(e.lngLat)
-            .setHTML(`
-              <div style="
-                padding: 20px;
-                text-align: center;
-                background: linear-gradient(135deg, #1f2937 0%, #111827 100%);
-                border-radius: 12px;
-              ">
-                <h3 style="margin: 0 0 8px 0; font-size: 20px; font-weight: bold; color: #fff;">
-                  📍 ${name}
-                </h3>
-                <p style="margin: 0; color: #d1d5db; font-size: 14px;">
-                  ${movieCount} movies filmed here
-                </p>
-                <p style="
-                  color: #FFD700;
-                  font-size: 11px;
-                  font-weight: bold;
-                  padding-top: 10px;
-                  border-top: 1px solid #444;
-                  text-align: center;
-                ">
-                  Click to see full list
-                </p>
-              </div>
-            `)
-            .addTo(map)
-        }
+/**
+ * Bounds of a region's circle
+ */
+function getRegionBounds(center: [number, number], radiusKm: number): maplibregl.LngLatBoundsLike {
+  const [lng, lat] = center
+  const dLat = radiusKm / 111.32
+  const dLng = radiusKm / (111.32 * Math.max(Math.cos((lat * Math.PI) / 180), 0.01))
+  return [[lng - dLng, lat - dLat], [lng + dLng, lat + dLat]]
+}
+
+/**
+ * Add each region's radius in pixels at zoom 0, so circles can be drawn at their real size
+ */
+function withPixelRadius(data: GeoJSON.FeatureCollection<GeoJSON.Point, RegionProperties>): GeoJSON.FeatureCollection {
+  return {
+    ...data,
+    features: data.features.map(feature => {
+      const lat = feature.geometry.coordinates[1]
+      const metersPerPixel = METERS_PER_PIXEL_Z0 * Math.cos((lat * Math.PI) / 180)
+      return {
+        ...feature,
+        properties: { ...feature.properties, radiusPx: (feature.properties.radiusKm * 1000) / metersPerPixel }
       }
     })
+  }
+}
 
-    map.on('mouseleave', 'region-circles', () => {
-      if (hoveredRegionIdRef.current !== null) {
-        map.setFeatureState(
-          { source: 'clickable-regions', id: hoveredRegionIdRef.current as string | number },
-          { hover: false }
-        )
-      }
-      hoveredRegionIdRef.current = null
-      map.getCanvas().style.cursor = ''
+/**
+ * Add the region source and circle layer (under the movie markers)
+ */
+function addRegionLayer(map: maplibregl.Map, data: GeoJSON.FeatureCollection) {
+  map.addSource(SOURCE_ID, {
+    type: 'geojson',
+    data,
+    tolerance: 0
+  })
+
+  // Real-world size doubles with every zoom level, but never smaller than MIN_RADIUS_PX
+  const radiusStops = [0, 3, 6, 9, 12, 16].flatMap(zoom => [
+    zoom,
+    ['max', MIN_RADIUS_PX, ['*', ['get', 'radiusPx'], 2 ** zoom]]
+  ])
+
+  map.addLayer({
+    id: LAYER_ID,
+    type: 'circle',
+    source: SOURCE_ID,
+    paint: {
+      'circle-radius': ['interpolate', ['exponential', 2], ['zoom'], ...radiusStops] as maplibregl.ExpressionSpecification,
+      'circle-color': '#9ca3af',
+      'circle-opacity': ['case', ['boolean', ['feature-state', 'hover'], false], 0.45, 0.25],
+      'circle-stroke-width': 1,
+      'circle-stroke-color': 'rgba(255, 255, 255, 0.5)'
+    }
+  }, map.getLayer('movie-markers') ? 'movie-markers' : undefined)
+}
+
+/**
+ * Properties as returned by queryRenderedFeatures - arrays come back as JSON strings
+ */
+function readRegion(feature: maplibregl.MapGeoJSONFeature): RegionProperties {
+  const properties = feature.properties as Record<string, unknown>
+  const raw: unknown = typeof properties.topTitles === 'string' ? JSON.parse(properties.topTitles) : properties.topTitles
+  const topTitles = Array.isArray(raw) ? raw.filter((title): title is string => typeof title === 'string') : []
+  return { ...properties, topTitles } as RegionProperties
+}
+
+/**
+ * Whether the camera is already showing the whole region
+ */
+function isZoomedToRegion(map: maplibregl.Map, feature: maplibregl.MapGeoJSONFeature): boolean {
+  const { radiusKm } = readRegion(feature)
+  const camera = map.cameraForBounds(getRegionBounds((feature.geometry as GeoJSON.Point).coordinates as [number, number], radiusKm), { padding: 60 })
+  return camera?.zoom !== undefined && map.getZoom() >= camera.zoom - 0.5
+}
+
+/**
+ * Hover popup with the region's top titles, click to zoom in / open the city page
+ */
+function setupRegionInteractions(map: maplibregl.Map) {
+  let hoveredId: string | number | undefined
 
-      if (currentPopupRef.current) {
-        currentPopupRef.current.remove()
-        currentPopupRef.current = null
+  const popup = new maplibregl.Popup({
+    closeButton: false,
+    closeOnClick: false,
+    className: 'region-popup',
+    maxWidth: '300px'
+  })
+
+  const clearHover = () => {
+    if (hoveredId !== undefined) {
+      map.setFeatureState({ source: SOURCE_ID, id: hoveredId }, { hover: false })
+      hoveredId = undefined
+    }
+    map.getCanvas().style.cursor = ''
+    popup.remove()
+  }
+
+  // Movie markers take priority
+  const isOverMarker = (point: maplibregl.Point) =>
+    map.getLayer('movie-markers') && map.queryRenderedFeatures(point, { layers: ['movie-markers'] }).length > 0
+
+  map.on('mousemove', LAYER_ID, (e) => {
+    if (isOverMarker(e.point)) {
+      clearHover()
+      return
+    }
+
+    // Topmost is the smallest region under the cursor - regions are drawn largest first
+    const feature = e.features?.[0]
+    if (!feature) return
+
+    map.getCanvas().style.cursor = 'pointer'
+
+    if (hoveredId !== feature.id) {
+      if (hoveredId !== undefined) {
+        map.setFeatureState({ source: SOURCE_ID, id: hoveredId }, { hover: false })
       }
-    })
-  }, [])
-
-  /**
-   * Setup region click handlers for navigation
-   */
-  const setupRegionClick = useCallback((map: maplibregl.Map) => {
-    map.on('click', 'region-circles', (e: any) => {
-      // Check if there's a movie marker at this position (higher priority)
-      const movieFeatures = map.queryRenderedFeatures(e.point, { layers: ['movie-markers'] })
-      if (movieFeatures && movieFeatures.length > 0) {
-        return
+      hoveredId = feature.id
+      if (hoveredId !== undefined) {
+        map.setFeatureState({ source: SOURCE_ID, id: hoveredId }, { hover: true })
       }
+    }
 
-      if (e.features && e.features.length > 0) {
-        const feature = e.features[0]
-        const slug = feature.properties.slug
-        window.location.href = `/location/${slug}`
-      }
+    const { name, country, slug, movieCount, topTitles } = readRegion(feature)
+    const action = slug && isZoomedToRegion(map, feature) ? 'Click to see the city page' : 'Click to zoom in'
+
+    popup
+      .setLngLat(e.lngLat)
+      .setHTML(`
+        <div style="padding: 16px 20px; background: linear-gradient(135deg, #1f2937 0%, #111827 100%); border-radius: 12px;">
+          <h3 style="margin: 0 0 4px 0; font-size: 18px; font-weight: bold; color: #fff;">📍 ${escapeHtml(name)}</h3>
+          <p style="margin: 0; color: #d1d5db; font-size: 13px;">${escapeHtml(country)} · ${movieCount} movie${movieCount === 1 ? '' : 's'} filmed here</p>
+          ${topTitles.length > 0 ? `
+            <ul style="margin: 8px 0 0 0; padding: 0; list-style: none; color: #9ca3af; font-size: 12px;">
+              ${topTitles.map(title => `<li>🎬 ${escapeHtml(title)}</li>`).join('')}
+            </ul>
+          ` : ''}
+          <p style="margin: 10px 0 0 0; padding-top: 8px; border-top: 1px solid #444; color: #FFD700; font-size: 11px; font-weight: bold;">
+            ${action}
+          </p>
+        </div>
+      `)
+      .addTo(map)
+  })
+
+  map.on('mouseleave', LAYER_ID, clearHover)
+
+  map.on('click', LAYER_ID, (e) => {
+    if (isMapPicking(map) || isOverMarker(e.point)) return
+
+    const feature = e.features?.[0]
+    if (!feature) return
+
+    const { slug, radiusKm } = readRegion(feature)
+    if (slug && isZoomedToRegion(map, feature)) {
+      window.location.href = `/location/${slug}`
+      return
+    }
+
+    clearHover()
+    map.fitBounds(getRegionBounds((feature.geometry as GeoJSON.Point).coordinates as [number, number], radiusKm), {
+      padding: 60,
+      maxZoom: 12,
+      duration: 1200,
+      essential: true
     })
-  }, [])
+  })
+}
 
-  return {
-    addClickableRegions,
-    setupRegionHover,
-    setupRegionClick
-  }
+export function useClickableRegions({ map, visible }: UseClickableRegionsProps) {
+  const loadingRef = useRef(false)
+  const visibleRef = useRef(visible)
+  visibleRef.current = visible
+
+  useEffect(() => {
+    const mapInstance = map.current
+    if (!mapInstance) return
+
+    const applyVisibility = () => {
+      if (mapInstance.getLayer(LAYER_ID)) {
+        mapInstance.setLayoutProperty(LAYER_ID, 'visibility', visibleRef.current ? 'visible' : 'none')
+      }
+    }
+
+    if (mapInstance.getSource(SOURCE_ID)) {
+      applyVisibility()
+      return
+    }
+
+    if (!visible || loadingRef.current) return
+    loadingRef.current = true
+
+    fetch(REGIONS_URL)
+      .then(response => {
+        if (!response.ok) throw new Error(`HTTP ${response.status}`)
+        return response.json()
+      })
+      .then((data: GeoJSON.FeatureCollection<GeoJSON.Point, RegionProperties>) => {
+        const addLayer = () => {
+          if (mapInstance.getSource(SOURCE_ID)) return
+          addRegionLayer(mapInstance, withPixelRadius(data))
+          setupRegionInteractions(mapInstance)
+          // May have been switched off while loading
+          applyVisibility()
+        }
+
+        whenMapReady(mapInstance, addLayer)
+      })
+      .catch(error => {
+        console.error('Failed to load clickable regions:', error)
+      })
+      .finally(() => {
+        loadingRef.current = false
+      })
+  }, [map, visible])
 }
@@ -0,0 +1,235 @@
+/**
+ * Hook for the density overlays - a point heatmap and a movies-per-country choropleth
+ * Both are fed with every location of the filtered movies (see renderDensity in the
+ * map data worker), so they follow the active filters and place search.
+ * Country shapes come from the MapTiler Countries tileset and are joined on ISO code.
+ */
+
+import { useEffect, useRef } from 'react'
+import maplibregl from 'maplibre-gl'
+import type { DensityLayer } from '../types'
+import { getCountryByIso } from '../../lib/countryNames'
+import { whenMapReady } from '../utils/map/mapReady'
+
+const HEATMAP_SOURCE = 'density-points'
+const HEATMAP_LAYER = 'density-heatmap'
+const COUNTRIES_SOURCE = 'country-boundaries'
+const CHOROPLETH_LAYER = 'country-choropleth'
+const COUNTRIES_TILES = 'https://api.maptiler.com/tiles/countries/tiles.json?key=q4aOhsVX264foFexJ7ga'
+const AREA_UNIT = 100_000 // km² - normalized values are movies per 100,000 km²
+
+interface UseDensityLayersProps {
+  map: React.MutableRefObject<maplibregl.Map | null>
+  layer: DensityLayer
+  normalizeByArea: boolean
+  densityRef: React.MutableRefObject<GeoJSON.FeatureCollection | null>
+  countryCountsRef: React.MutableRefObject<Record<string, number>>
+  densityVersion: number
+}
+
+const EMPTY_COLLECTION: GeoJSON.FeatureCollection = { type: 'FeatureCollection', features: [] }
+
+/**
+ * Movies per country, optionally per 100,000 km² of land
+ */
+function getCountryValues(counts: Record<string, number>, normalizeByArea: boolean): Record<string, number> {
+  if (!normalizeByArea) return counts
+
+  return Object.fromEntries(
+    Object.entries(counts).map(([iso, count]) => {
+      const area = getCountryByIso(iso)?.area
+      return [iso, area ? count / (area / AREA_UNIT) : 0]
+    })
+  )
+}
+
+/**
+ * Fill color expression - log scale, since a few countries hold most of the movies
+ */
+function getChoroplethColor(values: Record<string, number>): maplibregl.ExpressionSpecification | string {
+  const entries = Object.entries(values).filter(([, value]) => value > 0)
+  if (entries.length === 0) return 'rgba(0, 0, 0, 0)'
+
+  const max = Math.log1p(Math.max(...entries.map(([, value]) => value)))
+  const match: unknown[] = ['match', ['get', 'iso_a2']]
+  entries.forEach(([iso, value]) => match.push(iso, max > 0 ? Math.log1p(value) / max : 1))
+  match.push(-1)
+
+  return [
+    'interpolate', ['linear'], match as maplibregl.ExpressionSpecification,
+    -1, 'rgba(0, 0, 0, 0)',
+    0, '#e0f2fe',
+    0.5, '#38bdf8',
+    1, '#0c4a6e'
+  ]
+}
+
+function addHeatmapLayer(map: maplibregl.Map, beforeId?: string) {
+  map.addSource(HEATMAP_SOURCE, { type: 'geojson', data: EMPTY_COLLECTION })
+
+  map.addLayer({
+    id: HEATMAP_LAYER,
+    type: 'heatmap',
+    source: HEATMAP_SOURCE,
+    maxzoom: 12,
+    paint: {
+      'heatmap-intensity': ['interpolate', ['linear'], ['zoom'], 0, 0.6, 9, 2],
+      'heatmap-radius': ['interpolate', ['linear'], ['zoom'], 0, 6, 4, 14, 9, 24],
+      'heatmap-color': [
+        'interpolate', ['linear'], ['heatmap-density'],
+        0, 'rgba(1, 175, 254, 0)',
+        0.2, '#01affe',
+        0.5, '#a855f7',
+        0.8, '#f97316',
+        1, '#fcd34d'
+      ],
+      // Fade out once individual markers are readable
+      'heatmap-opacity': ['interpolate', ['linear'], ['zoom'], 8, 0.85, 12, 0]
+    }
+  }, beforeId)
+}
+
+function addChoroplethLayer(map: maplibregl.Map, beforeId?: string) {
+  map.addSource(COUNTRIES_SOURCE, { type: 'vector', url: COUNTRIES_TILES })
+
+  map.addLayer({
+    id: CHOROPLETH_LAYER,
+    type: 'fill',
+    source: COUNTRIES_SOURCE,
+    'source-layer': 'administrative',
+    filter: ['==', ['get', 'level'], 0],
+    paint: {
+      'fill-color': 'rgba(0, 0, 0, 0)',
+      'fill-opacity': 0.6,
+      'fill-outline-color': 'rgba(255, 255, 255, 0.4)'
+    }
+  }, beforeId)
+}
+
+/**
+ * Hover popup with the country's movie count
+ */
+function setupChoroplethHover(
+  map: maplibregl.Map,
+  countsRef: React.MutableRefObject<Record<string, number>>,
+  normalizeRef: React.MutableRefObject<boolean>
+) {
+  const popup = new maplibregl.Popup({
+    closeButton: false,
+    closeOnClick: false,
+    className: 'region-popup',
+    maxWidth: '260px'
+  })
+
+  map.on('mousemove', CHOROPLETH_LAYER, (e) => {
+    // Movie markers take priority
+    if (map.getLayer('movie-markers') && map.queryRenderedFeatures(e.point, { layers: ['movie-markers'] }).length > 0) {
+      popup.remove()
+      return
+    }
+
+    const iso = e.features?.[0]?.properties?.iso_a2
+    const count = iso ? countsRef.current[iso] || 0 : 0
+    if (!count) {
+      popup.remove()
+      return
+    }
+
+    const country = getCountryByIso(iso)
+    const name = country?.english || e.features?.[0]?.properties?.name || iso
+    const density = normalizeRef.current && country
+      ? `<p style="margin: 4px 0 0 0; color: #FFD700; font-size: 11px;">${(count / (country.area / AREA_UNIT)).toFixed(1)} per 100,000 km²</p>`
+      : ''
+
+    popup
+      .setLngLat(e.lngLat)
+      .setHTML(`
+        <div style="padding: 12px 16px; background: linear-gradient(135deg, #1f2937 0%, #111827 100%); border-radius: 12px;">
+          <h3 style="margin: 0; font-size: 16px; font-weight: bold; color: #fff;">${name}</h3>
+          <p style="margin: 4px 0 0 0; color: #d1d5db; font-size: 12px;">${count} movie${count === 1 ? '' : 's'} filmed here</p>
+          ${density}
+        </div>
+      `)
+      .addTo(map)
+  })
+
+  map.on('mouseleave', CHOROPLETH_LAYER, () => {
+    popup.remove()
+  })
+}
+
+/**
+ * Push the latest filtered data into the visible layer
+ */
+function updateLayerData(
+  map: maplibregl.Map,
+  layer: DensityLayer,
+  collection: GeoJSON.FeatureCollection | null,
+  countryCounts: Record<string, number>,
+  normalizeByArea: boolean
+) {
+  if (layer === 'heatmap') {
+    const source = map.getSource(HEATMAP_SOURCE) as maplibregl.GeoJSONSource | undefined
+    source?.setData(collection || EMPTY_COLLECTION)
+  }
+
+  if (layer === 'choropleth' && map.getLayer(CHOROPLETH_LAYER)) {
+    map.setPaintProperty(CHOROPLETH_LAYER, 'fill-color', getChoroplethColor(getCountryValues(countryCounts, normalizeByArea)))
+  }
+}
+
+export function useDensityLayers({
+  map,
+  layer,
+  normalizeByArea,
+  densityRef,
+  countryCountsRef,
+  densityVersion
+}: UseDensityLayersProps) {
+  const addedRef = useRef<Set<DensityLayer>>(new Set())
+  const normalizeRef = useRef(normalizeByArea)
+  normalizeRef.current = normalizeByArea
+
+  /**
+   * Add the chosen layer the first time it is shown, then only toggle visibility
+   */
+  useEffect(() => {
+    const mapInstance = map.current
+    if (!mapInstance) return
+
+    const apply = () => {
+      const beforeId = mapInstance.getLayer('movie-markers') ? 'movie-markers' : undefined
+
+      if (layer === 'heatmap' && !addedRef.current.has('heatmap')) {
+        addHeatmapLayer(mapInstance, beforeId)
+        addedRef.current.add('heatmap')
+      }
+      if (layer === 'choropleth' && !addedRef.current.has('choropleth')) {
+        addChoroplethLayer(mapInstance, beforeId)
+        setupChoroplethHover(mapInstance, countryCountsRef, normalizeRef)
+        addedRef.current.add('choropleth')
+      }
+
+      if (mapInstance.getLayer(HEATMAP_LAYER)) {
+        mapInstance.setLayoutProperty(HEATMAP_LAYER, 'visibility', layer === 'heatmap' ? 'visible' : 'none')
+      }
+      if (mapInstance.getLayer(CHOROPLETH_LAYER)) {
+        mapInstance.setLayoutProperty(CHOROPLETH_LAYER, 'visibility', layer === 'choropleth' ? 'visible' : 'none')
+      }
+
+      updateLayerData(mapInstance, layer, densityRef.current, countryCountsRef.current, normalizeRef.current)
+    }
+
+    return whenMapReady(mapInstance, apply)
+  }, [map, layer, densityRef, countryCountsRef])
+
+  /**
+   * Refresh the visible layer when the filtered data or normalization changes
+   */
+  useEffect(() => {
+    const mapInstance = map.current
+    if (!mapInstance || layer === 'none') return
+
+    updateLayerData(mapInstance, layer, densityRef.current, countryCountsRef.current, normalizeByArea)
+  }, [map, layer, normalizeByArea, densityVersion, densityRef, countryCountsRef])
+}
@@ -0,0 +1,163 @@
+/**
+ * Hook for "My list" - favorite movies and filming locations, and visited locations (localStorage)
+ * Shared between components like the trip: changes are broadcast with a window
+ * event, and other tabs pick them up through the storage event.
+ */
+
+import { useCallback, useEffect, useState } from 'react'
+import type { Movie, FavoriteLocation, VisitedLocation } from '../types'
+import { EMPTY_FAVORITES, mergeFavorites, parseFavorites, type Favorites } from '../utils/favorites'
+import { getSpotId } from '../utils/map/coordinateUtils'
+
+const STORAGE_KEY = 'filmingmap_favorites'
+const CHANGE_EVENT = 'filmingmapFavoritesChange'
+
+/**
+ * Load the list from localStorage
+ */
+function loadFavorites(): Favorites {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    if (stored) {
+      return parseFavorites(JSON.parse(stored))
+    }
+  } catch (error) {
+    console.warn('Failed to load favorites from localStorage:', error)
+  }
+  return EMPTY_FAVORITES
+}
+
+/**
+ * Save the list to localStorage and let the other components know
+ */
+function saveFavorites(favorites: Favorites): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(favorites))
+  } catch (error) {
+    console.warn('Failed to save favorites to localStorage:', error)
+  }
+  window.dispatchEvent(new Event(CHANGE_EVENT))
+}
+
+/**
+ * Hook to manage the saved favorites
+ */
+export function useFavorites() {
+  const [favorites, setFavorites] = useState<Favorites>(EMPTY_FAVORITES)
+
+  // Load on mount, then follow changes from other components and tabs
+  useEffect(() => {
+    const reload = () => setFavorites(loadFavorites())
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key === STORAGE_KEY) reload()
+    }
+
+    reload()
+    window.addEventListener(CHANGE_EVENT, reload)
+    window.addEventListener('storage', handleStorage)
+    return () => {
+      window.removeEventListener(CHANGE_EVENT, reload)
+      window.removeEventListener('storage', handleStorage)
+    }
+  }, [])
+
+  const updateFavorites = useCallback((update: (favorites: Favorites) => Favorites) => {
+    const current = loadFavorites()
+    const next = update(current)
+    if (next !== current) {
+      saveFavorites({ ...next, updatedAt: new Date().toISOString() })
+    }
+  }, [])
+
+  const toggleMovie = useCallback((movie: Pick<Movie, 'movie_id' | 'title' | 'year' | 'poster'>) => {
+    updateFavorites(current => current.movies.some(m => m.movieId === movie.movie_id)
+      ? { ...current, movies: current.movies.filter(m => m.movieId !== movie.movie_id) }
+      : {
+          ...current,
+          movies: [...current.movies, {
+            movieId: movie.movie_id,
+            title: movie.title,
+            year: movie.year,
+            ...(movie.poster && { poster: movie.poster }),
+            addedAt: new Date().toISOString(),
+          }],
+        })
+  }, [updateFavorites])
+
+  const removeMovie = useCallback((movieId: string) => {
+    updateFavorites(current => ({ ...current, movies: current.movies.filter(m => m.movieId !== movieId) }))
+  }, [updateFavorites])
+
+  const toggleLocation = useCallback((location: Omit<FavoriteLocation, 'id' | 'addedAt'>) => {
+    const id = getSpotId(location.lat, location.lng)
+    updateFavorites(current => current.locations.some(l => l.id === id)
+      ? { ...current, locations: current.locations.filter(l => l.id !== id) }
+      : { ...current, locations: [...current.locations, { ...location, id, addedAt: new Date().toISOString() }] })
+  }, [updateFavorites])
+
+  const removeLocation = useCallback((id: string) => {
+    updateFavorites(current => ({ ...current, locations: current.locations.filter(l => l.id !== id) }))
+  }, [updateFavorites])
+
+  const toggleVisited = useCallback((location: Omit<VisitedLocation, 'id' | 'visitedAt'>) => {
+    const id = getSpotId(location.lat, location.lng)
+    updateFavorites(current => current.visited.some(l => l.id === id)
+      ? { ...current, visited: current.visited.filter(l => l.id !== id) }
+      : { ...current, visited: [...current.visited, { ...location, id, visitedAt: new Date().toISOString() }] })
+  }, [updateFavorites])
+
+  const removeVisited = useCallback((id: string) => {
+    updateFavorites(current => ({ ...current, visited: current.visited.filter(l => l.id !== id) }))
+  }, [updateFavorites])
+
+  /**
+   * Merge an exported list into this one - returns how many entries were new
+   * Throws when the file isn't a valid list.
+   */
+  const importFavorites = useCallback((json: string) => {
+    const imported = parseFavorites(JSON.parse(json))
+    const current = loadFavorites()
+    const merged = mergeFavorites(current, imported)
+    saveFavorites(merged)
+
+    return {
+      movies: merged.movies.length - current.movies.length,
+      locations: merged.locations.length - current.locations.length,
+      visited: merged.visited.length - current.visited.length,
+    }
+  }, [])
+
+  // Visited locations are kept - they're removed one by one in the passport
+  const clearFavorites = useCallback(() => {
+    updateFavorites(current => ({ ...EMPTY_FAVORITES, visited: current.visited }))
+  }, [updateFavorites])
+
+  const isFavoriteMovie = useCallback((movieId: string) => {
+    return favorites.movies.some(m => m.movieId === movieId)
+  }, [favorites])
+
+  const isFavoriteLocation = useCallback((lat: number, lng: number) => {
+    const id = getSpotId(lat, lng)
+    return favorites.locations.some(l => l.id === id)
+  }, [favorites])
+
+  const isVisited = useCallback((lat: number, lng: number) => {
+    const id = getSpotId(lat, lng)
+    return favorites.visited.some(l => l.id === id)
+  }, [favorites])
+
+  return {
+    favorites,
+    toggleMovie,
+    removeMovie,
+    toggleLocation,
+    removeLocation,
+    importFavorites,
+    clearFavorites,
+    isFavoriteMovie,
+    isFavoriteLocation,
+    toggleVisited,
+    removeVisited,
+    isVisited,
+  }
+}
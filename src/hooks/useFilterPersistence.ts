@@ -1,9 +1,11 @@
 /**
- * Hook for persisting filter state to localStorage
+ * Hook for persisting filter state to localStorage and the URL
+ * Filters in the URL (shared links) take precedence over saved ones
  */
 
 import { useEffect, useState } from 'react'
 import type { FilterState } from '../types'
+import { readFiltersFromUrl, replaceUrlParams, setFilterParams } from '../utils/urlState'
 
 const STORAGE_KEY = 'filmingmap_filters'
 const VISITED_KEY = 'filmingmap_visited'
@@ -89,24 +91,46 @@ export function useFilterPersistence() {
     const visited = hasVisitedBefore()
     setIsFirstVisit(!visited)
 
-    if (visited) {
+    let initialFilters: FilterState
+    const urlFilters = readFiltersFromUrl(DEFAULT_FILTERS)
+    if (urlFilters) {
+      // Shared link - use its filters
+      initialFilters = urlFilters
+      if (!visited) markAsVisited()
+    } else if (visited) {
       // Returning user - load their saved filters
-      const savedFilters = loadFilters()
-      setFiltersState(savedFilters)
+      initialFilters = loadFilters()
     } else {
       // First-time user - use defaults (TOP 250 active)
-      setFiltersState(DEFAULT_FILTERS)
+      initialFilters = DEFAULT_FILTERS
       markAsVisited()
     }
 
+    setFiltersState(initialFilters)
+    // Reflect the active filters in the URL so it can be shared as-is
+    replaceUrlParams(params => setFilterParams(params, initialFilters))
     setIsInitialized(true)
   }, [])
 
+  // Re-apply filters from the URL on back/forward navigation
+  useEffect(() => {
+    const handlePopState = () => {
+      const urlFilters = readFiltersFromUrl(DEFAULT_FILTERS)
+      if (urlFilters) {
+        setFiltersState(urlFilters)
+      }
+    }
+
+    window.addEventListener('popstate', handlePopState)
+    return () => window.removeEventListener('popstate', handlePopState)
+  }, [])
+
   // Save filters whenever they change (but only after initialization)
   const setFilters = (newFilters: FilterState) => {
     setFiltersState(newFilters)
     if (isInitialized) {
       saveFilters(newFilters)
+      replaceUrlParams(params => setFilterParams(params, newFilters))
     }
   }
 
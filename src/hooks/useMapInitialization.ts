@@ -1,9 +1,12 @@
 /**
  * Hook for initializing MapLibre GL map with globe projection
+ * The camera is restored from the URL (shared links) or localStorage
  */
 
 import { useEffect, useRef, MutableRefObject } from 'react'
 import maplibregl from 'maplibre-gl'
+import { readCameraFromUrl, replaceUrlParams, setCameraParams } from '../utils/urlState'
+import { trackMapLoad } from '../utils/map/mapReady'
 
 interface UseMapInitializationProps {
   mapContainer: MutableRefObject<HTMLDivElement | null>
@@ -15,16 +18,21 @@ export function useMapInitialization({ mapContainer }: UseMapInitializationProps
   useEffect(() => {
     if (!mapContainer.current || map.current) return
 
+    const urlCamera = readCameraFromUrl()
+
     map.current = new maplibregl.Map({
       container: mapContainer.current,
       style: 'https://api.maptiler.com/maps/streets-v4/style.json?key=q4aOhsVX264foFexJ7ga',
-      zoom: 2.5,
-      center: [0.35, 43], // Centered on Europe
+      zoom: urlCamera?.zoom ?? 2.5,
+      center: urlCamera?.center ?? [0.35, 43], // Centered on Europe
+      pitch: urlCamera?.pitch ?? 0,
+      bearing: urlCamera?.bearing ?? 0,
       maxPitch: 85,
       refreshExpiredTiles: false,
       fadeDuration: 150,
       renderWorldCopies: false
     })
+    trackMapLoad(map.current)
 
     map.current.on('style.load', () => {
       if (map.current) {
@@ -33,8 +41,8 @@ export function useMapInitialization({ mapContainer }: UseMapInitializationProps
           type: 'globe',
         })
 
-        // Restore center position from localStorage
-        if (typeof window !== 'undefined') {
+        // Restore center position from localStorage (a camera in the URL wins)
+        if (typeof window !== 'undefined' && !urlCamera) {
           const savedState = localStorage.getItem('filmingmap_view')
           if (savedState) {
             try {
@@ -59,6 +67,14 @@ export function useMapInitialization({ mapContainer }: UseMapInitializationProps
         lng: center.lng,
         zoom: zoom
       }))
+
+      // Keep the URL shareable
+      replaceUrlParams(params => setCameraParams(params, {
+        center: [center.lng, center.lat],
+        zoom,
+        pitch: map.current!.getPitch(),
+        bearing: map.current!.getBearing()
+      }))
     }
 
     map.current.on('moveend', () => {
@@ -1,24 +1,32 @@
 /**
  * Hook for managing map markers - initialization, filtering, and updates
+ * Tile loading, filtering and feature preparation run in the map data worker;
+ * this hook feeds it camera / filter changes and renders what comes back.
  */
 
 import { useEffect, useRef, useState, useCallback } from 'react'
 import maplibregl from 'maplibre-gl'
 import type { Movie, FilterState } from '../types'
 import type { GeoJSONFeature } from '../utils/map/geoJsonHelpers'
-import { convertFeatureToMovie, createGeoJSONCollection } from '../utils/map/geoJsonHelpers'
-import { applySpiralOffset, flattenMultiPointFeatures } from '../utils/map/coordinateUtils'
+import type { ViewportBounds } from '../utils/map/tileLoader'
+import type { MapDataRequest, MapDataResponse } from '../workers/mapDataProtocol'
 import { createPosterIcon } from '../utils/map/markerCreation'
+import { removeTimelineHighlight } from '../utils/map/timelineLayers'
 import { usePosterLoading } from './usePosterLoading'
-// import { useClickableRegions } from './useClickableRegions' // DISABLED: Not showing regions on globe
 import { useMarkerInteractions } from './useMarkerInteractions'
-import { filterMovies } from '../utils/helpers'
+import { useMarkerClusters, CLUSTER_OPTIONS } from './useMarkerClusters'
+
+// Below this zoom the globe shows a whole hemisphere, so load tiles for the whole world
+const FULL_GLOBE_ZOOM = 3
+const WORLD_BOUNDS: ViewportBounds = { west: -180, south: -90, east: 180, north: 90 }
 
 interface UseMapMarkersProps {
   map: React.MutableRefObject<maplibregl.Map | null>
   onMovieSelect: (movie: Movie | null) => void
   filters: FilterState
   focusedMovieId?: string | null
+  placeArea?: [number, number, number, number] | null
+  withDensity?: boolean // Heatmap / choropleth shown - the worker then sends density data
   onClearFocus?: () => void
   convertGeoJSONToMovie?: (feature: any) => Promise<Movie>
 }
@@ -28,6 +36,8 @@ export function useMapMarkers({
   onMovieSelect,
   filters,
   focusedMovieId,
+  placeArea,
+  withDensity = false,
   onClearFocus,
   convertGeoJSONToMovie
 }: UseMapMarkersProps) {
@@ -39,9 +49,22 @@ export function useMapMarkers({
     stage: 'Initializing...'
   })
   const initializedRef = useRef<boolean>(false)
-
-  const { loadVisiblePosters, imageCacheRef } = usePosterLoading()
-  // const { addClickableRegions, setupRegionHover, setupRegionClick } = useClickableRegions() // DISABLED
+  const workerRef = useRef<Worker | null>(null)
+  // Latest render-ready collection from the worker; renderVersion bumps when it changes
+  const collectionRef = useRef<GeoJSON.FeatureCollection | null>(null)
+  const [renderVersion, setRenderVersion] = useState(0)
+  // Latest density data (every filtered location); densityVersion bumps when it changes
+  const densityRef = useRef<GeoJSON.FeatureCollection | null>(null)
+  const countryCountsRef = useRef<Record<string, number>>({})
+  const [densityVersion, setDensityVersion] = useState(0)
+  const appliedVersionRef = useRef<number>(0)
+  const markersStartedRef = useRef<boolean>(false)
+  const filterVersionRef = useRef<number>(0)
+
+  const { loadVisiblePosters, drawPosterIcon, imageCacheRef } = usePosterLoading()
+  const { addClusterLayer, setupClusterIcons, setupClusterClick, resetClusterIcons } = useMarkerClusters({
+    drawPosterIcon
+  })
   const { setupMarkerClick, setupMarkerHover } = useMarkerInteractions({
     geojsonFeatures,
     onMovieSelect,
@@ -50,46 +73,122 @@ export function useMapMarkers({
     convertGeoJSONToMovie
   })
 
+  const postToWorker = useCallback((message: MapDataRequest) => {
+    workerRef.current?.postMessage(message)
+  }, [])
+
   /**
-   * Load movies data and GeoJSON
+   * Start the map data worker and load the movie catalogue
    */
   useEffect(() => {
-    const loadData = async () => {
-      try {
-        const geojsonResponse = await fetch('/geo/movies.geojson')
-        const geojsonData = await geojsonResponse.json()
+    const worker = new Worker(new URL('../workers/mapData.worker.ts', import.meta.url))
+    workerRef.current = worker
+
+    worker.onmessage = (event: MessageEvent<MapDataResponse>) => {
+      const message = event.data
+
+      switch (message.type) {
+        case 'progress':
+          if (!initializedRef.current) {
+            setLoadingState({ isLoading: true, progress: message.progress, stage: message.stage })
+          }
+          break
+        case 'catalog':
+          setMovies(message.movies)
+          break
+        case 'tiles':
+          setGeojsonFeatures(prev => [...prev, ...message.features])
+          break
+        case 'render':
+          // Drop results computed for filters that have since changed
+          if (message.version < filterVersionRef.current) return
+          collectionRef.current = message.collection
+          setRenderVersion(v => v + 1)
+          break
+        case 'density':
+          if (message.version < filterVersionRef.current) return
+          densityRef.current = message.collection
+          countryCountsRef.current = message.countryCounts
+          setDensityVersion(v => v + 1)
+          break
+        case 'error':
+          console.error(message.message)
+          break
+      }
+    }
 
-        setGeojsonFeatures(geojsonData.features)
+    worker.onerror = (error) => {
+      console.error('Map data worker failed:', error)
+    }
 
-        const moviesFromGeoJSON: Movie[] = geojsonData.features.map(convertFeatureToMovie)
-        setMovies(moviesFromGeoJSON)
-      } catch (error) {
-        console.error('Failed to load data:', error)
-      }
+    worker.postMessage({ type: 'init' } satisfies MapDataRequest)
+
+    return () => {
+      worker.terminate()
+      workerRef.current = null
     }
-    loadData()
   }, [])
 
   /**
-   * Initialize markers on the map
+   * Send filter, focus and place area changes to the worker
    */
-  const initializeMarkers = useCallback(async () => {
-    if (!map.current || geojsonFeatures.length === 0 || movies.length === 0) return
-    if (initializedRef.current || map.current.getSource('movies')) return
+  useEffect(() => {
+    filterVersionRef.current++
+    postToWorker({
+      type: 'filter',
+      version: filterVersionRef.current,
+      filters,
+      focusedMovieId: focusedMovieId || null,
+      area: placeArea || null
+    })
+  }, [filters, focusedMovieId, placeArea, postToWorker])
+
+  /**
+   * Density data is only built while the heatmap or choropleth is shown
+   */
+  useEffect(() => {
+    postToWorker({ type: 'density', enabled: withDensity })
+  }, [withDensity, postToWorker])
+
+  /**
+   * Ask the worker for the tiles intersecting the viewport
+   * Re-runs after every camera move; the worker skips already loaded tiles
+   */
+  useEffect(() => {
+    const mapInstance = map.current
+    if (!mapInstance) return
 
-    // Apply filters to initial data
-    const filteredMovies = filterMovies(movies, filters)
-    const filteredIds = new Set(filteredMovies.map(m => m.movie_id))
-    const allFeatures = geojsonFeatures.filter(f => filteredIds.has(f.properties.movie_id))
+    const requestVisibleTiles = () => {
+      const zoom = mapInstance.getZoom()
+      const mapBounds = mapInstance.getBounds()
+      const bounds: ViewportBounds = zoom < FULL_GLOBE_ZOOM
+        ? WORLD_BOUNDS
+        : { west: mapBounds.getWest(), south: mapBounds.getSouth(), east: mapBounds.getEast(), north: mapBounds.getNorth() }
 
-    // Convert MultiPoint features into individual Point features
-    let displayFeatures = flattenMultiPointFeatures(allFeatures)
+      postToWorker({ type: 'viewport', bounds, zoom })
+    }
+
+    let moveTimeout: NodeJS.Timeout
+    const handleMoveEnd = () => {
+      clearTimeout(moveTimeout)
+      moveTimeout = setTimeout(requestVisibleTiles, 150)
+    }
 
-    // Apply spiral offset to overlapping markers
-    displayFeatures = applySpiralOffset(displayFeatures)
+    requestVisibleTiles()
+    mapInstance.on('moveend', handleMoveEnd)
 
-    // Create GeoJSON for display
-    const geojson = createGeoJSONCollection(displayFeatures)
+    return () => {
+      clearTimeout(moveTimeout)
+      mapInstance.off('moveend', handleMoveEnd)
+    }
+  }, [map, postToWorker])
+
+  /**
+   * Initialize markers on the map
+   */
+  const initializeMarkers = useCallback(async () => {
+    if (!map.current || !collectionRef.current) return
+    if (initializedRef.current || map.current.getSource('movies')) return
 
     // Show loading state
     if (!initializedRef.current) {
@@ -117,8 +216,9 @@ export function useMapMarkers({
       if (!map.current.getSource('movies')) {
         map.current.addSource('movies', {
           type: 'geojson',
-          data: geojson,
-          cluster: false,
+          // Read the collection only now - newer data may have arrived while awaiting
+          data: collectionRef.current,
+          ...CLUSTER_OPTIONS,
         })
       }
     } catch (error) {
@@ -126,10 +226,14 @@ export function useMapMarkers({
       console.debug('Movies source already exists, skipping creation')
     }
 
+    // Cluster icons are generated on demand, so listen before any cluster renders
+    setupClusterIcons(map.current)
+
     map.current.addLayer({
       id: 'movie-markers',
       type: 'symbol',
       source: 'movies',
+      filter: ['!', ['has', 'point_count']],
       layout: {
         'icon-image': fallbackIconName,
         'icon-size': 0.7,
@@ -152,10 +256,7 @@ export function useMapMarkers({
       }
     })
 
-    // Add clickable regions - DISABLED: Regions still exist but not displayed on globe
-    // await addClickableRegions(map.current)
-    // setupRegionHover(map.current)
-    // setupRegionClick(map.current)
+    addClusterLayer(map.current)
 
     // Hide loading screen
     if (!initializedRef.current) {
@@ -168,7 +269,7 @@ export function useMapMarkers({
     // Setup lazy loading of posters
     const loadPosters = async () => {
       if (!map.current) return
-      await loadVisiblePosters(map.current, allFeatures, fallbackIconName)
+      await loadVisiblePosters(map.current, geojsonFeatures, fallbackIconName)
     }
 
     loadPosters()
@@ -184,81 +285,69 @@ export function useMapMarkers({
     // Setup interactions
     setupMarkerClick(map.current)
     setupMarkerHover(map.current)
+    setupClusterClick(map.current)
   }, [
     map,
     geojsonFeatures,
-    movies,
-    filters,
     imageCacheRef,
     loadVisiblePosters,
-    // addClickableRegions, // DISABLED
-    // setupRegionHover, // DISABLED
-    // setupRegionClick, // DISABLED
     setupMarkerClick,
-    setupMarkerHover
+    setupMarkerHover,
+    addClusterLayer,
+    setupClusterIcons,
+    setupClusterClick
   ])
 
   /**
-   * Initialize markers when data is loaded
+   * Render each collection from the worker - create the source on the first one,
+   * replace its data afterwards
    */
   useEffect(() => {
-    if (!map.current || geojsonFeatures.length === 0 || movies.length === 0) return
-
-    if (!map.current.isStyleLoaded()) {
-      map.current.on('load', () => {
-        initializeMarkers()
-      })
-    } else {
-      initializeMarkers()
-    }
-  }, [map, geojsonFeatures, movies, initializeMarkers])
-
-  /**
-   * Update visible markers based on filters and focus
-   */
-  useEffect(() => {
-    if (!map.current || !map.current.getSource('movies')) return
-
-    let filteredFeatures: GeoJSONFeature[]
-
-    if (focusedMovieId) {
-      filteredFeatures = geojsonFeatures.filter(f => f.properties.movie_id === focusedMovieId)
-    } else {
-      // Only apply filters if movies have been loaded
-      if (movies.length > 0) {
-        const filteredMovies = filterMovies(movies, filters)
-        const filteredIds = new Set(filteredMovies.map(m => m.movie_id))
-        filteredFeatures = geojsonFeatures.filter(f => filteredIds.has(f.properties.movie_id))
+    if (!map.current || !collectionRef.current) return
+    if (appliedVersionRef.current === renderVersion) return
+
+    if (!map.current.getSource('movies')) {
+      // Initialization picks up the latest collection when it creates the source
+      if (markersStartedRef.current) return
+      markersStartedRef.current = true
+      appliedVersionRef.current = renderVersion
+
+      if (!map.current.isStyleLoaded()) {
+        map.current.once('load', () => {
+          initializeMarkers()
+        })
       } else {
-        // Movies not loaded yet, show empty array to avoid showing all markers
-        filteredFeatures = []
+        initializeMarkers()
       }
+      return
     }
 
-    // Convert and update
-    let displayFeatures = flattenMultiPointFeatures(filteredFeatures)
-    const geojson = createGeoJSONCollection(displayFeatures)
+    appliedVersionRef.current = renderVersion
 
     const source = map.current.getSource('movies') as maplibregl.GeoJSONSource
     if (source && source.setData) {
-      source.setData(geojson)
+      source.setData(collectionRef.current)
+      resetClusterIcons(map.current)
 
       // Reload posters after data update to ensure icons are displayed
-      setTimeout(async () => {
+      const posterTimeout = setTimeout(async () => {
         if (map.current && initializedRef.current) {
           await loadVisiblePosters(map.current, geojsonFeatures, 'poster-fallback')
         }
       }, 100)
+
+      return () => clearTimeout(posterTimeout)
     }
-  }, [map, geojsonFeatures, movies, filters, focusedMovieId, loadVisiblePosters, initializedRef])
+  }, [map, renderVersion, geojsonFeatures, initializeMarkers, loadVisiblePosters, resetClusterIcons, initializedRef])
 
   /**
-   * Clear connecting lines when focus is removed
+   * Clear connecting lines (and timeline highlight) when focus is removed
    */
   useEffect(() => {
     if (!map.current) return
 
     if (!focusedMovieId) {
+      removeTimelineHighlight(map.current)
       if (map.current.getLayer('connecting-line')) {
         map.current.removeLayer('connecting-line')
       }
@@ -272,6 +361,13 @@ export function useMapMarkers({
     movies,
     geojsonFeatures,
     loadingState,
-    initializedRef
+    initializedRef,
+    // Filtered data behind the markers
+    collectionRef,
+    renderVersion,
+    // Every filtered location, for the density layers
+    densityRef,
+    countryCountsRef,
+    densityVersion
   }
 }
@@ -0,0 +1,174 @@
+/**
+ * Hook for managing marker clusters on the map
+ * Clustering itself runs in MapLibre's GeoJSON worker (source option `cluster: true`);
+ * this hook adds the cluster layer, builds poster-collage icons and handles clicks
+ */
+
+import { useRef, useCallback } from 'react'
+import type maplibregl from 'maplibre-gl'
+import { createClusterIcon, createClusterPlaceholderIcon } from '../utils/map/markerCreation'
+import { isMapPicking } from '../utils/map/mapPick'
+
+// Cluster settings for the 'movies' source
+export const CLUSTER_OPTIONS = {
+  cluster: true,
+  clusterRadius: 60,
+  clusterMaxZoom: 14,
+}
+
+const CLUSTER_ICON_PREFIX = 'cluster-collage-'
+const COLLAGE_POSTER_COUNT = 4
+
+interface UseMarkerClustersProps {
+  drawPosterIcon: (
+    ctx: CanvasRenderingContext2D,
+    movieId: string,
+    x: number,
+    y: number,
+    width: number,
+    height: number
+  ) => Promise<boolean>
+}
+
+export function useMarkerClusters({ drawPosterIcon }: UseMarkerClustersProps) {
+  const clusterIconsRef = useRef<Set<string>>(new Set())
+  // Bumped whenever the source data changes (cluster ids are only stable per data version)
+  const iconGenerationRef = useRef<number>(0)
+
+  /**
+   * Add the cluster layer (clusters are hidden from 'movie-markers' by its filter)
+   */
+  const addClusterLayer = useCallback((map: maplibregl.Map) => {
+    if (map.getLayer('movie-clusters')) return
+
+    map.addLayer({
+      id: 'movie-clusters',
+      type: 'symbol',
+      source: 'movies',
+      filter: ['has', 'point_count'],
+      layout: {
+        // Image id carries cluster id and count so a missing icon can be built from its name
+        'icon-image': [
+          'concat',
+          CLUSTER_ICON_PREFIX,
+          ['to-string', ['get', 'cluster_id']],
+          '-',
+          ['to-string', ['get', 'point_count']]
+        ],
+        'icon-size': 0.85,
+        'icon-allow-overlap': true,
+        'icon-ignore-placement': true
+      }
+    })
+  }, [])
+
+  /**
+   * Pick the top-rated distinct movies in a cluster for its collage
+   */
+  const getCollageMovieIds = useCallback(async (
+    source: maplibregl.GeoJSONSource,
+    clusterId: number,
+    pointCount: number
+  ): Promise<string[]> => {
+    const leaves = await source.getClusterLeaves(clusterId, pointCount, 0)
+    const bestRating = new Map<string, number>()
+
+    leaves.forEach(leaf => {
+      const movieId = leaf.properties?.movie_id
+      if (!movieId) return
+      const rating = leaf.properties?.imdb_rating || 0
+      if (!bestRating.has(movieId) || rating > bestRating.get(movieId)!) {
+        bestRating.set(movieId, rating)
+      }
+    })
+
+    return Array.from(bestRating.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, COLLAGE_POSTER_COUNT)
+      .map(([movieId]) => movieId)
+  }, [])
+
+  /**
+   * Build cluster icons on demand
+   * A placeholder is added synchronously, then replaced by the poster collage
+   */
+  const setupClusterIcons = useCallback((map: maplibregl.Map) => {
+    map.on('styleimagemissing', (e: { id: string }) => {
+      if (!e.id.startsWith(CLUSTER_ICON_PREFIX)) return
+
+      const iconName = e.id
+      const [clusterId, pointCount] = iconName.slice(CLUSTER_ICON_PREFIX.length).split('-').map(Number)
+      const generation = iconGenerationRef.current
+
+      map.addImage(iconName, createClusterPlaceholderIcon(pointCount))
+      clusterIconsRef.current.add(iconName)
+
+      const source = map.getSource('movies') as maplibregl.GeoJSONSource | undefined
+      if (!source) return
+
+      getCollageMovieIds(source, clusterId, pointCount)
+        .then(movieIds => createClusterIcon(pointCount, movieIds, drawPosterIcon))
+        .then(icon => {
+          // Skip if the data changed while the collage was being drawn
+          if (generation !== iconGenerationRef.current || !map.hasImage(iconName)) return
+          map.updateImage(iconName, icon)
+        })
+        .catch(error => {
+          console.debug('Cluster collage skipped:', error)
+        })
+    })
+  }, [getCollageMovieIds, drawPosterIcon])
+
+  /**
+   * Drop cluster icons after the source data changes (cluster ids get reused)
+   */
+  const resetClusterIcons = useCallback((map: maplibregl.Map) => {
+    iconGenerationRef.current++
+    clusterIconsRef.current.forEach(iconName => {
+      if (map.hasImage(iconName)) {
+        map.removeImage(iconName)
+      }
+    })
+    clusterIconsRef.current.clear()
+  }, [])
+
+  /**
+   * Zoom into a cluster on click
+   */
+  const setupClusterClick = useCallback((map: maplibregl.Map) => {
+    map.on('click', 'movie-clusters', async (e: any) => {
+      if (isMapPicking(map)) return
+      const feature = e.features?.[0]
+      if (!feature) return
+
+      const source = map.getSource('movies') as maplibregl.GeoJSONSource | undefined
+      if (!source) return
+
+      try {
+        const zoom = await source.getClusterExpansionZoom(feature.properties.cluster_id)
+        map.easeTo({
+          center: (feature.geometry as any).coordinates,
+          zoom: Math.min(zoom, map.getMaxZoom()),
+          duration: 600
+        })
+      } catch (error) {
+        console.error('Failed to expand cluster:', error)
+      }
+    })
+
+    map.on('mouseenter', 'movie-clusters', () => {
+      map.getCanvas().style.cursor = 'pointer'
+    })
+
+    map.on('mouseleave', 'movie-clusters', () => {
+      map.getCanvas().style.cursor = ''
+    })
+  }, [])
+
+  return {
+    addClusterLayer,
+    setupClusterIcons,
+    setupClusterClick,
+    resetClusterIcons
+  }
+}
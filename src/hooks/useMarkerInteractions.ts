@@ -6,6 +6,9 @@ import { useRef, useCallback } from 'react'
 import maplibregl from 'maplibre-gl'
 import type { Movie } from '../types'
 import type { GeoJSONFeature } from '../utils/map/geoJsonHelpers'
+import { prefetchMovieDetail } from '../utils/movieDetailLoader'
+import { isMapPicking } from '../utils/map/mapPick'
+import { useSpiderfy, SPIDERFY_LAYER } from './useSpiderfy'
 
 interface UseMarkerInteractionsProps {
   geojsonFeatures: GeoJSONFeature[]
@@ -22,17 +25,78 @@ export function useMarkerInteractions({
   onClearFocus,
   convertGeoJSONToMovie
 }: UseMarkerInteractionsProps) {
-  const lastClickedLocationRef = useRef<string | null>(null)
-  const clickCycleIndexRef = useRef<number>(0)
   const popupRef = useRef<maplibregl.Popup | null>(null)
 
+  // Handlers are registered once, but features keep arriving as map tiles load
+  const geojsonFeaturesRef = useRef<GeoJSONFeature[]>(geojsonFeatures)
+  geojsonFeaturesRef.current = geojsonFeatures
+
+  const { spiderfy, collapse, isSpiderfied, setupSpiderfyCollapse } = useSpiderfy()
+
   /**
-   * Setup marker click handler with overlap cycling
+   * Open the detail view for a clicked marker
+   * coordinates are the marker's true position, used to find which location was clicked
+   */
+  const selectFeature = useCallback(async (feature: any, coordinates: [number, number]) => {
+    const [clickedLng, clickedLat] = coordinates
+
+    // Try to find in geojsonFeatures by movie_id
+    const featureByMovieId = geojsonFeaturesRef.current.find(f => f.properties.movie_id === feature.properties.movie_id)
+
+    if (featureByMovieId && convertGeoJSONToMovie) {
+      // Use the async converter to get full movie data with scenes
+      const movieFromFeature = await convertGeoJSONToMovie(featureByMovieId)
+
+      // Find which location was clicked by matching coordinates (tolerance of 0.001 degrees ~111m)
+      const clickedLocationIndex = movieFromFeature.locations.findIndex(loc => {
+        const latDiff = Math.abs(loc.lat - clickedLat)
+        const lngDiff = Math.abs(loc.lng - clickedLng)
+        return latDiff < 0.001 && lngDiff < 0.001
+      })
+
+      // Add clicked location index to movie object
+      const movieWithClickedLocation = {
+        ...movieFromFeature,
+        clickedLocationIndex: clickedLocationIndex >= 0 ? clickedLocationIndex : undefined
+      }
+
+      onMovieSelect(movieWithClickedLocation)
+    } else if (featureByMovieId) {
+      // Fallback: create basic movie from GeoJSON properties (without scenes)
+      const movieFromClick = {
+        movie_id: feature.properties.movie_id,
+        title: feature.properties.title,
+        year: feature.properties.year,
+        imdb_id: feature.properties.movie_id,
+        tmdb_id: String(feature.properties.tmdb_id),
+        genres: feature.properties.genres || (feature.properties.top_genre ? [feature.properties.top_genre] : []),
+        poster: feature.properties.poster || undefined,
+        trailer: feature.properties.trailer || undefined,
+        imdb_rating: feature.properties.imdb_rating || undefined,
+        locations: [{
+          lat: 0,
+          lng: 0,
+          city: 'Unknown',
+          country: 'Unknown',
+        }],
+      }
+      onMovieSelect(movieFromClick as Movie)
+    }
+  }, [onMovieSelect, convertGeoJSONToMovie])
+
+  /**
+   * Setup marker click handler
+   * A single marker opens its movie; a stack of overlapping markers is spiderfied
    */
   const setupMarkerClick = useCallback((map: maplibregl.Map) => {
-    const handleMarkerClick = async (e: any) => {
+    const handleMarkerClick = (e: any) => {
+      // A nearby search is picking its origin - the click isn't for the marker
+      if (isMapPicking(map)) return
       if (!e.features || e.features.length === 0) return
 
+      // Expanded markers sit on top - their own handler deals with the click
+      if (map.getLayer(SPIDERFY_LAYER) && map.queryRenderedFeatures(e.point, { layers: [SPIDERFY_LAYER] }).length > 0) return
+
       // Get all features at click point (overlapping markers)
       const clickedFeatures = map.queryRenderedFeatures(e.point, {
         layers: ['movie-markers']
@@ -40,75 +104,52 @@ export function useMarkerInteractions({
 
       if (clickedFeatures.length === 0) return
 
-      // Create location key for this click
-      const firstFeature = clickedFeatures[0]
-      const [lng, lat] = firstFeature.geometry.type === 'Point'
-        ? (firstFeature.geometry as any).coordinates
-        : [0, 0]
-      const locationKey = `${lng.toFixed(4)}_${lat.toFixed(4)}`
+      const center = (clickedFeatures[0].geometry as any).coordinates as [number, number]
 
-      // Check if clicking same location again (cycle through)
-      if (lastClickedLocationRef.current === locationKey && clickedFeatures.length > 1) {
-        clickCycleIndexRef.current = (clickCycleIndexRef.current + 1) % clickedFeatures.length
-      } else {
-        // New location - reset cycle
-        lastClickedLocationRef.current = locationKey
-        clickCycleIndexRef.current = 0
+      if (clickedFeatures.length === 1) {
+        collapse(map)
+        selectFeature(clickedFeatures[0], center)
+        return
       }
 
-      const feature = clickedFeatures[clickCycleIndexRef.current]
-
-      // Get clicked coordinates
-      const [clickedLng, clickedLat] = (feature.geometry as any).coordinates
+      popupRef.current?.remove()
+      collapse(map, false)
+      spiderfy(map, center, clickedFeatures)
+    }
 
-      // Try to find in geojsonFeatures by movie_id
-      const featureByMovieId = geojsonFeatures.find(f => f.properties.movie_id === feature.properties.movie_id)
+    map.on('click', 'movie-markers', handleMarkerClick)
 
-      if (featureByMovieId && convertGeoJSONToMovie) {
-        // Use the async converter to get full movie data with scenes
-        const movieFromFeature = await convertGeoJSONToMovie(featureByMovieId)
+    // Select a marker from an expanded stack
+    map.on('click', SPIDERFY_LAYER, (e: any) => {
+      if (isMapPicking(map)) return
+      const feature = e.features?.[0]
+      if (!feature) return
 
-        // Find which location was clicked by matching coordinates (tolerance of 0.001 degrees ~111m)
-        const clickedLocationIndex = movieFromFeature.locations.findIndex(loc => {
-          const latDiff = Math.abs(loc.lat - clickedLat)
-          const lngDiff = Math.abs(loc.lng - clickedLng)
-          return latDiff < 0.001 && lngDiff < 0.001
-        })
+      collapse(map)
+      selectFeature(feature, [feature.properties._origin_lng, feature.properties._origin_lat])
+    })
 
-        // Add clicked location index to movie object
-        const movieWithClickedLocation = {
-          ...movieFromFeature,
-          clickedLocationIndex: clickedLocationIndex >= 0 ? clickedLocationIndex : undefined
-        }
+    map.on('mouseenter', SPIDERFY_LAYER, () => {
+      map.getCanvas().style.cursor = 'pointer'
+    })
 
-        onMovieSelect(movieWithClickedLocation)
-      } else if (featureByMovieId) {
-        // Fallback: create basic movie from GeoJSON properties (without scenes)
-        const movieFromClick = {
-          movie_id: feature.properties.movie_id,
-          title: feature.properties.title,
-          year: feature.properties.year,
-          imdb_id: feature.properties.movie_id,
-          tmdb_id: String(feature.properties.tmdb_id),
-          genres: feature.properties.genres || (feature.properties.top_genre ? [feature.properties.top_genre] : []),
-          poster: feature.properties.poster || undefined,
-          trailer: feature.properties.trailer || undefined,
-          imdb_rating: feature.properties.imdb_rating || undefined,
-          locations: [{
-            lat: 0,
-            lng: 0,
-            city: 'Unknown',
-            country: 'Unknown',
-          }],
-        }
-        onMovieSelect(movieFromClick as Movie)
-      }
-    }
+    map.on('mouseleave', SPIDERFY_LAYER, () => {
+      map.getCanvas().style.cursor = ''
+    })
 
-    map.on('click', 'movie-markers', handleMarkerClick)
+    setupSpiderfyCollapse(map)
 
     // Clear focus when clicking on empty map
     const handleMapClick = (e: any) => {
+      if (isMapPicking(map)) return
+
+      if (isSpiderfied()) {
+        const markerLayers = ['movie-markers', SPIDERFY_LAYER].filter(layer => map.getLayer(layer))
+        if (map.queryRenderedFeatures(e.point, { layers: markerLayers }).length === 0) {
+          collapse(map)
+        }
+      }
+
       if (!e.features || e.features.length === 0) {
         if (focusedMovieId && onClearFocus) {
           onClearFocus()
@@ -117,7 +158,7 @@ export function useMarkerInteractions({
     }
 
     map.on('click', handleMapClick)
-  }, [geojsonFeatures, onMovieSelect, focusedMovieId, onClearFocus, convertGeoJSONToMovie])
+  }, [focusedMovieId, onClearFocus, selectFeature, spiderfy, collapse, isSpiderfied, setupSpiderfyCollapse])
 
   /**
    * Setup marker hover tooltips
@@ -154,6 +195,8 @@ export function useMarkerInteractions({
       if (features.length === 1) {
         // Single movie - show detailed info with location and scene
         const movie = features[0].properties
+        // Start loading the detail file so the modal opens instantly on click
+        prefetchMovieDetail(movie.movie_id)
         const posterUrl = movie.poster || '/images/placeholder-poster.jpg'
 
         // Get location name - handle both array and string formats
@@ -377,7 +420,7 @@ export function useMarkerInteractions({
 
               // Get the feature and trigger movie selection directly
               const feature = features[0]
-              const featureByMovieId = geojsonFeatures.find(f => f.properties.movie_id === feature.properties.movie_id)
+              const featureByMovieId = geojsonFeaturesRef.current.find(f => f.properties.movie_id === feature.properties.movie_id)
 
               if (featureByMovieId && convertGeoJSONToMovie) {
                 const [lng, lat] = coordinates
@@ -475,7 +518,7 @@ export function useMarkerInteractions({
               justify-content: center;
               gap: 6px;
             ">
-              ✨ Zoom closer to select a movie
+              ✨ Click to expand and pick a movie
             </div>
           </div>
         `
@@ -510,7 +553,7 @@ export function useMarkerInteractions({
         }
       }, 100)
     })
-  }, [geojsonFeatures, onMovieSelect, convertGeoJSONToMovie])
+  }, [onMovieSelect, convertGeoJSONToMovie])
 
   return {
     setupMarkerClick,
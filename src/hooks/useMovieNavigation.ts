@@ -1,20 +1,18 @@
 /**
  * Hook for managing movie navigation and URL sync
  * Handles URL params, slug mapping, and browser history
- * OPTIMIZED: Caches GeoJSON data to prevent repeated fetches
+ * OPTIMIZED: Loads only the selected movie's detail file (LRU-cached)
  */
 
 import { useState, useEffect, useCallback, useRef } from 'react'
 import type { Movie } from '../types'
+import { loadMovieDetail } from '../utils/movieDetailLoader'
+import { readLocationIndexFromUrl } from '../utils/urlState'
 
 interface UseMovieNavigationProps {
   initialMovie?: Movie | null
 }
 
-// Global cache for GeoJSON data (shared across component instances)
-let cachedGeoJSON: any = null
-let cachePromise: Promise<any> | null = null
-
 export function useMovieNavigation({ initialMovie }: UseMovieNavigationProps) {
   const [selectedMovie, setSelectedMovie] = useState<Movie | null>(initialMovie || null)
   const [slugMap, setSlugMap] = useState<Record<string, string>>({})
@@ -36,67 +34,14 @@ export function useMovieNavigation({ initialMovie }: UseMovieNavigationProps) {
       .catch(err => console.error('Failed to load forward slug mapping:', err))
   }, [])
 
-  /**
-   * Load GeoJSON data with caching
-   */
-  const loadGeoJSON = useCallback(async () => {
-    // Return cached data if available
-    if (cachedGeoJSON) {
-      return cachedGeoJSON
-    }
-
-    // Wait for existing fetch if in progress
-    if (cachePromise) {
-      return cachePromise
-    }
-
-    // Start new fetch
-    cachePromise = fetch('/geo/movies.geojson')
-      .then(res => res.json())
-      .then(data => {
-        cachedGeoJSON = data
-        cachePromise = null
-        return data
-      })
-      .catch(error => {
-        cachePromise = null
-        throw error
-      })
-
-    return cachePromise
-  }, [])
-
   /**
    * Convert GeoJSON feature to Movie object with full location data
-   * ENHANCED: Loads full movie data from movies_enriched.json to get scene descriptions
+   * Loads the movie's detail file (a few KB, LRU-cached) to get scene descriptions
    */
   const convertGeoJSONToMovie = useCallback(async (feature: any): Promise<Movie> => {
-    // Try to load full movie data from movies_enriched.json
-    try {
-      const response = await fetch('/data/movies_enriched.json')
-      const allMovies = await response.json()
-      const fullMovie = allMovies.find((m: any) => m.imdb_id === feature.properties.movie_id)
-
-      if (fullMovie) {
-        // Return full movie data with all location details including scene_description
-        return {
-          movie_id: fullMovie.imdb_id,
-          title: fullMovie.title,
-          year: fullMovie.year,
-          imdb_id: fullMovie.imdb_id,
-          tmdb_id: String(fullMovie.tmdb_id),
-          type: fullMovie.type || 'movie',
-          genres: fullMovie.genres || [],
-          poster: fullMovie.poster || undefined,
-          thumbnail_52: fullMovie.thumbnail_52 || undefined,
-          banner_1280: fullMovie.banner_1280 || undefined,
-          trailer: fullMovie.trailer || undefined,
-          imdb_rating: fullMovie.imdb_rating || undefined,
-          locations: fullMovie.locations || [], // Full location data with scene_description
-        }
-      }
-    } catch (error) {
-      console.error('Failed to load full movie data, falling back to GeoJSON:', error)
+    const fullMovie = await loadMovieDetail(feature.properties.movie_id)
+    if (fullMovie) {
+      return fullMovie
     }
 
     // Fallback to GeoJSON data (without scene descriptions)
@@ -154,12 +99,16 @@ export function useMovieNavigation({ initialMovie }: UseMovieNavigationProps) {
           isFetchingRef.current = true
 
           try {
-            const geojsonData = await loadGeoJSON()
-            const feature = geojsonData.features.find((f: any) => f.properties.movie_id === movieId)
-
-            if (feature) {
-              const movie = await convertGeoJSONToMovie(feature) // AWAIT here
-              setSelectedMovie(movie)
+            const movie = await loadMovieDetail(movieId)
+            if (movie) {
+              // Restore the selected location from the URL (?loc=)
+              const locationIndex = readLocationIndexFromUrl()
+              setSelectedMovie({
+                ...movie,
+                clickedLocationIndex: locationIndex !== undefined && locationIndex < movie.locations.length
+                  ? locationIndex
+                  : undefined
+              })
             }
           } catch (error) {
             console.error('Failed to load movie:', error)
@@ -176,7 +125,7 @@ export function useMovieNavigation({ initialMovie }: UseMovieNavigationProps) {
 
     window.addEventListener('popstate', handleUrlChange)
     return () => window.removeEventListener('popstate', handleUrlChange)
-  }, [reverseSlugMap, convertGeoJSONToMovie, loadGeoJSON]) // Removed selectedMovie from dependencies
+  }, [reverseSlugMap]) // Removed selectedMovie from dependencies
 
   /**
    * Handle movie selection and URL updates
@@ -187,29 +136,23 @@ export function useMovieNavigation({ initialMovie }: UseMovieNavigationProps) {
       if (slug) {
         const url = new URL(window.location.href)
         url.searchParams.set('movie', slug)
+        if (movie.clickedLocationIndex !== undefined) {
+          url.searchParams.set('loc', String(movie.clickedLocationIndex))
+        } else {
+          url.searchParams.delete('loc')
+        }
         window.history.pushState({}, '', url.toString())
 
-        // Load full movie data with scenes from movies_enriched.json
-        try {
-          const geojsonData = await loadGeoJSON()
-          const feature = geojsonData.features.find((f: any) => f.properties.movie_id === movie.movie_id)
-
-          if (feature) {
-            const fullMovie = await convertGeoJSONToMovie(feature)
-
-            // PRESERVE clickedLocationIndex from the original movie object
-            const movieWithClickedIndex = {
-              ...fullMovie,
-              clickedLocationIndex: movie.clickedLocationIndex
-            }
-
-            setSelectedMovie(movieWithClickedIndex)
-          } else {
-            // Fallback to provided movie if feature not found
-            setSelectedMovie(movie)
-          }
-        } catch (error) {
-          console.error('Failed to load full movie data in handleMovieSelect:', error)
+        // Load full movie data with scenes from the movie's detail file
+        const fullMovie = await loadMovieDetail(movie.movie_id)
+        if (fullMovie) {
+          // PRESERVE clickedLocationIndex from the original movie object
+          setSelectedMovie({
+            ...fullMovie,
+            clickedLocationIndex: movie.clickedLocationIndex
+          })
+        } else {
+          // Fallback to provided movie if the detail file is unavailable
           setSelectedMovie(movie)
         }
       } else {
@@ -219,9 +162,10 @@ export function useMovieNavigation({ initialMovie }: UseMovieNavigationProps) {
       setSelectedMovie(null)
       const url = new URL(window.location.href)
       url.searchParams.delete('movie')
+      url.searchParams.delete('loc')
       window.history.pushState({}, '', url.toString())
     }
-  }, [slugMap, loadGeoJSON, convertGeoJSONToMovie])
+  }, [slugMap])
 
   /**
    * Close modal and clear URL params
@@ -230,6 +174,7 @@ export function useMovieNavigation({ initialMovie }: UseMovieNavigationProps) {
     setSelectedMovie(null)
     const url = new URL(window.location.href)
     url.searchParams.delete('movie')
+    url.searchParams.delete('loc')
     window.history.pushState({}, '', url.toString())
   }, [])
 
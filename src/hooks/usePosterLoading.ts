@@ -30,6 +30,7 @@ export function usePosterLoading() {
   const loadedImagesRef = useRef<Set<string>>(new Set())
   const spriteMetadataRef = useRef<SpriteMetadata | null>(null)
   const loadedSpritesRef = useRef<Set<string>>(new Set())
+  const spriteBitmapsRef = useRef<Map<string, Promise<ImageBitmap>>>(new Map())
 
   /**
    * Load sprite metadata
@@ -49,6 +50,22 @@ export function usePosterLoading() {
     return spriteMetadataRef.current
   }, [])
 
+  /**
+   * Fetch a sprite sheet as an ImageBitmap (cached, shared by markers and cluster collages)
+   */
+  const getSpriteBitmap = useCallback((spriteName: string): Promise<ImageBitmap> => {
+    const cached = spriteBitmapsRef.current.get(spriteName)
+    if (cached) return cached
+
+    const request = fetch(`/images/sprites/${spriteName}.png`)
+      .then(response => response.blob())
+      .then(blob => createImageBitmap(blob))
+
+    request.catch(() => spriteBitmapsRef.current.delete(spriteName))
+    spriteBitmapsRef.current.set(spriteName, request)
+    return request
+  }, [])
+
   /**
    * Load sprite sheet and extract icons
    */
@@ -60,12 +77,8 @@ export function usePosterLoading() {
     if (loadedSpritesRef.current.has(spriteName)) return
 
     try {
-      const spriteUrl = `/images/sprites/${spriteName}.png`
-
       // Load sprite image
-      const response = await fetch(spriteUrl)
-      const blob = await response.blob()
-      const imageBitmap = await createImageBitmap(blob)
+      const imageBitmap = await getSpriteBitmap(spriteName)
 
       // Extract each icon from sprite
       const canvas = document.createElement('canvas')
@@ -110,7 +123,33 @@ export function usePosterLoading() {
     } catch (error) {
       console.error(`❌ Failed to load sprite ${spriteName}:`, error)
     }
-  }, [])
+  }, [getSpriteBitmap])
+
+  /**
+   * Draw a movie's poster icon from its sprite sheet onto a canvas
+   * Returns false if the movie has no icon in the sprite sheets
+   */
+  const drawPosterIcon = useCallback(async (
+    ctx: CanvasRenderingContext2D,
+    movieId: string,
+    x: number,
+    y: number,
+    width: number,
+    height: number
+  ): Promise<boolean> => {
+    const metadata = await loadSpriteMetadata()
+    const position = metadata?.sprites[`poster-${movieId}`]
+    if (!position) return false
+
+    try {
+      const imageBitmap = await getSpriteBitmap(position.sprite)
+      ctx.drawImage(imageBitmap, position.x, position.y, position.width, position.height, x, y, width, height)
+      return true
+    } catch (error) {
+      console.error(`❌ Failed to draw poster for ${movieId}:`, error)
+      return false
+    }
+  }, [loadSpriteMetadata, getSpriteBitmap])
 
   /**
    * Load icons for visible markers
@@ -191,11 +230,13 @@ export function usePosterLoading() {
   const clearCache = useCallback(() => {
     loadedImagesRef.current.clear()
     loadedSpritesRef.current.clear()
+    spriteBitmapsRef.current.clear()
     spriteMetadataRef.current = null
   }, [])
 
   return {
     loadVisiblePosters,
+    drawPosterIcon,
     clearCache,
     loadedImagesRef,
     imageCacheRef: useRef({}), // Keep for compatibility
@@ -0,0 +1,246 @@
+/**
+ * Hook for "spiderfying" co-located markers
+ * Clicking a stack of overlapping markers fans them out around their true position
+ * with leader lines; they collapse again on zoom or a click elsewhere
+ */
+
+import { useRef, useCallback } from 'react'
+import type maplibregl from 'maplibre-gl'
+
+export const SPIDERFY_LAYER = 'spiderfy-markers'
+const SPIDERFY_LEGS_LAYER = 'spiderfy-legs'
+
+// Layout (screen pixels), modelled on the classic Leaflet spiderfier
+const CIRCLE_FOOT_SEPARATION = 44
+const CIRCLE_MAX_COUNT = 9
+const SPIRAL_FOOT_SEPARATION = 46
+const SPIRAL_LENGTH_START = 30
+const SPIRAL_LENGTH_FACTOR = 6
+
+const ANIMATION_DURATION = 250
+const DIMMED_OPACITY = 0.3
+
+interface SpiderfyState {
+  features: any[]
+  origins: [number, number][] // True position of each marker
+  targets: [number, number][]
+}
+
+/**
+ * Pixel offsets for n markers: a circle for small stacks, a spiral for large ones
+ */
+function getSpiderfyOffsets(count: number): [number, number][] {
+  const offsets: [number, number][] = []
+
+  if (count <= CIRCLE_MAX_COUNT) {
+    const circumference = CIRCLE_FOOT_SEPARATION * (2 + count)
+    const radius = circumference / (Math.PI * 2)
+    const angleStep = (Math.PI * 2) / count
+
+    for (let i = 0; i < count; i++) {
+      const angle = -Math.PI / 2 + i * angleStep
+      offsets.push([radius * Math.cos(angle), radius * Math.sin(angle)])
+    }
+    return offsets
+  }
+
+  let legLength = SPIRAL_LENGTH_START
+  let angle = 0
+  for (let i = 0; i < count; i++) {
+    angle += SPIRAL_FOOT_SEPARATION / legLength + i * 0.0005
+    offsets.push([legLength * Math.cos(angle), legLength * Math.sin(angle)])
+    legLength += (Math.PI * 2 * SPIRAL_LENGTH_FACTOR) / angle
+  }
+  return offsets
+}
+
+/**
+ * Ease-out cubic
+ */
+function easeOut(t: number): number {
+  return 1 - Math.pow(1 - t, 3)
+}
+
+export function useSpiderfy() {
+  const stateRef = useRef<SpiderfyState | null>(null)
+  const animationRef = useRef<number | null>(null)
+
+  /**
+   * Add spiderfy sources and layers (on top of all other layers)
+   */
+  const ensureLayers = useCallback((map: maplibregl.Map) => {
+    if (!map.getSource(SPIDERFY_LEGS_LAYER)) {
+      map.addSource(SPIDERFY_LEGS_LAYER, { type: 'geojson', data: { type: 'FeatureCollection', features: [] } })
+      map.addLayer({
+        id: SPIDERFY_LEGS_LAYER,
+        type: 'line',
+        source: SPIDERFY_LEGS_LAYER,
+        paint: {
+          'line-color': '#FFD700',
+          'line-width': 1.5,
+          'line-opacity': 0.8
+        }
+      })
+    }
+
+    if (!map.getSource(SPIDERFY_LAYER)) {
+      map.addSource(SPIDERFY_LAYER, { type: 'geojson', data: { type: 'FeatureCollection', features: [] } })
+      map.addLayer({
+        id: SPIDERFY_LAYER,
+        type: 'symbol',
+        source: SPIDERFY_LAYER,
+        layout: {
+          'icon-image': [
+            'coalesce',
+            ['image', ['concat', 'poster-', ['get', 'movie_id']]],
+            ['image', 'poster-fallback']
+          ],
+          'icon-size': 0.7,
+          'icon-allow-overlap': true,
+          'icon-ignore-placement': true
+        }
+      })
+    }
+  }, [])
+
+  /**
+   * Render markers and legs at progress t (0 = collapsed on their true positions, 1 = fully expanded)
+   */
+  const renderFrame = useCallback((map: maplibregl.Map, state: SpiderfyState, t: number) => {
+    const positions = state.targets.map(([lng, lat], i) => {
+      const [originLng, originLat] = state.origins[i]
+      return [originLng + (lng - originLng) * t, originLat + (lat - originLat) * t]
+    })
+
+    const markerSource = map.getSource(SPIDERFY_LAYER) as maplibregl.GeoJSONSource | undefined
+    const legSource = map.getSource(SPIDERFY_LEGS_LAYER) as maplibregl.GeoJSONSource | undefined
+
+    markerSource?.setData({
+      type: 'FeatureCollection',
+      features: state.features.map((feature, i) => ({
+        type: 'Feature',
+        geometry: { type: 'Point', coordinates: positions[i] },
+        properties: {
+          ...feature.properties,
+          // True position of the marker (used to match the clicked location)
+          _origin_lng: state.origins[i][0],
+          _origin_lat: state.origins[i][1]
+        }
+      }))
+    })
+
+    legSource?.setData({
+      type: 'FeatureCollection',
+      features: positions.map((position, i) => ({
+        type: 'Feature',
+        geometry: { type: 'LineString', coordinates: [state.origins[i], position] },
+        properties: {}
+      }))
+    })
+  }, [])
+
+  /**
+   * Animate between collapsed and expanded, then run onDone
+   */
+  const animate = useCallback((
+    map: maplibregl.Map,
+    state: SpiderfyState,
+    from: number,
+    to: number,
+    onDone?: () => void
+  ) => {
+    if (animationRef.current !== null) {
+      cancelAnimationFrame(animationRef.current)
+    }
+
+    const start = performance.now()
+    const step = (now: number) => {
+      const progress = Math.min(1, (now - start) / ANIMATION_DURATION)
+      renderFrame(map, state, from + (to - from) * easeOut(progress))
+
+      if (progress < 1) {
+        animationRef.current = requestAnimationFrame(step)
+      } else {
+        animationRef.current = null
+        onDone?.()
+      }
+    }
+    animationRef.current = requestAnimationFrame(step)
+  }, [renderFrame])
+
+  /**
+   * Dim (or restore) the regular markers while a stack is expanded
+   */
+  const setMarkersDimmed = useCallback((map: maplibregl.Map, dimmed: boolean) => {
+    const opacity = dimmed ? DIMMED_OPACITY : 1
+    if (map.getLayer('movie-markers')) {
+      map.setPaintProperty('movie-markers', 'icon-opacity', opacity)
+      map.setPaintProperty('movie-markers', 'text-opacity', opacity)
+    }
+    if (map.getLayer('movie-clusters')) {
+      map.setPaintProperty('movie-clusters', 'icon-opacity', opacity)
+    }
+  }, [])
+
+  /**
+   * Collapse the expanded stack (animated unless withAnimation is false)
+   */
+  const collapse = useCallback((map: maplibregl.Map, withAnimation: boolean = true) => {
+    const state = stateRef.current
+    if (!state) return
+    stateRef.current = null
+
+    const clear = () => {
+      // A new stack may have been expanded while collapsing
+      if (stateRef.current) return
+      renderFrame(map, { ...state, features: [], origins: [], targets: [] }, 0)
+      setMarkersDimmed(map, false)
+    }
+
+    if (withAnimation) {
+      animate(map, state, 1, 0, clear)
+    } else {
+      if (animationRef.current !== null) {
+        cancelAnimationFrame(animationRef.current)
+        animationRef.current = null
+      }
+      clear()
+    }
+  }, [animate, renderFrame, setMarkersDimmed])
+
+  /**
+   * Fan out co-located markers around a centre point
+   */
+  const spiderfy = useCallback((map: maplibregl.Map, center: [number, number], features: any[]) => {
+    ensureLayers(map)
+
+    const centerPoint = map.project(center)
+    const targets = getSpiderfyOffsets(features.length).map(([dx, dy]) => {
+      const lngLat = map.unproject([centerPoint.x + dx, centerPoint.y + dy])
+      return [lngLat.lng, lngLat.lat] as [number, number]
+    })
+
+    const origins = features.map(feature => (feature.geometry as GeoJSON.Point).coordinates.slice(0, 2) as [number, number])
+
+    const state: SpiderfyState = { features, origins, targets }
+    stateRef.current = state
+    setMarkersDimmed(map, true)
+    animate(map, state, 0, 1)
+  }, [ensureLayers, animate, setMarkersDimmed])
+
+  /**
+   * Collapse on zoom; outside clicks are handled by the marker click handler
+   */
+  const setupSpiderfyCollapse = useCallback((map: maplibregl.Map) => {
+    map.on('zoomstart', () => collapse(map, false))
+  }, [collapse])
+
+  const isSpiderfied = useCallback(() => stateRef.current !== null, [])
+
+  return {
+    spiderfy,
+    collapse,
+    isSpiderfied,
+    setupSpiderfyCollapse
+  }
+}
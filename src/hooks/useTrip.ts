@@ -0,0 +1,114 @@
+/**
+ * Hook for the trip planner's saved stops (localStorage)
+ * Every component using it shares the same trip - changes are broadcast with
+ * a window event, and other tabs pick them up through the storage event.
+ */
+
+import { useCallback, useEffect, useState } from 'react'
+import type { TripStop } from '../types'
+import { getSpotId } from '../utils/map/coordinateUtils'
+
+const STORAGE_KEY = 'filmingmap_trip'
+const CHANGE_EVENT = 'filmingmapTripChange'
+export const MAX_TRIP_DAYS = 14
+
+export interface Trip {
+  stops: TripStop[]
+  days: number
+}
+
+const EMPTY_TRIP: Trip = { stops: [], days: 1 }
+
+/**
+ * Load the trip from localStorage
+ */
+function loadTrip(): Trip {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    if (stored) {
+      const parsed = JSON.parse(stored)
+      // Validate the structure
+      return {
+        stops: Array.isArray(parsed.stops)
+          ? parsed.stops.filter((stop: TripStop) => stop && Number.isFinite(stop.lat) && Number.isFinite(stop.lng) && stop.id)
+          : EMPTY_TRIP.stops,
+        days: Number.isInteger(parsed.days) && parsed.days >= 1 ? Math.min(parsed.days, MAX_TRIP_DAYS) : EMPTY_TRIP.days,
+      }
+    }
+  } catch (error) {
+    console.warn('Failed to load trip from localStorage:', error)
+  }
+  return EMPTY_TRIP
+}
+
+/**
+ * Save the trip to localStorage and let the other components know
+ */
+function saveTrip(trip: Trip): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(trip))
+  } catch (error) {
+    console.warn('Failed to save trip to localStorage:', error)
+  }
+  window.dispatchEvent(new Event(CHANGE_EVENT))
+}
+
+/**
+ * Hook to manage the saved trip
+ */
+export function useTrip() {
+  const [trip, setTrip] = useState<Trip>(EMPTY_TRIP)
+
+  // Load on mount, then follow changes from other components and tabs
+  useEffect(() => {
+    const reload = () => setTrip(loadTrip())
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key === STORAGE_KEY) reload()
+    }
+
+    reload()
+    window.addEventListener(CHANGE_EVENT, reload)
+    window.addEventListener('storage', handleStorage)
+    return () => {
+      window.removeEventListener(CHANGE_EVENT, reload)
+      window.removeEventListener('storage', handleStorage)
+    }
+  }, [])
+
+  const updateTrip = useCallback((update: (trip: Trip) => Trip) => {
+    saveTrip(update(loadTrip()))
+  }, [])
+
+  const addStop = useCallback((stop: Omit<TripStop, 'id'>) => {
+    const id = getSpotId(stop.lat, stop.lng)
+    updateTrip(current => current.stops.some(s => s.id === id)
+      ? current
+      : { ...current, stops: [...current.stops, { ...stop, id }] })
+  }, [updateTrip])
+
+  const removeStop = useCallback((id: string) => {
+    updateTrip(current => ({ ...current, stops: current.stops.filter(s => s.id !== id) }))
+  }, [updateTrip])
+
+  const setDays = useCallback((days: number) => {
+    updateTrip(current => ({ ...current, days: Math.max(1, Math.min(days, MAX_TRIP_DAYS)) }))
+  }, [updateTrip])
+
+  const clearTrip = useCallback(() => {
+    updateTrip(() => EMPTY_TRIP)
+  }, [updateTrip])
+
+  const hasStop = useCallback((lat: number, lng: number) => {
+    const id = getSpotId(lat, lng)
+    return trip.stops.some(s => s.id === id)
+  }, [trip])
+
+  return {
+    trip,
+    addStop,
+    removeStop,
+    setDays,
+    clearTrip,
+    hasStop,
+  }
+}
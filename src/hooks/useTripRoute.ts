@@ -0,0 +1,129 @@
+/**
+ * Hook for drawing the planned trip on the globe
+ * One colored line per day, with each stop numbered in visiting order.
+ * Layers are added under the movie markers and removed when there's no route to show.
+ */
+
+import { useEffect } from 'react'
+import maplibregl from 'maplibre-gl'
+import { TRIP_DAY_COLORS, type TripDay } from '../utils/tripPlanner'
+import { whenMapReady } from '../utils/map/mapReady'
+
+const SOURCE_ID = 'trip-route'
+const LINE_LAYER = 'trip-route-line'
+const STOP_LAYER = 'trip-route-stops'
+const LABEL_LAYER = 'trip-route-labels'
+
+interface UseTripRouteProps {
+  map: React.MutableRefObject<maplibregl.Map | null>
+  days: TripDay[] | null
+}
+
+/**
+ * Day lines and numbered stops
+ */
+function toRouteGeoJSON(days: TripDay[]): GeoJSON.FeatureCollection {
+  const features: GeoJSON.Feature[] = []
+
+  days.forEach((day, dayIndex) => {
+    const color = TRIP_DAY_COLORS[dayIndex % TRIP_DAY_COLORS.length]
+
+    if (day.stops.length > 1) {
+      features.push({
+        type: 'Feature',
+        geometry: { type: 'LineString', coordinates: day.stops.map(stop => [stop.lng, stop.lat]) },
+        properties: { color },
+      })
+    }
+
+    day.stops.forEach((stop, stopIndex) => {
+      features.push({
+        type: 'Feature',
+        geometry: { type: 'Point', coordinates: [stop.lng, stop.lat] },
+        properties: { color, label: String(stopIndex + 1) },
+      })
+    })
+  })
+
+  return { type: 'FeatureCollection', features }
+}
+
+function addRouteLayers(map: maplibregl.Map, data: GeoJSON.FeatureCollection) {
+  map.addSource(SOURCE_ID, { type: 'geojson', data })
+
+  const beforeId = map.getLayer('movie-markers') ? 'movie-markers' : undefined
+
+  map.addLayer({
+    id: LINE_LAYER,
+    type: 'line',
+    source: SOURCE_ID,
+    filter: ['==', ['geometry-type'], 'LineString'],
+    layout: { 'line-cap': 'round', 'line-join': 'round' },
+    paint: {
+      'line-color': ['get', 'color'],
+      'line-width': 4,
+      'line-opacity': 0.85,
+      'line-dasharray': [2, 1],
+    },
+  }, beforeId)
+
+  map.addLayer({
+    id: STOP_LAYER,
+    type: 'circle',
+    source: SOURCE_ID,
+    filter: ['==', ['geometry-type'], 'Point'],
+    paint: {
+      'circle-color': ['get', 'color'],
+      'circle-radius': 10,
+      'circle-stroke-width': 2,
+      'circle-stroke-color': '#ffffff',
+    },
+  }, beforeId)
+
+  map.addLayer({
+    id: LABEL_LAYER,
+    type: 'symbol',
+    source: SOURCE_ID,
+    filter: ['==', ['geometry-type'], 'Point'],
+    layout: {
+      'text-field': ['get', 'label'],
+      'text-font': ['Arial Unicode MS Bold', 'Arial Unicode MS Regular'],
+      'text-size': 11,
+      'text-allow-overlap': true,
+    },
+    paint: {
+      'text-color': '#ffffff',
+    },
+  }, beforeId)
+}
+
+function removeRouteLayers(map: maplibregl.Map) {
+  ;[LABEL_LAYER, STOP_LAYER, LINE_LAYER].forEach(id => {
+    if (map.getLayer(id)) map.removeLayer(id)
+  })
+  if (map.getSource(SOURCE_ID)) map.removeSource(SOURCE_ID)
+}
+
+export function useTripRoute({ map, days }: UseTripRouteProps) {
+  useEffect(() => {
+    const mapInstance = map.current
+    if (!mapInstance) return
+
+    const apply = () => {
+      if (!days || days.length === 0) {
+        removeRouteLayers(mapInstance)
+        return
+      }
+
+      const data = toRouteGeoJSON(days)
+      const source = mapInstance.getSource(SOURCE_ID) as maplibregl.GeoJSONSource | undefined
+      if (source) {
+        source.setData(data)
+      } else {
+        addRouteLayers(mapInstance, data)
+      }
+    }
+
+    return whenMapReady(mapInstance, apply)
+  }, [map, days])
+}
@@ -0,0 +1,98 @@
+/**
+ * Hook for the visited locations layer - spots marked as visited in the passport
+ * Drawn as a gold halo under the movie markers with a ring on top, so visited
+ * spots keep a distinct look next to the "Watched" rings.
+ */
+
+import { useEffect } from 'react'
+import maplibregl from 'maplibre-gl'
+import type { VisitedLocation } from '../types'
+import { whenMapReady } from '../utils/map/mapReady'
+
+const SOURCE_ID = 'visited-locations'
+const HALO_LAYER_ID = 'visited-locations-halo'
+const RING_LAYER_ID = 'visited-locations-ring'
+const VISITED_COLOR = '#f59e0b'
+
+interface UseVisitedLayerProps {
+  map: React.MutableRefObject<maplibregl.Map | null>
+  locations: VisitedLocation[] | null
+}
+
+function toVisitedGeoJSON(locations: VisitedLocation[]): GeoJSON.FeatureCollection {
+  return {
+    type: 'FeatureCollection',
+    features: locations.map((location): GeoJSON.Feature => ({
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [location.lng, location.lat] },
+      properties: { id: location.id, name: location.name },
+    })),
+  }
+}
+
+function addVisitedLayers(map: maplibregl.Map, data: GeoJSON.FeatureCollection) {
+  map.addSource(SOURCE_ID, { type: 'geojson', data })
+
+  map.addLayer({
+    id: HALO_LAYER_ID,
+    type: 'circle',
+    source: SOURCE_ID,
+    paint: {
+      'circle-color': VISITED_COLOR,
+      'circle-opacity': 0.35,
+      'circle-blur': 0.4,
+      'circle-radius': ['interpolate', ['linear'], ['zoom'], 1, 8, 10, 20],
+    },
+  }, map.getLayer('movie-markers') ? 'movie-markers' : undefined)
+
+  map.addLayer({
+    id: RING_LAYER_ID,
+    type: 'circle',
+    source: SOURCE_ID,
+    paint: {
+      'circle-opacity': 0,
+      'circle-radius': ['interpolate', ['linear'], ['zoom'], 1, 6, 10, 12],
+      'circle-stroke-width': 2.5,
+      'circle-stroke-color': VISITED_COLOR,
+    },
+  })
+}
+
+function removeVisitedLayers(map: maplibregl.Map) {
+  if (map.getLayer(RING_LAYER_ID)) map.removeLayer(RING_LAYER_ID)
+  if (map.getLayer(HALO_LAYER_ID)) map.removeLayer(HALO_LAYER_ID)
+  if (map.getSource(SOURCE_ID)) map.removeSource(SOURCE_ID)
+}
+
+export function useVisitedLayer({ map, locations }: UseVisitedLayerProps) {
+  useEffect(() => {
+    const mapInstance = map.current
+    if (!mapInstance) return
+
+    if (!locations || locations.length === 0) {
+      removeVisitedLayers(mapInstance)
+      return
+    }
+
+    let cancelled = false
+    const data = toVisitedGeoJSON(locations)
+
+    const apply = () => {
+      if (cancelled) return
+
+      const source = mapInstance.getSource(SOURCE_ID) as maplibregl.GeoJSONSource | undefined
+      if (source) {
+        source.setData(data)
+      } else {
+        addVisitedLayers(mapInstance, data)
+      }
+    }
+
+    const cancelReady = whenMapReady(mapInstance, apply)
+
+    return () => {
+      cancelled = true
+      cancelReady()
+    }
+  }, [map, locations])
+}
@@ -0,0 +1,108 @@
+/**
+ * Hook for the imported watch history (localStorage)
+ * Shared between components like My list: changes are broadcast with a window
+ * event, and other tabs pick them up through the storage event.
+ */
+
+import { useCallback, useEffect, useState } from 'react'
+import { loadAllMovies } from '../utils/map/binaryMapData'
+import {
+  EMPTY_WATCH_HISTORY,
+  matchWatchHistory,
+  parseWatchHistory,
+  parseWatchHistoryCsv,
+  type WatchHistory,
+  type WatchHistoryRow,
+  type WatchHistorySource,
+} from '../utils/watchHistory'
+
+const STORAGE_KEY = 'filmingmap_watched'
+const CHANGE_EVENT = 'filmingmapWatchedChange'
+
+export interface WatchHistoryImport {
+  source: WatchHistorySource
+  rows: number
+  matched: number
+  added: number // Matched movies that weren't in the history yet
+  unmatched: WatchHistoryRow[]
+}
+
+/**
+ * Load the history from localStorage
+ */
+function loadWatchHistory(): WatchHistory {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    if (stored) {
+      return parseWatchHistory(JSON.parse(stored))
+    }
+  } catch (error) {
+    console.warn('Failed to load watch history from localStorage:', error)
+  }
+  return EMPTY_WATCH_HISTORY
+}
+
+/**
+ * Save the history to localStorage and let the other components know
+ */
+function saveWatchHistory(history: WatchHistory): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(history))
+  } catch (error) {
+    console.warn('Failed to save watch history to localStorage:', error)
+  }
+  window.dispatchEvent(new Event(CHANGE_EVENT))
+}
+
+/**
+ * Hook to manage the watch history
+ */
+export function useWatchHistory() {
+  const [history, setHistory] = useState<WatchHistory>(EMPTY_WATCH_HISTORY)
+
+  // Load on mount, then follow changes from other components and tabs
+  useEffect(() => {
+    const reload = () => setHistory(loadWatchHistory())
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key === STORAGE_KEY) reload()
+    }
+
+    reload()
+    window.addEventListener(CHANGE_EVENT, reload)
+    window.addEventListener('storage', handleStorage)
+    return () => {
+      window.removeEventListener(CHANGE_EVENT, reload)
+      window.removeEventListener('storage', handleStorage)
+    }
+  }, [])
+
+  /**
+   * Add the movies of a Letterboxd or IMDb CSV export to the history
+   * Throws when the file isn't a recognised export.
+   */
+  const importWatchHistory = useCallback(async (csv: string): Promise<WatchHistoryImport> => {
+    const { source, rows } = parseWatchHistoryCsv(csv)
+    const { movieIds, unmatched } = matchWatchHistory(rows, await loadAllMovies())
+
+    const current = loadWatchHistory()
+    const known = new Set(current.movieIds)
+    const added = movieIds.filter(id => !known.has(id))
+    saveWatchHistory({
+      ...current,
+      updatedAt: new Date().toISOString(),
+      movieIds: [...current.movieIds, ...added],
+    })
+
+    return { source, rows: rows.length, matched: movieIds.length, added: added.length, unmatched }
+  }, [])
+
+  const clearWatchHistory = useCallback(() => {
+    saveWatchHistory({ ...EMPTY_WATCH_HISTORY, updatedAt: new Date().toISOString() })
+  }, [])
+
+  return {
+    history,
+    importWatchHistory,
+    clearWatchHistory,
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Hook for the "Watched" layer - filming locations of movies in the watch history
+ * Drawn as rings under the movie markers, so watched spots stand out whatever
+ * filters are active. Layers are removed when the layer is switched off.
+ */
+
+import { useEffect } from 'react'
+import maplibregl from 'maplibre-gl'
+import type { Movie } from '../types'
+import { loadAllMovies } from '../utils/map/binaryMapData'
+import { whenMapReady } from '../utils/map/mapReady'
+
+const SOURCE_ID = 'watched-locations'
+const LAYER_ID = 'watched-locations'
+const WATCHED_COLOR = '#22c55e'
+
+interface UseWatchedLayerProps {
+  map: React.MutableRefObject<maplibregl.Map | null>
+  movieIds: string[] | null
+}
+
+function toWatchedGeoJSON(movies: Movie[], movieIds: string[]): GeoJSON.FeatureCollection {
+  const ids = new Set(movieIds)
+
+  return {
+    type: 'FeatureCollection',
+    features: movies
+      .filter(movie => ids.has(movie.movie_id))
+      .flatMap(movie => movie.locations.map((location): GeoJSON.Feature => ({
+        type: 'Feature',
+        geometry: { type: 'Point', coordinates: [location.lng, location.lat] },
+        properties: { movie_id: movie.movie_id },
+      }))),
+  }
+}
+
+function addWatchedLayer(map: maplibregl.Map, data: GeoJSON.FeatureCollection) {
+  map.addSource(SOURCE_ID, { type: 'geojson', data })
+
+  map.addLayer({
+    id: LAYER_ID,
+    type: 'circle',
+    source: SOURCE_ID,
+    paint: {
+      'circle-color': WATCHED_COLOR,
+      'circle-opacity': 0.25,
+      'circle-radius': ['interpolate', ['linear'], ['zoom'], 1, 5, 10, 14],
+      'circle-stroke-width': 2,
+      'circle-stroke-color': WATCHED_COLOR,
+    },
+  }, map.getLayer('movie-markers') ? 'movie-markers' : undefined)
+}
+
+function removeWatchedLayer(map: maplibregl.Map) {
+  if (map.getLayer(LAYER_ID)) map.removeLayer(LAYER_ID)
+  if (map.getSource(SOURCE_ID)) map.removeSource(SOURCE_ID)
+}
+
+export function useWatchedLayer({ map, movieIds }: UseWatchedLayerProps) {
+  useEffect(() => {
+    const mapInstance = map.current
+    if (!mapInstance) return
+
+    if (!movieIds || movieIds.length === 0) {
+      removeWatchedLayer(mapInstance)
+      return
+    }
+
+    let cancelled = false
+
+    const apply = (data: GeoJSON.FeatureCollection) => {
+      if (cancelled) return
+
+      const source = mapInstance.getSource(SOURCE_ID) as maplibregl.GeoJSONSource | undefined
+      if (source) {
+        source.setData(data)
+      } else {
+        addWatchedLayer(mapInstance, data)
+      }
+    }
+
+    loadAllMovies()
+      .then(movies => {
+        const data = toWatchedGeoJSON(movies, movieIds)
+        whenMapReady(mapInstance, () => apply(data))
+      })
+      .catch(error => {
+        console.error('Failed to load watched locations:', error)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [map, movieIds])
+}
@@ -22,6 +22,8 @@ export interface Location {
   readonly country?: string;
   readonly description?: string; // Location description/name (deprecated - use display_name)
   readonly scene_description?: string; // What was filmed here (scene details)
+  readonly start_date?: string; // When filming here started (ISO date, when known)
+  readonly end_date?: string; // When filming here ended (ISO date, when known)
 }
 
 /**
@@ -44,23 +46,53 @@ export interface Movie {
   readonly imdb_rating?: number;
   readonly locations: readonly Location[];
   readonly trivia?: string;
+  readonly cast?: readonly Credit[]; // Top-billed cast
+  readonly directors?: readonly Credit[];
   readonly clickedLocationIndex?: number; // Index of the location that was clicked on the map
 }
 
 /**
- * Actor/Performer entity
+ * Cast member or director credit on a movie (TMDb person)
+ */
+export interface Credit {
+  readonly person_id: number;
+  readonly name: string;
+  readonly character?: string;
+}
+
+/**
+ * Actor/Performer entity (data/actors.json, built by scripts/generateActors.ts)
  */
 export interface Actor {
-  readonly actor_id: string;
+  readonly actor_id: string; // TMDb person ID
   readonly name: string;
+  readonly slug: string;
+  readonly imdb_id?: string;
   readonly dob?: string;
+  readonly profile?: string; // Profile photo URL
   readonly birth_place?: {
+    readonly name?: string; // As listed on TMDb ("Perth, Western Australia, Australia")
     readonly city?: string;
     readonly country?: string;
     readonly lat?: number;
     readonly lng?: number;
   };
-  readonly known_for?: readonly string[]; // Movie IDs
+  readonly roles: readonly ('cast' | 'director')[];
+  readonly known_for?: readonly string[]; // Movie IDs, best rated first
+  readonly characters?: Readonly<Record<string, string>>; // Movie ID -> character
+}
+
+/**
+ * Actor entry in the search index (/geo/search/actors.json)
+ */
+export interface ActorSummary {
+  readonly id: string;
+  readonly name: string;
+  readonly slug: string;
+  readonly roles: readonly ('cast' | 'director')[];
+  readonly movieCount: number;
+  readonly birthPlace?: string;
+  readonly birth?: readonly [number, number]; // Birthplace [lng, lat]
 }
 
 /**
@@ -118,8 +150,80 @@ export interface FilterState {
   streaming: string[];
   starRating: [number, number]; // IMDB rating range [min, max] from 0 to 10
   topIMDB: boolean; // Show only top 250 IMDB movies
+  movieIds?: string[]; // Show only these movies - the "My list" / "Watched" map filters (not saved)
+}
+
+/**
+ * Searchable place - city, landmark, region or country (see scripts/generatePlaceIndex.ts)
+ */
+export interface Place {
+  readonly name: string;
+  readonly context: string; // Enclosing places, e.g. "Grad Dubrovnik, Hrvatska"
+  readonly kind: 'country' | 'city' | 'place';
+  readonly center: [number, number]; // [lng, lat]
+  readonly bbox: [number, number, number, number]; // [west, south, east, north] of its filming locations
+  readonly movieCount: number;
+  readonly slug?: string; // /location/[slug] page, when one exists
+}
+
+/**
+ * Filming location saved to the trip planner (localStorage, see src/hooks/useTrip.ts)
+ */
+export interface TripStop {
+  readonly id: string; // Rounded "lat,lng" - one stop per spot
+  readonly name: string;
+  readonly lat: number;
+  readonly lng: number;
+  readonly movieId?: string;
+  readonly movieTitle?: string; // "Title (Year)"
+  readonly slug?: string; // /location/[slug] page the stop was added from
 }
 
+/**
+ * Movie saved to "My list" (localStorage, see src/hooks/useFavorites.ts)
+ */
+export interface FavoriteMovie {
+  readonly movieId: string;
+  readonly title: string;
+  readonly year: number;
+  readonly poster?: string;
+  readonly addedAt: string; // ISO date
+}
+
+/**
+ * Filming location saved to "My list"
+ */
+export interface FavoriteLocation {
+  readonly id: string; // Rounded "lat,lng", same as trip stops
+  readonly name: string;
+  readonly lat: number;
+  readonly lng: number;
+  readonly movieId?: string;
+  readonly movieTitle?: string; // "Title (Year)"
+  readonly slug?: string; // /location/[slug] page the location was saved from
+  readonly addedAt: string; // ISO date
+}
+
+/**
+ * Filming location the user has been to - the passport (stored with "My list")
+ */
+export interface VisitedLocation {
+  readonly id: string; // Rounded "lat,lng", same as trip stops
+  readonly name: string;
+  readonly lat: number;
+  readonly lng: number;
+  readonly country?: string; // English country name
+  readonly movieId?: string;
+  readonly movieTitle?: string; // "Title (Year)"
+  readonly slug?: string; // /location/[slug] page the location was marked from
+  readonly visitedAt: string; // ISO date
+}
+
+/**
+ * Density overlay drawn under the movie markers
+ */
+export type DensityLayer = 'none' | 'heatmap' | 'choropleth';
+
 /**
  * Map viewport state
  */
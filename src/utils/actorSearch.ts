@@ -0,0 +1,50 @@
+/**
+ * Actor index loader (/geo/search/actors.json, built by scripts/generateActors.ts)
+ * Shared by people search and the birthplace layer
+ */
+
+import type { ActorSummary } from '../types'
+
+const ACTORS_URL = '/geo/search/actors.json'
+
+let actorsPromise: Promise<ActorSummary[]> | null = null
+
+/**
+ * Load all actors and directors (cached; retried on the next call after a failure)
+ */
+export function loadActors(): Promise<ActorSummary[]> {
+  if (!actorsPromise) {
+    actorsPromise = fetch(ACTORS_URL)
+      .then(response => {
+        if (!response.ok) throw new Error(`HTTP ${response.status}`)
+        return response.json()
+      })
+      .then((data: { actors: ActorSummary[] }) => data.actors)
+      .catch(error => {
+        actorsPromise = null
+        throw error
+      })
+  }
+  return actorsPromise
+}
+
+/**
+ * Birthplaces as GeoJSON points for the map layer
+ */
+export function toBirthplaceGeoJSON(actors: ActorSummary[]): GeoJSON.FeatureCollection<GeoJSON.Point> {
+  return {
+    type: 'FeatureCollection',
+    features: actors
+      .filter(actor => actor.birth)
+      .map(actor => ({
+        type: 'Feature',
+        geometry: { type: 'Point', coordinates: [actor.birth![0], actor.birth![1]] },
+        properties: {
+          name: actor.name,
+          slug: actor.slug,
+          birthPlace: actor.birthPlace || '',
+          movieCount: actor.movieCount,
+        },
+      })),
+  }
+}
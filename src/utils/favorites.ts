@@ -0,0 +1,148 @@
+/**
+ * "My list" favorites and visited locations - the stored format, imports and exports
+ * The list is versioned so saved data and exported files can be migrated later
+ * (e.g. when the list syncs to an account); parseFavorites is the only way in.
+ *
+ * Versions: 1 - movies and locations, 2 - visited locations (passport)
+ */
+
+import type { FavoriteMovie, FavoriteLocation, VisitedLocation } from '../types'
+import { downloadFile } from './helpers'
+
+export const FAVORITES_VERSION = 2
+
+export interface Favorites {
+  version: number
+  updatedAt: string // ISO date of the last change
+  movies: FavoriteMovie[]
+  locations: FavoriteLocation[]
+  visited: VisitedLocation[]
+}
+
+export const EMPTY_FAVORITES: Favorites = {
+  version: FAVORITES_VERSION,
+  updatedAt: new Date(0).toISOString(),
+  movies: [],
+  locations: [],
+  visited: [],
+}
+
+const isString = (value: unknown): value is string => typeof value === 'string' && value.length > 0
+
+const getDate = (value: unknown) =>
+  isString(value) && !Number.isNaN(Date.parse(value)) ? value : new Date().toISOString()
+
+function parseMovie(data: any): FavoriteMovie | null {
+  if (!data || !isString(data.movieId) || !isString(data.title) || !Number.isInteger(data.year)) return null
+
+  return {
+    movieId: data.movieId,
+    title: data.title,
+    year: data.year,
+    ...(isString(data.poster) && { poster: data.poster }),
+    addedAt: getDate(data.addedAt),
+  }
+}
+
+function parseLocation(data: any): FavoriteLocation | null {
+  if (!data || !isString(data.id) || !isString(data.name) || !Number.isFinite(data.lat) || !Number.isFinite(data.lng)) {
+    return null
+  }
+
+  return {
+    id: data.id,
+    name: data.name,
+    lat: data.lat,
+    lng: data.lng,
+    ...(isString(data.movieId) && { movieId: data.movieId }),
+    ...(isString(data.movieTitle) && { movieTitle: data.movieTitle }),
+    ...(isString(data.slug) && { slug: data.slug }),
+    addedAt: getDate(data.addedAt),
+  }
+}
+
+function parseVisited(data: any): VisitedLocation | null {
+  if (!data || !isString(data.id) || !isString(data.name) || !Number.isFinite(data.lat) || !Number.isFinite(data.lng)) {
+    return null
+  }
+
+  return {
+    id: data.id,
+    name: data.name,
+    lat: data.lat,
+    lng: data.lng,
+    ...(isString(data.country) && { country: data.country }),
+    ...(isString(data.movieId) && { movieId: data.movieId }),
+    ...(isString(data.movieTitle) && { movieTitle: data.movieTitle }),
+    ...(isString(data.slug) && { slug: data.slug }),
+    visitedAt: getDate(data.visitedAt),
+  }
+}
+
+/**
+ * Read a stored or imported list, dropping invalid entries
+ * Throws when the data isn't a favorites list or comes from a newer version.
+ */
+export function parseFavorites(data: unknown): Favorites {
+  const list = data as Partial<Favorites> | null
+  if (!list || typeof list !== 'object' || !Array.isArray(list.movies) || !Array.isArray(list.locations)) {
+    throw new Error('Not a FilmingMap favorites file')
+  }
+  const { version } = list
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error('Favorites file has no valid version')
+  }
+  if (version > FAVORITES_VERSION) {
+    throw new Error('Favorites file was made by a newer version of FilmingMap')
+  }
+
+  // Migrations from older versions, one step per version
+  // 1 -> 2: visited locations
+  const visited = version < 2 ? [] : list.visited
+  if (!Array.isArray(visited)) {
+    throw new Error('Not a FilmingMap favorites file')
+  }
+
+  return {
+    version: FAVORITES_VERSION,
+    updatedAt: getDate(list.updatedAt),
+    movies: list.movies.map(parseMovie).filter((movie): movie is FavoriteMovie => movie !== null),
+    locations: list.locations.map(parseLocation).filter((location): location is FavoriteLocation => location !== null),
+    visited: visited.map(parseVisited).filter((location): location is VisitedLocation => location !== null),
+  }
+}
+
+/**
+ * Add the imported entries that aren't in the list yet
+ */
+export function mergeFavorites(current: Favorites, imported: Favorites): Favorites {
+  const movieIds = new Set(current.movies.map(movie => movie.movieId))
+  const locationIds = new Set(current.locations.map(location => location.id))
+  const visitedIds = new Set(current.visited.map(location => location.id))
+
+  return {
+    ...current,
+    updatedAt: new Date().toISOString(),
+    movies: [...current.movies, ...imported.movies.filter(movie => !movieIds.has(movie.movieId))],
+    locations: [...current.locations, ...imported.locations.filter(location => !locationIds.has(location.id))],
+    visited: [...current.visited, ...imported.visited.filter(location => !visitedIds.has(location.id))],
+  }
+}
+
+/**
+ * Movies shown by the "My list" map filter - saved movies and the movies of saved locations
+ */
+export function getFavoriteMovieIds(favorites: Favorites): string[] {
+  const ids = new Set(favorites.movies.map(movie => movie.movieId))
+  favorites.locations.forEach(location => {
+    if (location.movieId) ids.add(location.movieId)
+  })
+  return Array.from(ids)
+}
+
+/**
+ * Save the list as a JSON file (importable again with parseFavorites)
+ */
+export function downloadFavorites(favorites: Favorites) {
+  downloadFile(JSON.stringify(favorites, null, 2), 'application/json', 'filmingmap-my-list.json')
+}
@@ -0,0 +1,79 @@
+/**
+ * Filming timeline - a movie's locations in shooting order
+ * Same ordering as scripts/transform_to_geojson.ts: by start_date when a location
+ * has one, undated locations last; movies without dates keep their stored order.
+ */
+
+import type { Movie, Location } from '../types'
+
+export interface TimelineStop {
+  location: Location
+  locationIndex: number // Index in movie.locations
+  startDate: Date | null
+  endDate: Date | null
+}
+
+const parseDate = (value?: string): Date | null => {
+  if (!value) return null
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+/**
+ * Whether any of the movie's locations has a filming date
+ */
+export function hasFilmingDates(movie: Movie): boolean {
+  return movie.locations.some(location => parseDate(location.start_date) !== null)
+}
+
+/**
+ * The movie's locations in shooting order
+ */
+export function getTimelineStops(movie: Movie): TimelineStop[] {
+  const stops = movie.locations.map((location, locationIndex) => ({
+    location,
+    locationIndex,
+    startDate: parseDate(location.start_date),
+    endDate: parseDate(location.end_date),
+  }))
+
+  // Array.sort is stable, so undated locations keep their stored order
+  return stops.sort((a, b) => {
+    if (!a.startDate && !b.startDate) return 0
+    if (!a.startDate) return 1
+    if (!b.startDate) return -1
+    return a.startDate.getTime() - b.startDate.getTime()
+  })
+}
+
+/**
+ * Date label for a stop, e.g. "3 Mar 2019" or "3 Mar – 12 Apr 2019"
+ */
+export function formatStopDates(stop: TimelineStop): string | null {
+  if (!stop.startDate) return null
+
+  const format = (date: Date, withYear: boolean) =>
+    date.toLocaleDateString('en-GB', { day: 'numeric', month: 'short', ...(withYear && { year: 'numeric' }) })
+
+  if (!stop.endDate || stop.endDate.getTime() === stop.startDate.getTime()) {
+    return format(stop.startDate, true)
+  }
+
+  const sameYear = stop.startDate.getFullYear() === stop.endDate.getFullYear()
+  return `${format(stop.startDate, !sameYear)} – ${format(stop.endDate, true)}`
+}
+
+/**
+ * Short place name for a location - the first two parts of the address
+ */
+export function getLocationName(location: Location): string {
+  const { display_name, city, country, description } = location
+  if (display_name) {
+    return display_name.split(',').slice(0, 2).map(part => part.trim()).join(', ')
+  }
+  return [description, city, country].filter(Boolean).join(', ') || 'Unknown location'
+}
+
+export function getStopName(stop: TimelineStop): string {
+  return getLocationName(stop.location)
+}
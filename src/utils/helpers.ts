@@ -77,9 +77,15 @@ export const filterMovies = (
     streaming: string[]
     starRating: [number, number]
     topIMDB: boolean
+    movieIds?: string[]
   }
 ): Movie[] => {
+  const movieIds = filters.movieIds ? new Set(filters.movieIds) : null
+
   let filtered = movies.filter(movie => {
+    // My list filter
+    if (movieIds && !movieIds.has(movie.movie_id)) return false
+
     // Genre filter
     if (filters.genres.length > 0) {
       const hasMatchingGenre = movie.genres.some(genre =>
@@ -141,6 +147,29 @@ export const debounce = <T extends (...args: any[]) => any>(
   }
 }
 
+/**
+ * Save generated text as a file in the browser
+ */
+export const downloadFile = (content: string, mimeType: string, fileName: string): void => {
+  downloadBlob(new Blob([content], { type: `${mimeType};charset=utf-8` }), fileName)
+}
+
+/**
+ * Save a blob (e.g. a canvas image) as a file in the browser
+ */
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob)
+
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  // Give the browser a moment to start the download
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
 /**
  * Format IMDb rating for display
  */
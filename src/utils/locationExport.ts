@@ -0,0 +1,200 @@
+/**
+ * Location exports - KML (Google My Maps), GPX (GPS units, Organic Maps), GeoJSON and CSV
+ * Shared by the download buttons and the build-time exports (scripts/generateMovieExports.ts,
+ * scripts/generateLocationPages.ts), so the files look the same wherever they come from.
+ */
+
+import type { Movie, Location, TripStop } from '../types'
+import { getLocationName } from './filmingTimeline'
+import { downloadFile } from './helpers'
+
+export type ExportFormat = 'kml' | 'gpx' | 'geojson' | 'csv'
+
+export interface ExportPoint {
+  name: string
+  lat: number
+  lng: number
+  movie?: string // "Title (Year)"
+  scene?: string // What was filmed here
+}
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string; mimeType: string }[] = [
+  { format: 'kml', label: 'KML', mimeType: 'application/vnd.google-earth.kml+xml' },
+  { format: 'gpx', label: 'GPX', mimeType: 'application/gpx+xml' },
+  { format: 'geojson', label: 'GeoJSON', mimeType: 'application/geo+json' },
+  { format: 'csv', label: 'CSV', mimeType: 'text/csv' },
+]
+
+const round = (value: number) => Math.round(value * 1e6) / 1e6
+
+const escapeXml = (text: string) =>
+  text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`)
+
+// Scene descriptions are often wrapped in parentheses: "(opening scene)"
+const cleanScene = (scene?: string | null) =>
+  scene ? scene.replace(/^\(|\)$/g, '').trim() || undefined : undefined
+
+/**
+ * Placemark / waypoint description - the movie, then the scene
+ */
+function getDescription(point: ExportPoint): string {
+  return [point.movie, point.scene].filter(Boolean).join(' - ')
+}
+
+export function toKML(points: ExportPoint[], title: string): string {
+  const placemarks = points.map(point => {
+    const description = getDescription(point)
+    return [
+      '    <Placemark>',
+      `      <name>${escapeXml(point.name)}</name>`,
+      ...(description ? [`      <description>${escapeXml(description)}</description>`] : []),
+      `      <Point><coordinates>${round(point.lng)},${round(point.lat)},0</coordinates></Point>`,
+      '    </Placemark>',
+    ].join('\n')
+  })
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    `    <name>${escapeXml(title)}</name>`,
+    ...placemarks,
+    '  </Document>',
+    '</kml>',
+    '',
+  ].join('\n')
+}
+
+export function toGPX(points: ExportPoint[], title: string): string {
+  const waypoints = points.map(point => {
+    const description = getDescription(point)
+    return [
+      `  <wpt lat="${round(point.lat)}" lon="${round(point.lng)}">`,
+      `    <name>${escapeXml(point.name)}</name>`,
+      ...(description ? [`    <desc>${escapeXml(description)}</desc>`] : []),
+      '  </wpt>',
+    ].join('\n')
+  })
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="FilmingMap - https://filmingmap.com" xmlns="http://www.topografix.com/GPX/1/1">',
+    `  <metadata><name>${escapeXml(title)}</name></metadata>`,
+    ...waypoints,
+    '</gpx>',
+    '',
+  ].join('\n')
+}
+
+export function toGeoJSON(points: ExportPoint[], title: string): string {
+  const collection = {
+    type: 'FeatureCollection',
+    name: title,
+    features: points.map(point => ({
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [round(point.lng), round(point.lat)] },
+      properties: {
+        name: point.name,
+        ...(point.movie && { movie: point.movie }),
+        ...(point.scene && { scene: point.scene }),
+      },
+    })),
+  }
+
+  return JSON.stringify(collection, null, 2)
+}
+
+/**
+ * CSV cell - quoted when needed, and text that spreadsheets would run as a formula is defused
+ */
+function csvCell(value: string | number | undefined): string {
+  if (value === undefined) return ''
+  if (typeof value === 'number') return String(value)
+
+  const text = /^[=+\-@]/.test(value) ? `'${value}` : value
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function toCSV(points: ExportPoint[]): string {
+  const rows = points.map(point =>
+    [point.name, round(point.lat), round(point.lng), point.movie, point.scene].map(csvCell).join(',')
+  )
+  return ['name,latitude,longitude,movie,scene', ...rows, ''].join('\r\n')
+}
+
+/**
+ * Export file contents in the given format
+ */
+export function exportLocations(points: ExportPoint[], format: ExportFormat, title: string): string {
+  switch (format) {
+    case 'kml':
+      return toKML(points, title)
+    case 'gpx':
+      return toGPX(points, title)
+    case 'geojson':
+      return toGeoJSON(points, title)
+    case 'csv':
+      return toCSV(points)
+  }
+}
+
+/**
+ * One filming location of a movie
+ */
+export function locationToExportPoint(location: Location, movie: Pick<Movie, 'title' | 'year'>): ExportPoint {
+  return {
+    name: getLocationName(location),
+    lat: location.lat,
+    lng: location.lng,
+    movie: `${movie.title} (${movie.year})`,
+    scene: cleanScene(location.scene_description),
+  }
+}
+
+/**
+ * A movie's filming locations
+ */
+export function movieToExportPoints(movie: Pick<Movie, 'title' | 'year' | 'locations'>): ExportPoint[] {
+  return movie.locations
+    .filter(location => Number.isFinite(location.lat) && Number.isFinite(location.lng))
+    .map(location => locationToExportPoint(location, movie))
+}
+
+/**
+ * Trip planner stops (in the given order)
+ */
+export function tripToExportPoints(stops: TripStop[]): ExportPoint[] {
+  return stops.map(stop => ({
+    name: stop.name,
+    lat: stop.lat,
+    lng: stop.lng,
+    movie: stop.movieTitle,
+  }))
+}
+
+/**
+ * Map marker features (one point per location, as rendered on the globe)
+ */
+export function featuresToExportPoints(features: GeoJSON.Feature[]): ExportPoint[] {
+  return features.flatMap(feature => {
+    if (feature.geometry.type !== 'Point') return []
+
+    const [lng, lat] = feature.geometry.coordinates
+    const properties = feature.properties || {}
+    return [{
+      name: getLocationName({ lat, lng, display_name: properties.location_names?.[0] }),
+      lat,
+      lng,
+      movie: `${properties.title} (${properties.year})`,
+      scene: cleanScene(properties.scene_description),
+    }]
+  })
+}
+
+/**
+ * Save an export in the browser
+ */
+export function downloadLocations(points: ExportPoint[], format: ExportFormat, title: string, fileName: string) {
+  const { mimeType } = EXPORT_FORMATS.find(f => f.format === format)!
+  downloadFile(exportLocations(points, format, title), mimeType, `${fileName}.${format}`)
+}
@@ -0,0 +1,250 @@
+/**
+ * Decoder for the compact binary map data format
+ * Files are written by scripts/encodeBinaryMapData.ts (see its header for the layout):
+ * public/geo/movies.bin holds every movie with its locations, movies_catalog.bin the
+ * same records without locations. Loaders fall back to the JSON files when missing.
+ */
+
+import type { Movie, Location } from '../../types'
+
+const MAGIC = 'FMB1'
+const SUPPORTED_VERSION = 1
+
+const MOVIES_BIN_URL = '/geo/movies.bin'
+const MOVIES_GEOJSON_URL = '/geo/movies.geojson'
+
+const FLAG_TV = 1
+const FLAG_HAS_RATING = 2
+
+interface BinaryHeader {
+  version: number
+  movie_count: number
+  string_count: number
+  has_locations: boolean
+  coord_scale: number
+  rating_scale: number
+  id_prefix: string
+  templates: {
+    poster: string
+    thumbnail_52: string
+  }
+}
+
+// Module-level cache (shared across component instances)
+let moviesPromise: Promise<Movie[]> | null = null
+
+/**
+ * Sequential reader over an ArrayBuffer
+ */
+class ByteReader {
+  private view: DataView
+  private bytes: Uint8Array
+  private offset = 0
+  private decoder = new TextDecoder()
+
+  constructor(buffer: ArrayBuffer) {
+    this.view = new DataView(buffer)
+    this.bytes = new Uint8Array(buffer)
+  }
+
+  u8(): number {
+    return this.view.getUint8(this.offset++)
+  }
+
+  u16(): number {
+    const value = this.view.getUint16(this.offset, true)
+    this.offset += 2
+    return value
+  }
+
+  u32(): number {
+    const value = this.view.getUint32(this.offset, true)
+    this.offset += 4
+    return value
+  }
+
+  string(length: number): string {
+    const value = this.decoder.decode(this.bytes.subarray(this.offset, this.offset + length))
+    this.offset += length
+    return value
+  }
+
+  varint(): number {
+    let value = 0
+    let multiplier = 1
+    let byte: number
+    do {
+      byte = this.u8()
+      value += (byte & 0x7f) * multiplier
+      multiplier *= 0x80
+    } while (byte & 0x80)
+    return value
+  }
+
+  zigzag(): number {
+    const value = this.varint()
+    return value % 2 === 0 ? value / 2 : -(value + 1) / 2
+  }
+}
+
+/**
+ * Decode a binary map data file into movies
+ * Locations carry coordinates, display_name and scene_description (empty for catalogue files)
+ */
+export function decodeBinaryMovies(buffer: ArrayBuffer): Movie[] {
+  const reader = new ByteReader(buffer)
+
+  const magic = reader.string(4)
+  if (magic !== MAGIC) {
+    throw new Error(`Invalid map data file (magic "${magic}")`)
+  }
+  const version = reader.u16()
+  if (version > SUPPORTED_VERSION) {
+    throw new Error(`Unsupported map data version ${version}`)
+  }
+
+  const header: BinaryHeader = JSON.parse(reader.string(reader.u32()))
+
+  const strings: string[] = new Array(header.string_count)
+  for (let i = 0; i < header.string_count; i++) {
+    strings[i] = reader.string(reader.varint())
+  }
+
+  const readRef = (movieId: string, template?: string): string | undefined => {
+    const ref = reader.varint()
+    if (ref === 0) return undefined
+    if (ref === 1) return template?.replace('{id}', movieId)
+    return strings[ref - 2]
+  }
+
+  const movies: Movie[] = new Array(header.movie_count)
+  let previousId = 0
+  let previousTmdbId = 0
+
+  for (let i = 0; i < header.movie_count; i++) {
+    const idDelta = reader.varint()
+    const idWidth = reader.u8()
+    let movieId: string
+    if (idWidth) {
+      previousId += idDelta
+      movieId = header.id_prefix + String(previousId).padStart(idWidth, '0')
+    } else {
+      movieId = strings[reader.varint()]
+    }
+
+    const flags = reader.u8()
+    previousTmdbId += reader.zigzag()
+    const title = strings[reader.varint()]
+    const year = reader.varint()
+    const imdbRating = flags & FLAG_HAS_RATING ? reader.u16() / header.rating_scale : undefined
+
+    const poster = readRef(movieId, header.templates.poster)
+    const thumbnail = readRef(movieId, header.templates.thumbnail_52)
+    const banner = readRef(movieId)
+    const trailer = readRef(movieId)
+
+    const genres: string[] = new Array(reader.varint())
+    for (let g = 0; g < genres.length; g++) {
+      genres[g] = strings[reader.varint()]
+    }
+
+    const locations: Location[] = []
+    if (header.has_locations) {
+      const locationCount = reader.varint()
+      let lng = 0
+      let lat = 0
+      for (let l = 0; l < locationCount; l++) {
+        lng += reader.zigzag()
+        lat += reader.zigzag()
+        const nameRef = reader.varint()
+        const sceneRef = reader.varint()
+        locations.push({
+          lat: lat / header.coord_scale,
+          lng: lng / header.coord_scale,
+          display_name: nameRef ? strings[nameRef - 1] : undefined,
+          scene_description: sceneRef ? strings[sceneRef - 1] : undefined,
+        })
+      }
+    }
+
+    movies[i] = {
+      movie_id: movieId,
+      title,
+      year,
+      imdb_id: movieId,
+      tmdb_id: String(previousTmdbId),
+      type: flags & FLAG_TV ? 'tv' : 'movie',
+      genres,
+      poster,
+      thumbnail_52: thumbnail,
+      banner_1280: banner,
+      trailer,
+      imdb_rating: imdbRating,
+      locations,
+    }
+  }
+
+  return movies
+}
+
+/**
+ * Fetch and decode a binary map data file
+ */
+export async function fetchBinaryMovies(url: string): Promise<Movie[]> {
+  const res = await fetch(url)
+  if (!res.ok) throw new Error(`HTTP error! status: ${res.status}`)
+  return decodeBinaryMovies(await res.arrayBuffer())
+}
+
+/**
+ * Convert a movies.geojson feature (fallback path) to a Movie
+ */
+function convertGeoJSONFeature(feature: any): Movie {
+  const p = feature.properties
+  const coordinates: number[][] = feature.geometry.type === 'Point'
+    ? [feature.geometry.coordinates]
+    : feature.geometry.coordinates
+
+  return {
+    movie_id: p.movie_id,
+    title: p.title,
+    year: p.year,
+    imdb_id: p.movie_id,
+    tmdb_id: String(p.tmdb_id),
+    type: p.type || 'movie',
+    genres: p.genres || (p.top_genre ? [p.top_genre] : []),
+    poster: p.poster || undefined,
+    thumbnail_52: p.thumbnail_52 || undefined,
+    banner_1280: p.banner_1280 || undefined,
+    trailer: p.trailer || undefined,
+    imdb_rating: p.imdb_rating ?? undefined,
+    locations: coordinates.map(([lng, lat], i) => ({
+      lat,
+      lng,
+      display_name: p.location_names?.[i] || undefined,
+      scene_description: p.scene_descriptions?.[i] || undefined,
+    })),
+  }
+}
+
+/**
+ * Load every movie with its locations (cached)
+ * Uses movies.bin, falling back to movies.geojson
+ */
+export function loadAllMovies(): Promise<Movie[]> {
+  if (!moviesPromise) {
+    moviesPromise = fetchBinaryMovies(MOVIES_BIN_URL)
+      .catch(async error => {
+        console.warn('⚠️ Binary map data unavailable, falling back to GeoJSON:', error)
+        const res = await fetch(MOVIES_GEOJSON_URL)
+        if (!res.ok) throw new Error(`HTTP error! status: ${res.status}`)
+        const geojson = await res.json()
+        return (geojson.features as any[]).map(convertGeoJSONFeature)
+      })
+      .catch(error => {
+        moviesPromise = null
+        throw error
+      })
+  }
+  return moviesPromise
+}
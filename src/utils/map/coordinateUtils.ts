@@ -30,6 +30,41 @@ export function calculateBoundsFromLocations(locations: Location[]): {
   return { minLng, maxLng, minLat, maxLat }
 }
 
+/**
+ * Mean Earth radius in kilometres (used by haversine calculations)
+ */
+export const EARTH_RADIUS_KM = 6371.0088
+
+/**
+ * Great-circle distance between two points in kilometres (haversine formula)
+ */
+export function haversineDistance(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180
+  const dLat = toRad(lat2 - lat1)
+  const dLng = toRad(lng2 - lng1)
+
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)))
+}
+
+/**
+ * Format a distance in kilometres for display ("350 m", "4.2 km", "120 km")
+ */
+export function formatDistance(km: number): string {
+  if (km < 1) return `${Math.round(km * 1000)} m`
+  if (km < 10) return `${km.toFixed(1)} km`
+  return `${Math.round(km)} km`
+}
+
+/**
+ * Spot ID for saved locations (trip stops, My list, visited) - points closer than ~10 m count as the same spot
+ */
+export function getSpotId(lat: number, lng: number): string {
+  return `${lat.toFixed(4)},${lng.toFixed(4)}`
+}
+
 /**
  * Calculate centroid from an array of coordinates
  */
@@ -49,61 +84,6 @@ export function calculateCentroid(coordinates: number[][]): [number, number] {
   return [sum[0] / coordinates.length, sum[1] / coordinates.length]
 }
 
-/**
- * Apply spiral offset to overlapping markers
- * Groups features by approximate location and offsets them in a spiral pattern
- */
-export function applySpiralOffset(features: any[], overlapThreshold: number = 0.0005) {
-  const locationGroups: { [key: string]: any[] } = {}
-
-  // Group features by approximate location
-  features.forEach(feature => {
-    const [lng, lat] = feature.geometry.coordinates
-    const gridKey = `${Math.round(lng / overlapThreshold)}_${Math.round(lat / overlapThreshold)}`
-
-    if (!locationGroups[gridKey]) {
-      locationGroups[gridKey] = []
-    }
-    locationGroups[gridKey].push(feature)
-  })
-
-  // Apply spiral offset to overlapping markers
-  const processedFeatures: any[] = []
-  Object.values(locationGroups).forEach((group: any[]) => {
-    if (group.length === 1) {
-      // No overlap - keep original position
-      processedFeatures.push(group[0])
-    } else {
-      // Multiple markers at same location - apply LARGER spiral offset for better visibility
-      group.forEach((feature: any, index: number) => {
-        const angle = (index / group.length) * 2 * Math.PI
-        // INCREASED radius significantly - from 0.0005 to 0.003 (about 333 meters)
-        // This makes overlapping markers much more visible and clickable
-        const radius = 0.003 + (Math.floor(index / 8) * 0.002) // Spiral outward more
-        const offsetLng = Math.cos(angle) * radius
-        const offsetLat = Math.sin(angle) * radius
-
-        const [lng, lat] = feature.geometry.coordinates
-        processedFeatures.push({
-          ...feature,
-          geometry: {
-            type: 'Point' as const,
-            coordinates: [lng + offsetLng, lat + offsetLat]
-          },
-          properties: {
-            ...feature.properties,
-            _overlapping_count: group.length, // Track overlap count
-            _overlap_index: index,
-            _original_coordinates: [lng, lat] // Store original coordinates for reference
-          }
-        })
-      })
-    }
-  })
-
-  return processedFeatures
-}
-
 /**
  * Convert MultiPoint features into individual Point features
  * This makes it easier to work with markers on the map
@@ -16,6 +16,7 @@ export interface GeoJSONFeature {
     tmdb_id: number
     title: string
     year: number
+    type?: 'movie' | 'tv'
     poster: string | null
     thumbnail_52?: string | null
     banner_1280?: string | null
@@ -26,6 +27,7 @@ export interface GeoJSONFeature {
     imdb_rating: number | null
     locations_count: number
     location_names: string[]
+    scene_descriptions?: (string | null)[]
     has_timeline: boolean
     centroid?: [number, number]
   }
@@ -79,6 +81,43 @@ export function convertFeatureToMovie(feature: GeoJSONFeature): Movie {
   }
 }
 
+/**
+ * Convert a full Movie (e.g. from its detail file) back to a GeoJSON feature
+ * Used when every location of a movie is needed, not just those in loaded tiles
+ */
+export function convertMovieToFeature(movie: Movie): GeoJSONFeature {
+  const coordinates = movie.locations.map(loc => [loc.lng, loc.lat])
+
+  return {
+    type: 'Feature',
+    id: `movie-${movie.tmdb_id}`,
+    geometry: coordinates.length === 1
+      ? { type: 'Point', coordinates: coordinates[0] }
+      : { type: 'MultiPoint', coordinates },
+    properties: {
+      movie_id: movie.movie_id,
+      tmdb_id: Number(movie.tmdb_id),
+      title: movie.title,
+      year: movie.year,
+      type: movie.type,
+      poster: movie.poster || null,
+      thumbnail_52: movie.thumbnail_52 || null,
+      banner_1280: movie.banner_1280 || null,
+      trailer: movie.trailer || null,
+      top_genre: movie.genres[0] || null,
+      genres: [...movie.genres],
+      short_description: '',
+      imdb_rating: movie.imdb_rating ?? null,
+      locations_count: movie.locations.length,
+      location_names: movie.locations.map(loc =>
+        loc.display_name || `${loc.city}, ${loc.country}${loc.description ? ` (${loc.description})` : ''}`
+      ),
+      scene_descriptions: movie.locations.map(loc => loc.scene_description || null),
+      has_timeline: false,
+    },
+  }
+}
+
 /**
  * Create GeoJSON FeatureCollection from features array
  */
@@ -0,0 +1,40 @@
+/**
+ * Picking a point on the map (e.g. the "Pick on map" nearby search)
+ * While a pick is active the next click only chooses the point - marker, cluster
+ * and region click handlers check isMapPicking() and leave that click alone.
+ */
+
+import type maplibregl from 'maplibre-gl'
+
+const pickingMaps = new WeakSet<maplibregl.Map>()
+
+/**
+ * Whether the map's next click is picking a point
+ */
+export function isMapPicking(map: maplibregl.Map): boolean {
+  return pickingMaps.has(map)
+}
+
+/**
+ * Call onPick with the next clicked point
+ * Returns a function that cancels a pick that is still waiting.
+ */
+export function pickMapPoint(map: maplibregl.Map, onPick: (lat: number, lng: number) => void): () => void {
+  const handleClick = (e: maplibregl.MapMouseEvent) => {
+    // Other click handlers run in the same event - stop picking once they've all seen it
+    setTimeout(() => pickingMaps.delete(map), 0)
+    map.getCanvas().style.cursor = ''
+    onPick(e.lngLat.lat, e.lngLat.lng)
+  }
+
+  pickingMaps.add(map)
+  map.getCanvas().style.cursor = 'crosshair'
+  map.once('click', handleClick)
+
+  return () => {
+    if (!pickingMaps.has(map)) return
+    map.off('click', handleClick)
+    pickingMaps.delete(map)
+    map.getCanvas().style.cursor = ''
+  }
+}
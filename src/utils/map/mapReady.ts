@@ -0,0 +1,33 @@
+/**
+ * Waiting for the map before adding sources and layers
+ * isStyleLoaded() is also false whenever a source or tile is loading, and 'load'
+ * only fires once - so checking one and waiting for the other drops updates made
+ * after startup. The first 'load' is remembered instead.
+ */
+
+import type maplibregl from 'maplibre-gl'
+
+const loadedMaps = new WeakSet<maplibregl.Map>()
+
+/**
+ * Remember when the map has loaded - call right after creating it
+ */
+export function trackMapLoad(map: maplibregl.Map): void {
+  map.once('load', () => loadedMaps.add(map))
+}
+
+/**
+ * Run callback now if the map has loaded, otherwise on its 'load' event
+ * Returns a function that cancels a callback that is still waiting.
+ */
+export function whenMapReady(map: maplibregl.Map, callback: () => void): () => void {
+  if (loadedMaps.has(map) || map.isStyleLoaded()) {
+    callback()
+    return () => {}
+  }
+
+  map.once('load', callback)
+  return () => {
+    map.off('load', callback)
+  }
+}
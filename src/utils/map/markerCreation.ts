@@ -101,3 +101,144 @@ export function createFallbackIcon(size: number = 52): { width: number; height:
 
   return { width: size, height: size, data: ctx.getImageData(0, 0, size, size).data }
 }
+
+/**
+ * Size of cluster marker icons in pixels
+ */
+export const CLUSTER_ICON_SIZE = 64
+
+type DrawPoster = (
+  ctx: CanvasRenderingContext2D,
+  movieId: string,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+) => Promise<boolean>
+
+/**
+ * Format a cluster count for the badge (e.g. 1.2k)
+ */
+function formatClusterCount(count: number): string {
+  if (count >= 10000) return `${Math.round(count / 1000)}k`
+  if (count >= 1000) return `${(count / 1000).toFixed(1)}k`
+  return String(count)
+}
+
+/**
+ * Draw the circular cluster frame and the count badge around existing content
+ */
+function drawClusterFrame(ctx: CanvasRenderingContext2D, pointCount: number): void {
+  const size = CLUSTER_ICON_SIZE
+  const radius = size / 2 - 6
+
+  // Gold ring
+  ctx.beginPath()
+  ctx.arc(size / 2, size / 2, radius, 0, Math.PI * 2)
+  ctx.lineWidth = 3
+  ctx.strokeStyle = '#FFD700'
+  ctx.stroke()
+
+  // Count badge (top right)
+  const label = formatClusterCount(pointCount)
+  ctx.font = 'bold 11px sans-serif'
+  const badgeWidth = Math.max(22, ctx.measureText(label).width + 10)
+  const badgeHeight = 18
+  const badgeX = size - badgeWidth
+  const badgeY = 0
+
+  ctx.beginPath()
+  ctx.moveTo(badgeX + badgeHeight / 2, badgeY)
+  ctx.arcTo(badgeX + badgeWidth, badgeY, badgeX + badgeWidth, badgeY + badgeHeight, badgeHeight / 2)
+  ctx.arcTo(badgeX + badgeWidth, badgeY + badgeHeight, badgeX, badgeY + badgeHeight, badgeHeight / 2)
+  ctx.arcTo(badgeX, badgeY + badgeHeight, badgeX, badgeY, badgeHeight / 2)
+  ctx.arcTo(badgeX, badgeY, badgeX + badgeWidth, badgeY, badgeHeight / 2)
+  ctx.closePath()
+  ctx.fillStyle = '#FF6B6B'
+  ctx.fill()
+
+  ctx.fillStyle = '#ffffff'
+  ctx.textAlign = 'center'
+  ctx.textBaseline = 'middle'
+  ctx.fillText(label, badgeX + badgeWidth / 2, badgeY + badgeHeight / 2 + 1)
+}
+
+/**
+ * Create the canvas for a cluster icon, clipped to the dark background circle
+ */
+function createClusterCanvas(): { ctx: CanvasRenderingContext2D; radius: number } {
+  const size = CLUSTER_ICON_SIZE
+  const radius = size / 2 - 6
+  const canvas = document.createElement('canvas')
+  canvas.width = size
+  canvas.height = size
+  const ctx = canvas.getContext('2d')!
+
+  ctx.save()
+  ctx.beginPath()
+  ctx.arc(size / 2, size / 2, radius, 0, Math.PI * 2)
+  ctx.fillStyle = '#1a1a1a'
+  ctx.fill()
+  ctx.clip()
+
+  return { ctx, radius }
+}
+
+/**
+ * Finish a cluster icon (remove clip, draw frame and badge) and return its pixels
+ */
+function finishClusterIcon(
+  ctx: CanvasRenderingContext2D,
+  pointCount: number
+): { width: number; height: number; data: Uint8ClampedArray } {
+  const size = CLUSTER_ICON_SIZE
+  ctx.restore()
+  drawClusterFrame(ctx, pointCount)
+  return { width: size, height: size, data: ctx.getImageData(0, 0, size, size).data }
+}
+
+/**
+ * Create a placeholder cluster icon (film icon + count badge)
+ * Synchronous so it can be added from a 'styleimagemissing' handler
+ */
+export function createClusterPlaceholderIcon(
+  pointCount: number
+): { width: number; height: number; data: Uint8ClampedArray } {
+  const size = CLUSTER_ICON_SIZE
+  const { ctx } = createClusterCanvas()
+
+  ctx.font = '22px sans-serif'
+  ctx.textAlign = 'center'
+  ctx.textBaseline = 'middle'
+  ctx.fillText('🎬', size / 2, size / 2)
+
+  return finishClusterIcon(ctx, pointCount)
+}
+
+/**
+ * Create a cluster marker icon: up to 4 posters in a 2x2 collage with a count badge
+ * Posters are drawn from the sprite sheets via drawPoster (same size as the placeholder)
+ */
+export async function createClusterIcon(
+  pointCount: number,
+  posterMovieIds: string[],
+  drawPoster: DrawPoster
+): Promise<{ width: number; height: number; data: Uint8ClampedArray }> {
+  const size = CLUSTER_ICON_SIZE
+  const { ctx, radius } = createClusterCanvas()
+  const left = size / 2 - radius
+  const top = size / 2 - radius
+
+  if (posterMovieIds.length === 1) {
+    await drawPoster(ctx, posterMovieIds[0], left, top, radius * 2, radius * 2)
+  } else {
+    // 2x2 grid; missing quadrants stay dark
+    for (let i = 0; i < Math.min(4, posterMovieIds.length); i++) {
+      const x = left + (i % 2) * radius
+      const y = top + Math.floor(i / 2) * radius
+      await drawPoster(ctx, posterMovieIds[i], x, y, radius, radius)
+    }
+  }
+
+  return finishClusterIcon(ctx, pointCount)
+}
@@ -0,0 +1,210 @@
+/**
+ * Viewport tile loader for the z/x/y location quadtree
+ * Tiles are generated by transform_to_geojson.ts (public/geo/tiles/{z}/{x}/{y}.json).
+ * Each location lives in exactly one tile, so a viewport needs its tiles at every
+ * zoom from 0 up to the current tile zoom - ancestors hold the most important locations.
+ */
+
+import type { Movie } from '../../types'
+import { fetchBinaryMovies } from './binaryMapData'
+
+const TILE_INDEX_URL = '/geo/tile_index.json'
+const TILES_BASE_URL = '/geo/tiles'
+const CATALOG_URL = '/geo/movies_catalog.json'
+const CATALOG_BIN_URL = '/geo/movies_catalog.bin'
+
+// Load one zoom level deeper than the map so markers fill in before the user zooms further
+const TILE_ZOOM_OFFSET = 1
+// Web Mercator latitude limit
+const MAX_MERCATOR_LAT = 85.0511287798
+
+export interface TileIndex {
+  version: number
+  min_zoom: number
+  max_zoom: number
+  max_features_per_tile: number
+  tiles: Record<string, number>
+  metadata: {
+    total_features: number
+    total_tiles: number
+    generated_at: string
+  }
+}
+
+export interface ViewportBounds {
+  west: number
+  south: number
+  east: number
+  north: number
+}
+
+interface MovieCatalogEntry {
+  movie_id: string
+  tmdb_id: number
+  title: string
+  year: number
+  type: 'movie' | 'tv'
+  genres: string[]
+  imdb_rating: number | null
+}
+
+// Module-level caches (shared across component instances)
+let tileIndexPromise: Promise<TileIndex> | null = null
+let catalogPromise: Promise<Movie[]> | null = null
+const tilePromises = new Map<string, Promise<any[]>>()
+
+/**
+ * Load the tile index (cached)
+ */
+export function loadTileIndex(): Promise<TileIndex> {
+  if (!tileIndexPromise) {
+    tileIndexPromise = fetch(TILE_INDEX_URL)
+      .then(res => {
+        if (!res.ok) throw new Error(`HTTP error! status: ${res.status}`)
+        return res.json()
+      })
+      .catch(error => {
+        tileIndexPromise = null
+        throw error
+      })
+  }
+  return tileIndexPromise
+}
+
+/**
+ * Load the movie catalogue used for filtering (cached)
+ * Movies come without locations - those arrive with the tiles.
+ * Uses the binary catalogue, falling back to JSON
+ */
+export function loadMovieCatalog(): Promise<Movie[]> {
+  if (!catalogPromise) {
+    catalogPromise = fetchBinaryMovies(CATALOG_BIN_URL)
+      .catch(error => {
+        console.warn('⚠️ Binary catalogue unavailable, falling back to JSON:', error)
+        return loadJsonCatalog()
+      })
+      .catch(error => {
+        catalogPromise = null
+        throw error
+      })
+  }
+  return catalogPromise
+}
+
+/**
+ * Load the JSON movie catalogue
+ */
+async function loadJsonCatalog(): Promise<Movie[]> {
+  const res = await fetch(CATALOG_URL)
+  if (!res.ok) throw new Error(`HTTP error! status: ${res.status}`)
+  const entries: MovieCatalogEntry[] = await res.json()
+
+  return entries.map(entry => ({
+    movie_id: entry.movie_id,
+    title: entry.title,
+    year: entry.year,
+    imdb_id: entry.movie_id,
+    tmdb_id: String(entry.tmdb_id),
+    type: entry.type,
+    genres: entry.genres || [],
+    imdb_rating: entry.imdb_rating ?? undefined,
+    locations: [],
+  }))
+}
+
+/**
+ * Convert a coordinate to slippy-map tile x/y at a zoom level
+ */
+function lngLatToTile(lng: number, lat: number, zoom: number): [number, number] {
+  const tileCount = 2 ** zoom
+  const clampedLat = Math.max(-MAX_MERCATOR_LAT, Math.min(MAX_MERCATOR_LAT, lat))
+  const latRad = (clampedLat * Math.PI) / 180
+
+  const x = Math.floor(((lng + 180) / 360) * tileCount)
+  const y = Math.floor(((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2) * tileCount)
+
+  return [
+    Math.max(0, Math.min(tileCount - 1, x)),
+    Math.max(0, Math.min(tileCount - 1, y)),
+  ]
+}
+
+/**
+ * Normalize viewport longitudes to [-180, 180] ranges
+ * A viewport crossing the antimeridian is split in two
+ */
+function getLngRanges(bounds: ViewportBounds): Array<[number, number]> {
+  if (bounds.east - bounds.west >= 360) {
+    return [[-180, 180]]
+  }
+
+  const west = ((bounds.west + 540) % 360) - 180
+  const east = ((bounds.east + 540) % 360) - 180
+  return west <= east ? [[west, east]] : [[west, 180], [-180, east]]
+}
+
+/**
+ * Tile zoom to load for a map zoom level
+ */
+export function getTileZoom(mapZoom: number, index: TileIndex): number {
+  return Math.max(index.min_zoom, Math.min(index.max_zoom, Math.floor(mapZoom) + TILE_ZOOM_OFFSET))
+}
+
+/**
+ * List existing tile keys ("z/x/y") intersecting the viewport at zooms 0..tileZoom
+ */
+export function getTilesForViewport(
+  bounds: ViewportBounds,
+  tileZoom: number,
+  index: TileIndex
+): string[] {
+  const keys = new Set<string>()
+
+  for (let zoom = index.min_zoom; zoom <= tileZoom; zoom++) {
+    for (const [west, east] of getLngRanges(bounds)) {
+      const [minX, minY] = lngLatToTile(west, bounds.north, zoom)
+      const [maxX, maxY] = lngLatToTile(east, bounds.south, zoom)
+
+      for (let x = minX; x <= maxX; x++) {
+        for (let y = minY; y <= maxY; y++) {
+          const key = `${zoom}/${x}/${y}`
+          if (index.tiles[key]) {
+            keys.add(key)
+          }
+        }
+      }
+    }
+  }
+
+  return Array.from(keys)
+}
+
+/**
+ * Load a single tile's Point features (cached, deduped)
+ */
+export function loadTile(key: string): Promise<any[]> {
+  const cached = tilePromises.get(key)
+  if (cached) return cached
+
+  const request = fetch(`${TILES_BASE_URL}/${key}.json`)
+    .then(res => {
+      if (!res.ok) throw new Error(`HTTP error! status: ${res.status}`)
+      return res.json()
+    })
+    .then(data => data.features as any[])
+    .catch(error => {
+      console.error(`Failed to load tile ${key}:`, error)
+      tilePromises.delete(key)
+      return []
+    })
+
+  tilePromises.set(key, request)
+  return request
+}
+
+/**
+ * Check whether a tile has already been requested
+ */
+export function isTileRequested(key: string): boolean {
+  return tilePromises.has(key)
+}
@@ -0,0 +1,73 @@
+/**
+ * Timeline playback highlight - the segment of the connecting line leading to the
+ * current stop, and a ring around the stop itself (drawn above the connecting line)
+ */
+
+import type maplibregl from 'maplibre-gl'
+
+const SEGMENT_ID = 'timeline-segment'
+const STOP_ID = 'timeline-stop'
+
+/**
+ * Highlight the current stop and the segment from the previous one (null for the first stop)
+ */
+export function setTimelineHighlight(
+  map: maplibregl.Map,
+  current: [number, number],
+  previous: [number, number] | null
+) {
+  const segment: GeoJSON.Feature = {
+    type: 'Feature',
+    geometry: { type: 'LineString', coordinates: previous ? [previous, current] : [] },
+    properties: {},
+  }
+  const stop: GeoJSON.Feature = {
+    type: 'Feature',
+    geometry: { type: 'Point', coordinates: current },
+    properties: {},
+  }
+
+  const segmentSource = map.getSource(SEGMENT_ID) as maplibregl.GeoJSONSource | undefined
+  if (segmentSource) {
+    segmentSource.setData(segment)
+    ;(map.getSource(STOP_ID) as maplibregl.GeoJSONSource).setData(stop)
+    return
+  }
+
+  map.addSource(SEGMENT_ID, { type: 'geojson', data: segment })
+  map.addSource(STOP_ID, { type: 'geojson', data: stop })
+
+  map.addLayer({
+    id: SEGMENT_ID,
+    type: 'line',
+    source: SEGMENT_ID,
+    layout: { 'line-cap': 'round' },
+    paint: {
+      'line-color': '#fcd34d',
+      'line-width': 7,
+      'line-opacity': 0.95,
+    },
+  })
+
+  map.addLayer({
+    id: STOP_ID,
+    type: 'circle',
+    source: STOP_ID,
+    paint: {
+      'circle-radius': 18,
+      'circle-color': 'rgba(252, 211, 77, 0.25)',
+      'circle-stroke-width': 3,
+      'circle-stroke-color': '#fcd34d',
+    },
+  })
+}
+
+/**
+ * Remove the highlight (when playback ends or focus is cleared)
+ */
+export function removeTimelineHighlight(map: maplibregl.Map) {
+  ;[SEGMENT_ID, STOP_ID].forEach(id => {
+    if (map.getLayer(id)) map.removeLayer(id)
+    if (map.getSource(id)) map.removeSource(id)
+  })
+}
@@ -0,0 +1,77 @@
+/**
+ * Movie Detail Loader
+ * Fetches per-movie detail files (/geo/details/{movie_id}.json) emitted by transform_to_geojson.ts
+ * Keeps recently used movies in a small LRU cache and dedupes in-flight requests
+ */
+
+import type { Movie } from '../types'
+
+const DETAILS_BASE_URL = '/geo/details'
+const MAX_CACHED_DETAILS = 50
+
+// Map iteration order is insertion order, so the first key is always the least recently used
+const detailCache = new Map<string, Movie>()
+const pendingRequests = new Map<string, Promise<Movie | null>>()
+
+/**
+ * Store a detail in the cache, evicting the least recently used entry when full
+ */
+function cacheDetail(movieId: string, movie: Movie): void {
+  detailCache.delete(movieId)
+  detailCache.set(movieId, movie)
+
+  if (detailCache.size > MAX_CACHED_DETAILS) {
+    const oldestKey = detailCache.keys().next().value
+    if (oldestKey !== undefined) {
+      detailCache.delete(oldestKey)
+    }
+  }
+}
+
+/**
+ * Load full movie data (all locations with scene descriptions) by IMDb ID
+ * Returns null if the detail file is missing or fails to load
+ */
+export async function loadMovieDetail(movieId: string): Promise<Movie | null> {
+  const cached = detailCache.get(movieId)
+  if (cached) {
+    // Refresh recency
+    cacheDetail(movieId, cached)
+    return cached
+  }
+
+  const pending = pendingRequests.get(movieId)
+  if (pending) {
+    return pending
+  }
+
+  const request = fetch(`${DETAILS_BASE_URL}/${encodeURIComponent(movieId)}.json`)
+    .then(res => {
+      if (!res.ok) {
+        throw new Error(`HTTP error! status: ${res.status}`)
+      }
+      return res.json()
+    })
+    .then((movie: Movie) => {
+      cacheDetail(movieId, movie)
+      return movie
+    })
+    .catch(error => {
+      console.error(`Failed to load movie detail for ${movieId}:`, error)
+      return null
+    })
+    .finally(() => {
+      pendingRequests.delete(movieId)
+    })
+
+  pendingRequests.set(movieId, request)
+  return request
+}
+
+/**
+ * Warm the cache for a movie the user is likely to open (e.g. on marker hover)
+ */
+export function prefetchMovieDetail(movieId: string | undefined | null): void {
+  if (!movieId || detailCache.has(movieId) || pendingRequests.has(movieId)) return
+  loadMovieDetail(movieId)
+}
@@ -0,0 +1,210 @@
+/**
+ * Passport - stats, badges and a share image for the visited filming locations
+ * Visited spots are stored with the favorites (see src/utils/favorites.ts); a spot
+ * counts for every movie filmed there, matched by spot ID.
+ */
+
+import type { Movie, Place, VisitedLocation } from '../types'
+import { findCountry, findLocationCountry } from '../../lib/countryNames'
+import { createCityFinder } from './placeSearch'
+import { getSpotId } from './map/coordinateUtils'
+
+// movies.bin stores coordinates on a 1e-5 grid (scripts/encodeBinaryMapData.ts)
+const MAP_DATA_COORD_SCALE = 1e5
+
+/**
+ * Spot ID after snapping to the map data grid - visits are saved with full precision
+ * coordinates, which can round to a different spot ID than their quantized copy
+ */
+function getMapDataSpotId(lat: number, lng: number): string {
+  const snap = (value: number) => Math.round(value * MAP_DATA_COORD_SCALE) / MAP_DATA_COORD_SCALE
+  return getSpotId(snap(lat), snap(lng))
+}
+
+export interface MovieProgress {
+  movieId: string
+  title: string
+  year: number
+  visited: number
+  total: number
+}
+
+export interface PassportStats {
+  locations: number
+  countries: { name: string; count: number }[]
+  continents: number
+  cities: { name: string; slug?: string; count: number }[]
+  movies: MovieProgress[]
+}
+
+export interface PassportBadge {
+  id: string
+  emoji: string
+  name: string
+  description: string
+  earned: boolean
+}
+
+/**
+ * Visited counts per country and city, and how much of each movie has been visited
+ * Movies are sorted by completion, most complete first.
+ */
+export function getPassportStats(visited: VisitedLocation[], movies: readonly Movie[], places: Place[]): PassportStats {
+  const visitedIds = new Set(visited.map(location => getMapDataSpotId(location.lat, location.lng)))
+  const findCity = createCityFinder(places)
+
+  // Spots of every movie - and the country of spots saved without one
+  const spotCountries = new Map<string, string>()
+  const progress: MovieProgress[] = []
+  for (const movie of movies) {
+    const spots = new Set<string>()
+    for (const location of movie.locations) {
+      const id = getMapDataSpotId(location.lat, location.lng)
+      spots.add(id)
+      if (visitedIds.has(id) && !spotCountries.has(id)) {
+        const country = findLocationCountry(location)
+        if (country) spotCountries.set(id, country.english)
+      }
+    }
+
+    const count = Array.from(spots).filter(id => visitedIds.has(id)).length
+    if (count > 0) {
+      progress.push({ movieId: movie.movie_id, title: movie.title, year: movie.year, visited: count, total: spots.size })
+    }
+  }
+
+  const countries = new Map<string, number>()
+  const continents = new Set<string>()
+  const cities = new Map<Place, number>()
+
+  for (const location of visited) {
+    const name = location.country || spotCountries.get(getMapDataSpotId(location.lat, location.lng))
+    const country = name ? findCountry(name) : null
+    if (country) {
+      countries.set(country.english, (countries.get(country.english) || 0) + 1)
+      continents.add(country.continent)
+    }
+
+    const city = findCity(location.lng, location.lat)
+    if (city) cities.set(city, (cities.get(city) || 0) + 1)
+  }
+
+  return {
+    locations: visited.length,
+    countries: Array.from(countries, ([name, count]) => ({ name, count })).sort((a, b) => b.count - a.count),
+    continents: continents.size,
+    cities: Array.from(cities, ([city, count]) => ({ name: city.name, ...(city.slug && { slug: city.slug }), count }))
+      .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name)),
+    movies: progress.sort((a, b) => b.visited / b.total - a.visited / a.total || b.visited - a.visited),
+  }
+}
+
+/**
+ * Badges, in the order they're shown
+ */
+export function getPassportBadges(stats: PassportStats): PassportBadge[] {
+  const badge = (id: string, emoji: string, name: string, description: string, earned: boolean): PassportBadge =>
+    ({ id, emoji, name, description, earned })
+
+  return [
+    badge('first-stop', '📍', 'First stop', 'Visit a filming location', stats.locations >= 1),
+    badge('location-scout', '🎥', 'Location scout', 'Visit 10 filming locations', stats.locations >= 10),
+    badge('set-hopper', '🎬', 'Set hopper', 'Visit 50 filming locations', stats.locations >= 50),
+    badge('city-break', '🏙️', 'City break', 'Visit locations in 5 cities', stats.cities.length >= 5),
+    badge('globetrotter', '🌍', 'Globetrotter', 'Visit locations in 5 countries', stats.countries.length >= 5),
+    badge('world-tour', '✈️', 'World tour', 'Visit locations on 3 continents', stats.continents >= 3),
+    badge('completionist', '🏆', 'Completionist', 'Visit every location of a movie (3 or more)',
+      stats.movies.some(movie => movie.total >= 3 && movie.visited === movie.total)),
+  ]
+}
+
+const IMAGE_WIDTH = 1200
+const IMAGE_HEIGHT = 630
+const FONT = 'system-ui, -apple-system, "Segoe UI", sans-serif'
+
+/**
+ * Draw the passport as a 1200×630 PNG (the usual social preview size)
+ */
+export function createPassportImage(stats: PassportStats, badges: PassportBadge[]): Promise<Blob> {
+  const canvas = document.createElement('canvas')
+  canvas.width = IMAGE_WIDTH
+  canvas.height = IMAGE_HEIGHT
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return Promise.reject(new Error('Canvas is not supported'))
+
+  // Background
+  const background = ctx.createLinearGradient(0, 0, IMAGE_WIDTH, IMAGE_HEIGHT)
+  background.addColorStop(0, '#111827')
+  background.addColorStop(1, '#1e3a5f')
+  ctx.fillStyle = background
+  ctx.fillRect(0, 0, IMAGE_WIDTH, IMAGE_HEIGHT)
+  ctx.strokeStyle = '#f59e0b'
+  ctx.lineWidth = 6
+  ctx.strokeRect(24, 24, IMAGE_WIDTH - 48, IMAGE_HEIGHT - 48)
+
+  // Title
+  ctx.textBaseline = 'top'
+  ctx.fillStyle = '#f59e0b'
+  ctx.font = `bold 28px ${FONT}`
+  ctx.fillText('🛂 FILMINGMAP PASSPORT', 64, 60)
+  ctx.fillStyle = '#ffffff'
+  ctx.font = `bold 52px ${FONT}`
+  ctx.fillText('My filming location travels', 64, 100)
+
+  // Stats
+  const figures = [
+    { value: stats.locations, label: 'locations' },
+    { value: stats.countries.length, label: 'countries' },
+    { value: stats.cities.length, label: 'cities' },
+    { value: stats.continents, label: 'continents' },
+  ]
+  figures.forEach(({ value, label }, i) => {
+    const x = 64 + i * 200
+    ctx.fillStyle = '#ffffff'
+    ctx.font = `bold 64px ${FONT}`
+    ctx.fillText(String(value), x, 190)
+    ctx.fillStyle = '#9ca3af'
+    ctx.font = `24px ${FONT}`
+    ctx.fillText(label, x, 262)
+  })
+
+  // Movie progress
+  ctx.fillStyle = '#f59e0b'
+  ctx.font = `bold 24px ${FONT}`
+  ctx.fillText('MOVIES', 64, 326)
+  stats.movies.slice(0, 4).forEach((movie, i) => {
+    const y = 366 + i * 44
+    ctx.fillStyle = '#374151'
+    ctx.fillRect(64, y + 8, 240, 16)
+    ctx.fillStyle = '#f59e0b'
+    ctx.fillRect(64, y + 8, 240 * movie.visited / movie.total, 16)
+    ctx.fillStyle = '#ffffff'
+    ctx.font = `24px ${FONT}`
+    const label = `${movie.visited}/${movie.total} ${movie.title} locations`
+    ctx.fillText(label.length > 42 ? `${label.slice(0, 41)}…` : label, 324, y)
+  })
+
+  // Countries
+  ctx.fillStyle = '#f59e0b'
+  ctx.font = `bold 24px ${FONT}`
+  ctx.fillText('COUNTRIES', 880, 190)
+  ctx.fillStyle = '#ffffff'
+  ctx.font = `24px ${FONT}`
+  stats.countries.slice(0, 6).forEach((country, i) => {
+    ctx.fillText(`${country.name} · ${country.count}`, 880, 230 + i * 36)
+  })
+
+  // Badges
+  const earned = badges.filter(badge => badge.earned)
+  ctx.font = `40px ${FONT}`
+  earned.forEach((badge, i) => {
+    ctx.fillText(badge.emoji, 880 + (i % 5) * 52, 450 + Math.floor(i / 5) * 52)
+  })
+  ctx.fillStyle = '#9ca3af'
+  ctx.font = `22px ${FONT}`
+  ctx.fillText(`${earned.length}/${badges.length} badges`, 880, 560)
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Failed to create the image')), 'image/png')
+  })
+}
@@ -0,0 +1,105 @@
+/**
+ * Place index loader (/geo/search/places.json, built by scripts/generatePlaceIndex.ts)
+ * Loaded on the first search only - it is larger than the movie search index
+ */
+
+import type { Place } from '../types'
+
+const PLACES_URL = '/geo/search/places.json'
+
+// Minimum padding (degrees) around a place when filtering markers to it
+const MIN_AREA_PADDING = 0.02
+
+/**
+ * Place as stored in places.json - context is rebuilt from parent indexes
+ */
+interface PlaceRecord {
+  name: string
+  parent?: number
+  context?: string
+  kind: Place['kind']
+  center: [number, number]
+  bbox: [number, number, number, number]
+  movieCount: number
+  slug?: string
+}
+
+let placesCache: Place[] | null = null
+let placesPromise: Promise<Place[]> | null = null
+
+/**
+ * Resolve each record's context ("Grad Dubrovnik, Hrvatska") from its parents
+ */
+function resolvePlaces(records: PlaceRecord[]): Place[] {
+  return records.map(record => {
+    const names: string[] = []
+    let parent = record.parent
+    while (parent !== undefined && records[parent]) {
+      names.push(records[parent].name)
+      parent = records[parent].parent
+    }
+
+    return {
+      name: record.name,
+      context: names.length > 0 ? names.join(', ') : record.context || '',
+      kind: record.kind,
+      center: record.center,
+      bbox: record.bbox,
+      movieCount: record.movieCount,
+      slug: record.slug,
+    }
+  })
+}
+
+/**
+ * Load all places (cached; retried on the next call after a failure)
+ */
+export async function loadPlaces(): Promise<Place[]> {
+  if (placesCache) return placesCache
+  if (placesPromise) return placesPromise
+
+  placesPromise = (async () => {
+    try {
+      const response = await fetch(PLACES_URL)
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`)
+      }
+      const data: { places: PlaceRecord[] } = await response.json()
+      placesCache = resolvePlaces(data.places)
+      return placesCache
+    } catch (error) {
+      placesPromise = null
+      throw error
+    }
+  })()
+
+  return placesPromise
+}
+
+/**
+ * Marker filter area for a place - its bbox with a little padding
+ * so single-point places still include their immediate surroundings
+ */
+export function getPlaceArea(place: Place): [number, number, number, number] {
+  const [west, south, east, north] = place.bbox
+  const padLng = Math.max((east - west) * 0.1, MIN_AREA_PADDING)
+  const padLat = Math.max((north - south) * 0.1, MIN_AREA_PADDING)
+  return [
+    Math.max(west - padLng, -180),
+    Math.max(south - padLat, -90),
+    Math.min(east + padLng, 180),
+    Math.min(north + padLat, 90),
+  ]
+}
+
+/**
+ * Lookup of the city (location page) a point falls in - the smallest city area containing it
+ */
+export function createCityFinder(places: Place[]): (lng: number, lat: number) => Place | null {
+  const area = ({ bbox: [west, south, east, north] }: Place) => (east - west) * (north - south)
+  const cities = places.filter(place => place.kind === 'city').sort((a, b) => area(a) - area(b))
+
+  return (lng, lat) => cities.find(({ bbox: [west, south, east, north] }) =>
+    lng >= west && lng <= east && lat >= south && lat <= north
+  ) || null
+}
@@ -0,0 +1,204 @@
+/**
+ * Scene-description full-text search over /geo/search/scenes.json
+ * (built by scripts/optimizeSearchData.ts)
+ *
+ * Query syntax:
+ *   car chase          scenes containing every word (stemmed, accents ignored)
+ *   "wedding scene"    exact phrase (word order and spacing)
+ * The last word also matches as a prefix while typing ("bri" -> "bridge")
+ */
+
+import { analyze, STOP_WORDS, stem, tokenize } from '../../lib/textSearch'
+
+const SCENES_URL = '/geo/search/scenes.json'
+
+interface SceneIndexFile {
+  movies: string[]
+  scenes: [number, number, string][]
+  terms: Record<string, number[]>
+}
+
+export interface SceneHit {
+  movieId: string
+  locationIndex: number
+  text: string
+  score: number
+}
+
+export interface SceneIndex {
+  search: (query: string, limit: number) => SceneHit[]
+}
+
+// scene id -> word positions
+type Postings = Map<number, number[]>
+
+let indexPromise: Promise<SceneIndex> | null = null
+
+/**
+ * Decode a term's delta-encoded [scene, position] pairs
+ */
+function decodePostings(encoded: number[]): Postings {
+  const postings: Postings = new Map()
+  let sceneId = 0
+  for (let i = 0; i < encoded.length; i += 2) {
+    sceneId += encoded[i]
+    const positions = postings.get(sceneId)
+    if (positions) {
+      positions.push(encoded[i + 1])
+    } else {
+      postings.set(sceneId, [encoded[i + 1]])
+    }
+  }
+  return postings
+}
+
+/**
+ * Merge postings of several terms (used for prefix matches)
+ */
+function mergePostings(lists: Postings[]): Postings {
+  if (lists.length === 1) return lists[0]
+
+  const merged: Postings = new Map()
+  for (const list of lists) {
+    for (const [sceneId, positions] of list) {
+      merged.set(sceneId, [...(merged.get(sceneId) || []), ...positions])
+    }
+  }
+  return merged
+}
+
+/**
+ * Split a query into quoted phrases and loose words
+ */
+function parseQuery(query: string): { phrases: string[]; words: string } {
+  const phrases: string[] = []
+  const words = query.replace(/"([^"]*)"?/g, (_, phrase: string) => {
+    if (phrase.trim()) phrases.push(phrase)
+    return ' '
+  })
+  return { phrases, words }
+}
+
+function createSceneIndex(data: SceneIndexFile): SceneIndex {
+  const postingsCache = new Map<string, Postings>()
+  const allTerms = Object.keys(data.terms)
+  const sceneCount = data.scenes.length
+
+  const getPostings = (term: string): Postings => {
+    let postings = postingsCache.get(term)
+    if (!postings) {
+      postings = data.terms[term] ? decodePostings(data.terms[term]) : new Map()
+      postingsCache.set(term, postings)
+    }
+    return postings
+  }
+
+  // Rarer terms count more
+  const idf = (postings: Postings) => Math.log(1 + sceneCount / Math.max(1, postings.size))
+
+  const search = (query: string, limit: number): SceneHit[] => {
+    const { phrases, words } = parseQuery(query)
+    // [postings, phrase offset] groups - every group must match
+    const requirements: { postings: Postings[]; offsets: number[] }[] = []
+
+    for (const phrase of phrases) {
+      const terms = analyze(phrase)
+      if (terms.length === 0) continue
+      requirements.push({
+        postings: terms.map(({ term }) => getPostings(term)),
+        offsets: terms.map(({ position }) => position - terms[0].position),
+      })
+    }
+
+    const looseWords = tokenize(words).filter(word => !STOP_WORDS.has(word))
+    const isTyping = !/[\s"]$/.test(query)
+    looseWords.forEach((word, i) => {
+      const isLast = i === looseWords.length - 1
+      let postings: Postings
+      if (isLast && isTyping && word.length >= 3) {
+        // Prefix match on the word being typed (also covers its stemmed form)
+        const stemmed = stem(word)
+        const matches = allTerms.filter(term => term.startsWith(word) || term === stemmed)
+        postings = mergePostings(matches.slice(0, 50).map(getPostings))
+      } else {
+        postings = getPostings(stem(word))
+      }
+      requirements.push({ postings: [postings], offsets: [0] })
+    })
+
+    if (requirements.length === 0) return []
+
+    // Start from the rarest requirement
+    requirements.sort((a, b) => a.postings[0].size - b.postings[0].size)
+
+    const hits: SceneHit[] = []
+    for (const sceneId of requirements[0].postings[0].keys()) {
+      let score = 0
+      let matched = true
+
+      for (const { postings, offsets } of requirements) {
+        const starts = postings[0].get(sceneId)
+        if (!starts) {
+          matched = false
+          break
+        }
+
+        // Phrase: some start position must have every term at its offset
+        if (postings.length > 1) {
+          const hasPhrase = starts.some(start =>
+            postings.every((list, i) => list.get(sceneId)?.includes(start + offsets[i]))
+          )
+          if (!hasPhrase) {
+            matched = false
+            break
+          }
+        }
+
+        score += postings.reduce((sum, list) => sum + idf(list), 0) * (postings.length > 1 ? 2 : 1)
+      }
+
+      if (!matched) continue
+
+      const [movieRef, locationIndex, text] = data.scenes[sceneId]
+      // Shorter scenes are more specific
+      hits.push({ movieId: data.movies[movieRef], locationIndex, text, score: score / Math.log(2 + text.length / 20) })
+    }
+
+    return hits.sort((a, b) => b.score - a.score).slice(0, limit)
+  }
+
+  return { search }
+}
+
+/**
+ * Load the scene index (cached; retried on the next call after a failure)
+ */
+export function loadSceneIndex(): Promise<SceneIndex> {
+  if (!indexPromise) {
+    indexPromise = fetch(SCENES_URL)
+      .then(response => {
+        if (!response.ok) throw new Error(`HTTP ${response.status}`)
+        return response.json()
+      })
+      .then((data: SceneIndexFile) => createSceneIndex(data))
+      .catch(error => {
+        indexPromise = null
+        throw error
+      })
+  }
+  return indexPromise
+}
+
+/**
+ * Split scene text into [text, isMatch] parts for highlighting query words
+ */
+export function highlightScene(text: string, query: string): [string, boolean][] {
+  const queryTerms = new Set(analyze(query.replace(/"/g, ' ')).map(({ term }) => term))
+  const lastWord = tokenize(query).pop() || ''
+
+  return text.split(/([^\p{L}\p{N}']+)/u).map((part): [string, boolean] => {
+    const word = tokenize(part)[0]
+    if (!word || STOP_WORDS.has(word)) return [part, false]
+    return [part, queryTerms.has(stem(word)) || (lastWord.length >= 3 && word.startsWith(lastWord))]
+  })
+}
@@ -0,0 +1,278 @@
+/**
+ * Structured search query language for the search bar
+ * Tokens can be mixed with free text, e.g. `genre:horror year:1970..1979 rating:>7 scotland`
+ *
+ *   genre:horror          genre (repeatable, matches ANY)
+ *   year:1994             year, also 1990..1999, 1990s, >1990, <=2000
+ *   rating:>7.5           IMDb rating, also 7..9, >=8; a bare number is a minimum
+ *   country:italy         filming country (repeatable)
+ *   city:"new york"       filming place (repeatable, quotes for spaces)
+ *   type:tv               movie or tv
+ *   top250                IMDb TOP 250 only
+ */
+
+import type { FilterState } from '../types'
+
+export type SearchTokenKey = 'genre' | 'year' | 'rating' | 'country' | 'city' | 'type' | 'top250'
+
+export interface SearchToken {
+  key: SearchTokenKey
+  value: string
+  raw: string // Exact text in the query (used to remove the token)
+}
+
+export interface ParsedSearchQuery {
+  text: string // Free text left after removing tokens
+  tokens: SearchToken[]
+  genres: string[]
+  yearRange?: [number, number]
+  ratingRange?: [number, number]
+  countries: string[]
+  cities: string[]
+  type?: 'movie' | 'tv'
+  top250: boolean
+}
+
+/**
+ * Minimal search index entry fields used by predicates
+ */
+export interface SearchableEntry {
+  id: string
+  year: number
+  genres: string[]
+  rating?: number
+  type?: 'movie' | 'tv'
+  countries?: string[]
+  locations: string[]
+}
+
+export const TOKEN_KEYS: SearchTokenKey[] = ['genre', 'year', 'rating', 'country', 'city', 'type', 'top250']
+
+const MIN_YEAR = 1800
+const MAX_YEAR = 2100
+
+// key:"quoted value" | key:value | "quoted text" | word
+const TOKEN_PATTERN = /(\w+):"([^"]*)"?|(\w+):(\S*)|"([^"]*)"?|(\S+)/g
+
+/**
+ * Parse a numeric range: "a..b", ">a", ">=a", "<b", "<=b", "a" (exact unless minOnly)
+ * step is the smallest difference between values (for exclusive comparisons)
+ */
+function parseRange(
+  value: string,
+  bounds: [number, number],
+  step: number,
+  minOnly: boolean
+): [number, number] | undefined {
+  const between = value.match(/^(\d+(?:\.\d+)?)\.\.(\d+(?:\.\d+)?)$/)
+  if (between) {
+    const min = Number(between[1])
+    const max = Number(between[2])
+    return min <= max ? [min, max] : undefined
+  }
+
+  const comparison = value.match(/^(>=|<=|>|<)(\d+(?:\.\d+)?)$/)
+  if (comparison) {
+    const number = Number(comparison[2])
+    switch (comparison[1]) {
+      case '>': return [number + step, bounds[1]]
+      case '>=': return [number, bounds[1]]
+      case '<': return [bounds[0], number - step]
+      case '<=': return [bounds[0], number]
+    }
+  }
+
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    const number = Number(value)
+    return minOnly ? [number, bounds[1]] : [number, number]
+  }
+
+  return undefined
+}
+
+/**
+ * Parse a year value, including decades like "1970s"
+ */
+function parseYear(value: string): [number, number] | undefined {
+  const decade = value.match(/^(\d{3})0s$/)
+  if (decade) {
+    const start = Number(decade[1]) * 10
+    return [start, start + 9]
+  }
+  return parseRange(value, [MIN_YEAR, MAX_YEAR], 1, false)
+}
+
+/**
+ * Split a query into tokens and free text
+ */
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+  const parsed: ParsedSearchQuery = {
+    text: '',
+    tokens: [],
+    genres: [],
+    countries: [],
+    cities: [],
+    top250: false,
+  }
+  const freeText: string[] = []
+
+  for (const match of input.matchAll(TOKEN_PATTERN)) {
+    const raw = match[0]
+    const key = (match[1] || match[3])?.toLowerCase()
+    const value = (match[2] ?? match[4] ?? '').trim()
+
+    if (!key) {
+      const word = match[5] ?? match[6]
+      if (word.toLowerCase() === 'top250') {
+        parsed.top250 = true
+        parsed.tokens.push({ key: 'top250', value: '', raw })
+      } else if (word) {
+        freeText.push(word)
+      }
+      continue
+    }
+
+    let recognized = value.length > 0
+    if (recognized) {
+      switch (key) {
+        case 'genre':
+          parsed.genres.push(value)
+          break
+        case 'year': {
+          const range = parseYear(value)
+          if (range) parsed.yearRange = range
+          recognized = !!range
+          break
+        }
+        case 'rating': {
+          const range = parseRange(value, [0, 10], 0.01, true)
+          if (range) parsed.ratingRange = range
+          recognized = !!range
+          break
+        }
+        case 'country':
+          parsed.countries.push(value)
+          break
+        case 'city':
+          parsed.cities.push(value)
+          break
+        case 'type': {
+          const type = value.toLowerCase()
+          if (type === 'tv' || type === 'movie') parsed.type = type
+          recognized = type === 'tv' || type === 'movie'
+          break
+        }
+        default:
+          recognized = false
+      }
+    }
+
+    if (recognized) {
+      parsed.tokens.push({ key: key as SearchTokenKey, value, raw })
+    } else {
+      freeText.push(raw)
+    }
+  }
+
+  parsed.text = freeText.join(' ')
+  return parsed
+}
+
+/**
+ * Check an index entry against the parsed tokens
+ * City names are matched against full location names when provided (lowercased)
+ */
+export function matchesSearchQuery(
+  entry: SearchableEntry,
+  query: ParsedSearchQuery,
+  placeNames?: string
+): boolean {
+  if (query.genres.length > 0) {
+    const genres = entry.genres.map(genre => genre.toLowerCase())
+    const wanted = query.genres.map(genre => genre.toLowerCase())
+    if (!wanted.some(genre => genres.some(g => g.startsWith(genre)))) return false
+  }
+
+  if (query.yearRange && (entry.year < query.yearRange[0] || entry.year > query.yearRange[1])) {
+    return false
+  }
+
+  if (query.ratingRange) {
+    if (entry.rating === undefined) return false
+    if (entry.rating < query.ratingRange[0] || entry.rating > query.ratingRange[1]) return false
+  }
+
+  if (query.type && (entry.type || 'movie') !== query.type) return false
+
+  if (query.countries.length > 0) {
+    const countries = (entry.countries || entry.locations).map(country => country.toLowerCase())
+    const wanted = query.countries.map(country => country.toLowerCase())
+    if (!wanted.some(country => countries.some(c => c.includes(country)))) return false
+  }
+
+  if (query.cities.length > 0) {
+    const haystack = placeNames ?? entry.locations.join(', ').toLowerCase()
+    if (!query.cities.some(city => haystack.includes(city.toLowerCase()))) return false
+  }
+
+  return true
+}
+
+/**
+ * Map parsed tokens onto map filters (tokens without a FilterState equivalent are ignored)
+ * Genre prefixes are expanded to the matching names in knownGenres (filters compare exactly)
+ */
+export function applySearchQueryToFilters(
+  query: ParsedSearchQuery,
+  filters: FilterState,
+  knownGenres: string[] = []
+): FilterState {
+  const genres = query.genres.flatMap(genre => {
+    const matches = knownGenres.filter(known => known.toLowerCase().startsWith(genre.toLowerCase()))
+    return matches.length > 0 ? matches : [genre]
+  })
+
+  return {
+    ...filters,
+    genres: genres.length > 0 ? Array.from(new Set(genres)) : filters.genres,
+    decades: query.yearRange ? [query.yearRange[0], query.yearRange[1]] : filters.decades,
+    starRating: query.ratingRange ? [query.ratingRange[0], query.ratingRange[1]] : filters.starRating,
+    topIMDB: query.top250 || filters.topIMDB,
+  }
+}
+
+/**
+ * Human-readable chip label for a token
+ */
+export function formatSearchToken(token: SearchToken): string {
+  switch (token.key) {
+    case 'top250': return 'IMDb TOP 250'
+    case 'year': return `Year ${token.value}`
+    case 'rating': return `Rating ${token.value}`
+    case 'type': return token.value.toLowerCase() === 'tv' ? 'TV shows' : 'Movies'
+    default: return `${token.key.charAt(0).toUpperCase()}${token.key.slice(1)}: ${token.value}`
+  }
+}
+
+/**
+ * The token being typed at the end of the query, for autocomplete
+ * Values only contain spaces inside an open quote, so this returns null when the
+ * query ends with whitespace outside one. start is where the token's key begins.
+ */
+export function getPartialToken(input: string): { key: string | null; value: string; start: number } | null {
+  const match = input.match(/(?:^|\s)(\w+):("[^"]*|[^\s"]*)$|(\S+)$/)
+  if (!match) return null
+
+  if (match[1]) {
+    const token = `${match[1]}:${match[2]}`
+    return { key: match[1].toLowerCase(), value: match[2].replace(/^"/, ''), start: input.length - token.length }
+  }
+  return { key: null, value: match[3], start: input.length - match[3].length }
+}
+
+/**
+ * Format a key:value token, quoting values with spaces
+ */
+export function formatTokenText(key: string, value: string): string {
+  return /\s/.test(value) ? `${key}:"${value}"` : `${key}:${value}`
+}
@@ -0,0 +1,168 @@
+/**
+ * Trip planner - splits saved stops into days and orders each day's route
+ * Stops are grouped into one cluster per day (k-means with farthest-point seeds),
+ * each day is ordered with nearest neighbour and then improved with 2-opt.
+ * Days follow each other by proximity, starting with the first stop added.
+ */
+
+import type { TripStop } from '../types'
+import { haversineDistance } from './map/coordinateUtils'
+
+export interface TripDay {
+  stops: TripStop[] // In visiting order
+  distanceKm: number // Along the route, straight lines between stops
+}
+
+// Route color per day (map and planner panel)
+export const TRIP_DAY_COLORS = ['#f97316', '#a855f7', '#22c55e', '#0ea5e9', '#ef4444', '#eab308', '#ec4899']
+
+const MAX_KMEANS_ITERATIONS = 25
+const MAX_TWO_OPT_PASSES = 50
+
+const distance = (a: { lat: number; lng: number }, b: { lat: number; lng: number }) =>
+  haversineDistance(a.lat, a.lng, b.lat, b.lng)
+
+function getCenter(stops: TripStop[]): { lat: number; lng: number } {
+  return {
+    lat: stops.reduce((sum, s) => sum + s.lat, 0) / stops.length,
+    lng: stops.reduce((sum, s) => sum + s.lng, 0) / stops.length,
+  }
+}
+
+/**
+ * Length of a route in kilometres
+ */
+export function getRouteDistance(stops: TripStop[]): number {
+  let total = 0
+  for (let i = 1; i < stops.length; i++) {
+    total += distance(stops[i - 1], stops[i])
+  }
+  return total
+}
+
+/**
+ * Group stops into (at most) the given number of days by proximity
+ */
+export function clusterStopsByDay(stops: TripStop[], days: number): TripStop[][] {
+  const k = Math.max(1, Math.min(days, stops.length))
+  if (k === 1) return stops.length > 0 ? [stops] : []
+
+  // Farthest-point seeds - deterministic, and spread across the trip
+  const centers = [{ lat: stops[0].lat, lng: stops[0].lng }]
+  while (centers.length < k) {
+    let farthest = stops[0]
+    let farthestDistance = -1
+    stops.forEach(stop => {
+      const nearest = Math.min(...centers.map(center => distance(stop, center)))
+      if (nearest > farthestDistance) {
+        farthest = stop
+        farthestDistance = nearest
+      }
+    })
+    centers.push({ lat: farthest.lat, lng: farthest.lng })
+  }
+
+  let assignment: number[] = []
+  for (let iteration = 0; iteration < MAX_KMEANS_ITERATIONS; iteration++) {
+    const next = stops.map(stop => {
+      let best = 0
+      centers.forEach((center, index) => {
+        if (distance(stop, center) < distance(stop, centers[best])) best = index
+      })
+      return best
+    })
+
+    const changed = next.some((cluster, index) => cluster !== assignment[index])
+    assignment = next
+    if (!changed) break
+
+    centers.forEach((_, index) => {
+      const members = stops.filter((_, i) => assignment[i] === index)
+      if (members.length > 0) centers[index] = getCenter(members)
+    })
+  }
+
+  return centers
+    .map((_, index) => stops.filter((_, i) => assignment[i] === index))
+    .filter(cluster => cluster.length > 0)
+}
+
+/**
+ * Visiting order for one day - nearest neighbour from the start stop, then 2-opt
+ */
+export function orderStops(stops: TripStop[], start: TripStop = stops[0]): TripStop[] {
+  if (stops.length < 3) {
+    return start === stops[0] ? [...stops] : [...stops].reverse()
+  }
+
+  // Nearest neighbour
+  const route = [start]
+  const remaining = new Set(stops.filter(stop => stop !== start))
+  while (remaining.size > 0) {
+    const last = route[route.length - 1]
+    let nearest = remaining.values().next().value as TripStop
+    for (const stop of remaining) {
+      if (distance(last, stop) < distance(last, nearest)) nearest = stop
+    }
+    route.push(nearest)
+    remaining.delete(nearest)
+  }
+
+  // 2-opt - reverse a stretch of the route whenever that shortens it (the start stays put)
+  for (let pass = 0; pass < MAX_TWO_OPT_PASSES; pass++) {
+    let improved = false
+
+    for (let i = 1; i < route.length - 1; i++) {
+      for (let k = i + 1; k < route.length; k++) {
+        const before = route[i - 1]
+        const after = route[k + 1]
+        const removed = distance(before, route[i]) + (after ? distance(route[k], after) : 0)
+        const added = distance(before, route[k]) + (after ? distance(route[i], after) : 0)
+
+        if (added < removed - 1e-9) {
+          route.splice(i, k - i + 1, ...route.slice(i, k + 1).reverse())
+          improved = true
+        }
+      }
+    }
+
+    if (!improved) break
+  }
+
+  return route
+}
+
+/**
+ * Split the stops into days and order everything into an itinerary
+ */
+export function planTrip(stops: TripStop[], days: number): TripDay[] {
+  if (stops.length === 0) return []
+
+  const clusters = clusterStopsByDay(stops, days)
+
+  // Day order: start with the first stop added, then always the nearest remaining day
+  const first = clusters.find(cluster => cluster.includes(stops[0]))!
+  const remaining = clusters.filter(cluster => cluster !== first)
+  let route = orderStops(first, stops[0])
+  const plan: TripDay[] = [{ stops: route, distanceKm: getRouteDistance(route) }]
+
+  while (remaining.length > 0) {
+    // Next day starts at the stop closest to where the previous day ended
+    const end = route[route.length - 1]
+    let nextIndex = 0
+    let start = remaining[0][0]
+    remaining.forEach((cluster, index) => {
+      cluster.forEach(stop => {
+        if (distance(end, stop) < distance(end, start)) {
+          nextIndex = index
+          start = stop
+        }
+      })
+    })
+
+    route = orderStops(remaining.splice(nextIndex, 1)[0], start)
+    plan.push({ stops: route, distanceKm: getRouteDistance(route) })
+  }
+
+  return plan
+}
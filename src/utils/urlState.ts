@@ -0,0 +1,121 @@
+/**
+ * Shareable URL state - filters, camera, focused movie and selected location
+ * Query params (all optional):
+ *   genres=Horror,Drama  decades=1970-1979  streaming=Netflix  rating=7-10  top=1
+ *   map=zoom/lat/lng/bearing/pitch  focus=<movie_id>  loc=<location index>
+ * URL state takes precedence over localStorage when present.
+ */
+
+import type { FilterState } from '../types'
+
+export interface CameraState {
+  center: [number, number] // [lng, lat]
+  zoom: number
+  pitch: number
+  bearing: number
+}
+
+const FILTER_PARAMS = ['genres', 'decades', 'streaming', 'rating', 'top']
+
+function getParams(): URLSearchParams | null {
+  if (typeof window === 'undefined') return null
+  return new URLSearchParams(window.location.search)
+}
+
+function parseList(value: string | null): string[] {
+  return value ? value.split(',').map(item => item.trim()).filter(Boolean) : []
+}
+
+function parseRange(value: string | null, fallback: [number, number]): [number, number] {
+  if (!value) return fallback
+  const [min, max] = value.split('-').map(Number)
+  return Number.isFinite(min) && Number.isFinite(max) && min <= max ? [min, max] : fallback
+}
+
+/**
+ * Read filters from the URL (null when the URL carries no filter params)
+ */
+export function readFiltersFromUrl(defaults: FilterState): FilterState | null {
+  const params = getParams()
+  if (!params || !FILTER_PARAMS.some(key => params.has(key))) return null
+
+  return {
+    genres: parseList(params.get('genres')),
+    decades: parseRange(params.get('decades'), defaults.decades),
+    streaming: parseList(params.get('streaming')),
+    starRating: parseRange(params.get('rating'), defaults.starRating),
+    topIMDB: params.get('top') === '1',
+  }
+}
+
+/**
+ * Read the camera from the URL (null when missing or invalid)
+ */
+export function readCameraFromUrl(): CameraState | null {
+  const value = getParams()?.get('map')
+  if (!value) return null
+
+  const [zoom, lat, lng, bearing = 0, pitch = 0] = value.split('/').map(Number)
+  if (![zoom, lat, lng, bearing, pitch].every(Number.isFinite)) return null
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null
+
+  return { center: [lng, lat], zoom, pitch, bearing }
+}
+
+/**
+ * Read the focused movie id from the URL
+ */
+export function readFocusFromUrl(): string | null {
+  return getParams()?.get('focus') || null
+}
+
+/**
+ * Read the selected location index from the URL
+ */
+export function readLocationIndexFromUrl(): number | undefined {
+  const value = getParams()?.get('loc')
+  if (!value) return undefined
+  const index = Number(value)
+  return Number.isInteger(index) && index >= 0 ? index : undefined
+}
+
+/**
+ * Write filters into query params
+ */
+export function setFilterParams(params: URLSearchParams, filters: FilterState): void {
+  FILTER_PARAMS.forEach(key => params.delete(key))
+
+  if (filters.genres.length > 0) params.set('genres', filters.genres.join(','))
+  params.set('decades', `${filters.decades[0]}-${filters.decades[1]}`)
+  if (filters.streaming.length > 0) params.set('streaming', filters.streaming.join(','))
+  params.set('rating', `${filters.starRating[0]}-${filters.starRating[1]}`)
+  if (filters.topIMDB) params.set('top', '1')
+}
+
+/**
+ * Write the camera into query params (rounded to keep links short)
+ */
+export function setCameraParams(params: URLSearchParams, camera: CameraState): void {
+  const [lng, lat] = camera.center
+  params.set('map', [
+    camera.zoom.toFixed(2),
+    lat.toFixed(4),
+    lng.toFixed(4),
+    Math.round(camera.bearing),
+    Math.round(camera.pitch),
+  ].join('/'))
+}
+
+/**
+ * Update the current URL in place (no new history entry)
+ */
+export function replaceUrlParams(update: (params: URLSearchParams) => void): void {
+  if (typeof window === 'undefined') return
+
+  const url = new URL(window.location.href)
+  update(url.searchParams)
+  if (url.toString() !== window.location.href) {
+    // Keep history.state - Next.js stores its router state there
+    window.history.replaceState(window.history.state, '', url.toString())
+  }
+}
@@ -0,0 +1,227 @@
+/**
+ * Watch history - Letterboxd / IMDb CSV imports matched to our movies
+ * Rows are matched by IMDb id when the export has one (IMDb), otherwise by title and
+ * year, with a fuzzy title match for small differences ("Amélie" vs "Amelie").
+ * The stored history is versioned like "My list" (see favorites.ts).
+ */
+
+import { parse } from 'csv-parse/browser/esm/sync'
+import Fuse from 'fuse.js'
+import type { Movie, Place } from '../types'
+import { findLocationCountry } from '../../lib/countryNames'
+import { createCityFinder } from './placeSearch'
+
+export const WATCH_HISTORY_VERSION = 1
+
+export type WatchHistorySource = 'imdb' | 'letterboxd'
+
+export interface WatchHistory {
+  version: number
+  updatedAt: string // ISO date of the last change
+  movieIds: string[]
+}
+
+export const EMPTY_WATCH_HISTORY: WatchHistory = {
+  version: WATCH_HISTORY_VERSION,
+  updatedAt: new Date(0).toISOString(),
+  movieIds: [],
+}
+
+export interface WatchHistoryRow {
+  line: number // Line in the CSV file
+  title: string
+  year?: number
+  imdbId?: string
+}
+
+export interface WatchHistoryMatch {
+  movieIds: string[]
+  unmatched: WatchHistoryRow[]
+}
+
+export interface WatchedStats {
+  movies: number
+  locations: number
+  countries: { name: string; count: number }[] // Most filming locations first
+  continents: number
+  cities: { name: string; slug?: string }[] // Location page cities
+}
+
+// Title and year differ by a year now and then (festival vs. release year)
+const MAX_YEAR_DIFFERENCE = 1
+const FUZZY_THRESHOLD = 0.25
+
+const IMDB_ID_PATTERN = /tt\d{7,}/
+
+/**
+ * Read a stored history, dropping invalid ids
+ * Throws when the data isn't a watch history or comes from a newer version.
+ */
+export function parseWatchHistory(data: unknown): WatchHistory {
+  const history = data as Partial<WatchHistory> | null
+  if (!history || typeof history !== 'object' || !Array.isArray(history.movieIds)) {
+    throw new Error('Not a FilmingMap watch history')
+  }
+  const { version } = history
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error('Watch history has no valid version')
+  }
+  if (version > WATCH_HISTORY_VERSION) {
+    throw new Error('Watch history was made by a newer version of FilmingMap')
+  }
+
+  return {
+    version: WATCH_HISTORY_VERSION,
+    updatedAt: typeof history.updatedAt === 'string' ? history.updatedAt : new Date().toISOString(),
+    movieIds: Array.from(new Set(history.movieIds.filter((id): id is string => typeof id === 'string' && id.length > 0))),
+  }
+}
+
+/**
+ * Parse a Letterboxd (watched.csv, diary.csv, ratings.csv) or IMDb (ratings, lists) export
+ * Throws when the columns don't match either site.
+ */
+export function parseWatchHistoryCsv(text: string): { source: WatchHistorySource; rows: WatchHistoryRow[] } {
+  const records: { record: Record<string, string>; info: { lines: number } }[] = parse(text, {
+    columns: true,
+    bom: true,
+    trim: true,
+    skip_empty_lines: true,
+    relax_column_count: true,
+    info: true,
+  })
+
+  const columns = records.length > 0 ? Object.keys(records[0].record) : []
+  const source: WatchHistorySource | null = columns.includes('Const')
+    ? 'imdb'
+    : columns.includes('Name') && columns.includes('Letterboxd URI') ? 'letterboxd' : null
+  if (!source) {
+    throw new Error('Not a Letterboxd or IMDb export - expected a "Name" and "Letterboxd URI" or a "Const" column')
+  }
+
+  const rows = records.flatMap(({ record, info }): WatchHistoryRow[] => {
+    const title = source === 'imdb' ? record['Title'] || record['Original Title'] : record['Name']
+    if (!title) return []
+
+    const year = parseInt(record['Year'], 10)
+    const imdbId = source === 'imdb' ? (record['Const'] || record['URL'] || '').match(IMDB_ID_PATTERN)?.[0] : undefined
+
+    return [{
+      line: info.lines,
+      title,
+      ...(Number.isFinite(year) && { year }),
+      ...(imdbId && { imdbId }),
+    }]
+  })
+
+  return { source, rows }
+}
+
+/**
+ * Title for comparisons - lowercase, no accents, punctuation or leading article
+ */
+export function normalizeTitle(title: string): string {
+  return title
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .replace(/^(the|a|an) /, '')
+}
+
+/**
+ * Closest release year among the candidates (within MAX_YEAR_DIFFERENCE)
+ * Without a year only an unambiguous title matches.
+ */
+function pickByYear(candidates: Movie[], year?: number): Movie | null {
+  if (year === undefined) return candidates.length === 1 ? candidates[0] : null
+
+  let best: Movie | null = null
+  for (const movie of candidates) {
+    const difference = Math.abs(movie.year - year)
+    if (difference <= MAX_YEAR_DIFFERENCE && (!best || difference < Math.abs(best.year - year))) {
+      best = movie
+    }
+  }
+  return best
+}
+
+/**
+ * Match history rows to movies - IMDb id, then exact title and year, then fuzzy title and year
+ */
+export function matchWatchHistory(rows: WatchHistoryRow[], movies: readonly Movie[]): WatchHistoryMatch {
+  const byId = new Map(movies.map(movie => [movie.movie_id, movie]))
+  const byTitle = new Map<string, Movie[]>()
+  movies.forEach(movie => {
+    const key = normalizeTitle(movie.title)
+    byTitle.set(key, [...(byTitle.get(key) || []), movie])
+  })
+
+  // Built on the first row that needs it
+  let fuse: Fuse<Movie & { normalizedTitle: string }> | null = null
+  const fuzzyMatch = (row: WatchHistoryRow): Movie | null => {
+    if (row.year === undefined) return null
+    fuse ??= new Fuse(
+      movies.map(movie => ({ ...movie, normalizedTitle: normalizeTitle(movie.title) })),
+      { keys: ['normalizedTitle'], threshold: FUZZY_THRESHOLD, includeScore: true }
+    )
+    return pickByYear(fuse.search(normalizeTitle(row.title), { limit: 10 }).map(result => result.item), row.year)
+  }
+
+  const movieIds = new Set<string>()
+  const unmatched: WatchHistoryRow[] = []
+
+  for (const row of rows) {
+    const movie = (row.imdbId && byId.get(row.imdbId))
+      || pickByYear(byTitle.get(normalizeTitle(row.title)) || [], row.year)
+      || fuzzyMatch(row)
+
+    if (movie) {
+      movieIds.add(movie.movie_id)
+    } else {
+      unmatched.push(row)
+    }
+  }
+
+  return { movieIds: Array.from(movieIds), unmatched }
+}
+
+/**
+ * Where the watched movies were filmed - countries, continents and location page cities
+ */
+export function getWatchedStats(movies: readonly Movie[], movieIds: string[], places: Place[]): WatchedStats {
+  const ids = new Set(movieIds)
+  const watched = movies.filter(movie => ids.has(movie.movie_id))
+  const findCity = createCityFinder(places)
+
+  const countries = new Map<string, number>()
+  const continents = new Set<string>()
+  const cities = new Set<Place>()
+  let locations = 0
+
+  for (const movie of watched) {
+    for (const location of movie.locations) {
+      locations++
+
+      const country = findLocationCountry(location)
+      if (country) {
+        countries.set(country.english, (countries.get(country.english) || 0) + 1)
+        continents.add(country.continent)
+      }
+
+      const city = findCity(location.lng, location.lat)
+      if (city) cities.add(city)
+    }
+  }
+
+  return {
+    movies: watched.length,
+    locations,
+    countries: Array.from(countries, ([name, count]) => ({ name, count })).sort((a, b) => b.count - a.count),
+    continents: continents.size,
+    cities: Array.from(cities, city => ({ name: city.name, ...(city.slug && { slug: city.slug }) }))
+      .sort((a, b) => a.name.localeCompare(b.name)),
+  }
+}
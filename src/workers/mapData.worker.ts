@@ -0,0 +1,246 @@
+/**
+ * Map data worker - tile loading, filter evaluation and marker preparation
+ * Keeps the heavy data work off the main thread so the globe stays smooth
+ * while filters change (see mapDataProtocol.ts for the messages).
+ */
+
+import type { Movie, FilterState } from '../types'
+import type { GeoJSONFeature } from '../utils/map/geoJsonHelpers'
+import type { MapDataRequest, MapDataResponse } from './mapDataProtocol'
+import { convertMovieToFeature, createGeoJSONCollection } from '../utils/map/geoJsonHelpers'
+import { flattenMultiPointFeatures } from '../utils/map/coordinateUtils'
+import { getTileZoom, getTilesForViewport, loadMovieCatalog, loadTile, loadTileIndex } from '../utils/map/tileLoader'
+import type { ViewportBounds } from '../utils/map/tileLoader'
+import { loadMovieDetail } from '../utils/movieDetailLoader'
+import { loadAllMovies } from '../utils/map/binaryMapData'
+import { filterMovies } from '../utils/helpers'
+import { findLocationCountry } from '../../lib/countryNames'
+
+// The tsconfig only ships DOM typings, so describe the worker scope we use
+const ctx = self as unknown as {
+  postMessage: (message: MapDataResponse) => void
+  onmessage: ((event: MessageEvent<MapDataRequest>) => void) | null
+}
+
+// Worker state
+let catalog: Movie[] | null = null
+let filters: FilterState | null = null
+let filterVersion = 0
+let focusedMovieId: string | null = null
+let focusedFeature: GeoJSONFeature | null = null
+let area: [number, number, number, number] | null = null
+let tilesReady = false
+const loadedTiles = new Set<string>()
+const loadedFeatures: GeoJSONFeature[] = []
+let densityEnabled = false
+let allMovies: Movie[] | null = null // Every movie with all its locations (density layers)
+
+function post(message: MapDataResponse) {
+  ctx.postMessage(message)
+}
+
+/**
+ * Post density data for every location of the filtered movies
+ * Loaded tiles are capped per zoom, so counts taken from them would change while panning.
+ */
+function renderDensity() {
+  if (!densityEnabled || !allMovies || !catalog || !filters) return
+
+  let movies: Movie[]
+  if (focusedMovieId) {
+    movies = allMovies.filter(movie => movie.movie_id === focusedMovieId)
+  } else {
+    const filteredIds = new Set(filterMovies(catalog, filters).map(m => m.movie_id))
+    movies = allMovies.filter(movie => filteredIds.has(movie.movie_id))
+  }
+
+  const features: GeoJSON.Feature[] = []
+  // Distinct movies per country (ISO code)
+  const moviesByCountry = new Map<string, Set<string>>()
+
+  movies.forEach(movie => {
+    movie.locations.forEach(location => {
+      // Place search - keep only locations inside the chosen place
+      if (area && !focusedMovieId) {
+        const [west, south, east, north] = area
+        if (location.lng < west || location.lng > east || location.lat < south || location.lat > north) return
+      }
+
+      features.push({
+        type: 'Feature',
+        geometry: { type: 'Point', coordinates: [location.lng, location.lat] },
+        properties: { movie_id: movie.movie_id }
+      })
+
+      const country = findLocationCountry(location)
+      if (!country) return
+      let countryMovies = moviesByCountry.get(country.iso)
+      if (!countryMovies) {
+        countryMovies = new Set()
+        moviesByCountry.set(country.iso, countryMovies)
+      }
+      countryMovies.add(movie.movie_id)
+    })
+  })
+
+  post({
+    type: 'density',
+    version: filterVersion,
+    collection: { type: 'FeatureCollection', features },
+    countryCounts: Object.fromEntries(Array.from(moviesByCountry, ([iso, movies]) => [iso, movies.size]))
+  })
+}
+
+/**
+ * Filter loaded features and post them as a render-ready collection
+ * Waits until the catalogue, filters and first tiles are all available
+ */
+function render() {
+  if (!catalog || !filters || !tilesReady) return
+
+  let features: GeoJSONFeature[]
+
+  if (focusedMovieId) {
+    // Prefer the detail file (all locations) over whatever tiles are loaded
+    features = focusedFeature
+      ? [focusedFeature]
+      : loadedFeatures.filter(f => f.properties.movie_id === focusedMovieId)
+  } else {
+    const filteredIds = new Set(filterMovies(catalog, filters).map(m => m.movie_id))
+    features = loadedFeatures.filter(f => filteredIds.has(f.properties.movie_id))
+  }
+
+  let points = flattenMultiPointFeatures(features)
+
+  // Place search - keep only locations inside the chosen place
+  if (area && !focusedMovieId) {
+    const [west, south, east, north] = area
+    points = points.filter(point => {
+      const [lng, lat] = point.geometry.coordinates
+      return lng >= west && lng <= east && lat >= south && lat <= north
+    })
+  }
+
+  post({
+    type: 'render',
+    version: filterVersion,
+    collection: createGeoJSONCollection(points)
+  })
+}
+
+/**
+ * Load the movie catalogue
+ */
+async function handleInit() {
+  post({ type: 'progress', progress: 10, stage: 'Loading movie catalogue...' })
+
+  try {
+    catalog = await loadMovieCatalog()
+    post({ type: 'catalog', movies: catalog })
+    post({ type: 'progress', progress: 30, stage: 'Loading map tiles...' })
+    render()
+    renderDensity()
+  } catch (error) {
+    post({ type: 'error', message: `Failed to load movie catalogue: ${error}` })
+  }
+}
+
+/**
+ * Load tiles intersecting the viewport (already loaded tiles are skipped)
+ */
+async function handleViewport(bounds: ViewportBounds, zoom: number) {
+  try {
+    const index = await loadTileIndex()
+    const keys = getTilesForViewport(bounds, getTileZoom(zoom, index), index)
+      .filter(key => !loadedTiles.has(key))
+
+    const tiles = await Promise.all(keys.map(loadTile))
+
+    // Another viewport message may have loaded some of these tiles in the meantime
+    const newFeatures: GeoJSONFeature[] = []
+    keys.forEach((key, i) => {
+      if (loadedTiles.has(key) || tiles[i].length === 0) return
+      loadedTiles.add(key)
+      newFeatures.push(...tiles[i])
+    })
+
+    if (!tilesReady) {
+      tilesReady = true
+      post({ type: 'progress', progress: 45, stage: 'Preparing markers...' })
+    } else if (newFeatures.length === 0) {
+      return
+    }
+
+    loadedFeatures.push(...newFeatures)
+    if (newFeatures.length > 0) {
+      post({ type: 'tiles', features: newFeatures })
+    }
+    render()
+  } catch (error) {
+    post({ type: 'error', message: `Failed to load map tiles: ${error}` })
+  }
+}
+
+/**
+ * Apply new filters / focus / place area and re-render
+ */
+async function handleFilter(
+  version: number,
+  nextFilters: FilterState,
+  nextFocusedMovieId: string | null,
+  nextArea: [number, number, number, number] | null
+) {
+  filterVersion = version
+  filters = nextFilters
+  area = nextArea
+
+  if (nextFocusedMovieId !== focusedMovieId) {
+    focusedMovieId = nextFocusedMovieId
+    focusedFeature = null
+
+    if (nextFocusedMovieId) {
+      // Tiles only hold the locations loaded so far - take all of them from the detail file
+      const movie = await loadMovieDetail(nextFocusedMovieId)
+      // Focus may have changed while the detail file was loading
+      if (focusedMovieId !== nextFocusedMovieId) return
+      focusedFeature = movie ? convertMovieToFeature(movie) : null
+    }
+  }
+
+  render()
+  renderDensity()
+}
+
+/**
+ * Turn density data on or off - every movie's locations are loaded the first time
+ */
+async function handleDensity(enabled: boolean) {
+  densityEnabled = enabled
+  if (!enabled) return
+
+  try {
+    if (!allMovies) allMovies = await loadAllMovies()
+    renderDensity()
+  } catch (error) {
+    post({ type: 'error', message: `Failed to load density data: ${error}` })
+  }
+}
+
+ctx.onmessage = (event: MessageEvent<MapDataRequest>) => {
+  const message = event.data
+
+  switch (message.type) {
+    case 'init':
+      handleInit()
+      break
+    case 'viewport':
+      handleViewport(message.bounds, message.zoom)
+      break
+    case 'filter':
+      handleFilter(message.version, message.filters, message.focusedMovieId, message.area)
+      break
+    case 'density':
+      handleDensity(message.enabled)
+      break
+  }
+}
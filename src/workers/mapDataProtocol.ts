@@ -0,0 +1,44 @@
+/**
+ * Message protocol between useMapMarkers and the map data worker
+ * The worker owns the catalogue, loaded tiles and filter state; the main thread
+ * only receives ready-to-render feature collections.
+ */
+
+import type { Movie, FilterState } from '../types'
+import type { GeoJSONFeature } from '../utils/map/geoJsonHelpers'
+import type { ViewportBounds } from '../utils/map/tileLoader'
+
+/**
+ * Main thread -> worker
+ */
+export type MapDataRequest =
+  // Load the movie catalogue
+  | { type: 'init' }
+  // Load tiles for the current camera
+  | { type: 'viewport'; bounds: ViewportBounds; zoom: number }
+  // Update filters / focused movie / place area ([west, south, east, north]);
+  // replies with a 'render' carrying the same version
+  | {
+      type: 'filter'
+      version: number
+      filters: FilterState
+      focusedMovieId: string | null
+      area: [number, number, number, number] | null
+    }
+  // Heatmap / choropleth shown or hidden - density data is only built while one is
+  | { type: 'density'; enabled: boolean }
+
+/**
+ * Worker -> main thread
+ */
+export type MapDataResponse =
+  | { type: 'progress'; progress: number; stage: string }
+  | { type: 'catalog'; movies: Movie[] }
+  // Raw features of newly loaded tiles (used for marker interactions)
+  | { type: 'tiles'; features: GeoJSONFeature[] }
+  // Filtered, flattened Point features ready for the 'movies' source
+  | { type: 'render'; version: number; collection: GeoJSON.FeatureCollection }
+  // Every location of the filtered movies for the heatmap (the whole catalogue, not just
+  // the loaded tiles), plus distinct movies per country (ISO code) for the choropleth
+  | { type: 'density'; version: number; collection: GeoJSON.FeatureCollection; countryCounts: Record<string, number> }
+  | { type: 'error'; message: string }